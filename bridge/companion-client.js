@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+
+/**
+ * Reference client for the bridge's Companion / Stream Deck protocol - what a
+ * Companion module does, in one file. Needs a global WebSocket (Node 22+, or
+ * Node 20 with --experimental-websocket).
+ *
+ *   node bridge/companion-client.js                 # live feedbacks, type actions
+ *   node bridge/companion-client.js next "+60"      # run actions, print, exit
+ *   node bridge/companion-client.js --url ws://192.168.1.20:8765 --token s3cret
+ *
+ * Actions: start, pause, toggle, next, previous, +60 / -30 (seconds),
+ * preset <n>, hide, blackout [on|off]
+ */
+
+import { createInterface } from 'node:readline';
+
+function readOption(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+  const [value] = process.argv.splice(index, 2).slice(1);
+  return value ?? fallback;
+}
+
+const BRIDGE_URL = readOption('url', 'ws://localhost:8765').replace(/\/+$/, '');
+const TOKEN = readOption('token', '');
+const ACTIONS = process.argv.slice(2); // Anything left runs once, in order
+
+/**
+ * Turns a typed line into a protocol action, or null
+ */
+function parseAction(line) {
+  const [word, arg] = line.trim().split(/\s+/);
+
+  if (/^[+-]\d+$/.test(word)) {
+    return { action: 'addTime', seconds: Number(word) };
+  }
+  switch (word) {
+    case 'start':
+    case 'pause':
+    case 'toggle':
+    case 'next':
+    case 'previous':
+      return { action: word };
+    case 'preset':
+      return { action: 'showPreset', preset: Number(arg) };
+    case 'hide':
+      return { action: 'hideMessage' };
+    case 'blackout':
+      return arg
+        ? { action: 'blackout', on: arg === 'on' }
+        : { action: 'blackout' };
+    default:
+      return null;
+  }
+}
+
+// One line per update - roughly what a row of buttons would show
+function printFeedback(feedbacks) {
+  const timer = feedbacks.timerIndex
+    ? `${feedbacks.timerIndex}/${feedbacks.timerCount} ${feedbacks.timerName}`
+    : 'No timer';
+  const message = feedbacks.messageLive ? `💬 "${feedbacks.message}"` : '';
+  const blackout = feedbacks.blackout ? '⬛ blackout' : '';
+
+  console.log(
+    [
+      feedbacks.controllerConnected ? '🟢' : '🔴',
+      timer,
+      feedbacks.remaining,
+      `[${feedbacks.statusColor} ${feedbacks.color}]`,
+      message,
+      blackout,
+    ]
+      .filter(Boolean)
+      .join('  ')
+  );
+}
+
+if (typeof WebSocket === 'undefined') {
+  console.error(
+    '❌ This Node has no WebSocket - use Node 22+ or add --experimental-websocket'
+  );
+  process.exit(1);
+}
+
+const query = TOKEN ? `?token=${encodeURIComponent(TOKEN)}` : '';
+const socket = new WebSocket(`${BRIDGE_URL}/companion${query}`);
+const pending = new Map(); // id -> resolve
+let nextId = 1;
+let closing = false;
+
+function send(action) {
+  const id = nextId++;
+  socket.send(JSON.stringify({ ...action, id }));
+  return new Promise((resolve) => pending.set(id, resolve));
+}
+
+socket.addEventListener('message', (event) => {
+  const message = JSON.parse(event.data);
+
+  if (message.type === 'feedback') {
+    printFeedback(message.feedbacks);
+  } else if (message.type === 'result') {
+    if (!message.ok) console.log(`⚠️ ${message.error}`);
+    pending.get(message.id)?.(message.ok);
+    pending.delete(message.id);
+  }
+});
+
+socket.addEventListener('close', () => {
+  if (closing) process.exit(0);
+  console.log('🔌 Bridge closed the connection');
+  process.exit(1);
+});
+
+socket.addEventListener('error', () => {
+  console.error(`❌ Could not reach ${BRIDGE_URL}/companion`);
+  process.exit(1);
+});
+
+socket.addEventListener('open', async () => {
+  // One-shot: run the given actions, let the feedback settle, then exit
+  if (ACTIONS.length > 0) {
+    let ok = true;
+    for (const line of ACTIONS) {
+      const action = parseAction(line);
+      if (!action) {
+        console.log(`⚠️ Unknown action "${line}"`);
+        ok = false;
+        continue;
+      }
+      ok = (await send(action)) && ok;
+    }
+    setTimeout(() => process.exit(ok ? 0 : 1), 500);
+    return;
+  }
+
+  const input = createInterface({ input: process.stdin });
+  input.on('line', (line) => {
+    if (!line.trim()) return;
+    const action = parseAction(line);
+    if (action) {
+      send(action);
+    } else {
+      console.log(`⚠️ Unknown action "${line.trim()}"`);
+    }
+  });
+  input.on('close', () => {
+    closing = true;
+    socket.close();
+  });
+});
@@ -0,0 +1,1050 @@
+#!/usr/bin/env node
+
+/**
+ * Stage timer control bridge
+ *
+ * A small LAN server that lets stream decks, show-control software and
+ * scripts drive the timers without the internet. The controller page
+ * connects to it over WebSocket (/controller) and publishes its state; the
+ * bridge serves that state and relays commands back over REST, a second
+ * WebSocket endpoint (/ws) and OSC over UDP. It also relays WebRTC
+ * signalling (/signal) so displays can connect straight to the controller
+ * on the LAN. No dependencies - run it with plain node:
+ *
+ *   node bridge/index.js [--port 8765] [--host 0.0.0.0] [--token secret]
+ *                        [--allow-origin https://app.example,...]
+ *                        [--osc-port 8000] [--osc-host 127.0.0.1]
+ *                        [--osc-allow address,...] [--osc-out host:port,...]
+ *
+ * See bridge/README.md for the API.
+ */
+
+import { createServer } from 'node:http';
+import { createSocket } from 'node:dgram';
+import { randomUUID } from 'node:crypto';
+import { networkInterfaces } from 'node:os';
+import { acceptWebSocket } from './websocket.js';
+import { decodeOscPacket, encodeOscMessage } from './osc.js';
+
+const COMMAND_TIMEOUT_MS = 5000;
+const TICK_INTERVAL_MS = 1000;
+const FEEDBACK_INTERVAL_MS = 250; // Catches every second boundary
+const OSC_PREFIX = '/stagetimer';
+
+// Command line flags, falling back to environment variables
+function readOption(name, envName, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index !== -1 && process.argv[index + 1]) return process.argv[index + 1];
+  return process.env[envName] || fallback;
+}
+
+const PORT = Number(readOption('port', 'BRIDGE_PORT', '8765'));
+const TOKEN = readOption('token', 'BRIDGE_TOKEN', '');
+// Without a token anyone who can reach the bridge controls the timers, so
+// it stays on this computer unless it's opened up on purpose
+const HOST = readOption('host', 'BRIDGE_HOST', TOKEN ? '0.0.0.0' : '127.0.0.1');
+// Web pages allowed to use the bridge besides ones served from this computer,
+// e.g. the hosted app the controller runs in
+const ALLOWED_ORIGINS = new Set(
+  readOption('allow-origin', 'BRIDGE_ALLOW_ORIGIN', '')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean)
+);
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+const OSC_PORT = Number(readOption('osc-port', 'BRIDGE_OSC_PORT', '8000')); // 0 turns OSC input off
+// OSC can't carry the token, so with one set OSC input stays on this computer
+// unless it's opened up on purpose
+const OSC_HOST = readOption(
+  'osc-host',
+  'BRIDGE_OSC_HOST',
+  TOKEN ? '127.0.0.1' : HOST
+);
+// Sender addresses OSC input is accepted from - empty accepts any
+const OSC_ALLOW = new Set(
+  readOption('osc-allow', 'BRIDGE_OSC_ALLOW', '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean)
+);
+const OSC_OUT = readOption('osc-out', 'BRIDGE_OSC_OUT', '')
+  .split(',')
+  .map((target) => target.trim())
+  .filter(Boolean)
+  .map((target) => {
+    const separator = target.lastIndexOf(':');
+    return {
+      host: target.slice(0, separator),
+      port: Number(target.slice(separator + 1)),
+    };
+  })
+  .filter(({ host, port }) => host && port > 0);
+
+const ACTIONS = [
+  'start',
+  'pause',
+  'reset',
+  'toggle',
+  'adjust',
+  'select',
+  'next',
+  'previous',
+  'showMessage',
+  'showPreset',
+  'hideMessage',
+  'blackout',
+  'flash',
+];
+
+// Bridge state
+let controller = null;
+let controllerState = null;
+let clockOffset = 0; // Controller server time minus our clock (ms)
+const clients = new Set();
+const companionClients = new Set();
+const pendingCommands = new Map(); // command id -> { resolve, timeout }
+
+// --- State -----------------------------------------------------------------
+
+// "-1:05", "12:30", "1:02:03"
+function formatSeconds(totalSeconds) {
+  const sign = totalSeconds < 0 ? '-' : '';
+  const absolute = Math.abs(totalSeconds);
+  const hours = Math.floor(absolute / 3600);
+  const minutes = Math.floor((absolute % 3600) / 60);
+  const seconds = (absolute % 60).toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${sign}${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${sign}${minutes}:${seconds}`;
+}
+
+// Same maths as src/utils/timeline.ts - times resolve against the
+// controller's server clock, so every consumer sees the same numbers
+function resolveTimer(timer, now) {
+  const elapsedMs =
+    timer.startedAt === null
+      ? 0
+      : Math.max(
+          0,
+          (timer.pausedAt ?? now) - timer.startedAt - timer.accumulatedPause
+        );
+  const elapsedTime = Math.floor(elapsedMs / 1000);
+  const currentTime =
+    timer.type === 'countdown' ? timer.initialTime - elapsedTime : elapsedTime;
+
+  return {
+    ...timer,
+    elapsedTime,
+    currentTime,
+    display: formatSeconds(currentTime),
+    overrun: timer.type === 'countdown' && currentTime < 0,
+  };
+}
+
+function getResolvedState() {
+  if (!controllerState) return null;
+
+  const now = Date.now() + clockOffset;
+  const timers = [...controllerState.timers]
+    .sort((a, b) => a.order - b.order)
+    .map((timer) => resolveTimer(timer, now));
+
+  return {
+    ...controllerState,
+    serverTime: now,
+    timers,
+    activeTimer:
+      timers.find((t) => t.id === controllerState.activeTimerId) ?? null,
+  };
+}
+
+function hasRunningTimer() {
+  return !!controllerState?.timers.some((t) => t.status === 'running');
+}
+
+// --- Clients ---------------------------------------------------------------
+
+function sendJson(connection, message) {
+  connection.send(JSON.stringify(message));
+}
+
+function broadcastState() {
+  const state = getResolvedState();
+  const message = JSON.stringify({
+    type: 'state',
+    controllerConnected: !!controller,
+    state,
+  });
+  clients.forEach((client) => client.send(message));
+}
+
+function notifyClientCount() {
+  if (controller) {
+    sendJson(controller, {
+      type: 'clients',
+      count: clients.size + companionClients.size,
+    });
+  }
+}
+
+// Remote clients get a fresh state every second while a timer runs
+setInterval(() => {
+  if (clients.size > 0 && hasRunningTimer()) broadcastState();
+}, TICK_INTERVAL_MS);
+
+// --- Commands --------------------------------------------------------------
+
+/**
+ * Checks a command from a client and returns it in the controller's shape,
+ * or an error message
+ */
+function validateCommand(input) {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Expected a JSON object' };
+  }
+
+  const { action } = input;
+  if (!ACTIONS.includes(action)) {
+    return {
+      error: `Unknown action "${action}". Expected one of: ${ACTIONS.join(', ')}`,
+    };
+  }
+
+  const command = { action };
+  if (input.timerId !== undefined && input.timerId !== 'active') {
+    if (typeof input.timerId !== 'string') {
+      return { error: 'timerId must be a string' };
+    }
+    command.timerId = input.timerId;
+  }
+
+  switch (action) {
+    case 'adjust': {
+      const seconds = Number(input.seconds);
+      if (!Number.isFinite(seconds) || seconds === 0) {
+        return { error: 'adjust needs a non-zero number of seconds' };
+      }
+      command.seconds = Math.round(seconds);
+      break;
+    }
+    case 'select':
+      if (!command.timerId) return { error: 'select needs a timerId' };
+      break;
+    case 'showMessage':
+      if (typeof input.text !== 'string' || !input.text.trim()) {
+        return { error: 'showMessage needs some text' };
+      }
+      command.text = input.text;
+      break;
+    case 'showPreset': {
+      const index = Number(input.index);
+      if (!Number.isInteger(index) || index < 1) {
+        return { error: 'showPreset needs a preset number from 1' };
+      }
+      command.index = index;
+      break;
+    }
+    case 'blackout':
+      if (input.on !== undefined) command.on = Boolean(input.on);
+      break;
+    default:
+      break;
+  }
+
+  return { command };
+}
+
+/**
+ * Sends a command (or, for OSC, an app action) to the controller page and
+ * waits for its answer
+ */
+function relayToController(message) {
+  if (!controller) {
+    return Promise.resolve({
+      ok: false,
+      status: 503,
+      error: 'No controller connected',
+    });
+  }
+
+  const id = randomUUID();
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      pendingCommands.delete(id);
+      resolve({
+        ok: false,
+        status: 504,
+        error: 'The controller did not answer in time',
+      });
+    }, COMMAND_TIMEOUT_MS);
+
+    pendingCommands.set(id, { resolve, timeout });
+    sendJson(controller, { ...message, id });
+  });
+}
+
+async function runCommand(input) {
+  const { command, error } = validateCommand(input);
+  if (error) return { ok: false, status: 400, error };
+
+  const result = await relayToController({ type: 'command', command });
+  console.log(
+    result.ok ? '✅' : '⚠️',
+    command.action,
+    command.timerId ?? '',
+    result.ok ? '' : `- ${result.error}`
+  );
+  return result;
+}
+
+// --- WebSocket endpoints ---------------------------------------------------
+
+function attachController(connection) {
+  if (controller) {
+    console.log('🔁 A new controller replaced the previous one');
+    controller.close(4000);
+  }
+  controller = connection;
+  console.log('🎛️ Controller connected');
+  notifyClientCount();
+
+  connection.on('message', (text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'state' && message.state) {
+      controllerState = message.state;
+      clockOffset = message.state.serverTime - Date.now();
+      broadcastState();
+      sendOscFeedback();
+      pushCompanionFeedback();
+    } else if (message.type === 'result') {
+      const pending = pendingCommands.get(message.id);
+      if (!pending) return;
+
+      clearTimeout(pending.timeout);
+      pendingCommands.delete(message.id);
+      pending.resolve(
+        message.ok
+          ? { ok: true }
+          : { ok: false, status: 422, error: message.error || 'Command failed' }
+      );
+    }
+  });
+
+  connection.on('close', () => {
+    if (controller !== connection) return;
+    controller = null;
+    console.log('🔌 Controller disconnected');
+    broadcastState();
+    sendOscFeedback();
+    pushCompanionFeedback();
+  });
+}
+
+function attachClient(connection) {
+  clients.add(connection);
+  console.log(`📡 Client connected (${clients.size})`);
+  notifyClientCount();
+  sendJson(connection, {
+    type: 'state',
+    controllerConnected: !!controller,
+    state: getResolvedState(),
+  });
+
+  connection.on('message', async (text) => {
+    let input;
+    try {
+      input = JSON.parse(text);
+    } catch {
+      sendJson(connection, {
+        type: 'result',
+        ok: false,
+        error: 'Invalid JSON',
+      });
+      return;
+    }
+
+    const { status: _status, ...result } = await runCommand(input);
+    sendJson(connection, { type: 'result', id: input?.id, ...result });
+  });
+
+  connection.on('close', () => {
+    clients.delete(connection);
+    notifyClientCount();
+  });
+}
+
+// --- OSC -------------------------------------------------------------------
+
+const oscSocket = createSocket('udp4');
+const oscValues = new Map(); // Last value sent per address
+const TIMER_VERBS = {
+  start: 'START_TIMER',
+  pause: 'PAUSE_TIMER',
+  stop: 'STOP_TIMER',
+  reset: 'RESET_TIMER',
+};
+
+function readNumber(value) {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Timers are addressed by their position in the show (1-based) or their id
+function resolveOscTimerId(ref) {
+  if (!/^\d+$/.test(ref)) return ref;
+  return getResolvedState()?.timers[Number(ref) - 1]?.id ?? null;
+}
+
+function getNeighbourTimerId(step) {
+  const state = getResolvedState();
+  if (!state) return null;
+
+  const index = state.timers.findIndex((t) => t.id === state.activeTimerId);
+  return state.timers[index + step]?.id ?? null;
+}
+
+/**
+ * Maps an incoming OSC message to an app action (TimerAction or
+ * MessageAction in src/types/index.ts). Returns { action }, { skip } when
+ * nothing needs to change, or { error }.
+ */
+function oscToAction(address, args) {
+  if (!address.startsWith(`${OSC_PREFIX}/`)) {
+    return { error: `Addresses start with ${OSC_PREFIX}/` };
+  }
+  const parts = address.slice(OSC_PREFIX.length + 1).split('/');
+  const [first, second, third] = parts;
+
+  if (first === 'timer') {
+    // /stagetimer/timer/start - the active timer
+    if (parts.length === 2 && TIMER_VERBS[second]) {
+      return { action: { type: TIMER_VERBS[second] } };
+    }
+    // /stagetimer/timer/add 60
+    if (parts.length === 2 && second === 'add') {
+      const seconds = readNumber(args[0]);
+      if (!seconds) return { error: 'add needs a non-zero number of seconds' };
+      return {
+        action: {
+          type: 'ADJUST_TIME',
+          payload: { seconds: Math.round(seconds) },
+        },
+      };
+    }
+    // /stagetimer/timer/next
+    if (parts.length === 2 && (second === 'next' || second === 'previous')) {
+      const timerId = getNeighbourTimerId(second === 'next' ? 1 : -1);
+      if (!timerId) return { error: `There is no ${second} timer` };
+      return { action: { type: 'SELECT_TIMER', payload: { timerId } } };
+    }
+    // /stagetimer/timer/3/start, /stagetimer/timer/3/add 60
+    if (parts.length === 3) {
+      const timerId = resolveOscTimerId(decodeURIComponent(second));
+      if (!timerId) return { error: `No timer at position ${second}` };
+
+      if (TIMER_VERBS[third]) {
+        return { action: { type: TIMER_VERBS[third], payload: { timerId } } };
+      }
+      if (third === 'select') {
+        return { action: { type: 'SELECT_TIMER', payload: { timerId } } };
+      }
+      if (third === 'add') {
+        const seconds = readNumber(args[0]);
+        if (!seconds) {
+          return { error: 'add needs a non-zero number of seconds' };
+        }
+        return {
+          action: {
+            type: 'ADJUST_TIME',
+            payload: { seconds: Math.round(seconds), timerId },
+          },
+        };
+      }
+    }
+  }
+
+  if (first === 'message') {
+    // /stagetimer/message "text" - an empty string hides it
+    if (parts.length === 1) {
+      const text = args[0] === undefined ? '' : String(args[0]);
+      if (!text.trim()) return { action: { type: 'CLEAR_ALL_MESSAGES' } };
+      return {
+        action: {
+          type: 'SHOW_MESSAGE',
+          payload: {
+            id: randomUUID(),
+            text,
+            isVisible: true,
+            createdAt: Date.now(),
+          },
+        },
+      };
+    }
+    if (parts.length === 2 && (second === 'hide' || second === 'clear')) {
+      return { action: { type: 'CLEAR_ALL_MESSAGES' } };
+    }
+  }
+
+  // /stagetimer/blackout toggles, /stagetimer/blackout 1 sets it
+  if (first === 'blackout' && parts.length === 1) {
+    if (args[0] !== undefined && args[0] !== null) {
+      const on = Boolean(readNumber(args[0]) ?? args[0] === 'true');
+      if (on === !!controllerState?.blackout) return { skip: true };
+    }
+    return { action: { type: 'TOGGLE_BLACKOUT' } };
+  }
+
+  if (first === 'flash' && parts.length === 1) {
+    return { action: { type: 'TOGGLE_FLASH' } };
+  }
+
+  return { error: `Unknown OSC address ${address}` };
+}
+
+async function handleOscMessage({ address, args }) {
+  // Sends every feedback value again, e.g. after a desk restarts
+  if (address === `${OSC_PREFIX}/refresh`) {
+    sendOscFeedback(true);
+    return;
+  }
+
+  const { action, skip, error } = oscToAction(address, args);
+  if (skip) return;
+  if (error) {
+    console.log('⚠️', address, `- ${error}`);
+    return;
+  }
+
+  const result = await relayToController({ type: 'action', action });
+  console.log(
+    result.ok ? '🎚️' : '⚠️',
+    address,
+    args.join(' '),
+    result.ok ? '' : `- ${result.error}`
+  );
+}
+
+function sendOsc(address, args) {
+  const packet = encodeOscMessage(address, args);
+  OSC_OUT.forEach(({ host, port }) => {
+    oscSocket.send(packet, port, host, (error) => {
+      if (error) console.error(`❌ OSC send to ${host}:${port} failed:`, error);
+    });
+  });
+}
+
+/**
+ * Sends the active timer and display state to the OSC targets. Only values
+ * that changed go out unless forced, so cues can trigger on each message.
+ */
+function sendOscFeedback(force = false) {
+  if (OSC_OUT.length === 0) return;
+
+  const state = getResolvedState();
+  const active = state?.activeTimer ?? null;
+  const values = {
+    // Count-ups send their elapsed time as "remaining"
+    '/remaining': active ? active.currentTime : 0,
+    '/remaining/text': active ? active.display : '',
+    '/elapsed': active ? active.elapsedTime : 0,
+    '/timer/name': active ? active.name : '',
+    '/timer/index': active ? state.timers.indexOf(active) + 1 : 0,
+    '/state': active ? active.status : 'idle',
+    '/overrun': active?.overrun ? 1 : 0,
+    '/message': state?.message ?? '',
+    '/message/visible': state?.message ? 1 : 0,
+    '/blackout': state?.blackout ? 1 : 0,
+    '/controller': controller ? 1 : 0,
+  };
+
+  Object.entries(values).forEach(([path, value]) => {
+    const address = `${OSC_PREFIX}${path}`;
+    if (!force && oscValues.get(address) === value) return;
+
+    oscValues.set(address, value);
+    sendOsc(address, [value]);
+  });
+}
+
+oscSocket.on('message', (packet, sender) => {
+  if (OSC_ALLOW.size > 0 && !OSC_ALLOW.has(sender.address)) {
+    console.log(`⚠️ Ignored OSC from ${sender.address} (not in --osc-allow)`);
+    return;
+  }
+
+  let messages;
+  try {
+    messages = decodeOscPacket(packet);
+  } catch (error) {
+    console.log('⚠️ Ignored a malformed OSC packet:', error.message);
+    return;
+  }
+  messages.forEach((message) => {
+    handleOscMessage(message).catch((error) =>
+      console.error('❌ OSC message failed:', error)
+    );
+  });
+});
+
+oscSocket.on('error', (error) => {
+  console.error('❌ OSC socket error:', error.message);
+});
+
+// --- Companion -------------------------------------------------------------
+
+// Bitfocus Companion / Stream Deck protocol on /companion: the preview
+// buttons as actions, and a flat set of feedbacks for button text and colour
+let lastFeedback = null; // JSON of the feedbacks last sent
+
+const STATUS_COLORS = {
+  idle: '#737373',
+  running: '#22c55e',
+  paused: '#f59e0b',
+  expired: '#dc2626',
+};
+
+// Same stages as src/utils/thresholds.ts
+function getThresholdLevel(timer) {
+  if (timer.type !== 'countdown' || timer.initialTime <= 0) return null;
+  if (timer.currentTime < 0) return 'expired';
+
+  const secondsFor = (threshold) =>
+    threshold.unit === 'percent'
+      ? (timer.initialTime * threshold.value) / 100
+      : threshold.value;
+  const { warning, critical } = timer.thresholds ?? {};
+  if (critical && timer.currentTime <= secondsFor(critical)) return 'critical';
+  if (warning && timer.currentTime <= secondsFor(warning)) return 'warning';
+  return null;
+}
+
+function getCompanionFeedback() {
+  const state = getResolvedState();
+  const active = state?.activeTimer ?? null;
+
+  let statusColor = active ? active.status : 'idle';
+  let color = STATUS_COLORS[statusColor];
+  const level = active ? getThresholdLevel(active) : null;
+  if (level === 'expired') {
+    statusColor = 'expired';
+    color = STATUS_COLORS.expired;
+  } else if (level && active.status !== 'idle') {
+    statusColor = level;
+    color = active.thresholds[level].color;
+  }
+
+  return {
+    controllerConnected: !!controller,
+    timerName: active?.name ?? '',
+    remaining: active?.display ?? '',
+    remainingSeconds: active?.currentTime ?? 0,
+    status: active?.status ?? 'idle',
+    statusColor,
+    color,
+    timerIndex: active ? state.timers.indexOf(active) + 1 : 0,
+    timerCount: state?.timers.length ?? 0,
+    messageLive: !!state?.message,
+    message: state?.message ?? '',
+    blackout: !!state?.blackout,
+    presets: (state?.messagePresets ?? []).map((preset) => preset.name),
+  };
+}
+
+function pushCompanionFeedback() {
+  if (companionClients.size === 0) return;
+
+  const feedbacks = JSON.stringify(getCompanionFeedback());
+  if (feedbacks === lastFeedback) return;
+
+  lastFeedback = feedbacks;
+  const message = `{"type":"feedback","feedbacks":${feedbacks}}`;
+  companionClients.forEach((client) => client.send(message));
+}
+
+/**
+ * Maps a Companion action to a control command (checked by runCommand)
+ */
+function companionToCommand(input) {
+  switch (input?.action) {
+    case 'start':
+    case 'pause':
+    case 'toggle':
+    case 'next':
+    case 'previous':
+    case 'hideMessage':
+      return { action: input.action };
+    case 'addTime':
+      return { action: 'adjust', seconds: input.seconds };
+    case 'showPreset':
+      return { action: 'showPreset', index: input.preset };
+    case 'blackout':
+      return { action: 'blackout', on: input.on };
+    default:
+      return null;
+  }
+}
+
+function attachCompanion(connection) {
+  companionClients.add(connection);
+  console.log(`🎛️ Companion connected (${companionClients.size})`);
+  notifyClientCount();
+  sendJson(connection, { type: 'feedback', feedbacks: getCompanionFeedback() });
+
+  connection.on('message', async (text) => {
+    let input;
+    try {
+      input = JSON.parse(text);
+    } catch {
+      sendJson(connection, {
+        type: 'result',
+        ok: false,
+        error: 'Invalid JSON',
+      });
+      return;
+    }
+
+    const command = companionToCommand(input);
+    if (!command) {
+      sendJson(connection, {
+        type: 'result',
+        id: input?.id,
+        ok: false,
+        error: `Unknown action "${input?.action}"`,
+      });
+      return;
+    }
+
+    const { status: _status, ...result } = await runCommand(command);
+    sendJson(connection, { type: 'result', id: input?.id, ...result });
+  });
+
+  connection.on('close', () => {
+    companionClients.delete(connection);
+    notifyClientCount();
+  });
+}
+
+// Time-based values only change while a timer runs
+setInterval(() => {
+  if (!hasRunningTimer()) return;
+  sendOscFeedback();
+  pushCompanionFeedback();
+}, FEEDBACK_INTERVAL_MS);
+
+// --- Signalling ------------------------------------------------------------
+
+// Controllers and displays swap WebRTC offers, answers and ICE candidates
+// here instead of through Firestore. The bridge only passes them on, to one
+// device or to everyone else in the same room.
+const signalRooms = new Map(); // room -> Map(device id -> connection)
+
+function attachSignalPeer(connection, room, deviceId) {
+  if (!signalRooms.has(room)) signalRooms.set(room, new Map());
+  const peers = signalRooms.get(room);
+
+  // A reloaded page comes back with the same device id
+  peers.get(deviceId)?.close();
+  peers.set(deviceId, connection);
+  console.log(`📡 Signalling: ${deviceId} joined ${room} (${peers.size})`);
+
+  connection.on('message', (text) => {
+    let signal;
+    try {
+      signal = JSON.parse(text);
+    } catch {
+      return;
+    }
+
+    // The sender is whoever this connection belongs to
+    const message = JSON.stringify({ ...signal, from: deviceId });
+    if (signal.to && signal.to !== '*') {
+      peers.get(signal.to)?.send(message);
+    } else {
+      peers.forEach((peer, id) => id !== deviceId && peer.send(message));
+    }
+  });
+
+  connection.on('close', () => {
+    if (peers.get(deviceId) !== connection) return;
+
+    peers.delete(deviceId);
+    if (peers.size === 0) signalRooms.delete(room);
+
+    const bye = JSON.stringify({ type: 'bye', from: deviceId, to: '*' });
+    peers.forEach((peer) => peer.send(bye));
+  });
+}
+
+// --- REST ------------------------------------------------------------------
+
+function sendResponse(response, status, body) {
+  response.writeHead(status, {
+    'Content-Type': 'application/json',
+    Vary: 'Origin',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  response.end(body === undefined ? '' : JSON.stringify(body, null, 2));
+}
+
+function isAuthorized(request, url) {
+  if (!TOKEN) return true;
+  return (
+    url.searchParams.get('token') === TOKEN ||
+    request.headers.authorization === `Bearer ${TOKEN}`
+  );
+}
+
+// Browsers name the page behind every request that could change something,
+// so any web page the operator opens can't drive the timers (or take over
+// /controller) through them. Scripts, Companion and curl send no origin.
+function isAllowedOrigin(origin) {
+  if (!origin) return true;
+  if (ALLOWED_ORIGINS.has(origin)) return true;
+  try {
+    const { hostname } = new URL(origin);
+    return LOOPBACK_HOSTS.includes(hostname.replace(/^\[(.*)\]$/, '$1'));
+  } catch {
+    return false;
+  }
+}
+
+async function readBody(request) {
+  const chunks = [];
+  for await (const chunk of request) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString('utf8').trim();
+  const body = text ? JSON.parse(text) : {};
+  // null, arrays and bare values can't carry command fields
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new TypeError('Body must be a JSON object');
+  }
+  return body;
+}
+
+const ENDPOINTS = [
+  'GET    /state',
+  'GET    /timers',
+  'GET    /timers/:id',
+  'POST   /timers/:id/start | pause | reset | toggle | select   (:id may be "active")',
+  'POST   /timers/:id/adjust   {"seconds": 60}',
+  'POST   /next',
+  'POST   /previous',
+  'POST   /message   {"text": "Wrap up"}',
+  'DELETE /message',
+  'POST   /blackout   {"on": true}  (toggles without a body)',
+  'POST   /flash',
+  'POST   /command   {"action": "...", ...}',
+  'GET    /feedback   Companion feedbacks',
+  'WS     /ws   state pushes in, commands out',
+  'WS     /companion   Companion / Stream Deck actions and feedbacks',
+  'WS     /signal?room=&device=   WebRTC signalling for displays',
+];
+
+/**
+ * Maps a REST request to a command, or returns null for an unknown route
+ */
+function routeToCommand(method, parts, body) {
+  if (method === 'POST' && parts[0] === 'timers' && parts.length === 3) {
+    return { ...body, action: parts[2], timerId: decodeURIComponent(parts[1]) };
+  }
+  if (method === 'POST' && parts.length === 1) {
+    switch (parts[0]) {
+      case 'next':
+      case 'previous':
+      case 'flash':
+        return { action: parts[0] };
+      case 'message':
+        return { action: 'showMessage', text: body.text };
+      case 'blackout':
+        return { action: 'blackout', on: body.on };
+      case 'command':
+        return body;
+      default:
+        return null;
+    }
+  }
+  if (method === 'DELETE' && parts.length === 1 && parts[0] === 'message') {
+    return { action: 'hideMessage' };
+  }
+  return null;
+}
+
+async function handleRequest(request, response) {
+  const url = new URL(request.url, 'http://bridge');
+  const parts = url.pathname.split('/').filter(Boolean);
+  const method = request.method;
+  const { origin } = request.headers;
+
+  if (!isAllowedOrigin(origin)) {
+    return sendResponse(response, 403, {
+      ok: false,
+      error: `Origin ${origin} is not allowed (see --allow-origin)`,
+    });
+  }
+  if (origin) response.setHeader('Access-Control-Allow-Origin', origin);
+
+  if (method === 'OPTIONS') return sendResponse(response, 204);
+  if (!isAuthorized(request, url)) {
+    return sendResponse(response, 401, {
+      ok: false,
+      error: 'Missing or wrong token',
+    });
+  }
+
+  if (method === 'GET') {
+    const state = getResolvedState();
+
+    if (parts.length === 0) {
+      return sendResponse(response, 200, {
+        name: 'stage-timer-bridge',
+        controllerConnected: !!controller,
+        clients: clients.size + companionClients.size,
+        endpoints: ENDPOINTS,
+      });
+    }
+    if (parts[0] === 'feedback' && parts.length === 1) {
+      return sendResponse(response, 200, getCompanionFeedback());
+    }
+    if (!state) {
+      return sendResponse(response, 503, {
+        ok: false,
+        error: 'No controller has connected yet',
+      });
+    }
+    if (parts[0] === 'state' && parts.length === 1) {
+      return sendResponse(response, 200, {
+        controllerConnected: !!controller,
+        ...state,
+      });
+    }
+    if (parts[0] === 'timers' && parts.length === 1) {
+      return sendResponse(response, 200, state.timers);
+    }
+    if (parts[0] === 'timers' && parts.length === 2) {
+      const id = decodeURIComponent(parts[1]);
+      const timer =
+        id === 'active'
+          ? state.activeTimer
+          : state.timers.find((t) => t.id === id);
+      return timer
+        ? sendResponse(response, 200, timer)
+        : sendResponse(response, 404, { ok: false, error: `No timer ${id}` });
+    }
+  }
+
+  if (method === 'POST' || method === 'DELETE') {
+    let body;
+    try {
+      body = await readBody(request);
+    } catch {
+      return sendResponse(response, 400, {
+        ok: false,
+        error: 'Body must be a JSON object',
+      });
+    }
+
+    const command = routeToCommand(method, parts, body);
+    if (command) {
+      const { status = 200, ...result } = await runCommand(command);
+      return sendResponse(response, status, result);
+    }
+  }
+
+  sendResponse(response, 404, {
+    ok: false,
+    error: 'Not found',
+    endpoints: ENDPOINTS,
+  });
+}
+
+// --- Server ----------------------------------------------------------------
+
+const server = createServer((request, response) => {
+  handleRequest(request, response).catch((error) => {
+    console.error('❌ Request failed:', error);
+    sendResponse(response, 500, { ok: false, error: 'Internal error' });
+  });
+});
+
+server.on('upgrade', (request, socket) => {
+  const url = new URL(request.url, 'http://bridge');
+  if (!isAllowedOrigin(request.headers.origin)) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  if (!isAuthorized(request, url)) {
+    socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+    return;
+  }
+  if (!['/controller', '/ws', '/companion', '/signal'].includes(url.pathname)) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+    return;
+  }
+
+  const connection = acceptWebSocket(request, socket);
+  if (!connection) return;
+
+  if (url.pathname === '/controller') {
+    attachController(connection);
+  } else if (url.pathname === '/companion') {
+    attachCompanion(connection);
+  } else if (url.pathname === '/signal') {
+    attachSignalPeer(
+      connection,
+      url.searchParams.get('room') || '',
+      url.searchParams.get('device') || randomUUID()
+    );
+  } else {
+    attachClient(connection);
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  // --port 0 picks a free port
+  const { port } = server.address();
+  console.log(`🌉 Stage timer bridge listening on ${HOST}, port ${port}`);
+
+  // Addresses other devices on the LAN can use
+  if (!LOOPBACK_HOSTS.includes(HOST)) {
+    Object.values(networkInterfaces())
+      .flat()
+      .filter(
+        (address) => address && address.family === 'IPv4' && !address.internal
+      )
+      .forEach((address) =>
+        console.log(`   http://${address.address}:${port}`)
+      );
+  }
+  console.log(`   http://localhost:${port}`);
+
+  if (TOKEN) {
+    console.log('🔒 Token required (?token= or Authorization: Bearer)');
+  } else if (!LOOPBACK_HOSTS.includes(HOST)) {
+    console.log('⚠️ No token - anyone on the network can drive the timers');
+  }
+  if (ALLOWED_ORIGINS.size > 0) {
+    console.log(`   pages allowed from ${[...ALLOWED_ORIGINS].join(', ')}`);
+  }
+});
+
+// OSC input listens on its own UDP port; output works without it
+if (OSC_PORT > 0) {
+  oscSocket.bind(OSC_PORT, OSC_HOST, () => {
+    console.log(`🎚️ OSC listening on UDP ${OSC_HOST}:${OSC_PORT}`);
+    if (OSC_ALLOW.size > 0) {
+      console.log(`   accepting OSC from ${[...OSC_ALLOW].join(', ')}`);
+    } else if (!LOOPBACK_HOSTS.includes(OSC_HOST)) {
+      console.log('⚠️ OSC has no token - anyone on the network can send it');
+    }
+  });
+}
+OSC_OUT.forEach(({ host, port }) =>
+  console.log(`🎚️ OSC feedback to ${host}:${port}`)
+);
@@ -0,0 +1,444 @@
+import { spawn } from 'node:child_process';
+import { createSocket } from 'node:dgram';
+import { once } from 'node:events';
+import { request } from 'node:http';
+import { fileURLToPath } from 'node:url';
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import { encodeOscMessage } from './osc.js';
+
+// Starts the real bridge on a free port and drives it like Companion and the
+// controller page would. Node 20 needs --experimental-websocket for the
+// WebSocket client - `pnpm test:bridge` passes it.
+const BRIDGE = fileURLToPath(new URL('./index.js', import.meta.url));
+const TOKEN = 'test-token';
+
+const bridges = [];
+
+// Runs the bridge on a free port and resolves once it's listening. OSC input
+// stays off unless the arguments give it a port.
+async function startBridge(...args) {
+  const child = spawn(
+    process.execPath,
+    [BRIDGE, '--port', '0', ...args, '--osc-port', '0'],
+    { stdio: ['ignore', 'pipe', 'inherit'] }
+  );
+  bridges.push(child);
+
+  // Keep reading stdout after the port shows up, or the bridge's logging
+  // would fail on a closed pipe
+  let output = '';
+  child.stdout.on('data', (chunk) => {
+    output += chunk;
+  });
+
+  // The first match in everything the bridge has logged
+  const waitForLog = (pattern) =>
+    new Promise((resolve, reject) => {
+      const check = () => {
+        const match = output.match(pattern);
+        if (!match) return;
+        child.stdout.off('data', check);
+        resolve(match);
+      };
+      child.stdout.on('data', check);
+      child.once('exit', (code) =>
+        reject(new Error(`Bridge exited (${code})`))
+      );
+      check();
+    });
+
+  const [, host, port] = await waitForLog(/listening on (\S+), port (\d+)/);
+  return { host, baseUrl: `http://127.0.0.1:${port}`, waitForLog };
+}
+
+async function freeUdpPort() {
+  const socket = createSocket('udp4');
+  await new Promise((resolve) => socket.bind(0, '127.0.0.1', resolve));
+  const { port } = socket.address();
+  await new Promise((resolve) => socket.close(resolve));
+  return port;
+}
+
+async function sendOsc(port, address, args = []) {
+  const socket = createSocket('udp4');
+  await new Promise((resolve, reject) =>
+    socket.send(encodeOscMessage(address, args), port, '127.0.0.1', (error) =>
+      error ? reject(error) : resolve()
+    )
+  );
+  socket.close();
+}
+
+afterAll(async () => {
+  await Promise.all(
+    bridges
+      .filter((child) => child.exitCode === null)
+      .map((child) => {
+        child.kill();
+        return once(child, 'exit');
+      })
+  );
+});
+
+// Status of a WebSocket handshake, without needing a WebSocket client
+function upgradeStatus(url, headers) {
+  return new Promise((resolve, reject) => {
+    const upgrade = request(url, {
+      headers: {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+        'Sec-WebSocket-Version': '13',
+        ...headers,
+      },
+    });
+    upgrade.on('upgrade', (response, socket) => {
+      socket.destroy();
+      resolve(response.statusCode);
+    });
+    upgrade.on('response', (response) => {
+      response.resume();
+      resolve(response.statusCode);
+    });
+    upgrade.on('error', reject);
+    upgrade.end();
+  });
+}
+
+let baseUrl;
+
+// Collects a socket's messages so tests can wait for the next matching one
+function connect(path, url = baseUrl) {
+  const socket = new WebSocket(
+    `${url.replace('http', 'ws')}${path}?token=${TOKEN}`
+  );
+  const received = [];
+  const waiting = [];
+
+  socket.addEventListener('message', (event) => {
+    const message = JSON.parse(event.data);
+    const index = waiting.findIndex(({ match }) => match(message));
+    if (index === -1) {
+      received.push(message);
+    } else {
+      waiting.splice(index, 1)[0].resolve(message);
+    }
+  });
+
+  const next = (match) => {
+    const index = received.findIndex(match);
+    if (index !== -1) return Promise.resolve(received.splice(index, 1)[0]);
+    return new Promise((resolve) => waiting.push({ match, resolve }));
+  };
+
+  return new Promise((resolve, reject) => {
+    socket.addEventListener('open', () => resolve({ socket, next, received }));
+    socket.addEventListener('error', reject);
+  });
+}
+
+function controllerState() {
+  return {
+    roomId: 'room',
+    roomName: 'Main hall',
+    activeTimerId: 'sermon',
+    timers: [
+      {
+        id: 'sermon',
+        name: 'Sermon',
+        type: 'countdown',
+        order: 1,
+        status: 'idle',
+        initialTime: 1800,
+        startedAt: null,
+        pausedAt: null,
+        accumulatedPause: 0,
+        thresholds: {
+          warning: { value: 300, unit: 'seconds', color: '#f59e0b' },
+          critical: { value: 60, unit: 'seconds', color: '#dc2626' },
+        },
+      },
+    ],
+    message: null,
+    messagePresets: [{ name: 'Wrap up', text: 'Please wrap up' }],
+    blackout: false,
+    serverTime: Date.now(),
+  };
+}
+
+describe('bridge access', () => {
+  let open;
+  let guarded;
+
+  beforeAll(async () => {
+    open = await startBridge();
+    guarded = await startBridge(
+      '--token',
+      TOKEN,
+      '--allow-origin',
+      'https://timer.example/'
+    );
+  });
+
+  it('stays on this computer without a token', () => {
+    expect(open.host).toBe('127.0.0.1');
+    expect(guarded.host).toBe('0.0.0.0');
+  });
+
+  it('refuses requests from other web pages', async () => {
+    // A plain-text POST needs no preflight, so only the origin check stops it
+    const response = await fetch(`${open.baseUrl}/blackout`, {
+      method: 'POST',
+      headers: {
+        Origin: 'https://evil.example',
+        'Content-Type': 'text/plain',
+      },
+      body: '{"on": true}',
+    });
+    expect(response.status).toBe(403);
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+
+    const preflight = await fetch(`${open.baseUrl}/state`, {
+      method: 'OPTIONS',
+      headers: { Origin: 'https://evil.example' },
+    });
+    expect(preflight.status).toBe(403);
+  });
+
+  it('answers pages from this computer and listed origins', async () => {
+    const local = await fetch(`${open.baseUrl}/`, {
+      headers: { Origin: 'http://localhost:5173' },
+    });
+    expect(local.status).toBe(200);
+    expect(local.headers.get('access-control-allow-origin')).toBe(
+      'http://localhost:5173'
+    );
+
+    const listed = await fetch(`${guarded.baseUrl}/?token=${TOKEN}`, {
+      headers: { Origin: 'https://timer.example' },
+    });
+    expect(listed.status).toBe(200);
+
+    // Scripts send no origin at all
+    expect((await fetch(`${open.baseUrl}/`)).status).toBe(200);
+  });
+
+  it('keeps OSC input on this computer when a token is set', async () => {
+    const withToken = await startBridge(
+      '--token',
+      TOKEN,
+      '--osc-port',
+      String(await freeUdpPort())
+    );
+    const withoutToken = await startBridge(
+      '--host',
+      '0.0.0.0',
+      '--osc-port',
+      String(await freeUdpPort())
+    );
+
+    expect(withToken.host).toBe('0.0.0.0');
+    expect((await withToken.waitForLog(/OSC listening on UDP (\S+):/))[1]).toBe(
+      '127.0.0.1'
+    );
+    expect(
+      (await withoutToken.waitForLog(/OSC listening on UDP (\S+):/))[1]
+    ).toBe('0.0.0.0');
+  });
+
+  it('refuses WebSocket connections from other web pages', async () => {
+    const controller = `${guarded.baseUrl}/controller?token=${TOKEN}`;
+
+    expect(
+      await upgradeStatus(controller, { Origin: 'https://evil.example' })
+    ).toBe(403);
+    expect(
+      await upgradeStatus(controller, { Origin: 'https://timer.example' })
+    ).toBe(101);
+    expect(await upgradeStatus(controller, {})).toBe(101);
+  });
+});
+
+describe.skipIf(typeof WebSocket === 'undefined')('bridge', () => {
+  beforeAll(async () => {
+    ({ baseUrl } = await startBridge('--host', '127.0.0.1', '--token', TOKEN));
+  });
+
+  it('asks for the token', async () => {
+    const response = await fetch(`${baseUrl}/feedback`);
+    expect(response.status).toBe(401);
+  });
+
+  it('drives the timers from Companion through the controller', async () => {
+    const companion = await connect('/companion');
+
+    const first = await companion.next((m) => m.type === 'feedback');
+    expect(first.feedbacks).toMatchObject({
+      controllerConnected: false,
+      timerName: '',
+    });
+
+    companion.socket.send(JSON.stringify({ id: 1, action: 'start' }));
+    expect(await companion.next((m) => m.id === 1)).toEqual({
+      type: 'result',
+      id: 1,
+      ok: false,
+      error: 'No controller connected',
+    });
+
+    companion.socket.send(JSON.stringify({ id: 2, action: 'explode' }));
+    expect(await companion.next((m) => m.id === 2)).toMatchObject({
+      ok: false,
+      error: 'Unknown action "explode"',
+    });
+
+    const controller = await connect('/controller');
+    controller.socket.send(
+      JSON.stringify({ type: 'state', state: controllerState() })
+    );
+
+    const connected = await companion.next(
+      (m) => m.type === 'feedback' && m.feedbacks.controllerConnected
+    );
+    expect(connected.feedbacks).toMatchObject({
+      timerName: 'Sermon',
+      remaining: '30:00',
+      remainingSeconds: 1800,
+      status: 'idle',
+      timerIndex: 1,
+      timerCount: 1,
+      presets: ['Wrap up'],
+    });
+
+    // The controller sees the checked command and its answer goes back
+    companion.socket.send(
+      JSON.stringify({ id: 3, action: 'addTime', seconds: -30 })
+    );
+    const command = await controller.next((m) => m.type === 'command');
+    expect(command.command).toEqual({ action: 'adjust', seconds: -30 });
+    controller.socket.send(
+      JSON.stringify({ type: 'result', id: command.id, ok: true })
+    );
+    expect(await companion.next((m) => m.id === 3)).toEqual({
+      type: 'result',
+      id: 3,
+      ok: true,
+    });
+
+    companion.socket.send(JSON.stringify({ id: 4, action: 'showPreset' }));
+    expect(await companion.next((m) => m.id === 4)).toMatchObject({
+      ok: false,
+      error: 'showPreset needs a preset number from 1',
+    });
+
+    companion.socket.send(
+      JSON.stringify({ id: 5, action: 'showPreset', preset: 1 })
+    );
+    const preset = await controller.next((m) => m.type === 'command');
+    controller.socket.send(
+      JSON.stringify({
+        type: 'result',
+        id: preset.id,
+        ok: false,
+        error: 'No preset 1',
+      })
+    );
+    expect(await companion.next((m) => m.id === 5)).toMatchObject({
+      ok: false,
+      error: 'No preset 1',
+    });
+
+    // HTTP-only tools read the same feedbacks
+    const response = await fetch(`${baseUrl}/feedback`, {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    });
+    expect(await response.json()).toEqual(connected.feedbacks);
+
+    companion.socket.close();
+    controller.socket.close();
+  });
+
+  // A controller on an OSC-enabled bridge that has published its state
+  async function oscController(...args) {
+    const oscPort = await freeUdpPort();
+    const bridge = await startBridge(
+      '--token',
+      TOKEN,
+      '--osc-port',
+      String(oscPort),
+      ...args
+    );
+    const controller = await connect('/controller', bridge.baseUrl);
+    controller.socket.send(
+      JSON.stringify({ type: 'state', state: controllerState() })
+    );
+
+    // Timer positions in OSC addresses need the state to have arrived
+    let response;
+    do {
+      response = await fetch(`${bridge.baseUrl}/state?token=${TOKEN}`);
+    } while (response.status !== 200);
+
+    return { ...bridge, oscPort, controller };
+  }
+
+  it('turns OSC addresses into controller actions', async () => {
+    const { oscPort, controller, waitForLog } = await oscController();
+    const nextAction = async () => {
+      const message = await controller.next((m) => m.type === 'action');
+      controller.socket.send(
+        JSON.stringify({ type: 'result', id: message.id, ok: true })
+      );
+      return message.action;
+    };
+
+    // Dropped: outside the prefix, no such timer, blackout already off
+    await sendOsc(oscPort, '/other/timer/start');
+    await sendOsc(oscPort, '/stagetimer/timer/9/start');
+    await sendOsc(oscPort, '/stagetimer/blackout', [0]);
+    await waitForLog(/No timer at position 9/);
+
+    await sendOsc(oscPort, '/stagetimer/timer/start');
+    expect(await nextAction()).toEqual({ type: 'START_TIMER' });
+
+    await sendOsc(oscPort, '/stagetimer/timer/1/add', [60]);
+    expect(await nextAction()).toEqual({
+      type: 'ADJUST_TIME',
+      payload: { seconds: 60, timerId: 'sermon' },
+    });
+
+    await sendOsc(oscPort, '/stagetimer/message', ['Wrap up']);
+    expect(await nextAction()).toMatchObject({
+      type: 'SHOW_MESSAGE',
+      payload: { text: 'Wrap up', isVisible: true },
+    });
+
+    await sendOsc(oscPort, '/stagetimer/message/hide');
+    expect(await nextAction()).toEqual({ type: 'CLEAR_ALL_MESSAGES' });
+
+    controller.socket.close();
+  });
+
+  it('ignores OSC from senders not on --osc-allow', async () => {
+    const { oscPort, controller, waitForLog } = await oscController(
+      '--osc-allow',
+      '192.0.2.1'
+    );
+
+    await sendOsc(oscPort, '/stagetimer/timer/start');
+    await waitForLog(/Ignored OSC from 127\.0\.0\.1/);
+    expect(controller.received.filter((m) => m.type === 'action')).toEqual([]);
+
+    controller.socket.close();
+  });
+
+  it('answers bodies that are not JSON objects with 400', async () => {
+    for (const body of ['null', '[]', '5', 'nope']) {
+      const response = await fetch(`${baseUrl}/message?token=${TOKEN}`, {
+        method: 'POST',
+        body,
+      });
+      expect(response.status).toBe(400);
+    }
+  });
+});
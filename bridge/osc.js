@@ -0,0 +1,133 @@
+/**
+ * Minimal OSC 1.0 encoding and decoding - enough for show-control tools like
+ * QLab, Companion and lighting desks. Numbers are sent as int32 when they're
+ * whole and float32 otherwise, strings as 's' and booleans as T/F.
+ */
+
+// OSC strings are null-terminated and padded to a multiple of 4 bytes
+function encodeString(text) {
+  const bytes = Buffer.from(text, 'utf8');
+  const padded = Buffer.alloc(Math.ceil((bytes.length + 1) / 4) * 4);
+  bytes.copy(padded);
+  return padded;
+}
+
+function readString(buffer, offset) {
+  const end = buffer.indexOf(0, offset);
+  if (end === -1) throw new Error('Unterminated OSC string');
+
+  return {
+    value: buffer.toString('utf8', offset, end),
+    offset: Math.ceil((end + 1) / 4) * 4,
+  };
+}
+
+function encodeArgument(value) {
+  if (typeof value === 'boolean') {
+    return { tag: value ? 'T' : 'F', data: Buffer.alloc(0) };
+  }
+  if (typeof value === 'number') {
+    const data = Buffer.alloc(4);
+    if (Number.isInteger(value)) {
+      data.writeInt32BE(value);
+      return { tag: 'i', data };
+    }
+    data.writeFloatBE(value);
+    return { tag: 'f', data };
+  }
+  return { tag: 's', data: encodeString(String(value ?? '')) };
+}
+
+/**
+ * Builds one OSC message packet
+ */
+export function encodeOscMessage(address, args = []) {
+  const encoded = args.map(encodeArgument);
+  return Buffer.concat([
+    encodeString(address),
+    encodeString(`,${encoded.map((a) => a.tag).join('')}`),
+    ...encoded.map((a) => a.data),
+  ]);
+}
+
+function decodeMessage(buffer) {
+  const address = readString(buffer, 0);
+  if (!address.value.startsWith('/')) throw new Error('Not an OSC message');
+
+  // Type tags are optional in very old senders
+  if (address.offset >= buffer.length) {
+    return { address: address.value, args: [] };
+  }
+
+  const tags = readString(buffer, address.offset);
+  let offset = tags.offset;
+  const args = [];
+
+  for (const tag of tags.value.slice(1)) {
+    switch (tag) {
+      case 'i':
+        args.push(buffer.readInt32BE(offset));
+        offset += 4;
+        break;
+      case 'f':
+        args.push(buffer.readFloatBE(offset));
+        offset += 4;
+        break;
+      case 'h':
+        args.push(Number(buffer.readBigInt64BE(offset)));
+        offset += 8;
+        break;
+      case 'd':
+        args.push(buffer.readDoubleBE(offset));
+        offset += 8;
+        break;
+      case 's':
+      case 'S': {
+        const text = readString(buffer, offset);
+        args.push(text.value);
+        offset = text.offset;
+        break;
+      }
+      case 'b': {
+        // Blobs aren't used by any address - skip over them
+        const size = buffer.readInt32BE(offset);
+        offset += 4 + Math.ceil(size / 4) * 4;
+        break;
+      }
+      case 'T':
+        args.push(true);
+        break;
+      case 'F':
+        args.push(false);
+        break;
+      case 'N':
+      case 'I':
+        args.push(null);
+        break;
+      default:
+        throw new Error(`Unsupported OSC type tag "${tag}"`);
+    }
+  }
+
+  return { address: address.value, args };
+}
+
+/**
+ * Reads a UDP packet into its messages, unpacking bundles (their time tags
+ * are ignored - everything runs on arrival)
+ */
+export function decodeOscPacket(buffer) {
+  if (buffer.toString('utf8', 0, 8) !== '#bundle\0') {
+    return [decodeMessage(buffer)];
+  }
+
+  const messages = [];
+  let offset = 16; // "#bundle\0" + 8-byte time tag
+  while (offset + 4 <= buffer.length) {
+    const size = buffer.readInt32BE(offset);
+    const element = buffer.subarray(offset + 4, offset + 4 + size);
+    messages.push(...decodeOscPacket(element));
+    offset += 4 + size;
+  }
+  return messages;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { decodeOscPacket, encodeOscMessage } from './osc.js';
+
+describe('encodeOscMessage', () => {
+  it('pads strings and tags to four bytes', () => {
+    const packet = encodeOscMessage('/a', [1]);
+
+    expect(packet.length).toBe(12);
+    expect([...packet]).toEqual([
+      ...[0x2f, 0x61, 0, 0], // "/a"
+      ...[0x2c, 0x69, 0, 0], // ",i"
+      ...[0, 0, 0, 1],
+    ]);
+  });
+});
+
+describe('decodeOscPacket', () => {
+  it('reads back every argument type it encodes', () => {
+    const packet = encodeOscMessage('/stagetimer/message', [
+      'Wrap up',
+      -30,
+      0.5,
+      true,
+      false,
+    ]);
+
+    expect(decodeOscPacket(packet)).toEqual([
+      {
+        address: '/stagetimer/message',
+        args: ['Wrap up', -30, 0.5, true, false],
+      },
+    ]);
+  });
+
+  it('unpacks bundles', () => {
+    const elements = [
+      encodeOscMessage('/stagetimer/timer/start'),
+      encodeOscMessage('/stagetimer/timer/add', [60]),
+    ];
+    const header = Buffer.alloc(16);
+    header.write('#bundle');
+    const bundle = Buffer.concat([
+      header,
+      ...elements.flatMap((element) => {
+        const size = Buffer.alloc(4);
+        size.writeInt32BE(element.length);
+        return [size, element];
+      }),
+    ]);
+
+    expect(decodeOscPacket(bundle)).toEqual([
+      { address: '/stagetimer/timer/start', args: [] },
+      { address: '/stagetimer/timer/add', args: [60] },
+    ]);
+  });
+
+  it('rejects packets that are not OSC', () => {
+    expect(() => decodeOscPacket(Buffer.from('hello\0\0\0'))).toThrow(
+      'Not an OSC message'
+    );
+    expect(() => decodeOscPacket(Buffer.from('/a'))).toThrow(
+      'Unterminated OSC string'
+    );
+  });
+});
@@ -0,0 +1,397 @@
+import { readFileSync } from 'node:fs';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  type Firestore,
+} from 'firebase/firestore';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+
+// Runs against the Firestore emulator - `pnpm test:rules` starts one. Plain
+// `pnpm test` skips these.
+const ROOM = 'rooms/room1';
+const DISPLAY_KEY = 'display-key';
+const SUBMIT_KEY = 'submit-key';
+const INVITED_EMAIL = 'invited@example.com';
+
+let env: RulesTestEnvironment;
+
+// Accounts sign in with email; displays and the audience sign in anonymously
+function account(uid: string, email = `${uid}@example.com`): Firestore {
+  return env
+    .authenticatedContext(uid, {
+      email,
+      email_verified: true,
+      firebase: { sign_in_provider: 'password' },
+    })
+    .firestore() as unknown as Firestore;
+}
+
+function anonymous(uid: string): Firestore {
+  return env
+    .authenticatedContext(uid, { firebase: { sign_in_provider: 'anonymous' } })
+    .firestore() as unknown as Firestore;
+}
+
+const owner = () => account('owner');
+const operator = () => account('operator');
+const viewer = () => account('viewer');
+const display = () => anonymous('display');
+const stranger = () => account('stranger');
+const audience = () => anonymous('audience');
+const signedOut = () =>
+  env.unauthenticatedContext().firestore() as unknown as Firestore;
+
+async function seed() {
+  await env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore() as unknown as Firestore;
+    const put = (path: string, data: Record<string, unknown>) =>
+      setDoc(doc(db, path), data);
+
+    await put(ROOM, { ownerId: 'owner', name: 'Main hall' });
+    await put(`${ROOM}/private/keys`, {
+      display: DISPLAY_KEY,
+      submit: SUBMIT_KEY,
+    });
+    await put(`${ROOM}/members/owner`, { role: 'owner' });
+    await put(`${ROOM}/members/operator`, { role: 'operator' });
+    await put(`${ROOM}/members/viewer`, { role: 'viewer' });
+    await put(`${ROOM}/members/display`, { role: 'display', key: DISPLAY_KEY });
+    await put(`${ROOM}/invites/${INVITED_EMAIL}`, {
+      email: INVITED_EMAIL,
+      role: 'operator',
+      invitedBy: 'owner',
+    });
+    await put(`${ROOM}/submissions/question`, {
+      text: 'How long is the break?',
+      author: '',
+      key: SUBMIT_KEY,
+    });
+    await put(`${ROOM}/signals/hello`, {
+      type: 'hello',
+      from: 'display-device',
+      to: '*',
+      role: 'display',
+    });
+    await put(`${ROOM}/presence/operator-window`, {
+      uid: 'operator',
+      name: 'Sam',
+      selectedTimerId: null,
+      editingTimerId: null,
+      lastSeen: 0,
+    });
+    await put(`${ROOM}/displays/display-device`, {
+      uid: 'display',
+      name: 'Stage left',
+      resolution: '1920x1080',
+      appVersion: '1.0.0',
+      lastSeen: 0,
+    });
+    await put('shows/sunday', { ownerId: 'owner', name: 'Sunday' });
+  });
+}
+
+describe.skipIf(!process.env.FIRESTORE_EMULATOR_HOST)('firestore rules', () => {
+  beforeAll(async () => {
+    env = await initializeTestEnvironment({
+      projectId: 'demo-stage-timer',
+      firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+  });
+
+  afterAll(async () => {
+    await env?.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await seed();
+  });
+
+  describe('rooms', () => {
+    it('are readable by members only', async () => {
+      await assertSucceeds(getDoc(doc(viewer(), ROOM)));
+      await assertSucceeds(getDoc(doc(display(), ROOM)));
+      await assertFails(getDoc(doc(stranger(), ROOM)));
+      await assertFails(getDoc(doc(signedOut(), ROOM)));
+    });
+
+    it('can be changed by controllers but not handed to someone else', async () => {
+      await assertSucceeds(updateDoc(doc(operator(), ROOM), { name: 'Hall' }));
+      await assertFails(updateDoc(doc(viewer(), ROOM), { name: 'Hall' }));
+      await assertFails(
+        updateDoc(doc(operator(), ROOM), { ownerId: 'operator' })
+      );
+    });
+  });
+
+  describe('members', () => {
+    it('can be listed by account members, not displays', async () => {
+      const members = (db: Firestore) =>
+        getDocs(collection(db, `${ROOM}/members`));
+
+      await assertSucceeds(members(owner()));
+      await assertSucceeds(members(viewer()));
+      await assertFails(members(display()));
+      await assertFails(members(stranger()));
+      await assertSucceeds(getDoc(doc(display(), `${ROOM}/members/display`)));
+    });
+
+    it('let invited accounts join with the role they were invited as', async () => {
+      const invited = account('invited', INVITED_EMAIL);
+      const join = (role: string) =>
+        setDoc(doc(invited, `${ROOM}/members/invited`), {
+          role,
+          email: INVITED_EMAIL,
+          joinedAt: serverTimestamp(),
+        });
+
+      await assertFails(join('owner'));
+      await assertFails(join('viewer'));
+      await assertSucceeds(join('operator'));
+      await assertFails(
+        setDoc(doc(stranger(), `${ROOM}/members/stranger`), {
+          role: 'operator',
+          email: 'stranger@example.com',
+          joinedAt: serverTimestamp(),
+        })
+      );
+    });
+
+    it('let displays join with the display key', async () => {
+      const join = (key: string) =>
+        setDoc(doc(anonymous('screen'), `${ROOM}/members/screen`), {
+          role: 'display',
+          key,
+          joinedAt: serverTimestamp(),
+        });
+
+      await assertFails(join('guess'));
+      await assertSucceeds(join(DISPLAY_KEY));
+    });
+
+    it('can only be moved between operator and viewer by the owner', async () => {
+      await assertSucceeds(
+        updateDoc(doc(owner(), `${ROOM}/members/operator`), { role: 'viewer' })
+      );
+      await assertFails(
+        updateDoc(doc(owner(), `${ROOM}/members/display`), { role: 'operator' })
+      );
+      await assertFails(
+        updateDoc(doc(operator(), `${ROOM}/members/viewer`), {
+          role: 'operator',
+        })
+      );
+      await assertFails(
+        updateDoc(doc(viewer(), `${ROOM}/members/viewer`), { role: 'operator' })
+      );
+    });
+
+    it('can leave, or be removed by the owner', async () => {
+      await assertSucceeds(deleteDoc(doc(viewer(), `${ROOM}/members/viewer`)));
+      await assertFails(deleteDoc(doc(operator(), `${ROOM}/members/display`)));
+      await assertSucceeds(deleteDoc(doc(owner(), `${ROOM}/members/display`)));
+    });
+  });
+
+  describe('invites', () => {
+    const invite = (uid: string) =>
+      setDoc(doc(account(uid), `${ROOM}/invites/new@example.com`), {
+        email: 'new@example.com',
+        role: 'viewer',
+        invitedBy: uid,
+        createdAt: serverTimestamp(),
+      });
+
+    it('are managed by the owner only', async () => {
+      await assertSucceeds(getDocs(collection(owner(), `${ROOM}/invites`)));
+      await assertFails(getDocs(collection(operator(), `${ROOM}/invites`)));
+      await assertSucceeds(invite('owner'));
+      await assertFails(invite('operator'));
+    });
+
+    it('can be read by the invitee', async () => {
+      const path = `${ROOM}/invites/${INVITED_EMAIL}`;
+      await assertSucceeds(
+        getDoc(doc(account('invited', INVITED_EMAIL), path))
+      );
+      await assertFails(getDoc(doc(stranger(), path)));
+    });
+  });
+
+  describe('private keys', () => {
+    it('are readable by controllers only', async () => {
+      const keys = (db: Firestore) => getDoc(doc(db, `${ROOM}/private/keys`));
+
+      await assertSucceeds(keys(owner()));
+      await assertSucceeds(keys(operator()));
+      await assertFails(keys(viewer()));
+      await assertFails(keys(display()));
+      await assertFails(keys(audience()));
+    });
+
+    it('can only be changed by the owner', async () => {
+      const rotate = (db: Firestore) =>
+        updateDoc(doc(db, `${ROOM}/private/keys`), { display: 'new-key' });
+
+      await assertFails(rotate(operator()));
+      await assertSucceeds(rotate(owner()));
+    });
+  });
+
+  describe('submissions', () => {
+    const submit = (
+      db: Firestore,
+      key: string,
+      text = 'Can you repeat that?'
+    ) =>
+      setDoc(doc(collection(db, `${ROOM}/submissions`)), {
+        text,
+        author: 'Jo',
+        key,
+        createdAt: serverTimestamp(),
+      });
+
+    it('can be sent by anyone with the submit key', async () => {
+      await assertSucceeds(submit(audience(), SUBMIT_KEY));
+      await assertFails(submit(audience(), DISPLAY_KEY));
+      await assertFails(submit(audience(), SUBMIT_KEY, ''));
+      await assertFails(submit(audience(), SUBMIT_KEY, 'x'.repeat(501)));
+    });
+
+    it('are read and cleared by controllers only', async () => {
+      const path = `${ROOM}/submissions/question`;
+
+      await assertSucceeds(getDoc(doc(operator(), path)));
+      await assertFails(getDoc(doc(viewer(), path)));
+      await assertFails(getDoc(doc(audience(), path)));
+      await assertFails(deleteDoc(doc(display(), path)));
+      await assertSucceeds(deleteDoc(doc(owner(), path)));
+    });
+  });
+
+  describe('signals', () => {
+    const signal = (db: Firestore, type = 'offer') =>
+      setDoc(doc(collection(db, `${ROOM}/signals`)), {
+        type,
+        from: 'controller-device',
+        to: 'display-device',
+        role: 'controller',
+        data: { sdp: 'v=0' },
+        sentAt: 0,
+      });
+
+    it('are exchanged by controllers and displays', async () => {
+      await assertSucceeds(signal(operator()));
+      await assertSucceeds(signal(display(), 'answer'));
+      await assertFails(signal(viewer()));
+      await assertFails(signal(stranger()));
+      await assertFails(signal(operator(), 'chat'));
+    });
+
+    it('are read and deleted by controllers and displays', async () => {
+      const path = `${ROOM}/signals/hello`;
+
+      await assertSucceeds(getDoc(doc(display(), path)));
+      await assertFails(getDoc(doc(viewer(), path)));
+      await assertSucceeds(deleteDoc(doc(operator(), path)));
+    });
+  });
+
+  describe('presence', () => {
+    const announce = (db: Firestore, uid: string) =>
+      setDoc(doc(db, `${ROOM}/presence/window-${uid}`), {
+        uid,
+        name: 'Operator',
+        selectedTimerId: null,
+        editingTimerId: null,
+        lastSeen: 0,
+      });
+
+    it('is written by controllers for themselves', async () => {
+      await assertSucceeds(announce(operator(), 'operator'));
+      await assertFails(announce(operator(), 'owner'));
+      await assertFails(announce(viewer(), 'viewer'));
+      await assertFails(announce(display(), 'display'));
+    });
+
+    it('is visible to account members, not displays', async () => {
+      const presence = (db: Firestore) =>
+        getDocs(collection(db, `${ROOM}/presence`));
+
+      await assertSucceeds(presence(viewer()));
+      await assertFails(presence(display()));
+      await assertFails(presence(stranger()));
+    });
+  });
+
+  describe('displays', () => {
+    const path = `${ROOM}/displays/display-device`;
+
+    it('report on themselves', async () => {
+      await assertSucceeds(updateDoc(doc(display(), path), { lastSeen: 1 }));
+      await assertFails(
+        updateDoc(doc(display(), path), { assignment: { mode: 'blank' } })
+      );
+      await assertFails(updateDoc(doc(viewer(), path), { lastSeen: 1 }));
+    });
+
+    it('are managed by controllers', async () => {
+      await assertSucceeds(
+        updateDoc(doc(operator(), path), { label: 'Stage' })
+      );
+      await assertFails(updateDoc(doc(operator(), path), { name: 'Stage' }));
+      await assertFails(updateDoc(doc(viewer(), path), { label: 'Stage' }));
+      await assertFails(deleteDoc(doc(display(), path)));
+      await assertSucceeds(deleteDoc(doc(owner(), path)));
+    });
+
+    it('are visible to members only', async () => {
+      await assertSucceeds(getDoc(doc(viewer(), path)));
+      await assertFails(getDoc(doc(stranger(), path)));
+    });
+  });
+
+  describe('shows', () => {
+    it('are only visible to the account that saved them', async () => {
+      await assertSucceeds(getDoc(doc(owner(), 'shows/sunday')));
+      await assertFails(getDoc(doc(operator(), 'shows/sunday')));
+      await assertSucceeds(
+        getDocs(
+          query(collection(owner(), 'shows'), where('ownerId', '==', 'owner'))
+        )
+      );
+      await assertFails(getDocs(collection(owner(), 'shows')));
+    });
+
+    it('are saved under the saving account only', async () => {
+      const save = (db: Firestore, ownerId: string) =>
+        setDoc(doc(db, 'shows/new'), { ownerId, name: 'New' });
+
+      await assertSucceeds(save(operator(), 'operator'));
+      await assertFails(save(operator(), 'owner'));
+      await assertFails(save(audience(), 'audience'));
+      await assertFails(
+        updateDoc(doc(stranger(), 'shows/sunday'), { ownerId: 'stranger' })
+      );
+    });
+
+    it('can only be deleted by their owner', async () => {
+      await assertFails(deleteDoc(doc(stranger(), 'shows/sunday')));
+      await assertSucceeds(deleteDoc(doc(owner(), 'shows/sunday')));
+    });
+  });
+});
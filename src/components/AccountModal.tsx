@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import { MdClose, MdAccountCircle } from 'react-icons/md';
+import { cn } from '../lib/utils';
+import type { Account } from '../services/accountService';
+
+interface AccountModalProps {
+  account: Account | null;
+  onSignIn: (email: string, password: string) => Promise<void>;
+  onSignUp: (name: string, email: string, password: string) => Promise<void>;
+  onResetPassword: (email: string) => Promise<void>;
+  onSendVerification: () => Promise<void>;
+  onRefresh: () => Promise<void>;
+  onSignOut: () => Promise<void>;
+  onClose?: () => void; // Omit to make sign-in required
+  className?: string;
+}
+
+type Mode = 'signIn' | 'signUp' | 'reset';
+
+const TITLES: Record<Mode, string> = {
+  signIn: 'Sign in to control rooms',
+  signUp: 'Create an account',
+  reset: 'Reset your password',
+};
+
+export function AccountModal({
+  account,
+  onSignIn,
+  onSignUp,
+  onResetPassword,
+  onSendVerification,
+  onRefresh,
+  onSignOut,
+  onClose,
+  className = '',
+}: AccountModalProps) {
+  const [mode, setMode] = useState<Mode>('signIn');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const isSignedIn = !!account && !account.isAnonymous;
+
+  // Runs an auth call with the loading and error handling every button shares
+  const run = async (action: () => Promise<void>, success?: string) => {
+    setIsLoading(true);
+    setError(null);
+    setInfo(null);
+
+    try {
+      await action();
+      if (success) setInfo(success);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (mode === 'signIn') {
+      run(() => onSignIn(email, password));
+    } else if (mode === 'signUp') {
+      run(
+        () => onSignUp(name, email, password),
+        'Account created - check your inbox to verify your email'
+      );
+    } else {
+      run(
+        () => onResetPassword(email),
+        'If an account uses that email, a reset link is on its way'
+      );
+    }
+  };
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError(null);
+    setInfo(null);
+  };
+
+  return (
+    <div
+      className={cn(
+        'account-modal fixed inset-0 z-50 flex items-center justify-center',
+        className
+      )}
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative mx-4 w-full max-w-sm rounded-lg border border-neutral-600 bg-neutral-800 text-white shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-neutral-600 p-4">
+          <h2 className="text-lg font-medium">
+            {isSignedIn ? 'Account' : TITLES[mode]}
+          </h2>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="text-neutral-400 transition-colors hover:text-white"
+            >
+              <MdClose size={20} />
+            </button>
+          )}
+        </div>
+
+        {isSignedIn ? (
+          <div className="space-y-4 p-4">
+            <div className="flex items-center gap-3">
+              <MdAccountCircle size={40} className="text-neutral-400" />
+              <div className="min-w-0">
+                <div className="truncate font-medium">{account.name}</div>
+                <div className="truncate text-sm text-neutral-400">
+                  {account.email}
+                </div>
+              </div>
+            </div>
+
+            {!account.emailVerified && (
+              <div className="space-y-2 rounded border border-amber-600/40 bg-amber-900/20 p-3 text-sm text-amber-200">
+                <div>
+                  Verify your email to accept invitations to other people's
+                  rooms.
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() =>
+                      run(onSendVerification, 'Verification email sent')
+                    }
+                    disabled={isLoading}
+                    className="btn-ctrl h-7 px-3 text-xs"
+                  >
+                    Resend email
+                  </button>
+                  <button
+                    onClick={() => run(onRefresh)}
+                    disabled={isLoading}
+                    className="btn-ctrl h-7 px-3 text-xs"
+                  >
+                    I've verified it
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {error && <div className="text-sm text-red-400">{error}</div>}
+            {info && <div className="text-sm text-green-400">{info}</div>}
+
+            <div className="flex justify-end gap-2 border-t border-neutral-600 pt-4">
+              <button
+                onClick={() => run(onSignOut)}
+                disabled={isLoading}
+                className="btn-ctrl h-9 px-4 text-sm hover:text-red-400"
+              >
+                Sign out
+              </button>
+              {onClose && (
+                <button onClick={onClose} className="btn-ctrl h-9 px-4 text-sm">
+                  Close
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3 p-4">
+            <p className="text-sm text-neutral-400">
+              Rooms belong to accounts. Displays don't need one - they open the
+              display link from the controller.
+            </p>
+
+            {mode === 'signUp' && (
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Your name"
+                autoComplete="name"
+                className="input-ctrl h-9 w-full px-3 text-sm"
+              />
+            )}
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              autoComplete="email"
+              autoFocus
+              required
+              className="input-ctrl h-9 w-full px-3 text-sm"
+            />
+            {mode !== 'reset' && (
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                autoComplete={
+                  mode === 'signUp' ? 'new-password' : 'current-password'
+                }
+                required
+                minLength={6}
+                className="input-ctrl h-9 w-full px-3 text-sm"
+              />
+            )}
+
+            {error && <div className="text-sm text-red-400">{error}</div>}
+            {info && <div className="text-sm text-green-400">{info}</div>}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="btn-ctrl h-9 w-full border-green-600 bg-green-800 text-sm text-white hover:border-green-400"
+            >
+              {mode === 'signIn'
+                ? 'Sign in'
+                : mode === 'signUp'
+                  ? 'Create account'
+                  : 'Send reset link'}
+            </button>
+
+            <div className="flex justify-between text-xs text-neutral-400">
+              {mode === 'signIn' ? (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => switchMode('signUp')}
+                    className="hover:text-white"
+                  >
+                    Create an account
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => switchMode('reset')}
+                    className="hover:text-white"
+                  >
+                    Forgot password?
+                  </button>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => switchMode('signIn')}
+                  className="hover:text-white"
+                >
+                  Back to sign in
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { MdClose } from 'react-icons/md';
+import { cn } from '../lib/utils';
+import type { BridgeSettings, BridgeStatus } from '../types/control';
+
+interface BridgeModalProps {
+  settings: BridgeSettings;
+  status: BridgeStatus;
+  clientCount: number;
+  onSave: (settings: BridgeSettings) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+const STATUS_LABELS: Record<BridgeStatus, string> = {
+  disabled: 'Off',
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  error: 'Not reachable - retrying',
+};
+
+// The bridge only lets pages from its own computer in unless told otherwise
+const isLocalPage = ['localhost', '127.0.0.1', '[::1]'].includes(
+  window.location.hostname
+);
+
+function getBridgeStatusColor(status: BridgeStatus): string {
+  switch (status) {
+    case 'connected':
+      return 'bg-green-500';
+    case 'connecting':
+      return 'bg-amber-500';
+    case 'error':
+      return 'bg-red-500';
+    default:
+      return 'bg-neutral-500';
+  }
+}
+
+export function BridgeModal({
+  settings,
+  status,
+  clientCount,
+  onSave,
+  onClose,
+  className = '',
+}: BridgeModalProps) {
+  const [url, setUrl] = useState(settings.url);
+  const [token, setToken] = useState(settings.token);
+  const [signalDisplays, setSignalDisplays] = useState(
+    !!settings.signalDisplays
+  );
+
+  // REST lives on the same host and port as the WebSocket
+  const httpUrl = url.trim().replace(/^ws/, 'http').replace(/\/+$/, '');
+  const auth = token ? ` -H "Authorization: Bearer ${token}"` : '';
+  const isDirty =
+    url !== settings.url ||
+    token !== settings.token ||
+    signalDisplays !== !!settings.signalDisplays;
+
+  // Displays on other computers need the bridge's LAN address, not localhost
+  const signalParam = `&signal=${url.trim().replace(/\/+$/, '')}${
+    token ? `?token=${token}` : ''
+  }`;
+
+  const handleConnect = () => {
+    onSave({
+      enabled: true,
+      url: url.trim(),
+      token: token.trim(),
+      signalDisplays,
+    });
+  };
+
+  return (
+    <div
+      className={cn(
+        'bridge-modal fixed inset-0 z-50 flex items-center justify-center',
+        className
+      )}
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative mx-4 w-full max-w-lg rounded-lg border border-neutral-600 bg-neutral-800 text-white shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-neutral-600 p-4">
+          <h2 className="text-lg font-medium">Remote control bridge</h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 transition-colors hover:text-white"
+          >
+            <MdClose size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4 p-4">
+          <p className="text-sm text-neutral-400">
+            Run{' '}
+            <code className="rounded bg-neutral-900 px-1 font-mono text-neutral-200">
+              node bridge/index.js
+            </code>{' '}
+            on a computer on this network. Stream decks, show control and
+            scripts can then drive the timers through it, with no internet
+            needed.
+          </p>
+          {!isLocalPage && (
+            <p className="text-sm text-neutral-400">
+              Add{' '}
+              <code className="rounded bg-neutral-900 px-1 font-mono text-neutral-200">
+                --allow-origin {window.location.origin}
+              </code>{' '}
+              so this page may connect to it.
+            </p>
+          )}
+
+          {/* Connection */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-neutral-300">
+              Bridge address
+            </label>
+            <input
+              type="text"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="ws://192.168.1.20:8765"
+              className="input-ctrl h-9 w-full px-3 font-mono text-sm"
+            />
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="Token (if the bridge was started with one)"
+              className="input-ctrl h-9 w-full px-3 text-sm"
+            />
+          </div>
+
+          {/* Peer-to-peer displays */}
+          <label className="flex items-start gap-2 text-sm text-neutral-300">
+            <input
+              type="checkbox"
+              checked={signalDisplays}
+              onChange={(e) => setSignalDisplays(e.target.checked)}
+              className="mt-0.5 h-4 w-4"
+            />
+            <span>
+              Connect displays through the bridge
+              <span className="block text-xs text-neutral-500">
+                Displays link straight to this controller and keep running if
+                the internet drops. Add{' '}
+                <code className="break-all font-mono text-neutral-300">
+                  {signalParam}
+                </code>{' '}
+                to their links, using the address they reach the bridge on.
+              </span>
+            </span>
+          </label>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span
+              className={cn(
+                'h-2 w-2 rounded-full',
+                getBridgeStatusColor(status)
+              )}
+            />
+            <span className="flex-1 text-neutral-300">
+              {STATUS_LABELS[status]}
+              {status === 'connected' &&
+                ` - ${clientCount} remote client${clientCount === 1 ? '' : 's'}`}
+            </span>
+          </div>
+
+          {/* Examples */}
+          <div className="rounded bg-neutral-900/50 p-3 font-mono text-xs text-neutral-300">
+            <div className="mb-1 font-sans text-neutral-500">Try it:</div>
+            <div className="break-all">
+              curl{auth} {httpUrl}/state
+            </div>
+            <div className="break-all">
+              curl -X POST{auth} {httpUrl}/timers/active/start
+            </div>
+            <div className="break-all">
+              curl -X POST{auth} -d '{'{"text":"Wrap up"}'}' {httpUrl}/message
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 border-t border-neutral-600 p-4">
+          {settings.enabled && (
+            <button
+              onClick={() => onSave({ ...settings, enabled: false })}
+              className="btn-ctrl h-9 px-4 text-sm"
+            >
+              Disconnect
+            </button>
+          )}
+          <button
+            onClick={handleConnect}
+            disabled={!url.trim() || (settings.enabled && !isDirty)}
+            className="btn-ctrl h-9 border-green-600 bg-green-800 px-4 text-sm text-white hover:border-green-400"
+          >
+            {settings.enabled ? 'Apply' : 'Connect'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,10 @@
 import React, { useState } from "react";
 import type { ConnectionState, DeviceInfo, NetworkDevice } from "../types/sync";
+import { useServerClock } from "../hooks/useServerClock";
+import { formatClockOffset } from "../utils/time";
+import { DisplayDeviceList, type DisplayDeviceActions } from "./DisplayDeviceList";
+import type { DisplayDevice } from "../hooks/useDisplayDevices";
+import type { Timer } from "../types";
 
 interface ConnectionStatusPanelProps {
   connectionState: ConnectionState;
@@ -8,6 +13,10 @@ interface ConnectionStatusPanelProps {
   onGeneratePairingCode: () => string;
   onConnectWithCode: (code: string) => Promise<void>;
   onRefreshDevices: () => void;
+  // The room's display registry, shown when given
+  displays?: DisplayDevice[];
+  displayTimers?: Timer[];
+  displayActions?: DisplayDeviceActions;
   className?: string;
 }
 
@@ -18,6 +27,9 @@ export function ConnectionStatusPanel({
   onGeneratePairingCode,
   onConnectWithCode,
   onRefreshDevices,
+  displays,
+  displayTimers = [],
+  displayActions,
   className = "",
 }: ConnectionStatusPanelProps) {
   const [showPairingCode, setShowPairingCode] = useState(false);
@@ -26,6 +38,7 @@ export function ConnectionStatusPanel({
   const [isConnecting, setIsConnecting] = useState(false);
 
   const { status, connectedDevices, localDevice, lastSync, errors } = connectionState;
+  const { status: clockStatus, resync: resyncClock } = useServerClock();
 
   const getStatusIcon = () => {
     switch (status) {
@@ -137,6 +150,20 @@ export function ConnectionStatusPanel({
         </div>
       )}
 
+      {/* Displays in the room, online or not */}
+      {displays && (
+        <div className="mb-4">
+          <div className="text-sm font-medium text-neutral-300 mb-2">
+            Displays in this room ({displays.filter((d) => d.online).length}/{displays.length} online)
+          </div>
+          <DisplayDeviceList
+            displays={displays}
+            timers={displayTimers}
+            actions={displayActions}
+          />
+        </div>
+      )}
+
       {/* Discovered Devices */}
       {discoveredDevices.length > 0 && (
         <div className="mb-4">
@@ -250,6 +277,32 @@ export function ConnectionStatusPanel({
           <span>Role:</span>
           <span className="capitalize">{localDevice.role}</span>
         </div>
+        <div className="flex justify-between">
+          <span>Clock Offset:</span>
+          <span
+            className={Math.abs(clockStatus.offset) >= 1000 ? "text-amber-400" : ""}
+            title="Difference between this device's clock and server time"
+          >
+            {clockStatus.sampleCount > 0
+              ? formatClockOffset(clockStatus.offset)
+              : "Not measured"}
+          </span>
+        </div>
+        {clockStatus.rtt !== null && (
+          <div className="flex justify-between">
+            <span>Clock Sync:</span>
+            <span>
+              ±{Math.round(clockStatus.rtt / 2)} ms via {clockStatus.source}
+            </span>
+          </div>
+        )}
+        <button
+          onClick={resyncClock}
+          disabled={clockStatus.isSyncing}
+          className="mt-2 text-neutral-400 hover:text-white disabled:opacity-50"
+        >
+          {clockStatus.isSyncing ? "Syncing clock..." : "Resync clock"}
+        </button>
       </div>
 
       {/* Help Text */}
@@ -9,13 +9,41 @@ import type {
 import { TimerControlsSection } from './TimerControlsSection';
 import { TimerPreview } from './TimerPreview';
 import { PreviewControls } from './PreviewControls';
+import { ScheduleIndicator } from './ScheduleIndicator';
+import { OperatorAvatars } from './OperatorAvatars';
+import type { RoomPresence } from '../services/simpleFirebase';
+import type { ScheduleEntry } from '../utils/schedule';
+import type { BridgeStatus } from '../types/control';
+import type { RunOfShowImportMode, RunOfShowRow } from '../utils/runOfShow';
 import { cn } from '../lib/utils';
+import { formatRoomId } from '../utils/room';
+import { formatClockOffset } from '../utils/time';
+import { useServerClock } from '../hooks/useServerClock';
+import { resolveThresholds } from '../utils/thresholds';
 import { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  MdUndo,
+  MdRedo,
+  MdImportExport,
+  MdAssessment,
+  MdSettingsRemote,
+  MdWebhook,
+  MdGroup,
+  MdTv,
+  MdAccountCircle,
+  MdCloudOff,
+  MdCloudUpload,
+  MdAccessTime,
+  MdVisibility,
+} from 'react-icons/md';
 
 interface ControlViewProps {
   timers: Timer[];
   activeTimer: Timer | null;
   activeTimerId: string | null;
+  pendingConfirmTimer?: Timer | null;
+  roomId?: string | null;
+  roomName?: string;
   currentMessage: Message | null;
   messageQueue: Message[];
   settings: AppSettings;
@@ -23,6 +51,14 @@ interface ControlViewProps {
   messagePresets: MessagePreset[];
   blackoutMode: boolean;
   flashMode: boolean;
+  schedule?: {
+    nextEntry: ScheduleEntry | null;
+    armedEntry: ScheduleEntry | null;
+    now: number;
+    isHeld: boolean;
+    onSkip: () => void;
+    onToggleHold: () => void;
+  };
   onAddTimer: (
     name: string,
     duration: number,
@@ -39,6 +75,7 @@ interface ControlViewProps {
   onUpdateTimerType: (timerId: string, newType: TimerType) => void;
   onUpdateTimer: (timerId: string, updates: Partial<Timer>) => void;
   onReorderTimers: (timerIds: string[]) => void;
+  onImportRunOfShow?: (rows: RunOfShowRow[], mode: RunOfShowImportMode) => void;
   onAdjustTime: (timerId: string, seconds: number) => void;
   onShowMessage: (text: string, autoHide?: boolean, hideAfter?: number) => void;
   onShowPresetMessage: (preset: MessagePreset) => void;
@@ -48,12 +85,36 @@ interface ControlViewProps {
   onToggleFullscreen: () => void;
   onToggleBlackout: () => void;
   onToggleFlash: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  undoLabel?: string | null;
+  redoLabel?: string | null;
   onSwitchToDisplay: () => void;
+  onOpenRoomPicker?: () => void;
+  onOpenMembers?: () => void;
+  onOpenDisplays?: () => void;
+  displaysOnline?: number; // Displays heartbeating into the room
+  operators?: RoomPresence[]; // Other operators with this room open
+  onFocusTimer?: (timerId: string) => void;
+  onEditTimer?: (timerId: string | null) => void;
+  accountName?: string | null; // Signed-in user shown in the header
+  onOpenAccount?: () => void;
+  showName?: string | null;
+  onOpenShows?: () => void;
+  onSaveShow?: () => void;
+  onOpenImportExport?: () => void;
+  onOpenReport?: () => void;
+  bridgeStatus?: BridgeStatus;
+  isOnline?: boolean;
+  pendingChanges?: number; // Changes not yet written to the room
+  onOpenBridge?: () => void;
+  onOpenWebhooks?: () => void;
   onSwitchToMultiDevice?: () => void;
   isTimerRunning: (timerId: string) => boolean;
   isTimerPaused: (timerId: string) => boolean;
   isTimerExpired: (timerId: string) => boolean;
   isTimerLoading?: (timerId: string) => boolean;
+  readOnly?: boolean; // Viewers follow the room but can't change it
   className?: string;
 }
 
@@ -61,6 +122,9 @@ export function ControlView({
   timers,
   activeTimer,
   activeTimerId,
+  pendingConfirmTimer,
+  roomId,
+  roomName,
   currentMessage,
   messageQueue: _messageQueue,
   settings,
@@ -68,6 +132,7 @@ export function ControlView({
   messagePresets,
   blackoutMode,
   flashMode,
+  schedule,
   onAddTimer,
   onDeleteTimer,
   onSelectTimer,
@@ -79,6 +144,7 @@ export function ControlView({
   onUpdateTimerType,
   onUpdateTimer,
   onReorderTimers,
+  onImportRunOfShow,
   onAdjustTime,
   onShowMessage: _onShowMessage,
   onShowPresetMessage,
@@ -88,14 +154,41 @@ export function ControlView({
   onToggleFullscreen,
   onToggleBlackout,
   onToggleFlash,
+  onUndo,
+  onRedo,
+  undoLabel = null,
+  redoLabel = null,
   onSwitchToDisplay,
+  onOpenRoomPicker,
+  onOpenMembers,
+  onOpenDisplays,
+  displaysOnline = 0,
+  operators = [],
+  onFocusTimer,
+  onEditTimer,
+  accountName,
+  onOpenAccount,
+  showName,
+  onOpenShows,
+  onSaveShow,
+  onOpenImportExport,
+  onOpenReport,
+  bridgeStatus = 'disabled',
+  isOnline = true,
+  pendingChanges = 0,
+  onOpenBridge,
+  onOpenWebhooks,
   onSwitchToMultiDevice,
   isTimerRunning,
   isTimerPaused,
   isTimerExpired,
   isTimerLoading,
+  readOnly = false,
   className = '',
 }: ControlViewProps) {
+  // This device's clock against server time, which every timer runs on
+  const { status: clockStatus, resync: resyncClock } = useServerClock();
+
   // State for resizable left panel
   const [leftPanelWidth, setLeftPanelWidth] = useState(480);
   const isDragging = useRef(false);
@@ -142,6 +235,11 @@ export function ControlView({
 
   const timerDimensions = getTimerDimensions();
 
+  // Read-only controls do nothing, so a viewer can't drift from the room
+  const control = <A extends unknown[]>(
+    handler: (...args: A) => void
+  ): ((...args: A) => void) => (readOnly ? () => {} : handler);
+
   // Cleanup effect for event listeners
   useEffect(() => {
     return () => {
@@ -165,9 +263,199 @@ export function ControlView({
               The Word City Stage Timer
             </span>
           </button>
+          {onOpenRoomPicker && (
+            <button
+              onClick={onOpenRoomPicker}
+              className="btn-ctrl h-8 gap-2 px-3 text-sm"
+              title="Switch or create rooms"
+            >
+              <span>Room</span>
+              {roomId && (
+                <span className="font-mono text-neutral-400">
+                  {formatRoomId(roomId)}
+                </span>
+              )}
+              {roomName && (
+                <span className="max-w-[160px] truncate text-neutral-400">
+                  {roomName}
+                </span>
+              )}
+            </button>
+          )}
+          {onOpenMembers && (
+            <button
+              onClick={onOpenMembers}
+              className="btn-ctrl h-8 w-8 p-0"
+              title="People in this room"
+            >
+              <MdGroup className="h-4 w-4" />
+            </button>
+          )}
+          {onOpenDisplays && (
+            <button
+              onClick={onOpenDisplays}
+              className={cn(
+                'btn-ctrl h-8 p-0',
+                displaysOnline > 0 ? 'gap-1 px-2' : 'w-8'
+              )}
+              title="Displays in this room"
+            >
+              <MdTv className="h-4 w-4" />
+              {displaysOnline > 0 && (
+                <span className="text-xs">{displaysOnline}</span>
+              )}
+            </button>
+          )}
+          <OperatorAvatars operators={operators} />
+          {onOpenShows && (
+            <button
+              onClick={onOpenShows}
+              className="group flex items-center gap-2 underline decoration-transparent decoration-dashed transition-colors hover:decoration-current"
+              title="Open saved shows"
+            >
+              <span
+                className={cn(
+                  'max-w-[200px] truncate text-sm',
+                  !showName && 'text-neutral-400'
+                )}
+              >
+                {showName || 'Unnamed'}
+              </span>
+            </button>
+          )}
+          {onSaveShow && (
+            <button
+              onClick={onSaveShow}
+              className="btn-ctrl h-8 px-3 text-sm"
+              title={showName ? `Save ${showName}` : 'Save as a new show'}
+            >
+              Save
+            </button>
+          )}
+          {onOpenImportExport && (
+            <button
+              onClick={onOpenImportExport}
+              className="btn-ctrl h-8 w-8 p-0"
+              title="Import or export a backup file"
+            >
+              <MdImportExport className="h-4 w-4" />
+            </button>
+          )}
+          {onOpenReport && (
+            <button
+              onClick={onOpenReport}
+              className="btn-ctrl h-8 w-8 p-0"
+              title="Timing report"
+            >
+              <MdAssessment className="h-4 w-4" />
+            </button>
+          )}
+          {onOpenBridge && (
+            <button
+              onClick={onOpenBridge}
+              className={cn(
+                'btn-ctrl h-8 w-8 p-0',
+                bridgeStatus === 'connected' && 'text-green-400',
+                bridgeStatus === 'error' && 'text-red-400'
+              )}
+              title="Remote control bridge"
+            >
+              <MdSettingsRemote className="h-4 w-4" />
+            </button>
+          )}
+          {onOpenWebhooks && (
+            <button
+              onClick={onOpenWebhooks}
+              className="btn-ctrl h-8 w-8 p-0"
+              title="Webhooks"
+            >
+              <MdWebhook className="h-4 w-4" />
+            </button>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => resyncClock()}
+            disabled={clockStatus.isSyncing}
+            className={cn(
+              'btn-ctrl h-7 gap-1.5 px-2 font-mono text-xs',
+              Math.abs(clockStatus.offset) >= 1000 && 'text-amber-400'
+            )}
+            title={
+              clockStatus.sampleCount > 0
+                ? `Clock offset from server time${
+                    clockStatus.rtt !== null
+                      ? ` (±${Math.round(clockStatus.rtt / 2)} ms via ${clockStatus.source})`
+                      : ''
+                  } - click to resync`
+                : 'Clock not measured yet - click to sync'
+            }
+          >
+            <MdAccessTime className="h-4 w-4" />
+            {clockStatus.isSyncing
+              ? 'Syncing...'
+              : clockStatus.sampleCount > 0
+                ? formatClockOffset(clockStatus.offset)
+                : '--'}
+          </button>
+          {readOnly && (
+            <span
+              className="flex h-7 items-center gap-1.5 rounded border border-neutral-600 px-2 text-sm text-neutral-300"
+              title="Your role in this room can follow the timers but not change them"
+            >
+              <MdVisibility className="h-4 w-4" />
+              View only
+            </span>
+          )}
+          {(!isOnline || pendingChanges > 0) && (
+            <span
+              className={cn(
+                'flex h-7 items-center gap-1.5 rounded border px-2 text-sm',
+                isOnline
+                  ? 'border-blue-600 bg-blue-900/40 text-blue-200'
+                  : 'border-amber-600 bg-amber-900/40 text-amber-200'
+              )}
+              title={
+                isOnline
+                  ? 'Sending changes made while offline'
+                  : 'Offline - changes are saved here and sent when the connection is back'
+              }
+            >
+              {isOnline ? (
+                <MdCloudUpload className="h-4 w-4" />
+              ) : (
+                <MdCloudOff className="h-4 w-4" />
+              )}
+              {pendingChanges > 0 ? `${pendingChanges} pending` : 'Offline'}
+            </span>
+          )}
+          {onUndo && (
+            <button
+              onClick={onUndo}
+              disabled={!undoLabel}
+              className="btn-ctrl h-7 w-7 p-0 disabled:opacity-40"
+              title={
+                undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'
+              }
+            >
+              <MdUndo className="h-4 w-4" />
+            </button>
+          )}
+          {onRedo && (
+            <button
+              onClick={onRedo}
+              disabled={!redoLabel}
+              className="btn-ctrl h-7 w-7 p-0 disabled:opacity-40"
+              title={
+                redoLabel
+                  ? `Redo ${redoLabel} (Ctrl+Shift+Z)`
+                  : 'Nothing to redo'
+              }
+            >
+              <MdRedo className="h-4 w-4" />
+            </button>
+          )}
           <button
             onClick={onSwitchToDisplay}
             className={cn('btn-ctrl h-7 px-3 text-sm')}
@@ -188,6 +476,18 @@ export function ControlView({
               Multi-Device
             </button>
           )}
+          {onOpenAccount && (
+            <button
+              onClick={onOpenAccount}
+              className="btn-ctrl h-7 gap-1.5 px-2 text-sm"
+              title="Account"
+            >
+              <MdAccountCircle className="h-4 w-4" />
+              <span className="max-w-[160px] truncate">
+                {accountName || 'Sign in'}
+              </span>
+            </button>
+          )}
         </div>
       </header>
 
@@ -219,6 +519,10 @@ export function ControlView({
                         settings={settings.display}
                         isExpired={isTimerExpired(activeTimer.id)}
                         isActive={true}
+                        thresholds={resolveThresholds(
+                          activeTimer,
+                          settings.timer
+                        )}
                       />
                     ) : (
                       <div className="text-center">
@@ -235,24 +539,50 @@ export function ControlView({
               </div>
             </div>
 
+            {/* Linked timer waiting for the operator */}
+            {pendingConfirmTimer && !readOnly && (
+              <div className="mb-4 flex flex-none items-center gap-3 rounded border border-amber-500 bg-amber-900/40 px-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <div className="text-xs uppercase tracking-wide text-amber-300">
+                    Up next
+                  </div>
+                  <div className="truncate text-sm text-white">
+                    {pendingConfirmTimer.name}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onStartTimer(pendingConfirmTimer.id)}
+                  className="btn-ctrl h-8 border-green-600 bg-green-800 px-3 text-sm text-white hover:border-green-400"
+                >
+                  Start next
+                </button>
+              </div>
+            )}
+
             {/* Preview Controls */}
-            <div className="flex-none">
+            <fieldset disabled={readOnly} className="flex-none">
               <PreviewControls
                 timers={timers}
                 activeTimerId={activeTimerId}
-                onSelectTimer={onSelectTimer}
-                onStartTimer={onStartTimer}
-                onPauseTimer={onPauseTimer}
-                onResetTimer={onResetTimer}
-                onAdjustTime={onAdjustTime}
-                onUpdateTimerDuration={onUpdateTimerDuration}
+                onSelectTimer={control(onSelectTimer)}
+                onStartTimer={control(onStartTimer)}
+                onPauseTimer={control(onPauseTimer)}
+                onResetTimer={control(onResetTimer)}
+                onAdjustTime={control(onAdjustTime)}
+                onUpdateTimerDuration={control(onUpdateTimerDuration)}
                 isTimerRunning={isTimerRunning}
                 isTimerPaused={isTimerPaused}
               />
-            </div>
+            </fieldset>
 
             {/* Clock and Status */}
             <div className="mt-4 flex-none space-y-3">
+              {schedule && (
+                <ScheduleIndicator
+                  {...schedule}
+                  timeFormat={settings.display.timeFormat}
+                />
+              )}
               <div className="rounded bg-neutral-800 p-3">
                 <button className="flex w-full items-baseline rounded px-3 py-2 transition-colors hover:bg-neutral-700">
                   <span className="text-sm text-neutral-300">
@@ -272,33 +602,44 @@ export function ControlView({
           />
 
           {/* Center Panel - Timer Controls */}
-          <TimerControlsSection
-            timers={timers}
-            activeTimerId={activeTimerId}
-            onAddTimer={onAddTimer}
-            onDeleteTimer={onDeleteTimer}
-            onSelectTimer={onSelectTimer}
-            onStartTimer={onStartTimer}
-            onPauseTimer={onPauseTimer}
-            onResetTimer={onResetTimer}
-            onUpdateTimerTime={onUpdateTimerTime}
-            onUpdateTimerDuration={onUpdateTimerDuration}
-            onUpdateTimerType={onUpdateTimerType}
-            onUpdateTimer={onUpdateTimer}
-            onReorderTimers={onReorderTimers}
-            onToggleBlackout={onToggleBlackout}
-            onToggleFlash={onToggleFlash}
-            isTimerRunning={isTimerRunning}
-            isTimerPaused={isTimerPaused}
-            isTimerExpired={isTimerExpired}
-            isTimerLoading={isTimerLoading}
-            blackoutMode={blackoutMode}
-            flashMode={flashMode}
-          />
+          <fieldset disabled={readOnly} className="contents">
+            <TimerControlsSection
+              timers={timers}
+              activeTimerId={activeTimerId}
+              onAddTimer={control(onAddTimer)}
+              onDeleteTimer={control(onDeleteTimer)}
+              onSelectTimer={control(onSelectTimer)}
+              onStartTimer={control(onStartTimer)}
+              onPauseTimer={control(onPauseTimer)}
+              onResetTimer={control(onResetTimer)}
+              onUpdateTimerTime={control(onUpdateTimerTime)}
+              onUpdateTimerDuration={control(onUpdateTimerDuration)}
+              onUpdateTimerType={control(onUpdateTimerType)}
+              onUpdateTimer={control(onUpdateTimer)}
+              onReorderTimers={control(onReorderTimers)}
+              onImportRunOfShow={readOnly ? undefined : onImportRunOfShow}
+              onToggleBlackout={control(onToggleBlackout)}
+              onToggleFlash={control(onToggleFlash)}
+              isTimerRunning={isTimerRunning}
+              isTimerPaused={isTimerPaused}
+              isTimerExpired={isTimerExpired}
+              isTimerLoading={isTimerLoading}
+              blackoutMode={blackoutMode}
+              flashMode={flashMode}
+              timeFormat={settings.display.timeFormat}
+              defaultThresholds={settings.timer.thresholds}
+              operators={operators}
+              onFocusTimer={onFocusTimer}
+              onEditTimer={onEditTimer}
+            />
+          </fieldset>
 
           {/* Right Panel - Messages */}
           <section className="message-controls-section w-80 flex-none p-4">
-            <div className="controller-messages flex-auto lg:h-full">
+            <fieldset
+              disabled={readOnly}
+              className="controller-messages flex-auto lg:h-full"
+            >
               <div className="mb-4 flex items-center justify-between">
                 <h2 className="text-lg font-medium text-white">Messages</h2>
                 <div className="flex items-center gap-2">
@@ -326,7 +667,7 @@ export function ControlView({
                 {messagePresets.slice(0, 5).map((preset, index) => (
                   <button
                     key={preset.id}
-                    onClick={() => onShowPresetMessage(preset)}
+                    onClick={() => control(onShowPresetMessage)(preset)}
                     className="btn-msg h-12 w-12 rounded border border-neutral-600 bg-neutral-800 text-xs"
                     title={preset.name}
                   >
@@ -338,7 +679,7 @@ export function ControlView({
               {/* Message Controls */}
               <div className="mb-4 flex gap-2">
                 <button
-                  onClick={onClearMessage}
+                  onClick={control(onClearMessage)}
                   className="btn-ctrl flex h-8 flex-1 items-center truncate px-3"
                 >
                   Clear
@@ -366,7 +707,7 @@ export function ControlView({
                   Submit questions link
                 </button>
               </div>
-            </div>
+            </fieldset>
           </section>
         </div>
       </main>
@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { MdDelete, MdEdit, MdFlashOn } from 'react-icons/md';
+import { cn } from '../lib/utils';
+import { serverClock } from '../services/serverClock';
+import { formatTimeAgo } from '../utils/time';
+import { getDisplayName, type DisplayDevice } from '../hooks/useDisplayDevices';
+import type {
+  DisplayAssignment,
+  DisplayLayout,
+} from '../services/simpleFirebase';
+import type { Timer } from '../types';
+
+// What a controller can do to a display
+export interface DisplayDeviceActions {
+  onRename: (deviceId: string, label: string) => void;
+  onIdentify: (deviceId: string) => void;
+  onAssign: (deviceId: string, assignment: DisplayAssignment) => void;
+  onForget: (deviceId: string) => void;
+}
+
+interface DisplayDeviceListProps {
+  displays: DisplayDevice[];
+  timers: Timer[]; // Choices for assigning a timer
+  actions?: DisplayDeviceActions; // Missing for viewers, who only see the list
+  className?: string;
+}
+
+const LAYOUT_LABELS: Record<DisplayLayout, string> = {
+  standard: 'Timer and messages',
+  timer: 'Timer only',
+  clock: 'Time of day',
+};
+
+// A display nobody has assigned anything shows what the room does
+const FOLLOW_ROOM: DisplayAssignment = {
+  timerId: null,
+  layout: null,
+  blackout: null,
+};
+
+// Displays that have opened the room, with what each one shows
+export function DisplayDeviceList({
+  displays,
+  timers,
+  actions,
+  className = '',
+}: DisplayDeviceListProps) {
+  if (displays.length === 0) {
+    return (
+      <div className={cn('text-sm text-neutral-500', className)}>
+        No displays have opened this room yet
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        'divide-y divide-neutral-700 rounded border border-neutral-700',
+        className
+      )}
+    >
+      {displays.map((display) => (
+        <DisplayRow
+          key={display.id}
+          display={display}
+          timers={timers}
+          actions={actions}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface DisplayRowProps {
+  display: DisplayDevice;
+  timers: Timer[];
+  actions?: DisplayDeviceActions;
+}
+
+function DisplayRow({ display, timers, actions }: DisplayRowProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [label, setLabel] = useState('');
+
+  const assignment = display.assignment ?? FOLLOW_ROOM;
+  const assignedTimerMissing =
+    !!assignment.timerId && !timers.some((t) => t.id === assignment.timerId);
+
+  const startRenaming = () => {
+    setLabel(getDisplayName(display));
+    setIsRenaming(true);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    actions?.onRename(display.id, label);
+    setIsRenaming(false);
+  };
+
+  const assign = (change: Partial<DisplayAssignment>) =>
+    actions?.onAssign(display.id, { ...assignment, ...change });
+
+  return (
+    <div className="space-y-2 px-3 py-2 text-sm">
+      <div className="flex items-center gap-2">
+        <div
+          className={cn(
+            'h-2 w-2 shrink-0 rounded-full',
+            display.online ? 'bg-green-400' : 'bg-neutral-500'
+          )}
+          title={display.online ? 'Online' : 'Offline'}
+        />
+        <div className="min-w-0 flex-1">
+          {isRenaming ? (
+            <form onSubmit={handleRename} className="flex gap-2">
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                onBlur={() => setIsRenaming(false)}
+                onKeyDown={(e) => e.key === 'Escape' && setIsRenaming(false)}
+                placeholder={display.name}
+                maxLength={40}
+                autoFocus
+                className="input-ctrl h-7 min-w-0 flex-1 px-2 text-sm"
+              />
+            </form>
+          ) : (
+            <div className="truncate text-white">
+              {getDisplayName(display)}
+              {display.label && display.label !== display.name && (
+                <span className="text-neutral-500"> ({display.name})</span>
+              )}
+            </div>
+          )}
+          <div className="truncate text-xs text-neutral-400">
+            {display.online
+              ? 'Online'
+              : `Last seen ${formatTimeAgo(display.lastSeen, serverClock.now())}`}
+            {display.resolution && ` • ${display.resolution}`}
+            {display.appVersion && ` • v${display.appVersion}`}
+          </div>
+        </div>
+        {actions && (
+          <>
+            <button
+              onClick={startRenaming}
+              className="btn-ctrl h-7 w-7 p-0"
+              title="Rename"
+            >
+              <MdEdit size={14} />
+            </button>
+            <button
+              onClick={() => actions.onIdentify(display.id)}
+              disabled={!display.online}
+              className="btn-ctrl h-7 w-7 p-0"
+              title="Flash its name on screen"
+            >
+              <MdFlashOn size={14} />
+            </button>
+            <button
+              onClick={() => actions.onForget(display.id)}
+              className="btn-ctrl h-7 w-7 p-0 hover:text-red-400"
+              title="Forget - it comes back if it reconnects"
+            >
+              <MdDelete size={14} />
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* What this display shows */}
+      <div className="flex flex-wrap gap-2 pl-4">
+        <select
+          value={assignment.timerId ?? ''}
+          onChange={(e) => assign({ timerId: e.target.value || null })}
+          disabled={!actions || assignment.layout === 'clock'}
+          className="input-ctrl h-7 min-w-0 flex-1 px-2 text-xs"
+          title="Timer"
+        >
+          <option value="">Active timer</option>
+          {assignedTimerMissing && (
+            <option value={assignment.timerId!}>Deleted timer</option>
+          )}
+          {timers.map((timer) => (
+            <option key={timer.id} value={timer.id}>
+              {timer.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={assignment.layout ?? 'standard'}
+          onChange={(e) => assign({ layout: e.target.value as DisplayLayout })}
+          disabled={!actions}
+          className="input-ctrl h-7 px-2 text-xs"
+          title="Layout"
+        >
+          {Object.entries(LAYOUT_LABELS).map(([layout, name]) => (
+            <option key={layout} value={layout}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={
+            assignment.blackout === null ? '' : String(assignment.blackout)
+          }
+          onChange={(e) =>
+            assign({
+              blackout:
+                e.target.value === '' ? null : e.target.value === 'true',
+            })
+          }
+          disabled={!actions}
+          className="input-ctrl h-7 px-2 text-xs"
+          title="Blackout"
+        >
+          <option value="">Room blackout</option>
+          <option value="true">Always black</option>
+          <option value="false">Never black</option>
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { MdClose } from 'react-icons/md';
+import { cn } from '../lib/utils';
+import { formatRoomId } from '../utils/room';
+import {
+  DisplayDeviceList,
+  type DisplayDeviceActions,
+} from './DisplayDeviceList';
+import type { DisplayDevice } from '../hooks/useDisplayDevices';
+import type { Timer } from '../types';
+
+interface DisplaysModalProps {
+  roomId: string;
+  displays: DisplayDevice[];
+  timers: Timer[];
+  error: string | null;
+  actions?: DisplayDeviceActions; // Missing for viewers
+  onClose: () => void;
+  className?: string;
+}
+
+export function DisplaysModal({
+  roomId,
+  displays,
+  timers,
+  error,
+  actions,
+  onClose,
+  className = '',
+}: DisplaysModalProps) {
+  const onlineCount = displays.filter((d) => d.online).length;
+
+  return (
+    <div
+      className={cn(
+        'displays-modal fixed inset-0 z-50 flex items-center justify-center',
+        className
+      )}
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative mx-4 flex max-h-[90vh] w-full max-w-lg flex-col rounded-lg border border-neutral-600 bg-neutral-800 text-white shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-neutral-600 p-4">
+          <h2 className="text-lg font-medium">
+            Displays in {formatRoomId(roomId)}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 transition-colors hover:text-white"
+          >
+            <MdClose size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-y-auto p-4">
+          <p className="text-xs text-neutral-500">
+            {onlineCount} of {displays.length} online.{' '}
+            {actions &&
+              'Flash a display to find it, then give it a name and choose what it shows. Anything left on the room setting follows this controller.'}
+          </p>
+
+          {error && <div className="text-sm text-red-400">{error}</div>}
+
+          <DisplayDeviceList
+            displays={displays}
+            timers={timers}
+            actions={actions}
+          />
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end border-t border-neutral-600 p-4">
+          <button onClick={onClose} className="btn-ctrl h-9 px-4 text-sm">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
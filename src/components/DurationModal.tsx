@@ -6,6 +6,7 @@ interface DurationModalProps {
   onSave: (duration: number) => void;
   onCancel: () => void;
   position: { top: number; left: number };
+  lockedBy?: string; // Another operator with this timer open
 }
 
 export function DurationModal({
@@ -14,6 +15,7 @@ export function DurationModal({
   onSave,
   onCancel,
   position,
+  lockedBy,
 }: DurationModalProps) {
   const [hours, setHours] = useState(0);
   const [minutes, setMinutes] = useState(10); // Default to 10 minutes
@@ -67,6 +69,12 @@ export function DurationModal({
         }}
         onKeyDown={handleKeyDown}
       >
+        {lockedBy && (
+          <div className="mb-4 rounded border border-amber-600/40 bg-amber-900/20 p-2 text-sm text-amber-200">
+            {lockedBy} is editing this timer too
+          </div>
+        )}
+
         <div className="mb-4">
           <h3 className="mb-1 font-medium text-white">Duration</h3>
           <p className="text-sm text-neutral-400">
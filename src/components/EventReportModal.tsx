@@ -0,0 +1,329 @@
+import { useMemo, useState } from 'react';
+import { MdAdd, MdClose, MdDelete, MdFileDownload } from 'react-icons/md';
+import type { EventLog } from '../types';
+import { cn, downloadFile } from '../lib/utils';
+import { serverClock } from '../services/serverClock';
+import { formatClockTime, getDisplayTime } from '../utils/time';
+import {
+  buildEventReport,
+  describeAdjustments,
+  describeTimerEvent,
+  eventReportToCsv,
+  eventReportToHtml,
+  formatSignedDuration,
+} from '../utils/eventReport';
+
+interface EventReportModalProps {
+  logs: EventLog[]; // Newest first
+  operatorName: string;
+  timeFormat?: '12h' | '24h';
+  onOperatorNameChange: (name: string) => void;
+  onStartNewLog: () => void;
+  onDeleteLog: (logId: string) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+// Red when a segment ran over, green when it came in under
+function overrunClass(seconds: number | null): string {
+  if (seconds === null || seconds === 0) return 'text-neutral-400';
+  return seconds > 0 ? 'text-red-400' : 'text-green-400';
+}
+
+export function EventReportModal({
+  logs,
+  operatorName,
+  timeFormat = '12h',
+  onOperatorNameChange,
+  onStartNewLog,
+  onDeleteLog,
+  onClose,
+  className = '',
+}: EventReportModalProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showEvents, setShowEvents] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const log = logs.find((l) => l.id === selectedId) ?? logs[0] ?? null;
+  const report = useMemo(
+    () => (log ? buildEventReport(log, serverClock.now()) : null),
+    [log]
+  );
+
+  const clock = (timestamp: number | null) =>
+    timestamp !== null ? formatClockTime(timestamp, timeFormat, true) : '—';
+  const duration = (seconds: number) => getDisplayTime(seconds, true, false);
+  const fileName = (extension: string) =>
+    `timing-report-${new Date(log?.startedAt ?? Date.now())
+      .toISOString()
+      .slice(0, 10)}.${extension}`;
+
+  const handleExportCsv = () => {
+    if (!report) return;
+    downloadFile(eventReportToCsv(report), fileName('csv'), 'text/csv');
+  };
+
+  const handleExportHtml = () => {
+    if (!log || !report) return;
+    downloadFile(
+      eventReportToHtml(log, report, timeFormat),
+      fileName('html'),
+      'text/html'
+    );
+  };
+
+  const handleDelete = () => {
+    if (!log) return;
+    onDeleteLog(log.id);
+    setSelectedId(null);
+    setConfirmDelete(false);
+  };
+
+  return (
+    <div
+      className={cn(
+        'event-report-modal fixed inset-0 z-50 flex items-center justify-center',
+        className
+      )}
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative mx-4 flex max-h-[90vh] w-full max-w-4xl flex-col rounded-lg border border-neutral-600 bg-neutral-800 text-white shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-neutral-600 p-4">
+          <h2 className="text-lg font-medium">Timing report</h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 transition-colors hover:text-white"
+          >
+            <MdClose size={20} />
+          </button>
+        </div>
+
+        {/* Log and operator */}
+        <div className="flex flex-wrap items-center gap-2 border-b border-neutral-600 p-4">
+          <select
+            value={log?.id ?? ''}
+            onChange={(e) => {
+              setSelectedId(e.target.value);
+              setConfirmDelete(false);
+            }}
+            disabled={logs.length === 0}
+            className="input-ctrl h-8 min-w-0 flex-1 px-2 text-sm"
+          >
+            {logs.length === 0 && (
+              <option value="">No events logged yet</option>
+            )}
+            {logs.map((l, index) => (
+              <option key={l.id} value={l.id}>
+                {l.name}
+                {index === 0 ? ' (recording)' : ''}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => {
+              onStartNewLog();
+              setSelectedId(null);
+            }}
+            className="btn-ctrl h-8 gap-1 px-3 text-sm"
+            title="Log from here on into a new event"
+          >
+            <MdAdd size={16} />
+            New log
+          </button>
+          <label className="ml-auto flex items-center gap-2 text-sm text-neutral-400">
+            Logged as
+            <input
+              type="text"
+              value={operatorName}
+              onChange={(e) => onOperatorNameChange(e.target.value)}
+              placeholder="Your name"
+              className="input-ctrl h-8 w-36 px-2 text-sm"
+            />
+          </label>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-y-auto p-4">
+          {!report || report.rows.length === 0 ? (
+            <div className="py-8 text-center text-sm text-neutral-500">
+              Nothing has been started in this log yet.
+            </div>
+          ) : (
+            <>
+              {/* Totals */}
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="rounded bg-neutral-900/50 p-3">
+                  <div className="text-xs text-neutral-400">Planned</div>
+                  <div className="font-mono text-lg">
+                    {duration(report.plannedDuration)}
+                  </div>
+                </div>
+                <div className="rounded bg-neutral-900/50 p-3">
+                  <div className="text-xs text-neutral-400">Actual</div>
+                  <div className="font-mono text-lg">
+                    {duration(report.actualDuration)}
+                  </div>
+                </div>
+                <div className="rounded bg-neutral-900/50 p-3">
+                  <div className="text-xs text-neutral-400">Over/under</div>
+                  <div
+                    className={cn(
+                      'font-mono text-lg',
+                      overrunClass(report.overrun)
+                    )}
+                  >
+                    {formatSignedDuration(report.overrun) || '—'}
+                  </div>
+                </div>
+              </div>
+
+              {/* Segments */}
+              <div className="overflow-x-auto rounded bg-neutral-900/50">
+                <table className="w-full text-left text-xs">
+                  <thead className="border-b border-neutral-700 text-neutral-400">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Segment</th>
+                      <th className="px-3 py-2 font-medium">Started</th>
+                      <th className="px-3 py-2 font-medium">Planned</th>
+                      <th className="px-3 py-2 font-medium">Actual</th>
+                      <th className="px-3 py-2 font-medium">Over/under</th>
+                      <th className="px-3 py-2 font-medium">Pauses</th>
+                      <th className="px-3 py-2 font-medium">Adjusted</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.rows.map((row) => (
+                      <tr
+                        key={row.timerId}
+                        className="border-b border-neutral-700/50 last:border-0"
+                      >
+                        <td className="px-3 py-2">
+                          {row.name}
+                          {row.lastEnd === null && (
+                            <span className="ml-2 text-green-400">live</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 font-mono">
+                          {clock(row.firstStart)}
+                        </td>
+                        <td className="px-3 py-2 font-mono">
+                          {duration(row.plannedDuration)}
+                        </td>
+                        <td className="px-3 py-2 font-mono">
+                          {duration(row.actualDuration)}
+                        </td>
+                        <td
+                          className={cn(
+                            'px-3 py-2 font-mono',
+                            overrunClass(row.overrun)
+                          )}
+                        >
+                          {formatSignedDuration(row.overrun) || '—'}
+                        </td>
+                        <td className="px-3 py-2">{row.pauses || ''}</td>
+                        <td className="px-3 py-2 text-neutral-300">
+                          {describeAdjustments(row.adjustments)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {/* Raw events */}
+          {log && log.events.length > 0 && (
+            <div>
+              <button
+                onClick={() => setShowEvents(!showEvents)}
+                className="text-sm text-neutral-400 transition-colors hover:text-white"
+              >
+                {showEvents ? 'Hide' : 'Show'} event log ({log.events.length})
+              </button>
+              {showEvents && (
+                <div className="mt-2 max-h-64 overflow-y-auto rounded bg-neutral-900/50 font-mono text-xs">
+                  {log.events.map((event) => (
+                    <div
+                      key={event.id}
+                      className="flex gap-3 border-b border-neutral-700/50 px-3 py-1.5 last:border-0"
+                    >
+                      <span className="text-neutral-500">
+                        {clock(event.at)}
+                      </span>
+                      <span className="flex-1 truncate">{event.timerName}</span>
+                      <span>{describeTimerEvent(event)}</span>
+                      <span className="w-24 truncate text-right text-neutral-400">
+                        {event.by ?? ''}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-neutral-600 p-4">
+          {confirmDelete && log ? (
+            <div className="rounded border border-red-600/40 bg-red-900/20 p-3 text-sm text-red-200">
+              <div className="mb-3">
+                Delete the log for {log.name}? This can't be undone.
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setConfirmDelete(false)}
+                  className="btn-ctrl h-8 px-3 text-sm"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="btn-ctrl h-8 border-red-600 bg-red-800 px-3 text-sm text-white hover:border-red-400"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setConfirmDelete(true)}
+                disabled={!log}
+                className="btn-ctrl h-9 gap-2 px-3 text-sm"
+                title="Delete this log"
+              >
+                <MdDelete size={16} />
+              </button>
+              <div className="flex-1" />
+              <button
+                onClick={handleExportCsv}
+                disabled={!report || report.rows.length === 0}
+                className="btn-ctrl h-9 gap-2 px-4 text-sm"
+              >
+                <MdFileDownload size={16} />
+                CSV
+              </button>
+              <button
+                onClick={handleExportHtml}
+                disabled={!report || report.rows.length === 0}
+                className="btn-ctrl h-9 gap-2 px-4 text-sm"
+                title="A page you can open and print"
+              >
+                <MdFileDownload size={16} />
+                Printable HTML
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
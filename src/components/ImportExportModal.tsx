@@ -0,0 +1,211 @@
+import { useState, useRef } from 'react';
+import { MdClose, MdFileDownload, MdFileUpload } from 'react-icons/md';
+import { cn, downloadFile } from '../lib/utils';
+import {
+  parseAppExport,
+  serializeAppExport,
+  type AppExportContent,
+  type ImportMode,
+  type ImportResult,
+} from '../utils/appExport';
+
+interface ImportExportModalProps {
+  content: AppExportContent; // Current state, for export
+  fileName?: string; // Without extension
+  onImport: (content: AppExportContent, mode: ImportMode) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export function ImportExportModal({
+  content,
+  fileName = 'stage-timer',
+  onImport,
+  onClose,
+  className = '',
+}: ImportExportModalProps) {
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [uploadedName, setUploadedName] = useState<string | null>(null);
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    downloadFile(
+      serializeAppExport(content),
+      `${fileName}-${new Date().toISOString().slice(0, 10)}.json`,
+      'application/json'
+    );
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setUploadedName(file.name);
+    setConfirmReplace(false);
+    setResult(parseAppExport(await file.text()));
+  };
+
+  const handleImport = (mode: ImportMode) => {
+    if (!result?.ok) return;
+    onImport(result.data, mode);
+    onClose();
+  };
+
+  return (
+    <div
+      className={cn(
+        'import-export-modal fixed inset-0 z-50 flex items-center justify-center',
+        className
+      )}
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative mx-4 w-full max-w-lg rounded-lg border border-neutral-600 bg-neutral-800 text-white shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-neutral-600 p-4">
+          <h2 className="text-lg font-medium">Import / Export</h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 transition-colors hover:text-white"
+          >
+            <MdClose size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-6 p-4">
+          {/* Export */}
+          <div>
+            <div className="mb-2 text-sm font-medium text-neutral-300">
+              Export
+            </div>
+            <div className="flex items-center gap-3">
+              <p className="flex-1 text-xs text-neutral-400">
+                {content.timers.timers.length} timers,{' '}
+                {content.timerPresets.length} timer presets,{' '}
+                {content.messagePresets.length} message presets and settings
+              </p>
+              <button
+                onClick={handleExport}
+                className="btn-ctrl h-9 gap-2 px-4 text-sm"
+              >
+                <MdFileDownload size={16} />
+                Download
+              </button>
+            </div>
+          </div>
+
+          {/* Import */}
+          <div>
+            <div className="mb-2 text-sm font-medium text-neutral-300">
+              Import
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="btn-ctrl h-9 w-full gap-2 px-4 text-sm"
+            >
+              <MdFileUpload size={16} />
+              {uploadedName ?? 'Choose a file...'}
+            </button>
+
+            {/* Validation errors */}
+            {result && !result.ok && (
+              <div className="mt-3 rounded bg-red-900/20 p-3 text-sm text-red-300">
+                <div className="mb-2">This file can't be imported:</div>
+                <ul className="max-h-48 space-y-1 overflow-y-auto text-xs">
+                  {result.errors.map((error, index) => (
+                    <li key={index}>
+                      {error.path && (
+                        <code className="font-mono text-red-200">
+                          {error.path}
+                        </code>
+                      )}
+                      {error.path && ' - '}
+                      {error.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Preview and mode */}
+            {result?.ok && (
+              <div className="mt-3 space-y-3 rounded bg-neutral-700/50 p-3 text-sm">
+                <div>
+                  {result.data.timers.timers.length} timers,{' '}
+                  {result.data.timerPresets.length} timer presets,{' '}
+                  {result.data.messagePresets.length} message presets
+                  {result.fromVersion < result.data.version && (
+                    <span className="text-neutral-400">
+                      {' '}
+                      (upgraded from version {result.fromVersion})
+                    </span>
+                  )}
+                </div>
+
+                {result.warnings.map((warning, index) => (
+                  <div key={index} className="text-xs text-amber-300">
+                    {warning}
+                  </div>
+                ))}
+
+                {confirmReplace ? (
+                  <div className="rounded border border-amber-600/40 bg-amber-900/20 p-3 text-amber-200">
+                    <div className="mb-3">
+                      Replace all timers, presets and settings with this file?
+                      Anything running stops.
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => setConfirmReplace(false)}
+                        className="btn-ctrl h-8 px-3 text-sm"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => handleImport('replace')}
+                        className="btn-ctrl h-8 border-amber-600 bg-amber-800 px-3 text-sm text-white hover:border-amber-400"
+                      >
+                        Replace
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleImport('merge')}
+                      className="btn-ctrl h-8 flex-1 px-3 text-sm"
+                      title="Add the file's timers and presets, keep current settings"
+                    >
+                      Merge
+                    </button>
+                    <button
+                      onClick={() => setConfirmReplace(true)}
+                      className="btn-ctrl h-8 flex-1 px-3 text-sm"
+                      title="Swap everything for the file's contents"
+                    >
+                      Replace
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
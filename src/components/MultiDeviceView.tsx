@@ -4,6 +4,8 @@ import type { ConnectionState, NetworkDevice, PairingInfo } from "../types/sync"
 import { DeviceRoleSelector } from "./DeviceRoleSelector";
 import { ConnectionStatusPanel } from "./ConnectionStatusPanel";
 import { QRCodePairing } from "./QRCodePairing";
+import type { DisplayDeviceActions } from "./DisplayDeviceList";
+import type { DisplayDevice } from "../hooks/useDisplayDevices";
 
 interface MultiDeviceViewProps {
   timers: Timer[];
@@ -27,6 +29,10 @@ interface MultiDeviceViewProps {
   onGeneratePairingInfo: () => Promise<PairingInfo>;
   onConnectWithPairingInfo: (info: PairingInfo) => Promise<void>;
   onRefreshDevices: () => void;
+
+  // Display registry for the room
+  displays?: DisplayDevice[];
+  displayActions?: DisplayDeviceActions;
   
   // Timer actions (for controller)
   onAddTimer: (name: string, duration: number, type: TimerType) => void;
@@ -55,6 +61,7 @@ interface MultiDeviceViewProps {
 }
 
 export function MultiDeviceView({
+  timers,
   connectionState,
   discoveredDevices,
   onSetDeviceRole,
@@ -66,6 +73,8 @@ export function MultiDeviceView({
   onGeneratePairingInfo,
   onConnectWithPairingInfo,
   onRefreshDevices,
+  displays,
+  displayActions,
   onSwitchToDisplay,
   onSwitchToControl,
   className = "",
@@ -172,6 +181,14 @@ export function MultiDeviceView({
                 <span>Discovered:</span>
                 <span className="text-white">{discoveredDevices.length}</span>
               </div>
+              {displays && (
+                <div className="flex justify-between">
+                  <span>Displays Online:</span>
+                  <span className="text-white">
+                    {displays.filter((d) => d.online).length}/{displays.length}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -212,6 +229,9 @@ export function MultiDeviceView({
                 onGeneratePairingCode={onGeneratePairingCode}
                 onConnectWithCode={onConnectWithCode}
                 onRefreshDevices={onRefreshDevices}
+                displays={displays}
+                displayTimers={timers}
+                displayActions={displayActions}
               />
             </div>
           )}
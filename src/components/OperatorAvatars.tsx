@@ -0,0 +1,44 @@
+import type { RoomPresence } from '../services/simpleFirebase';
+import { getInitials, getOperatorColor } from '../utils/presence';
+import { cn } from '../lib/utils';
+
+interface OperatorAvatarsProps {
+  operators: RoomPresence[];
+  editingTimerId?: string; // Ring whoever is editing this timer
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+// Overlapping initials of other operators, with their names on hover
+export function OperatorAvatars({
+  operators,
+  editingTimerId,
+  size = 'md',
+  className = '',
+}: OperatorAvatarsProps) {
+  if (operators.length === 0) return null;
+
+  return (
+    <div className={cn('flex -space-x-1.5', className)}>
+      {operators.map((operator) => {
+        const isEditing =
+          !!editingTimerId && operator.editingTimerId === editingTimerId;
+
+        return (
+          <span
+            key={operator.id}
+            className={cn(
+              'flex items-center justify-center rounded-full border-2 border-neutral-800 font-semibold text-white',
+              size === 'sm' ? 'h-6 w-6 text-[10px]' : 'h-7 w-7 text-xs',
+              getOperatorColor(operator.uid),
+              isEditing && 'ring-2 ring-amber-400'
+            )}
+            title={isEditing ? `${operator.name} is editing` : operator.name}
+          >
+            {getInitials(operator.name)}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import type {
+  ProgressBarSettings,
+  TimerState,
+  TimerThresholds,
+} from '../types';
+import { DEFAULT_PROGRESS_BAR, DEFAULT_TIMER_THRESHOLDS } from '../types';
+import { getThresholdLevel, getThresholdPercentage } from '../utils/thresholds';
+import { cn } from '../lib/utils';
+
+interface ProgressBarProps {
+  timer: TimerState;
+  thresholds?: TimerThresholds;
+  settings?: ProgressBarSettings;
+  className?: string;
+}
+
+const SIZE_CLASSES: Record<ProgressBarSettings['size'], string> = {
+  thin: 'h-[4%]',
+  medium: 'h-[8%]',
+  thick: 'h-[12%]',
+};
+
+// Horizontal countdown progress along the bottom of the timer. Sections are
+// coloured by the wrap-up thresholds, and once the countdown goes negative
+// the bar makes room for a red overrun section that grows with the overrun.
+export function ProgressBar({
+  timer,
+  thresholds = DEFAULT_TIMER_THRESHOLDS,
+  settings = DEFAULT_PROGRESS_BAR,
+  className = '',
+}: ProgressBarProps) {
+  if (!settings.show || timer.type !== 'countdown' || timer.initialTime <= 0) {
+    return null;
+  }
+
+  const duration = timer.initialTime;
+  const remaining = duration - timer.elapsedTime;
+
+  // Overrun is shown up to one full duration, at which point it takes half the bar
+  const overrun = Math.min(Math.max(0, -remaining), duration);
+  const trackWidth = (duration / (duration + overrun)) * 100;
+  const remainingPercentage = Math.max(0, (remaining / duration) * 100);
+
+  const criticalPercentage = getThresholdPercentage(
+    thresholds.critical,
+    duration
+  );
+  const warningPercentage = Math.max(
+    criticalPercentage,
+    getThresholdPercentage(thresholds.warning, duration)
+  );
+
+  const level = getThresholdLevel(timer, thresholds);
+
+  return (
+    <div
+      className={cn(
+        'progress-bar relative flex overflow-hidden bg-gray-300',
+        SIZE_CLASSES[settings.size],
+        className
+      )}
+    >
+      {/* Countdown track */}
+      <div
+        className="relative h-full transition-all duration-300"
+        style={{ width: `${trackWidth}%` }}
+      >
+        <div
+          className="absolute left-0 top-0 h-full bg-green-500"
+          style={{ width: `${100 - warningPercentage}%` }}
+        />
+        <div
+          className={cn(
+            'absolute top-0 h-full',
+            level === 'warning' && thresholds.warning.flash && 'animate-flash'
+          )}
+          style={{
+            left: `${100 - warningPercentage}%`,
+            width: `${warningPercentage - criticalPercentage}%`,
+            backgroundColor: thresholds.warning.color,
+          }}
+        />
+        <div
+          className={cn(
+            'absolute top-0 h-full',
+            level === 'critical' && thresholds.critical.flash && 'animate-flash'
+          )}
+          style={{
+            left: `${100 - criticalPercentage}%`,
+            width: `${criticalPercentage}%`,
+            backgroundColor: thresholds.critical.color,
+          }}
+        />
+
+        {/* Used-up time - covers elapsed from the left, or remaining from the right */}
+        <div
+          className="absolute top-0 h-full bg-[#262A25] transition-all duration-75 ease-out"
+          style={
+            settings.mode === 'fill'
+              ? { right: 0, width: `${remainingPercentage}%` }
+              : { left: 0, width: `${100 - remainingPercentage}%` }
+          }
+        />
+
+        {/* Threshold markers */}
+        {settings.showMarkers &&
+          [warningPercentage, criticalPercentage]
+            .filter((percentage) => percentage > 0 && percentage < 100)
+            .map((percentage, index) => (
+              <div
+                key={index}
+                className="absolute top-0 h-full w-0.5 -translate-x-1/2 bg-white/80"
+                style={{ left: `${100 - percentage}%` }}
+              />
+            ))}
+      </div>
+
+      {/* Overrun section */}
+      {overrun > 0 && (
+        <div
+          className="h-full animate-pulse-slow bg-red-600 transition-all duration-300"
+          style={{ width: `${100 - trackWidth}%` }}
+        />
+      )}
+    </div>
+  );
+}
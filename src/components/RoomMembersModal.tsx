@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { MdClose, MdDelete, MdPersonAdd } from 'react-icons/md';
+import { cn } from '../lib/utils';
+import { formatRoomId } from '../utils/room';
+import type {
+  InviteRole,
+  RoomInvite,
+  RoomMember,
+  RoomRole,
+} from '../services/simpleFirebase';
+
+interface RoomMembersModalProps {
+  roomId: string;
+  roomRole: RoomRole | null;
+  currentUid: string | null;
+  members: RoomMember[];
+  invites: RoomInvite[];
+  isLoading: boolean;
+  error: string | null;
+  onInvite: (email: string, role: InviteRole) => Promise<void>;
+  onRevokeInvite: (email: string) => Promise<void>;
+  onChangeRole: (uid: string, role: InviteRole) => Promise<void>;
+  onRemoveMember: (member: RoomMember) => Promise<void>;
+  onClose: () => void;
+  className?: string;
+}
+
+const ROLE_LABELS: Record<RoomRole, string> = {
+  owner: 'Owner',
+  operator: 'Operator',
+  viewer: 'Viewer',
+  display: 'Display',
+};
+
+const ROLE_HINTS: Record<InviteRole, string> = {
+  operator: 'can run timers and messages',
+  viewer: 'can watch the room but change nothing',
+};
+
+export function RoomMembersModal({
+  roomId,
+  roomRole,
+  currentUid,
+  members,
+  invites,
+  isLoading,
+  error,
+  onInvite,
+  onRevokeInvite,
+  onChangeRole,
+  onRemoveMember,
+  onClose,
+  className = '',
+}: RoomMembersModalProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<InviteRole>('operator');
+  const isOwner = roomRole === 'owner';
+
+  // Invitations stay behind once accepted; only show the ones still waiting
+  const memberEmails = new Set(members.map((m) => m.email).filter(Boolean));
+  const pendingInvites = invites.filter((i) => !memberEmails.has(i.email));
+  const isValidEmail = /^\S+@\S+\.\S+$/.test(email.trim());
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidEmail) return;
+
+    await onInvite(email, role);
+    setEmail('');
+  };
+
+  return (
+    <div
+      className={cn(
+        'room-members-modal fixed inset-0 z-50 flex items-center justify-center',
+        className
+      )}
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative mx-4 flex max-h-[90vh] w-full max-w-lg flex-col rounded-lg border border-neutral-600 bg-neutral-800 text-white shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-neutral-600 p-4">
+          <h2 className="text-lg font-medium">
+            People in {formatRoomId(roomId)}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 transition-colors hover:text-white"
+          >
+            <MdClose size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-y-auto p-4">
+          {/* Invite */}
+          {isOwner && (
+            <form onSubmit={handleInvite} className="space-y-2">
+              <label className="block text-sm font-medium text-neutral-300">
+                Invite by email
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="name@example.com"
+                  className="input-ctrl h-9 min-w-0 flex-1 px-3 text-sm"
+                />
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as InviteRole)}
+                  className="input-ctrl h-9 px-2 text-sm"
+                >
+                  <option value="operator">Operator</option>
+                  <option value="viewer">Viewer</option>
+                </select>
+                <button
+                  type="submit"
+                  disabled={!isValidEmail || isLoading}
+                  className="btn-ctrl h-9 gap-1 px-3 text-sm"
+                >
+                  <MdPersonAdd size={16} />
+                  Invite
+                </button>
+              </div>
+              <p className="text-xs text-neutral-500">
+                {ROLE_LABELS[role]}s {ROLE_HINTS[role]}. They join by opening
+                room {formatRoomId(roomId)} signed in with this address, once
+                it's verified.
+              </p>
+            </form>
+          )}
+
+          {error && <div className="text-sm text-red-400">{error}</div>}
+
+          {/* Members */}
+          <div>
+            <h3 className="mb-2 text-sm font-medium text-neutral-300">
+              Members
+            </h3>
+            {members.length === 0 ? (
+              <div className="text-sm text-neutral-500">
+                {isLoading ? 'Loading...' : 'Nobody yet'}
+              </div>
+            ) : (
+              <div className="divide-y divide-neutral-700 rounded border border-neutral-700">
+                {members.map((member) => (
+                  <div
+                    key={member.uid}
+                    className="flex items-center gap-2 px-3 py-2 text-sm"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate">
+                        {member.name ||
+                          member.email ||
+                          `Display ${member.uid.slice(0, 6)}`}
+                        {member.uid === currentUid && (
+                          <span className="text-neutral-500"> (you)</span>
+                        )}
+                      </div>
+                      {member.name && member.email && (
+                        <div className="truncate text-xs text-neutral-500">
+                          {member.email}
+                        </div>
+                      )}
+                    </div>
+                    {isOwner &&
+                    (member.role === 'operator' || member.role === 'viewer') ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) =>
+                          onChangeRole(member.uid, e.target.value as InviteRole)
+                        }
+                        className="input-ctrl h-7 px-2 text-xs"
+                      >
+                        <option value="operator">Operator</option>
+                        <option value="viewer">Viewer</option>
+                      </select>
+                    ) : (
+                      <span className="text-xs text-neutral-400">
+                        {ROLE_LABELS[member.role]}
+                      </span>
+                    )}
+                    {isOwner && member.role !== 'owner' && (
+                      <button
+                        onClick={() => onRemoveMember(member)}
+                        className="btn-ctrl h-7 w-7 p-0 hover:text-red-400"
+                        title="Remove from the room"
+                      >
+                        <MdDelete size={14} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Pending invitations */}
+          {isOwner && pendingInvites.length > 0 && (
+            <div>
+              <h3 className="mb-2 text-sm font-medium text-neutral-300">
+                Waiting to join
+              </h3>
+              <div className="divide-y divide-neutral-700 rounded border border-neutral-700">
+                {pendingInvites.map((invite) => (
+                  <div
+                    key={invite.email}
+                    className="flex items-center gap-2 px-3 py-2 text-sm"
+                  >
+                    <div className="min-w-0 flex-1 truncate">
+                      {invite.email}
+                    </div>
+                    <span className="text-xs text-neutral-400">
+                      {ROLE_LABELS[invite.role]}
+                    </span>
+                    <button
+                      onClick={() => onRevokeInvite(invite.email)}
+                      className="btn-ctrl h-7 w-7 p-0 hover:text-red-400"
+                      title="Cancel the invitation"
+                    >
+                      <MdDelete size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end border-t border-neutral-600 p-4">
+          <button onClick={onClose} className="btn-ctrl h-9 px-4 text-sm">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
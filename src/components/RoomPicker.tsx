@@ -0,0 +1,274 @@
+import { useState, useCallback } from 'react';
+import { MdClose, MdContentCopy, MdCheck, MdDelete } from 'react-icons/md';
+import { cn } from '../lib/utils';
+import {
+  formatRoomId,
+  isValidRoomId,
+  normalizeRoomId,
+  buildRoomUrl,
+} from '../utils/room';
+import {
+  loadRecentRooms,
+  removeRecentRoom,
+  type RecentRoom,
+} from '../utils/storage';
+import type { RoomKeys } from '../services/simpleFirebase';
+
+interface RoomPickerProps {
+  currentRoomId?: string | null;
+  roomKeys?: RoomKeys | null; // Needed for links that others can open
+  isConnected: boolean;
+  notice?: string;
+  onCreateRoom: (name: string) => Promise<void>;
+  onJoinRoom: (roomId: string) => Promise<void>;
+  onClose?: () => void; // Omit to make the picker non-dismissible
+  className?: string;
+}
+
+export function RoomPicker({
+  currentRoomId,
+  roomKeys,
+  isConnected,
+  notice,
+  onCreateRoom,
+  onJoinRoom,
+  onClose,
+  className = '',
+}: RoomPickerProps) {
+  const [roomName, setRoomName] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [recentRooms, setRecentRooms] = useState<RecentRoom[]>(() =>
+    loadRecentRooms()
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedLink, setCopiedLink] = useState<'display' | null>(null);
+
+  const handleCreate = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await onCreateRoom(roomName);
+      setRoomName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create room');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomName, onCreateRoom]);
+
+  const handleJoin = useCallback(
+    async (code: string) => {
+      const roomId = normalizeRoomId(code);
+      if (!isValidRoomId(roomId)) {
+        setError('Room codes are 6 letters or digits');
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        await onJoinRoom(roomId);
+        setJoinCode('');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to join room');
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [onJoinRoom]
+  );
+
+  const handleForget = (roomId: string) => {
+    removeRecentRoom(roomId);
+    setRecentRooms(loadRecentRooms());
+  };
+
+  const handleCopyDisplayLink = async () => {
+    if (!currentRoomId || !roomKeys) return;
+
+    try {
+      await navigator.clipboard.writeText(
+        buildRoomUrl(currentRoomId, '/', roomKeys.display)
+      );
+      setCopiedLink('display');
+      setTimeout(() => setCopiedLink(null), 2000);
+    } catch {
+      // No clipboard access - the button just doesn't confirm
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        'room-picker fixed inset-0 z-50 flex items-center justify-center',
+        className
+      )}
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative mx-4 w-full max-w-md rounded-lg border border-neutral-600 bg-neutral-800 text-white shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-neutral-600 p-4">
+          <h2 className="text-lg font-medium">
+            {currentRoomId ? 'Rooms' : 'Choose a Room'}
+          </h2>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="text-neutral-400 transition-colors hover:text-white"
+            >
+              <MdClose size={20} />
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-6 p-4">
+          {notice && (
+            <div className="rounded border border-amber-600/40 bg-amber-900/20 p-3 text-sm text-amber-200">
+              {notice}
+            </div>
+          )}
+
+          {/* Current Room */}
+          {currentRoomId && (
+            <div className="rounded bg-neutral-700/50 p-3">
+              <div className="mb-1 text-xs text-neutral-400">Current room</div>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 font-mono text-lg font-bold tracking-wider">
+                  {formatRoomId(currentRoomId)}
+                </code>
+                <button
+                  onClick={handleCopyDisplayLink}
+                  disabled={!roomKeys}
+                  className="btn-ctrl h-8 gap-1 px-3 text-xs"
+                  title="Copy a read-only link for displays in this room"
+                >
+                  {copiedLink === 'display' ? (
+                    <MdCheck size={14} />
+                  ) : (
+                    <MdContentCopy size={14} />
+                  )}
+                  Display link
+                </button>
+              </div>
+              <div className="mt-2 text-xs text-neutral-500">
+                Displays open this link without signing in. To let someone else
+                run the room, invite them from People.
+              </div>
+            </div>
+          )}
+
+          {/* Create Room */}
+          <div>
+            <label className="mb-2 block text-sm font-medium text-neutral-300">
+              New room
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={roomName}
+                onChange={(e) => setRoomName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder="Room name, e.g. Main Auditorium"
+                className="input-ctrl h-9 flex-1 px-3 text-sm"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={isLoading || !isConnected}
+                className="btn-ctrl h-9 border-green-600 bg-green-800 px-4 text-sm text-white hover:border-green-400"
+              >
+                Create
+              </button>
+            </div>
+          </div>
+
+          {/* Join Room */}
+          <div>
+            <label className="mb-2 block text-sm font-medium text-neutral-300">
+              Join with a room code
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                onKeyDown={(e) => e.key === 'Enter' && handleJoin(joinCode)}
+                placeholder="XXX-XXX"
+                maxLength={7}
+                className="input-ctrl h-9 flex-1 px-3 text-center font-mono uppercase tracking-wider"
+              />
+              <button
+                onClick={() => handleJoin(joinCode)}
+                disabled={isLoading || !isConnected || !joinCode.trim()}
+                className="btn-ctrl h-9 px-4 text-sm"
+              >
+                Join
+              </button>
+            </div>
+          </div>
+
+          {/* Recent Rooms */}
+          {recentRooms.length > 0 && (
+            <div>
+              <div className="mb-2 text-sm font-medium text-neutral-300">
+                Recent rooms
+              </div>
+              <div className="space-y-1">
+                {recentRooms.map((room) => (
+                  <div
+                    key={room.id}
+                    className={cn(
+                      'flex items-center gap-2 rounded px-3 py-2 transition-colors hover:bg-neutral-700',
+                      room.id === currentRoomId && 'bg-neutral-700/60'
+                    )}
+                  >
+                    <button
+                      onClick={() => handleJoin(room.id)}
+                      disabled={isLoading || room.id === currentRoomId}
+                      className="flex flex-1 items-baseline gap-3 text-left"
+                    >
+                      <span className="font-mono text-sm">
+                        {formatRoomId(room.id)}
+                      </span>
+                      <span className="truncate text-sm text-neutral-400">
+                        {room.name}
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => handleForget(room.id)}
+                      className="text-neutral-500 transition-colors hover:text-red-400"
+                      title="Remove from recent rooms"
+                    >
+                      <MdDelete size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div className="rounded bg-red-900/20 p-3 text-sm text-red-300">
+              {error}
+            </div>
+          )}
+
+          {!isConnected && (
+            <div className="text-xs text-neutral-500">
+              Connecting to Firebase...
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useMemo, useRef, useState } from 'react';
+import { MdClose, MdFileUpload } from 'react-icons/md';
+import { cn } from '../lib/utils';
+import { getDisplayTime } from '../utils/time';
+import {
+  parseRunOfShow,
+  type RunOfShowImportMode,
+  type RunOfShowRow,
+} from '../utils/runOfShow';
+import { isIcs, parseIcsDay } from '../utils/ics';
+
+// "YYYY-MM-DD" for a date input, in local time
+function toDateInputValue(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+interface RunOfShowImportModalProps {
+  onImport: (rows: RunOfShowRow[], mode: RunOfShowImportMode) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+export function RunOfShowImportModal({
+  onImport,
+  onClose,
+  className = '',
+}: RunOfShowImportModalProps) {
+  const [text, setText] = useState('');
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [calendarDate, setCalendarDate] = useState(() =>
+    toDateInputValue(new Date())
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Calendars become the events on one day; anything else is a table
+  const isCalendar = isIcs(text);
+  const { rows, warnings } = useMemo(() => {
+    if (!isCalendar) {
+      return { rows: parseRunOfShow(text), warnings: [] };
+    }
+    const [year, month, day] = calendarDate.split('-').map(Number);
+    return parseIcsDay(text, new Date(year, month - 1, day));
+  }, [text, isCalendar, calendarDate]);
+  const validCount = rows.filter((row) => row.errors.length === 0).length;
+  const errorCount = rows.length - validCount;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setText(await file.text());
+    setConfirmReplace(false);
+  };
+
+  const handleImport = (mode: RunOfShowImportMode) => {
+    onImport(rows, mode);
+    onClose();
+  };
+
+  return (
+    <div
+      className={cn(
+        'run-of-show-import fixed inset-0 z-50 flex items-center justify-center',
+        className
+      )}
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative mx-4 flex max-h-[90vh] w-full max-w-3xl flex-col rounded-lg border border-neutral-600 bg-neutral-800 text-white shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-neutral-600 p-4">
+          <h2 className="text-lg font-medium">Import run of show</h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 transition-colors hover:text-white"
+          >
+            <MdClose size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-y-auto p-4">
+          {/* Source */}
+          <div>
+            <div className="mb-2 flex items-center gap-2">
+              <label className="flex-1 text-sm font-medium text-neutral-300">
+                Paste rows from a spreadsheet, or upload a CSV or calendar
+                (.ics)
+              </label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.tsv,.txt,.ics,text/csv,text/tab-separated-values,text/calendar"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="btn-ctrl h-8 gap-2 px-3 text-sm"
+              >
+                <MdFileUpload size={16} />
+                Upload
+              </button>
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setConfirmReplace(false);
+              }}
+              placeholder={
+                'Name, Duration, Type, Start, Link\nWelcome, 5:00, countdown, 9:30 AM,\nWorship, 20:00, , , yes'
+              }
+              rows={6}
+              className="input-ctrl w-full px-3 py-2 font-mono text-xs"
+            />
+            {isCalendar ? (
+              <div className="mt-2 flex items-center gap-2 text-sm">
+                <label className="text-neutral-300">Events on</label>
+                <input
+                  type="date"
+                  value={calendarDate}
+                  onChange={(e) => {
+                    if (e.target.value) setCalendarDate(e.target.value);
+                  }}
+                  className="input-ctrl h-8 px-2 text-sm"
+                />
+                <span className="text-xs text-neutral-500">
+                  Times are shown in this device's time zone
+                </span>
+              </div>
+            ) : (
+              <p className="mt-1 text-xs text-neutral-500">
+                Columns: name, duration (5:00, 1:30:00 or minutes), type, start
+                time, link (yes = starts when the row above ends). The header
+                row is optional.
+              </p>
+            )}
+          </div>
+
+          {warnings.map((warning) => (
+            <div key={warning} className="text-xs text-amber-300">
+              {warning}
+            </div>
+          ))}
+
+          {isCalendar && rows.length === 0 && (
+            <div className="py-4 text-center text-sm text-neutral-500">
+              No timed events on this date.
+            </div>
+          )}
+
+          {/* Preview */}
+          {rows.length > 0 && (
+            <div className="overflow-x-auto rounded bg-neutral-900/50">
+              <table className="w-full text-left text-xs">
+                <thead className="border-b border-neutral-700 text-neutral-400">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">
+                      {isCalendar ? '#' : 'Row'}
+                    </th>
+                    <th className="px-3 py-2 font-medium">Name</th>
+                    <th className="px-3 py-2 font-medium">Duration</th>
+                    <th className="px-3 py-2 font-medium">Type</th>
+                    <th className="px-3 py-2 font-medium">Start</th>
+                    <th className="px-3 py-2 font-medium">Link</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr
+                      key={row.line}
+                      className={cn(
+                        'border-b border-neutral-700/50 last:border-0',
+                        row.errors.length > 0 && 'bg-red-900/20'
+                      )}
+                    >
+                      <td className="px-3 py-2 align-top font-mono text-neutral-500">
+                        {row.line}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div>{row.name || '—'}</div>
+                        {row.errors.map((error) => (
+                          <div key={error} className="text-red-300">
+                            {error}
+                          </div>
+                        ))}
+                      </td>
+                      <td className="px-3 py-2 align-top font-mono">
+                        {row.duration !== null
+                          ? getDisplayTime(row.duration, true, false)
+                          : '—'}
+                      </td>
+                      <td className="px-3 py-2 align-top">{row.type}</td>
+                      <td className="px-3 py-2 align-top font-mono">
+                        {row.startTime ?? '—'}
+                      </td>
+                      <td className="px-3 py-2 align-top">
+                        {row.link ? 'Yes' : ''}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="space-y-3 border-t border-neutral-600 p-4">
+          {errorCount > 0 && (
+            <div className="text-xs text-amber-300">
+              {errorCount} row{errorCount === 1 ? '' : 's'} with errors will be
+              skipped.
+            </div>
+          )}
+
+          {confirmReplace ? (
+            <div className="rounded border border-amber-600/40 bg-amber-900/20 p-3 text-sm text-amber-200">
+              <div className="mb-3">
+                Replace every timer with these {validCount}? Anything running
+                stops.
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setConfirmReplace(false)}
+                  className="btn-ctrl h-8 px-3 text-sm"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleImport('replace')}
+                  className="btn-ctrl h-8 border-amber-600 bg-amber-800 px-3 text-sm text-white hover:border-amber-400"
+                >
+                  Replace
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setConfirmReplace(true)}
+                disabled={validCount === 0}
+                className="btn-ctrl h-9 px-4 text-sm"
+              >
+                Replace timers
+              </button>
+              <button
+                onClick={() => handleImport('append')}
+                disabled={validCount === 0}
+                className="btn-ctrl h-9 border-green-600 bg-green-800 px-4 text-sm text-white hover:border-green-400"
+              >
+                Append {validCount} timer{validCount === 1 ? '' : 's'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
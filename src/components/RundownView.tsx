@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Timer } from '../types';
+import { MdFileDownload } from 'react-icons/md';
+import { cn, downloadFile } from '../lib/utils';
+import { serverClock } from '../services/serverClock';
+import { buildRundown, type RundownRow } from '../utils/rundown';
+import { rundownToCsv } from '../utils/runOfShow';
+import { formatClockTime, getDisplayTime } from '../utils/time';
+
+interface RundownViewProps {
+  timers: Timer[];
+  activeTimerId: string | null;
+  timeFormat: '12h' | '24h';
+  onSelectTimer?: (timerId: string) => void;
+  className?: string;
+}
+
+// "+1:30" / "-0:45" for over/under values
+function formatVariance(seconds: number): string {
+  if (seconds === 0) return '0:00';
+  const sign = seconds > 0 ? '+' : '-';
+  return `${sign}${getDisplayTime(Math.abs(seconds), true, false)}`;
+}
+
+function varianceClass(seconds: number | null): string {
+  if (seconds === null || Math.abs(seconds) < 30) return 'text-neutral-400';
+  return seconds > 0 ? 'text-red-400' : 'text-green-400';
+}
+
+export function RundownView({
+  timers,
+  activeTimerId,
+  timeFormat,
+  onSelectTimer,
+  className = '',
+}: RundownViewProps) {
+  const [now, setNow] = useState(() => serverClock.now());
+
+  // Projections move with the clock even when nothing is running
+  useEffect(() => {
+    const interval = setInterval(() => setNow(serverClock.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const rundown = useMemo(() => buildRundown(timers, now), [timers, now]);
+
+  const handleExport = () => {
+    downloadFile(
+      rundownToCsv(timers, serverClock.now()),
+      `rundown-${new Date().toISOString().slice(0, 10)}.csv`,
+      'text/csv'
+    );
+  };
+
+  const formatTime = (timestamp: number | null) =>
+    timestamp !== null ? formatClockTime(timestamp, timeFormat) : '—';
+
+  const renderStatus = (row: RundownRow) => {
+    switch (row.status) {
+      case 'live':
+        return (
+          <span className="rounded bg-red-700 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-white">
+            Live
+          </span>
+        );
+      case 'done':
+        return (
+          <span className="text-[10px] uppercase text-neutral-500">Done</span>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className={cn('rundown-view', className)}>
+      {/* Show Summary */}
+      <div className="mb-3 flex items-center gap-4 rounded bg-neutral-800 p-3 text-sm">
+        <div>
+          <div className="text-xs text-neutral-400">Scheduled end</div>
+          <div className="font-mono text-white">
+            {formatTime(rundown.scheduledEnd)}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-neutral-400">Projected end</div>
+          <div className="font-mono text-white">
+            {formatTime(rundown.projectedEnd)}
+          </div>
+        </div>
+        <div className="ml-auto text-right">
+          <div className="text-xs text-neutral-400">Show over/under</div>
+          <div
+            className={cn(
+              'font-mono text-lg font-semibold',
+              varianceClass(rundown.overUnder)
+            )}
+          >
+            {rundown.overUnder !== null
+              ? formatVariance(rundown.overUnder)
+              : '—'}
+          </div>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={rundown.rows.length === 0}
+          className="btn-ctrl h-7 gap-1 px-2 text-xs"
+          title="Download planned vs. actual times as CSV"
+        >
+          <MdFileDownload className="h-4 w-4" />
+          CSV
+        </button>
+      </div>
+
+      {/* Rundown Table */}
+      <div className="overflow-x-auto rounded bg-neutral-800">
+        <table className="w-full text-left text-xs">
+          <thead className="border-b border-neutral-700 text-neutral-400">
+            <tr>
+              <th className="px-3 py-2 font-medium">#</th>
+              <th className="px-3 py-2 font-medium">Segment</th>
+              <th className="px-3 py-2 font-medium">Duration</th>
+              <th className="px-3 py-2 font-medium">Scheduled</th>
+              <th className="px-3 py-2 font-medium">Projected</th>
+              <th className="px-3 py-2 font-medium">Actual start</th>
+              <th className="px-3 py-2 font-medium">Actual end</th>
+              <th className="px-3 py-2 text-right font-medium">Over/Under</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rundown.rows.map((row, index) => (
+              <tr
+                key={row.timer.id}
+                onClick={() => onSelectTimer?.(row.timer.id)}
+                className={cn(
+                  'border-b border-neutral-700/50 font-mono text-neutral-200 last:border-0',
+                  onSelectTimer && 'cursor-pointer hover:bg-neutral-700/50',
+                  row.timer.id === activeTimerId && 'bg-neutral-700/40',
+                  row.status === 'done' && 'text-neutral-500'
+                )}
+              >
+                <td className="px-3 py-2">{index + 1}</td>
+                <td className="px-3 py-2 font-sans">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate">{row.timer.name}</span>
+                    {renderStatus(row)}
+                  </div>
+                </td>
+                <td className="px-3 py-2">
+                  {getDisplayTime(row.plannedDuration, true, false)}
+                </td>
+                <td className="px-3 py-2">{formatTime(row.scheduledStart)}</td>
+                <td className="px-3 py-2">
+                  {formatTime(row.projectedStart)}
+                  {row.startVariance !== null && row.status === 'upcoming' && (
+                    <span
+                      className={cn('ml-1', varianceClass(row.startVariance))}
+                    >
+                      ({formatVariance(row.startVariance)})
+                    </span>
+                  )}
+                </td>
+                <td className="px-3 py-2">{formatTime(row.actualStart)}</td>
+                <td className="px-3 py-2">{formatTime(row.actualEnd)}</td>
+                <td
+                  className={cn(
+                    'px-3 py-2 text-right',
+                    row.status !== 'upcoming' && varianceClass(row.overUnder)
+                  )}
+                >
+                  {row.status === 'upcoming'
+                    ? '—'
+                    : formatVariance(row.overUnder)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {rundown.rows.length === 0 && (
+          <div className="py-8 text-center text-sm text-neutral-500">
+            No timers in the rundown yet.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { MdSchedule, MdSkipNext, MdPause, MdPlayArrow } from 'react-icons/md';
+import type { ScheduleEntry } from '../utils/schedule';
+import { formatClockTime, getDisplayTime } from '../utils/time';
+import { cn } from '../lib/utils';
+
+interface ScheduleIndicatorProps {
+  nextEntry: ScheduleEntry | null;
+  armedEntry: ScheduleEntry | null;
+  now: number;
+  isHeld: boolean;
+  timeFormat: '12h' | '24h';
+  onSkip: () => void;
+  onToggleHold: () => void;
+  className?: string;
+}
+
+export function ScheduleIndicator({
+  nextEntry,
+  armedEntry,
+  now,
+  isHeld,
+  timeFormat,
+  onSkip,
+  onToggleHold,
+  className = '',
+}: ScheduleIndicatorProps) {
+  const countdown = (entry: ScheduleEntry) => {
+    const seconds = Math.ceil((entry.at - now) / 1000);
+    return seconds > 0 ? `in ${getDisplayTime(seconds, true, false)}` : 'now';
+  };
+
+  return (
+    <div className={cn('rounded bg-neutral-800 p-3', className)}>
+      <div className="mb-2 flex items-center gap-2">
+        <MdSchedule className="h-4 w-4 text-neutral-400" />
+        <span className="text-sm text-neutral-300">Schedule</span>
+        <button
+          onClick={onToggleHold}
+          className={cn(
+            'btn-ctrl ml-auto h-6 gap-1 px-2 text-xs',
+            isHeld && 'border-amber-500 text-amber-400'
+          )}
+          title={
+            isHeld
+              ? 'Resume scheduled starts'
+              : 'Hold - stop scheduled timers from starting'
+          }
+        >
+          {isHeld ? (
+            <MdPlayArrow className="h-3 w-3" />
+          ) : (
+            <MdPause className="h-3 w-3" />
+          )}
+          {isHeld ? 'Resume' : 'Hold'}
+        </button>
+      </div>
+
+      {/* Armed timer waiting for the operator */}
+      {armedEntry && (
+        <div className="mb-2 rounded bg-blue-900/50 px-3 py-2 text-sm">
+          <div className="text-xs uppercase tracking-wide text-blue-300">
+            Armed
+          </div>
+          <div className="flex items-baseline gap-2">
+            <span className="truncate text-white">{armedEntry.timerName}</span>
+            <span className="ml-auto font-mono text-blue-200">
+              {countdown(armedEntry)}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {nextEntry ? (
+        <div className="flex items-center gap-2 px-3 py-1 text-sm">
+          <div className="min-w-0 flex-1">
+            <div className="text-xs text-neutral-500">
+              Next {nextEntry.mode === 'start' ? 'auto-start' : 'arm'} at{' '}
+              {formatClockTime(nextEntry.at, timeFormat)}
+            </div>
+            <div className="flex items-baseline gap-2">
+              <span className="truncate text-white">{nextEntry.timerName}</span>
+              <span
+                className={cn(
+                  'ml-auto font-mono',
+                  isHeld ? 'text-amber-400' : 'text-neutral-300'
+                )}
+              >
+                {isHeld ? 'held' : countdown(nextEntry)}
+              </span>
+            </div>
+          </div>
+          <button
+            onClick={onSkip}
+            className="btn-ctrl h-7 w-7 flex-none p-0"
+            title="Skip this scheduled start"
+          >
+            <MdSkipNext className="h-4 w-4" />
+          </button>
+        </div>
+      ) : (
+        !armedEntry && (
+          <div className="px-3 py-1 text-xs text-neutral-500">
+            No scheduled timers. Set a start time with auto-start or arm.
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,10 @@
-import type { AppSettings, DisplaySettings, TimerSettings } from "../types";
+import type {
+  AppSettings,
+  DisplaySettings,
+  ProgressBarSettings,
+  TimerSettings,
+} from "../types";
+import { DEFAULT_PROGRESS_BAR } from "../types";
 
 interface SettingsProps {
   settings: AppSettings;
@@ -17,6 +23,12 @@ export function Settings({
     });
   };
 
+  const progressBar = settings.display.progressBar ?? DEFAULT_PROGRESS_BAR;
+
+  const updateProgressBar = (updates: Partial<ProgressBarSettings>) => {
+    updateDisplaySettings({ progressBar: { ...progressBar, ...updates } });
+  };
+
   const updateTimerSettings = (updates: Partial<TimerSettings>) => {
     onUpdateSettings({
       timer: { ...settings.timer, ...updates },
@@ -152,6 +164,65 @@ export function Settings({
               Show current date
             </label>
           </div>
+
+          {/* Progress Bar */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Progress Bar
+            </label>
+            <div className="flex gap-2">
+              <select
+                value={progressBar.show ? progressBar.size : "hidden"}
+                onChange={(e) =>
+                  e.target.value === "hidden"
+                    ? updateProgressBar({ show: false })
+                    : updateProgressBar({
+                        show: true,
+                        size: e.target.value as ProgressBarSettings["size"],
+                      })
+                }
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="hidden">Hidden</option>
+                <option value="thin">Thin</option>
+                <option value="medium">Medium</option>
+                <option value="thick">Thick</option>
+              </select>
+              <select
+                value={progressBar.mode}
+                disabled={!progressBar.show}
+                onChange={(e) =>
+                  updateProgressBar({
+                    mode: e.target.value as ProgressBarSettings["mode"],
+                  })
+                }
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="deplete">Show time remaining</option>
+                <option value="fill">Show time elapsed</option>
+              </select>
+            </div>
+          </div>
+
+          {/* Progress Bar Markers */}
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="progressBarMarkers"
+              checked={progressBar.showMarkers}
+              disabled={!progressBar.show}
+              onChange={(e) =>
+                updateProgressBar({ showMarkers: e.target.checked })
+              }
+              className="mr-3 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <label
+              htmlFor="progressBarMarkers"
+              className="text-sm font-medium text-gray-700"
+            >
+              Mark warning and critical thresholds on the progress bar
+            </label>
+          </div>
         </div>
       </div>
 
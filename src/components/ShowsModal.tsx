@@ -0,0 +1,277 @@
+import { useState } from 'react';
+import {
+  MdClose,
+  MdContentCopy,
+  MdDelete,
+  MdEdit,
+  MdRefresh,
+} from 'react-icons/md';
+import type { Show } from '../types';
+import { cn } from '../lib/utils';
+import { formatRoomId } from '../utils/room';
+
+interface ShowsModalProps {
+  shows: Show[];
+  currentShowId: string | null;
+  roomId: string | null;
+  isLoading: boolean;
+  error: string | null;
+  onSaveAs: (name: string) => Promise<void>;
+  onLoad: (show: Show) => void;
+  onRename: (showId: string, name: string) => Promise<void>;
+  onDuplicate: (showId: string) => Promise<unknown>;
+  onDelete: (showId: string) => Promise<void>;
+  onRefresh: () => void;
+  onClose: () => void;
+  className?: string;
+}
+
+// Loading and deleting both ask first - loading replaces the live room
+type PendingAction = { type: 'load' | 'delete'; show: Show };
+
+export function ShowsModal({
+  shows,
+  currentShowId,
+  roomId,
+  isLoading,
+  error,
+  onSaveAs,
+  onLoad,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onRefresh,
+  onClose,
+  className = '',
+}: ShowsModalProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [pending, setPending] = useState<PendingAction | null>(null);
+
+  const handleSaveAs = async () => {
+    if (!newName.trim()) return;
+    await onSaveAs(newName);
+    setNewName('');
+  };
+
+  const startRename = (show: Show) => {
+    setEditingId(show.id);
+    setEditingName(show.name);
+  };
+
+  const commitRename = async () => {
+    if (editingId && editingName.trim()) {
+      await onRename(editingId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  const confirmPending = async () => {
+    if (!pending) return;
+
+    if (pending.type === 'load') {
+      onLoad(pending.show);
+    } else {
+      await onDelete(pending.show.id);
+    }
+    setPending(null);
+  };
+
+  return (
+    <div
+      className={cn(
+        'shows-modal fixed inset-0 z-50 flex items-center justify-center',
+        className
+      )}
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative mx-4 w-full max-w-lg rounded-lg border border-neutral-600 bg-neutral-800 text-white shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-neutral-600 p-4">
+          <h2 className="text-lg font-medium">Shows</h2>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onRefresh}
+              disabled={isLoading}
+              className="text-neutral-400 transition-colors hover:text-white disabled:opacity-40"
+              title="Reload shows from the cloud"
+            >
+              <MdRefresh
+                size={20}
+                className={cn(isLoading && 'animate-spin')}
+              />
+            </button>
+            <button
+              onClick={onClose}
+              className="text-neutral-400 transition-colors hover:text-white"
+            >
+              <MdClose size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-6 p-4">
+          {/* Save As */}
+          <div>
+            <label className="mb-2 block text-sm font-medium text-neutral-300">
+              Save the current room as a new show
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveAs()}
+                placeholder="Show name, e.g. Sunday 9am"
+                className="input-ctrl h-9 flex-1 px-3 text-sm"
+              />
+              <button
+                onClick={handleSaveAs}
+                disabled={!newName.trim()}
+                className="btn-ctrl h-9 border-green-600 bg-green-800 px-4 text-sm text-white hover:border-green-400"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+
+          {/* Confirmation */}
+          {pending && (
+            <div
+              className={cn(
+                'rounded border p-3 text-sm',
+                pending.type === 'load'
+                  ? 'border-amber-600/40 bg-amber-900/20 text-amber-200'
+                  : 'border-red-600/40 bg-red-900/20 text-red-200'
+              )}
+            >
+              <div className="mb-3">
+                {pending.type === 'load' ? (
+                  <>
+                    Load <strong>{pending.show.name}</strong>? This replaces the
+                    timers, message presets and settings
+                    {roomId ? ` in room ${formatRoomId(roomId)}` : ''}. Anything
+                    running stops.
+                  </>
+                ) : (
+                  <>
+                    Delete <strong>{pending.show.name}</strong> from this device
+                    and the cloud?
+                  </>
+                )}
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setPending(null)}
+                  className="btn-ctrl h-8 px-3 text-sm"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={confirmPending}
+                  className={cn(
+                    'btn-ctrl h-8 px-3 text-sm text-white',
+                    pending.type === 'load'
+                      ? 'border-amber-600 bg-amber-800 hover:border-amber-400'
+                      : 'border-red-600 bg-red-800 hover:border-red-400'
+                  )}
+                >
+                  {pending.type === 'load' ? 'Load show' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Saved Shows */}
+          <div>
+            <div className="mb-2 text-sm font-medium text-neutral-300">
+              Saved shows
+            </div>
+            {shows.length === 0 ? (
+              <div className="px-3 py-2 text-sm text-neutral-500">
+                {isLoading ? 'Loading shows...' : 'No saved shows yet.'}
+              </div>
+            ) : (
+              <div className="max-h-80 space-y-1 overflow-y-auto">
+                {shows.map((show) => (
+                  <div
+                    key={show.id}
+                    className={cn(
+                      'flex items-center gap-2 rounded px-3 py-2 transition-colors hover:bg-neutral-700',
+                      show.id === currentShowId && 'bg-neutral-700/60'
+                    )}
+                  >
+                    <div className="min-w-0 flex-1">
+                      {editingId === show.id ? (
+                        <input
+                          type="text"
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitRename();
+                            if (e.key === 'Escape') setEditingId(null);
+                          }}
+                          onBlur={commitRename}
+                          autoFocus
+                          className="input-ctrl h-7 w-full px-2 text-sm"
+                        />
+                      ) : (
+                        <div className="truncate text-sm">{show.name}</div>
+                      )}
+                      <div className="text-xs text-neutral-500">
+                        {show.timers.timers.length} timer
+                        {show.timers.timers.length === 1 ? '' : 's'} · updated{' '}
+                        {new Date(show.updatedAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setPending({ type: 'load', show })}
+                      className="btn-ctrl h-7 px-3 text-xs"
+                    >
+                      Load
+                    </button>
+                    <button
+                      onClick={() => startRename(show)}
+                      className="text-neutral-500 transition-colors hover:text-white"
+                      title="Rename"
+                    >
+                      <MdEdit size={14} />
+                    </button>
+                    <button
+                      onClick={() => onDuplicate(show.id)}
+                      className="text-neutral-500 transition-colors hover:text-white"
+                      title="Duplicate"
+                    >
+                      <MdContentCopy size={14} />
+                    </button>
+                    <button
+                      onClick={() => setPending({ type: 'delete', show })}
+                      className="text-neutral-500 transition-colors hover:text-red-400"
+                      title="Delete"
+                    >
+                      <MdDelete size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="rounded bg-red-900/20 p-3 text-sm text-red-300">
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,25 @@
 import React, { useState, useEffect } from 'react';
+import type { ScheduleMode } from '../types';
+import { parseClockTime } from '../utils/time';
+import { serverClock } from '../services/serverClock';
+import { cn } from '../lib/utils';
+
+const SCHEDULE_MODES: { value: ScheduleMode; label: string; hint: string }[] = [
+  { value: 'off', label: 'Manual', hint: 'Start time is for reference only' },
+  { value: 'start', label: 'Auto-start', hint: 'Starts at this time' },
+  {
+    value: 'arm',
+    label: 'Arm',
+    hint: 'Loads onto the display a minute early - you press start',
+  },
+];
 
 interface StartTimeModalProps {
   isOpen: boolean;
-  initialStartTime?: string; // HH:MM format
-  onSave: (startTime: string) => void;
+  initialStartTime?: string; // "HH:MM AM/PM" or 24h "HH:MM"
+  initialScheduleMode?: ScheduleMode;
+  timeFormat?: '12h' | '24h';
+  onSave: (startTime: string, scheduleMode: ScheduleMode) => void;
   onCancel: () => void;
   position: { top: number; left: number };
 }
@@ -11,6 +27,8 @@ interface StartTimeModalProps {
 export function StartTimeModal({
   isOpen,
   initialStartTime = '',
+  initialScheduleMode = 'off',
+  timeFormat = '12h',
   onSave,
   onCancel,
   position,
@@ -18,35 +36,33 @@ export function StartTimeModal({
   const [hours, setHours] = useState(12);
   const [minutes, setMinutes] = useState(0);
   const [period, setPeriod] = useState<'AM' | 'PM'>('PM');
+  const [scheduleMode, setScheduleMode] =
+    useState<ScheduleMode>(initialScheduleMode);
+  const is24h = timeFormat === '24h';
 
-  // Convert initial start time to hours, minutes, period
+  // Convert initial start time (12h or 24h) to hours, minutes, period
   useEffect(() => {
-    if (isOpen && initialStartTime) {
-      const [timeStr, periodStr] = initialStartTime.split(' ');
-      const [h, m] = timeStr.split(':').map(Number);
-      setHours(h);
-      setMinutes(m);
-      setPeriod(periodStr as 'AM' | 'PM');
-    } else if (isOpen) {
+    if (!isOpen) return;
+
+    let date = initialStartTime ? parseClockTime(initialStartTime) : null;
+    if (!date) {
       // Default to current time + 1 minute
-      const now = new Date();
-      now.setMinutes(now.getMinutes() + 1);
-      const currentHours = now.getHours();
-      const displayHours =
-        currentHours === 0
-          ? 12
-          : currentHours > 12
-            ? currentHours - 12
-            : currentHours;
-      setHours(displayHours);
-      setMinutes(now.getMinutes());
-      setPeriod(currentHours >= 12 ? 'PM' : 'AM');
+      date = new Date(serverClock.now());
+      date.setMinutes(date.getMinutes() + 1);
     }
-  }, [isOpen, initialStartTime]);
+
+    const currentHours = date.getHours();
+    setHours(
+      is24h ? currentHours : currentHours % 12 === 0 ? 12 : currentHours % 12
+    );
+    setMinutes(date.getMinutes());
+    setPeriod(currentHours >= 12 ? 'PM' : 'AM');
+    setScheduleMode(initialScheduleMode);
+  }, [isOpen, initialStartTime, initialScheduleMode, is24h]);
 
   const handleSave = () => {
-    const timeString = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')} ${period}`;
-    onSave(timeString);
+    const time = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+    onSave(is24h ? time : `${time} ${period}`, scheduleMode);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -76,7 +92,7 @@ export function StartTimeModal({
         <div className="mb-4">
           <h3 className="mb-1 font-medium text-white">Start Time</h3>
           <p className="text-sm text-neutral-400">
-            Set when this timer should be manually started
+            Set when this timer is due and what happens then
           </p>
         </div>
 
@@ -86,12 +102,14 @@ export function StartTimeModal({
             <div className="flex items-center">
               <input
                 type="number"
-                min="1"
-                max="12"
-                value={hours}
+                min={is24h ? 0 : 1}
+                max={is24h ? 23 : 12}
+                value={is24h ? hours.toString().padStart(2, '0') : hours}
                 onChange={(e) =>
                   setHours(
-                    Math.max(1, Math.min(12, parseInt(e.target.value) || 1))
+                    is24h
+                      ? Math.max(0, Math.min(23, parseInt(e.target.value) || 0))
+                      : Math.max(1, Math.min(12, parseInt(e.target.value) || 1))
                   )
                 }
                 className="w-12 border-none bg-transparent text-center font-mono text-lg text-white outline-none"
@@ -113,15 +131,41 @@ export function StartTimeModal({
                 className="w-12 border-none bg-transparent text-center font-mono text-lg text-white outline-none"
               />
             </div>
-            <select
-              value={period}
-              onChange={(e) => setPeriod(e.target.value as 'AM' | 'PM')}
-              className="ml-2 rounded border border-neutral-600 bg-neutral-700 px-2 py-1 text-white"
-            >
-              <option value="AM">AM</option>
-              <option value="PM">PM</option>
-            </select>
+            {!is24h && (
+              <select
+                value={period}
+                onChange={(e) => setPeriod(e.target.value as 'AM' | 'PM')}
+                className="ml-2 rounded border border-neutral-600 bg-neutral-700 px-2 py-1 text-white"
+              >
+                <option value="AM">AM</option>
+                <option value="PM">PM</option>
+              </select>
+            )}
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <label className="mb-2 block text-sm text-neutral-400">
+            At start time
+          </label>
+          <div className="flex gap-1">
+            {SCHEDULE_MODES.map((mode) => (
+              <button
+                key={mode.value}
+                onClick={() => setScheduleMode(mode.value)}
+                className={cn(
+                  'btn-ctrl h-7 flex-1 px-2 text-xs',
+                  scheduleMode === mode.value &&
+                    'border-blue-500 bg-blue-700 text-white'
+                )}
+              >
+                {mode.label}
+              </button>
+            ))}
           </div>
+          <p className="mt-2 text-xs text-neutral-500">
+            {SCHEDULE_MODES.find((m) => m.value === scheduleMode)?.hint}
+          </p>
         </div>
 
         <div className="flex justify-end gap-2">
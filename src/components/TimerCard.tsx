@@ -7,12 +7,17 @@ import {
   MdDelete,
   MdTimer,
   MdRefresh,
+  MdLink,
 } from 'react-icons/md';
-import type { TimerState, TimerType } from '../types';
+import type { LinkMode, ScheduleMode, TimerState, TimerType } from '../types';
+import { describeLink } from '../utils/chain';
 import { getDisplayTime, getCurrentTime } from '../utils/time';
+import { serverClock } from '../services/serverClock';
 import { DurationModal } from './DurationModal';
 import { StartTimeModal } from './StartTimeModal';
 import { LoadingSpinner } from './LoadingSpinner';
+import { OperatorAvatars } from './OperatorAvatars';
+import type { RoomPresence } from '../services/simpleFirebase';
 import { cn } from '../lib/utils';
 
 interface TimerCardProps {
@@ -21,8 +26,14 @@ interface TimerCardProps {
   timerIndex: number;
   isActive: boolean;
   isRunning: boolean;
-  startTime?: string; // HH:MM AM/PM format
+  startTime?: string; // "HH:MM AM/PM" or 24h "HH:MM"
+  scheduleMode?: ScheduleMode;
+  timeFormat?: '12h' | '24h';
+  linkMode?: LinkMode; // What happens when this timer runs out
+  linkGap?: number;
   isLoading?: boolean; // Loading state for Firebase operations
+  timerId?: string; // Needed to show who is editing it
+  operators?: RoomPresence[]; // Other operators on this timer
   onStart: () => void;
   onPause: () => void;
   onReset: () => void;
@@ -32,7 +43,9 @@ interface TimerCardProps {
   onDurationChange: (newDuration: number) => void;
   onTypeChange: (newType: TimerType) => void;
   onNameChange?: (newName: string) => void;
-  onStartTimeChange?: (startTime: string) => void;
+  onStartTimeChange?: (startTime: string, scheduleMode: ScheduleMode) => void;
+  onFocus?: () => void; // Any interaction with the card
+  onEditingChange?: (editing: boolean) => void; // Duration dialog opened/closed
   className?: string;
 }
 
@@ -43,7 +56,13 @@ export function TimerCard({
   isActive,
   isRunning,
   startTime,
+  scheduleMode = 'off',
+  timeFormat = '12h',
+  linkMode = 'stop',
+  linkGap,
   isLoading = false,
+  timerId,
+  operators = [],
   onStart,
   onPause,
   onReset,
@@ -54,6 +73,8 @@ export function TimerCard({
   onTypeChange,
   onNameChange,
   onStartTimeChange,
+  onFocus,
+  onEditingChange,
   className = '',
 }: TimerCardProps) {
   const [showDurationModal, setShowDurationModal] = useState(false);
@@ -63,13 +84,27 @@ export function TimerCard({
   const [currentTimeDisplay, setCurrentTimeDisplay] = useState('');
   const durationButtonRef = useRef<HTMLButtonElement>(null);
   const startTimeButtonRef = useRef<HTMLButtonElement>(null);
+  const lockedBy = operators.find(
+    (o) => !!timerId && o.editingTimerId === timerId
+  )?.name;
+
+  // Other operators see the duration being edited as a soft lock. The
+  // callback changes every render, so only opening and closing report.
+  const onEditingChangeRef = useRef(onEditingChange);
+  onEditingChangeRef.current = onEditingChange;
+
+  useEffect(() => {
+    if (!showDurationModal) return;
+    onEditingChangeRef.current?.(true);
+    return () => onEditingChangeRef.current?.(false);
+  }, [showDurationModal]);
 
   // Update current time display for "Time of Day" type
   useEffect(() => {
     if (timer.type === 'stopwatch') {
       const updateTime = () => {
         // Format as hour:minutes:seconds for consistency with TimerPreview
-        const now = new Date();
+        const now = new Date(serverClock.now());
         const hours = now.getHours();
         const minutes = now.getMinutes().toString().padStart(2, '0');
         const seconds = now.getSeconds().toString().padStart(2, '0');
@@ -128,9 +163,12 @@ export function TimerCard({
     }
   };
 
-  const handleStartTimeSave = (newStartTime: string) => {
+  const handleStartTimeSave = (
+    newStartTime: string,
+    newScheduleMode: ScheduleMode
+  ) => {
     if (onStartTimeChange) {
-      onStartTimeChange(newStartTime);
+      onStartTimeChange(newStartTime, newScheduleMode);
     }
     setShowStartTimeModal(false);
   };
@@ -219,6 +257,7 @@ export function TimerCard({
           isLoading && 'pointer-events-none opacity-75',
           className
         )}
+        onPointerDown={onFocus}
       >
         {/* Loading Overlay */}
         {isLoading && (
@@ -271,7 +310,25 @@ export function TimerCard({
             >
               {startTime || '12:00 PM'}
             </button>
-            <span className="text-xs text-neutral-400">&nbsp;</span>
+            <span
+              className={cn(
+                'text-xs text-neutral-400',
+                scheduleMode !== 'off' && 'text-amber-400'
+              )}
+              title={
+                scheduleMode === 'start'
+                  ? 'Starts automatically at this time'
+                  : scheduleMode === 'arm'
+                    ? 'Loads onto the display shortly before this time'
+                    : undefined
+              }
+            >
+              {scheduleMode === 'start'
+                ? 'Auto'
+                : scheduleMode === 'arm'
+                  ? 'Arm'
+                  : '\u00a0'}
+            </span>
           </div>
 
           {/* Duration Section */}
@@ -365,11 +422,30 @@ export function TimerCard({
             >
               <MdEdit size={16} />
             </button>
+            {linkMode !== 'stop' && (
+              <span
+                className="flex items-center gap-1 text-xs text-neutral-400"
+                title={describeLink(linkMode, linkGap) ?? undefined}
+              >
+                <MdLink size={14} />
+                {linkMode === 'gap'
+                  ? `${linkGap ?? 0}s`
+                  : linkMode === 'confirm'
+                    ? 'Confirm'
+                    : 'Auto'}
+              </span>
+            )}
           </div>
 
           {/* Control Buttons */}
           <div className="ml-auto flex items-center justify-between">
             <div className="flex items-center gap-2">
+              <OperatorAvatars
+                operators={operators}
+                editingTimerId={timerId}
+                size="sm"
+                className="mr-1"
+              />
               {/* Selection/Reset Button */}
               <button
                 onClick={(e) => {
@@ -432,12 +508,15 @@ export function TimerCard({
         onSave={handleDurationSave}
         onCancel={handleDurationCancel}
         position={modalPosition}
+        lockedBy={lockedBy}
       />
 
       {/* Start Time Modal */}
       <StartTimeModal
         isOpen={showStartTimeModal}
         initialStartTime={startTime}
+        initialScheduleMode={scheduleMode}
+        timeFormat={timeFormat}
         onSave={handleStartTimeSave}
         onCancel={handleStartTimeCancel}
         position={modalPosition}
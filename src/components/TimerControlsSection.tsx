@@ -1,9 +1,15 @@
-import React, { useState, useEffect } from 'react';
-import { addSeconds, format, parse } from 'date-fns';
-import type { Timer, TimerType } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import type { Timer, TimerThresholds, TimerType } from '../types';
 import { TimerCard } from './TimerCard';
 import { TimerSettingsModal } from './TimerSettingsModal';
+import { RundownView } from './RundownView';
+import { RunOfShowImportModal } from './RunOfShowImportModal';
+import { MdUploadFile } from 'react-icons/md';
 import { cn } from '../lib/utils';
+import { formatClockTime, parseClockTime } from '../utils/time';
+import { getLinkMode } from '../utils/chain';
+import type { RunOfShowImportMode, RunOfShowRow } from '../utils/runOfShow';
+import type { RoomPresence } from '../services/simpleFirebase';
 
 interface TimerControlsSectionProps {
   timers: Timer[];
@@ -24,6 +30,7 @@ interface TimerControlsSectionProps {
   onUpdateTimerType: (timerId: string, newType: TimerType) => void;
   onUpdateTimer: (timerId: string, updates: Partial<Timer>) => void;
   onReorderTimers: (timerIds: string[]) => void;
+  onImportRunOfShow?: (rows: RunOfShowRow[], mode: RunOfShowImportMode) => void;
   onToggleBlackout: () => void;
   onToggleFlash: () => void;
   isTimerRunning: (timerId: string) => boolean;
@@ -32,6 +39,11 @@ interface TimerControlsSectionProps {
   isTimerLoading?: (timerId: string) => boolean;
   blackoutMode: boolean;
   flashMode: boolean;
+  timeFormat?: '12h' | '24h';
+  defaultThresholds?: TimerThresholds;
+  operators?: RoomPresence[]; // Other operators in the room
+  onFocusTimer?: (timerId: string) => void;
+  onEditTimer?: (timerId: string | null) => void; // Soft lock for the others
 }
 
 export function TimerControlsSection({
@@ -47,6 +59,7 @@ export function TimerControlsSection({
   onUpdateTimerDuration,
   onUpdateTimerType,
   onUpdateTimer,
+  onImportRunOfShow,
   onToggleBlackout,
   onToggleFlash,
   isTimerRunning,
@@ -55,8 +68,15 @@ export function TimerControlsSection({
   isTimerLoading,
   blackoutMode,
   flashMode,
+  timeFormat = '12h',
+  defaultThresholds,
+  operators = [],
+  onFocusTimer,
+  onEditTimer,
 }: TimerControlsSectionProps) {
+  const [view, setView] = useState<'timers' | 'rundown'>('timers');
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [selectedTimer, setSelectedTimer] = useState<Timer | null>(null);
   const [lastActiveTimerId, setLastActiveTimerId] = useState<string | null>(
     null
@@ -84,28 +104,37 @@ export function TimerControlsSection({
     setLastActiveTimerId(activeTimerId);
   }, [activeTimerId, lastActiveTimerId, isTimerRunning, onPauseTimer]);
 
+  // Other operators see the timer whose settings are open as locked
+  const editingTimerId = showSettingsModal ? selectedTimer?.id : undefined;
+  const onEditTimerRef = useRef(onEditTimer);
+  onEditTimerRef.current = onEditTimer;
+
+  useEffect(() => {
+    if (!editingTimerId) return;
+    onEditTimerRef.current?.(editingTimerId);
+    return () => onEditTimerRef.current?.(null);
+  }, [editingTimerId]);
+
   const handleAddTimer = () => {
     // Calculate the next timer's start time based on the last timer
-    let nextStartTime = '12:00 PM'; // Default start time
+    const defaultStartTime = timeFormat === '24h' ? '12:00' : '12:00 PM';
+    let nextStartTime = defaultStartTime;
 
     if (timers.length > 0) {
       const lastTimer = timers[timers.length - 1];
-      const lastStartTime = lastTimer.startTime || '12:00 PM';
       const lastDuration = lastTimer.state.initialTime || 600; // Default to 10 minutes if no duration
 
-      try {
-        // Parse the last start time (12-hour format: "1:30 PM")
-        const startDate = parse(lastStartTime, 'h:mm a', new Date());
+      // Parse the last start time (12h "1:30 PM" or 24h "13:30")
+      const startDate = parseClockTime(lastTimer.startTime || defaultStartTime);
 
-        // Add the duration in seconds
-        const endDate = addSeconds(startDate, lastDuration);
-
-        // Format back to 12-hour format
-        nextStartTime = format(endDate, 'h:mm a');
-      } catch (error) {
-        console.warn('Error calculating next start time:', error);
-        // Fallback to default time if parsing fails
-        nextStartTime = '12:00 PM';
+      if (startDate) {
+        // Add the duration and format in the display's clock format
+        nextStartTime = formatClockTime(
+          startDate.getTime() + lastDuration * 1000,
+          timeFormat
+        );
+      } else {
+        console.warn('Error calculating next start time:', lastTimer.startTime);
       }
     }
 
@@ -146,8 +175,40 @@ export function TimerControlsSection({
       <div className="controller-timers flex-none lg:h-full">
         {/* Header */}
         <div className="mb-4 flex items-center justify-between">
-          <h2 className="text-lg font-medium text-white">Timers</h2>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setView('timers')}
+              className={cn(
+                'rounded px-2 py-1 text-lg font-medium transition-colors',
+                view === 'timers'
+                  ? 'text-white'
+                  : 'text-neutral-500 hover:text-neutral-300'
+              )}
+            >
+              Timers
+            </button>
+            <button
+              onClick={() => setView('rundown')}
+              className={cn(
+                'rounded px-2 py-1 text-lg font-medium transition-colors',
+                view === 'rundown'
+                  ? 'text-white'
+                  : 'text-neutral-500 hover:text-neutral-300'
+              )}
+            >
+              Rundown
+            </button>
+          </div>
           <div className="flex items-center gap-2">
+            {onImportRunOfShow && (
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="btn-ctrl h-7 w-7 p-0"
+                title="Import a run of show from a spreadsheet"
+              >
+                <MdUploadFile className="h-4 w-4" />
+              </button>
+            )}
             <button
               onClick={onToggleBlackout}
               className={`btn-ctrl flex h-7 items-center truncate px-3 text-sm ${blackoutMode ? 'bg-neutral-600 text-white' : ''}`}
@@ -165,8 +226,18 @@ export function TimerControlsSection({
           </div>
         </div>
 
+        {/* Rundown */}
+        {view === 'rundown' && (
+          <RundownView
+            timers={timers}
+            activeTimerId={activeTimerId}
+            timeFormat={timeFormat}
+            onSelectTimer={handleTimerSelect}
+          />
+        )}
+
         {/* Timer Cards */}
-        <div className="mb-4 space-y-3">
+        <div className={cn('mb-4 space-y-3', view !== 'timers' && 'hidden')}>
           {timers.map((timer, index) => {
             const isActive = timer.id === activeTimerId;
             const isRunning = isTimerRunning(timer.id);
@@ -180,7 +251,21 @@ export function TimerControlsSection({
                 isActive={isActive}
                 isRunning={isRunning}
                 startTime={timer.startTime}
+                scheduleMode={timer.scheduleMode}
+                linkMode={getLinkMode(timer, timers[index + 1])}
+                linkGap={timer.linkGap}
+                timeFormat={timeFormat}
                 isLoading={isTimerLoading ? isTimerLoading(timer.id) : false}
+                timerId={timer.id}
+                operators={operators.filter(
+                  (o) =>
+                    o.selectedTimerId === timer.id ||
+                    o.editingTimerId === timer.id
+                )}
+                onFocus={() => onFocusTimer?.(timer.id)}
+                onEditingChange={(editing) =>
+                  onEditTimer?.(editing ? timer.id : null)
+                }
                 onStart={() => onStartTimer(timer.id)}
                 onPause={() => onPauseTimer(timer.id)}
                 onReset={() => onResetTimer(timer.id)}
@@ -194,8 +279,8 @@ export function TimerControlsSection({
                 onNameChange={(newName) =>
                   onUpdateTimer(timer.id, { name: newName })
                 }
-                onStartTimeChange={(startTime) =>
-                  onUpdateTimer(timer.id, { startTime })
+                onStartTimeChange={(startTime, scheduleMode) =>
+                  onUpdateTimer(timer.id, { startTime, scheduleMode })
                 }
                 className={cn(
                   'bg-neutral-800',
@@ -210,7 +295,10 @@ export function TimerControlsSection({
         {/* Add Timer Section */}
         <button
           onClick={handleAddTimer}
-          className="btn-ctrl mx-auto flex h-8 w-auto items-center justify-center space-x-2 px-6"
+          className={cn(
+            'btn-ctrl mx-auto flex h-8 w-auto items-center justify-center space-x-2 px-6',
+            view !== 'timers' && 'hidden'
+          )}
         >
           <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 20 20">
             <path
@@ -231,7 +319,7 @@ export function TimerControlsSection({
         )}
 
         {/* Timer Instructions */}
-        {timers.length > 0 && (
+        {timers.length > 0 && view === 'timers' && (
           <div className="mt-6 rounded bg-neutral-800/50 p-3 text-xs text-neutral-400">
             <p className="mb-1">
               <strong>Tips:</strong>
@@ -240,7 +328,7 @@ export function TimerControlsSection({
               <li>• Click timer name/time to edit</li>
               <li>• Use drag handle to reorder</li>
               <li>• Green = Start, Red = Pause/Stop</li>
-              <li>• Auto-link timers for sequences</li>
+              <li>• Link timers in settings to run them as a chain</li>
             </ul>
           </div>
         )}
@@ -248,10 +336,29 @@ export function TimerControlsSection({
         {/* Timer Settings Modal */}
         <TimerSettingsModal
           timer={selectedTimer}
+          nextTimer={
+            selectedTimer
+              ? timers[timers.findIndex((t) => t.id === selectedTimer.id) + 1]
+              : undefined
+          }
+          defaultThresholds={defaultThresholds}
           isOpen={showSettingsModal}
+          lockedBy={
+            operators.find(
+              (o) => !!editingTimerId && o.editingTimerId === editingTimerId
+            )?.name
+          }
           onClose={handleSettingsClose}
           onSave={handleSettingsSave}
         />
+
+        {/* Run of Show Import */}
+        {showImportModal && onImportRunOfShow && (
+          <RunOfShowImportModal
+            onImport={onImportRunOfShow}
+            onClose={() => setShowImportModal(false)}
+          />
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,15 @@
 import { cn } from '../lib/utils';
-import type { TimerState, Message, DisplaySettings } from '../types';
+import type {
+  TimerState,
+  TimerThresholds,
+  Message,
+  DisplaySettings,
+} from '../types';
+import { DEFAULT_TIMER_THRESHOLDS } from '../types';
 import { getCurrentTime, getDisplayTime } from '../utils/time';
+import { getThresholdLevel } from '../utils/thresholds';
+import { ProgressBar } from './ProgressBar';
+import { serverClock } from '../services/serverClock';
 import { useEffect, useState, useRef } from 'react';
 import { MdFullscreen, MdFullscreenExit } from 'react-icons/md';
 import whiteLogo from '../assets/white-logo.png';
@@ -12,6 +21,7 @@ interface TimerPreviewProps {
   settings: DisplaySettings;
   isExpired: boolean;
   isActive?: boolean;
+  thresholds?: TimerThresholds; // Wrap-up warning/critical colours
   className?: string;
   displayMode?: 'preview' | 'display'; // 'preview' for control interface, 'display' for TV
   onToggleFullscreen?: () => void; // Optional fullscreen toggle function
@@ -24,13 +34,14 @@ export function TimerPreview({
   settings,
   isExpired,
   isActive = false,
+  thresholds = DEFAULT_TIMER_THRESHOLDS,
   className = '',
   displayMode = 'preview',
   onToggleFullscreen,
 }: TimerPreviewProps) {
   const isDarkTheme = settings.theme === 'dark';
   const [currentTime, setCurrentTime] = useState(
-    getCurrentTime(settings.timeFormat)
+    getCurrentTime(settings.timeFormat, new Date(serverClock.now()))
   );
   const containerRef = useRef<HTMLDivElement>(null);
   const [containerDimensions, setContainerDimensions] = useState({
@@ -55,7 +66,9 @@ export function TimerPreview({
   // Update current time every second
   useEffect(() => {
     const updateCurrentTime = () => {
-      setCurrentTime(getCurrentTime(settings.timeFormat));
+      setCurrentTime(
+        getCurrentTime(settings.timeFormat, new Date(serverClock.now()))
+      );
     };
 
     // Update immediately
@@ -118,7 +131,7 @@ export function TimerPreview({
 
     if (timer.type === 'stopwatch') {
       // For "Time of Day", show current time in hour:minutes:seconds format
-      const now = new Date();
+      const now = new Date(serverClock.now());
       const hours = now.getHours();
       const minutes = now.getMinutes().toString().padStart(2, '0');
       const seconds = now.getSeconds().toString().padStart(2, '0');
@@ -173,16 +186,14 @@ export function TimerPreview({
 
   const timerText = getTimerText();
 
-  // Calculate progress percentage for countdown (0% = depleted, 100% = full)
-  // Use same logic as TimerCard for consistency
-  const getProgressPercentage = () => {
-    if (timer.type !== 'countdown' || timer.initialTime <= 0) return 100;
-    // Use currentTime directly for consistency with TimerCard
-    const progress = (timer.currentTime / timer.initialTime) * 100;
-    return Math.max(0, Math.min(100, progress));
-  };
-
-  const progressPercentage = getProgressPercentage();
+  // Wrap-up stage - recolours the digits once a threshold is crossed
+  const thresholdLevel = getThresholdLevel(timer, thresholds);
+  const activeThreshold =
+    thresholdLevel === 'warning'
+      ? thresholds.warning
+      : thresholdLevel === 'critical'
+        ? thresholds.critical
+        : null;
 
   return (
     <div
@@ -299,13 +310,13 @@ export function TimerPreview({
                   className={cn(
                     'text-center font-black leading-none',
                     isDarkTheme ? 'text-white' : 'text-gray-900',
-                    timer.type === 'countdown' &&
-                      timer.initialTime - timer.elapsedTime < 0 &&
-                      'text-red-500'
+                    thresholdLevel === 'expired' && 'text-red-500',
+                    activeThreshold?.flash && 'animate-flash'
                   )}
                   style={{
                     fontSize: `${responsiveFontSize}px`,
                     letterSpacing: '-0.02em',
+                    color: activeThreshold?.color,
                   }}
                 >
                   {timerText}
@@ -326,27 +337,11 @@ export function TimerPreview({
           )}
 
           {/* Progress bar for countdown timers - at the bottom */}
-          {timer.type === 'countdown' && timer.initialTime > 0 && (
-            <div className="h-[8%] overflow-hidden bg-gray-300">
-              {/* Segmented progress bar with three color sections */}
-              <div className="relative h-full w-full">
-                {/* Green section (80%) */}
-                <div className="absolute left-0 top-0 h-full w-[80%] bg-green-500"></div>
-                {/* Yellow section (15%) */}
-                <div className="absolute left-[80%] top-0 h-full w-[15%] bg-amber-500"></div>
-                {/* Red section (5%) */}
-                <div className="absolute left-[95%] top-0 h-full w-[5%] bg-red-500"></div>
-
-                {/* Progress overlay that covers from left, showing depletion from left to right */}
-                <div
-                  className="absolute left-0 top-0 h-full bg-[#262A25] transition-all duration-75 ease-out"
-                  style={{
-                    width: `${100 - progressPercentage}%`,
-                  }}
-                />
-              </div>
-            </div>
-          )}
+          <ProgressBar
+            timer={timer}
+            thresholds={thresholds}
+            settings={settings.progressBar}
+          />
 
           {/* Fullscreen toggle button - only show in display mode */}
           {displayMode === 'display' && onToggleFullscreen && (
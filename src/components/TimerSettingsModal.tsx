@@ -1,23 +1,41 @@
 import React, { useState, useEffect } from "react";
-import type { Timer, TimerType } from "../types";
+import type {
+  LinkMode,
+  Timer,
+  TimerThreshold,
+  TimerThresholds,
+  TimerType,
+} from "../types";
+import { DEFAULT_TIMER_THRESHOLDS } from "../types";
+import { getLinkMode } from "../utils/chain";
 
 interface TimerSettingsModalProps {
   timer: Timer | null;
+  nextTimer?: Timer; // The timer after this one in the list, if any
+  defaultThresholds?: TimerThresholds; // From settings.timer
   isOpen: boolean;
+  lockedBy?: string; // Another operator with this timer open
   onClose: () => void;
   onSave: (timerId: string, updates: Partial<Timer>) => void;
 }
 
 export function TimerSettingsModal({
   timer,
+  nextTimer,
+  defaultThresholds = DEFAULT_TIMER_THRESHOLDS,
   isOpen,
+  lockedBy,
   onClose,
   onSave,
 }: TimerSettingsModalProps) {
   const [name, setName] = useState("");
   const [duration, setDuration] = useState("");
   const [type, setType] = useState<TimerType>("countdown");
-  const [autoLinkToPrevious, setAutoLinkToPrevious] = useState(false);
+  const [linkMode, setLinkMode] = useState<LinkMode>("stop");
+  const [linkGap, setLinkGap] = useState(10);
+  const [useDefaultThresholds, setUseDefaultThresholds] = useState(true);
+  const [thresholds, setThresholds] =
+    useState<TimerThresholds>(defaultThresholds);
 
   // Update form when timer changes
   useEffect(() => {
@@ -25,9 +43,12 @@ export function TimerSettingsModal({
       setName(timer.name);
       setDuration(formatDuration(timer.state.initialTime));
       setType(timer.state.type);
-      setAutoLinkToPrevious(timer.autoLinkToPrevious || false);
+      setLinkMode(getLinkMode(timer, nextTimer));
+      setLinkGap(timer.linkGap ?? 10);
+      setUseDefaultThresholds(!timer.thresholds);
+      setThresholds(timer.thresholds ?? defaultThresholds);
     }
-  }, [timer]);
+  }, [timer, nextTimer, defaultThresholds]);
 
   const formatDuration = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
@@ -61,7 +82,9 @@ export function TimerSettingsModal({
     const newDuration = parseDuration(duration);
     const updates: Partial<Timer> = {
       name: name.trim() || timer.name,
-      autoLinkToPrevious,
+      linkMode,
+      linkGap: linkMode === "gap" ? linkGap : undefined,
+      thresholds: useDefaultThresholds ? undefined : thresholds,
       state: {
         ...timer.state,
         type,
@@ -107,6 +130,14 @@ export function TimerSettingsModal({
 
         {/* Content */}
         <div className="p-4 space-y-4">
+          {/* Soft lock - saving still works, last save wins */}
+          {lockedBy && (
+            <div className="rounded border border-amber-600/40 bg-amber-900/20 p-3 text-sm text-amber-200">
+              {lockedBy} is editing this timer too. Saving will replace
+              their changes.
+            </div>
+          )}
+
           {/* Timer Name */}
           <div>
             <label className="block text-sm font-medium text-neutral-300 mb-2">
@@ -154,24 +185,75 @@ export function TimerSettingsModal({
             </select>
           </div>
 
-          {/* Auto-link Option */}
+          {/* Chain Link */}
           <div>
-            <label className="flex items-center space-x-3">
-              <input
-                type="checkbox"
-                checked={autoLinkToPrevious}
-                onChange={(e) => setAutoLinkToPrevious(e.target.checked)}
-                className="w-4 h-4 text-green-600 bg-neutral-700 border-neutral-600 rounded focus:ring-green-500 focus:ring-2"
-              />
-              <div>
-                <span className="text-sm font-medium text-neutral-300">
-                  Auto-start when previous timer expires
-                </span>
-                <p className="text-xs text-neutral-500">
-                  This timer will automatically start when the previous timer reaches 0:00
-                </p>
-              </div>
+            <label className="block text-sm font-medium text-neutral-300 mb-2">
+              When this timer reaches 0:00
             </label>
+            <select
+              value={linkMode}
+              onChange={(e) => setLinkMode(e.target.value as LinkMode)}
+              className="input-ctrl w-full h-10 px-3"
+            >
+              <option value="stop">Stop the chain</option>
+              <option value="immediate">Start next immediately</option>
+              <option value="gap">Start next after a gap</option>
+              <option value="confirm">Start next when I confirm</option>
+            </select>
+            {linkMode === "gap" && (
+              <div className="flex items-center gap-2 mt-2">
+                <input
+                  type="number"
+                  min="0"
+                  value={linkGap}
+                  onChange={(e) =>
+                    setLinkGap(Math.max(0, parseInt(e.target.value) || 0))
+                  }
+                  className="input-ctrl w-24 h-9 px-3"
+                />
+                <span className="text-sm text-neutral-400">seconds</span>
+              </div>
+            )}
+            <p className="text-xs text-neutral-500 mt-1">
+              {nextTimer
+                ? `Next: ${nextTimer.name}. Links only apply to countdown timers.`
+                : "This is the last timer, so there is nothing to link to."}
+            </p>
+          </div>
+
+          {/* Wrap-up Thresholds */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-neutral-300">
+                Wrap-up warnings
+              </label>
+              <label className="flex items-center gap-2 text-xs text-neutral-400">
+                <input
+                  type="checkbox"
+                  checked={useDefaultThresholds}
+                  onChange={(e) => setUseDefaultThresholds(e.target.checked)}
+                  className="w-4 h-4 bg-neutral-700 border-neutral-600 rounded"
+                />
+                Use defaults
+              </label>
+            </div>
+            <div className="space-y-2">
+              <ThresholdFields
+                label="Warning"
+                threshold={useDefaultThresholds ? defaultThresholds.warning : thresholds.warning}
+                disabled={useDefaultThresholds}
+                onChange={(warning) => setThresholds({ ...thresholds, warning })}
+              />
+              <ThresholdFields
+                label="Critical"
+                threshold={useDefaultThresholds ? defaultThresholds.critical : thresholds.critical}
+                disabled={useDefaultThresholds}
+                onChange={(critical) => setThresholds({ ...thresholds, critical })}
+              />
+            </div>
+            <p className="text-xs text-neutral-500 mt-1">
+              Time remaining when the display changes colour
+            </p>
           </div>
 
           {/* Current Status */}
@@ -204,3 +286,62 @@ export function TimerSettingsModal({
     </div>
   );
 }
+
+interface ThresholdFieldsProps {
+  label: string;
+  threshold: TimerThreshold;
+  disabled: boolean;
+  onChange: (threshold: TimerThreshold) => void;
+}
+
+function ThresholdFields({
+  label,
+  threshold,
+  disabled,
+  onChange,
+}: ThresholdFieldsProps) {
+  return (
+    <div className={`flex items-center gap-2 ${disabled ? "opacity-50" : ""}`}>
+      <span className="w-16 text-sm text-neutral-400">{label}</span>
+      <input
+        type="number"
+        min="0"
+        value={threshold.value}
+        disabled={disabled}
+        onChange={(e) =>
+          onChange({ ...threshold, value: Math.max(0, Number(e.target.value) || 0) })
+        }
+        className="input-ctrl w-20 h-9 px-2"
+      />
+      <select
+        value={threshold.unit}
+        disabled={disabled}
+        onChange={(e) =>
+          onChange({ ...threshold, unit: e.target.value as TimerThreshold["unit"] })
+        }
+        className="input-ctrl h-9 px-2"
+      >
+        <option value="seconds">sec</option>
+        <option value="percent">%</option>
+      </select>
+      <input
+        type="color"
+        value={threshold.color}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...threshold, color: e.target.value })}
+        className="h-9 w-10 bg-transparent cursor-pointer"
+        title={`${label} colour`}
+      />
+      <label className="flex items-center gap-1 text-xs text-neutral-400">
+        <input
+          type="checkbox"
+          checked={threshold.flash}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...threshold, flash: e.target.checked })}
+          className="w-4 h-4 bg-neutral-700 border-neutral-600 rounded"
+        />
+        Flash
+      </label>
+    </div>
+  );
+}
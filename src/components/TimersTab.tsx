@@ -1,10 +1,13 @@
 import { useState } from 'react';
-import type { TimerState, TimerType, TimerPreset } from '../types';
+import type { Timer, TimerState, TimerType, TimerPreset } from '../types';
 import { formatTime } from '../utils/time';
+import { describeLink, getLinkMode } from '../utils/chain';
 
 interface TimersTabProps {
   timer: TimerState;
   timerPresets: TimerPreset[];
+  timers?: Timer[]; // Show timers in order, to display how they chain
+
   onSetTimer: (duration: number, type: TimerType) => void;
   onCreateTimer: (name: string, duration: number, type: TimerType) => void;
   onDeleteTimer: (id: string) => void;
@@ -14,6 +17,7 @@ interface TimersTabProps {
 export function TimersTab({
   timer,
   timerPresets,
+  timers = [],
   onSetTimer,
   onCreateTimer,
   onDeleteTimer,
@@ -194,6 +198,44 @@ export function TimersTab({
         </div>
       )}
 
+      {/* Timer Chain */}
+      {timers.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold text-gray-900">Chain</h3>
+          <ol className="rounded-lg border bg-white">
+            {timers.map((t, index) => {
+              const link = describeLink(
+                getLinkMode(t, timers[index + 1]),
+                t.linkGap
+              );
+
+              return (
+                <li
+                  key={t.id}
+                  className="border-b px-4 py-2 text-sm last:border-0"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900">
+                      {index + 1}. {t.name}
+                    </span>
+                    <span className="font-mono text-gray-600">
+                      {formatTime(t.state.initialTime)}
+                    </span>
+                  </div>
+                  {index < timers.length - 1 && (
+                    <div
+                      className={`text-xs ${link ? 'text-blue-600' : 'text-gray-400'}`}
+                    >
+                      ↓ {link ?? 'Chain stops - next timer is started manually'}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+
       {/* Timers List */}
       <div className="space-y-4">
         <h3 className="text-lg font-semibold text-gray-900">
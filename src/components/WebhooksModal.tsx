@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { MdAdd, MdClose, MdDelete, MdSend } from 'react-icons/md';
+import { cn } from '../lib/utils';
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookTarget,
+} from '../types';
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_VARIABLES,
+  createWebhookTarget,
+  validateWebhookTemplate,
+} from '../utils/webhooks';
+
+interface WebhooksModalProps {
+  targets: WebhookTarget[];
+  deliveries: WebhookDelivery[];
+  onSave: (targets: WebhookTarget[]) => void;
+  onSendTest: (target: WebhookTarget) => void;
+  onClearDeliveries: () => void;
+  onClose: () => void;
+  className?: string;
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'text-neutral-400',
+  retrying: 'text-amber-400',
+  delivered: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+function isValidUrl(url: string): boolean {
+  return /^https?:\/\/\S+$/.test(url.trim());
+}
+
+export function WebhooksModal({
+  targets,
+  deliveries,
+  onSave,
+  onSendTest,
+  onClearDeliveries,
+  onClose,
+  className = '',
+}: WebhooksModalProps) {
+  const [drafts, setDrafts] = useState<WebhookTarget[]>(targets);
+
+  const errors = drafts.map((draft) =>
+    !isValidUrl(draft.url)
+      ? 'Enter an http(s) address'
+      : validateWebhookTemplate(draft.template)
+  );
+  const isDirty = JSON.stringify(drafts) !== JSON.stringify(targets);
+  const canSave = isDirty && errors.every((error) => error === null);
+
+  const updateDraft = (id: string, updates: Partial<WebhookTarget>) => {
+    setDrafts((prev) =>
+      prev.map((draft) => (draft.id === id ? { ...draft, ...updates } : draft))
+    );
+  };
+
+  const toggleEvent = (draft: WebhookTarget, event: WebhookEvent) => {
+    updateDraft(draft.id, {
+      events: draft.events.includes(event)
+        ? draft.events.filter((e) => e !== event)
+        : [...draft.events, event],
+    });
+  };
+
+  return (
+    <div
+      className={cn(
+        'webhooks-modal fixed inset-0 z-50 flex items-center justify-center',
+        className
+      )}
+    >
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="relative mx-4 flex max-h-[90vh] w-full max-w-3xl flex-col rounded-lg border border-neutral-600 bg-neutral-800 text-white shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-neutral-600 p-4">
+          <h2 className="text-lg font-medium">Webhooks</h2>
+          <button
+            onClick={onClose}
+            className="text-neutral-400 transition-colors hover:text-white"
+          >
+            <MdClose size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-4 overflow-y-auto p-4">
+          <p className="text-sm text-neutral-400">
+            Post to chat or home-automation webhooks when timers start, pause,
+            run out or go over. Requests come from this browser, which doesn't
+            let it see the answer, so a delivery means the target was reached.
+            Unreachable targets are retried three times. Expire, warning and
+            over-time alerts, and linked timers starting on their own, are sent
+            by just one of the controllers open in the room, so set up the same
+            webhooks on each controller computer.
+          </p>
+
+          {/* Targets */}
+          {drafts.map((draft, index) => (
+            <div
+              key={draft.id}
+              className="space-y-3 rounded border border-neutral-700 bg-neutral-900/40 p-3"
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={draft.enabled}
+                  onChange={(e) =>
+                    updateDraft(draft.id, { enabled: e.target.checked })
+                  }
+                  className="h-4 w-4"
+                  title="Enabled"
+                />
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) =>
+                    updateDraft(draft.id, { name: e.target.value })
+                  }
+                  className="input-ctrl h-8 w-40 px-2 text-sm"
+                />
+                <input
+                  type="text"
+                  value={draft.url}
+                  onChange={(e) =>
+                    updateDraft(draft.id, { url: e.target.value })
+                  }
+                  placeholder="https://hooks.slack.com/services/..."
+                  className="input-ctrl h-8 min-w-0 flex-1 px-2 font-mono text-sm"
+                />
+                <button
+                  onClick={() => onSendTest(draft)}
+                  disabled={errors[index] !== null}
+                  className="btn-ctrl h-8 gap-1 px-3 text-sm"
+                  title="Send a test request"
+                >
+                  <MdSend size={14} />
+                  Test
+                </button>
+                <button
+                  onClick={() =>
+                    setDrafts((prev) => prev.filter((d) => d.id !== draft.id))
+                  }
+                  className="btn-ctrl h-8 w-8 p-0 hover:text-red-400"
+                  title="Remove webhook"
+                >
+                  <MdDelete size={16} />
+                </button>
+              </div>
+
+              {/* Events */}
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {WEBHOOK_EVENTS.map((event) => (
+                  <label
+                    key={event.value}
+                    className="flex items-center gap-1.5 text-sm text-neutral-300"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={draft.events.includes(event.value)}
+                      onChange={() => toggleEvent(draft, event.value)}
+                      className="h-3.5 w-3.5"
+                    />
+                    {event.label}
+                  </label>
+                ))}
+              </div>
+
+              <textarea
+                value={draft.template}
+                onChange={(e) =>
+                  updateDraft(draft.id, { template: e.target.value })
+                }
+                rows={6}
+                spellCheck={false}
+                className="input-ctrl block w-full resize-y px-3 py-2 font-mono text-xs"
+              />
+              {errors[index] && (
+                <div className="text-xs text-red-400">{errors[index]}</div>
+              )}
+            </div>
+          ))}
+
+          <button
+            onClick={() =>
+              setDrafts((prev) => [...prev, createWebhookTarget()])
+            }
+            className="btn-ctrl h-8 gap-1 px-3 text-sm"
+          >
+            <MdAdd size={16} />
+            Add webhook
+          </button>
+
+          <p className="text-xs text-neutral-500">
+            Placeholders:{' '}
+            {WEBHOOK_VARIABLES.map((name) => `{{${name}}}`).join(' ')}
+          </p>
+
+          {/* Delivery log */}
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <h3 className="text-sm font-medium text-neutral-300">
+                Recent deliveries
+              </h3>
+              {deliveries.length > 0 && (
+                <button
+                  onClick={onClearDeliveries}
+                  className="text-xs text-neutral-400 hover:text-white"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            {deliveries.length === 0 ? (
+              <div className="text-sm text-neutral-500">Nothing sent yet</div>
+            ) : (
+              <table className="w-full text-left text-xs">
+                <tbody>
+                  {deliveries.map((delivery) => (
+                    <tr
+                      key={delivery.id}
+                      className="border-t border-neutral-700 align-top"
+                    >
+                      <td className="whitespace-nowrap py-1 pr-2 text-neutral-500">
+                        {new Date(delivery.at).toLocaleTimeString()}
+                      </td>
+                      <td className="py-1 pr-2 text-neutral-300">
+                        {delivery.targetName}
+                      </td>
+                      <td className="py-1 pr-2 text-neutral-300">
+                        {delivery.summary}
+                      </td>
+                      <td
+                        className={cn(
+                          'whitespace-nowrap py-1',
+                          STATUS_STYLES[delivery.status]
+                        )}
+                        title={delivery.error}
+                      >
+                        {delivery.status}
+                        {delivery.attempts > 1 &&
+                          ` (${delivery.attempts} tries)`}
+                        {delivery.error &&
+                          delivery.status !== 'delivered' &&
+                          ` - ${delivery.error}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 border-t border-neutral-600 p-4">
+          <button onClick={onClose} className="btn-ctrl h-9 px-4 text-sm">
+            Close
+          </button>
+          <button
+            onClick={() => onSave(drafts)}
+            disabled={!canSave}
+            className="btn-ctrl h-9 border-green-600 bg-green-800 px-4 text-sm text-white hover:border-green-400"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
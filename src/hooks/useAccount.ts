@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { accountService, type Account } from '../services/accountService';
+
+interface UseAccountReturn {
+  account: Account | null;
+  isReady: boolean; // False until a saved session has loaded
+  hasAccount: boolean; // Signed in with email rather than anonymously
+  signIn: (email: string, password: string) => Promise<void>;
+  signUp: (name: string, email: string, password: string) => Promise<void>;
+  sendVerification: () => Promise<void>;
+  refresh: () => Promise<void>;
+  resetPassword: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+/**
+ * Hook for the signed-in account (controllers sign in, displays don't)
+ */
+export function useAccount(): UseAccountReturn {
+  const [account, setAccount] = useState<Account | null>(() =>
+    accountService.getAccount()
+  );
+  const [isReady, setIsReady] = useState(() => accountService.isReady);
+
+  useEffect(
+    () =>
+      accountService.subscribe((next) => {
+        setAccount(next);
+        setIsReady(accountService.isReady);
+      }),
+    []
+  );
+
+  return {
+    account,
+    isReady,
+    hasAccount: !!account && !account.isAnonymous,
+    signIn: (email, password) => accountService.signIn(email, password),
+    signUp: (name, email, password) =>
+      accountService.signUp(name, email, password),
+    sendVerification: () => accountService.sendVerification(),
+    refresh: () => accountService.refresh(),
+    resetPassword: (email) => accountService.resetPassword(email),
+    signOut: () => accountService.signOut(),
+  };
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  bridgeService,
+  type ControlCommandHandler,
+} from '../services/bridgeService';
+import type {
+  BridgeSettings,
+  BridgeStatus,
+  ControlState,
+} from '../types/control';
+
+interface UseBridgeOptions {
+  settings: BridgeSettings;
+  state: ControlState; // Published whenever it changes - memoize it
+  onCommand: ControlCommandHandler;
+}
+
+interface UseBridgeReturn {
+  status: BridgeStatus;
+  clientCount: number; // Remote clients on the bridge
+}
+
+// Connects the controller to the companion bridge while enabled
+export function useBridge({
+  settings,
+  state,
+  onCommand,
+}: UseBridgeOptions): UseBridgeReturn {
+  const [status, setStatus] = useState<BridgeStatus>(() =>
+    bridgeService.getStatus()
+  );
+  const [clientCount, setClientCount] = useState(0);
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  useEffect(
+    () =>
+      bridgeService.subscribe((newStatus, clients) => {
+        setStatus(newStatus);
+        setClientCount(clients);
+      }),
+    []
+  );
+
+  // Commands always reach the latest handlers
+  useEffect(() => {
+    bridgeService.setCommandHandler((command) => onCommandRef.current(command));
+    return () => bridgeService.setCommandHandler(null);
+  }, []);
+
+  const { enabled, url, token } = settings;
+  useEffect(() => {
+    if (!enabled || !url) return;
+
+    bridgeService.connect(url, token);
+    return () => bridgeService.disconnect();
+  }, [enabled, url, token]);
+
+  useEffect(() => {
+    bridgeService.publishState(state);
+  }, [state]);
+
+  return { status, clientCount };
+}
@@ -0,0 +1,129 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  simpleFirebaseService,
+  type DisplayAssignment,
+  type RoomDisplay,
+} from '../services/simpleFirebase';
+import { serverClock } from '../services/serverClock';
+
+// Displays heartbeat every 30 seconds, so missing three means it's gone
+export const DISPLAY_OFFLINE_AFTER = 90 * 1000;
+const REFRESH_INTERVAL = 15 * 1000;
+
+export interface DisplayDevice extends RoomDisplay {
+  online: boolean;
+}
+
+interface UseDisplayDevicesReturn {
+  displays: DisplayDevice[]; // Online first, then by name
+  error: string | null;
+  rename: (deviceId: string, label: string) => Promise<void>;
+  identify: (deviceId: string) => Promise<void>;
+  assign: (deviceId: string, assignment: DisplayAssignment) => Promise<void>;
+  forget: (deviceId: string) => Promise<void>;
+}
+
+// The name a display goes by - whatever a controller called it, or what it
+// calls itself
+export function getDisplayName(display: RoomDisplay): string {
+  return display.label || display.name;
+}
+
+// Displays in the current room, for the controller to manage. Listened to
+// while `enabled`.
+export function useDisplayDevices(
+  roomId: string | null,
+  enabled: boolean = true
+): UseDisplayDevicesReturn {
+  const [registry, setRegistry] = useState<RoomDisplay[]>([]);
+  const [now, setNow] = useState(() => serverClock.now());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!roomId || !enabled) {
+      setRegistry([]);
+      return;
+    }
+
+    const unsubscribe = simpleFirebaseService.subscribeDisplays((displays) => {
+      setRegistry(displays);
+      setNow(serverClock.now());
+    });
+    // Heartbeats stopping don't change anything to be notified of
+    const interval = setInterval(
+      () => setNow(serverClock.now()),
+      REFRESH_INTERVAL
+    );
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [roomId, enabled]);
+
+  const displays = useMemo(
+    () =>
+      registry
+        .map((display) => ({
+          ...display,
+          online: now - display.lastSeen < DISPLAY_OFFLINE_AFTER,
+        }))
+        .sort(
+          (a, b) =>
+            Number(b.online) - Number(a.online) ||
+            getDisplayName(a).localeCompare(getDisplayName(b))
+        ),
+    [registry, now]
+  );
+
+  // The listener shows what was saved, so only failures need handling
+  const change = useCallback(
+    async (action: () => Promise<void>, failure: string) => {
+      try {
+        await action();
+        setError(null);
+      } catch {
+        setError(failure);
+      }
+    },
+    []
+  );
+
+  const rename = useCallback(
+    (deviceId: string, label: string) =>
+      change(
+        () => simpleFirebaseService.renameDisplay(deviceId, label),
+        'Could not rename the display'
+      ),
+    [change]
+  );
+
+  const identify = useCallback(
+    (deviceId: string) =>
+      change(
+        () => simpleFirebaseService.identifyDisplay(deviceId),
+        'Could not reach the display'
+      ),
+    [change]
+  );
+
+  const assign = useCallback(
+    (deviceId: string, assignment: DisplayAssignment) =>
+      change(
+        () => simpleFirebaseService.assignDisplay(deviceId, assignment),
+        'Could not change what the display shows'
+      ),
+    [change]
+  );
+
+  const forget = useCallback(
+    (deviceId: string) =>
+      change(
+        () => simpleFirebaseService.forgetDisplay(deviceId),
+        'Could not forget the display'
+      ),
+    [change]
+  );
+
+  return { displays, error, rename, identify, assign, forget };
+}
@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import {
+  simpleFirebaseService,
+  type DisplayReport,
+  type RoomDisplay,
+} from '../services/simpleFirebase';
+import { generateDeviceId, generateDeviceName } from '../types/sync';
+
+const DISPLAY_KEY = 'stage-timer-display';
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+// Unlike sync peer ids, a display keeps its id across tabs and reloads so
+// the controller's name and assignment for it stick
+function loadDisplayIdentity(): { id: string; name: string } {
+  let stored: Partial<{ id: string; name: string }> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(DISPLAY_KEY) || '{}');
+  } catch {
+    // Fall through to a new identity
+  }
+
+  const identity = {
+    id: stored.id || generateDeviceId(),
+    name: stored.name || generateDeviceName(),
+  };
+  localStorage.setItem(DISPLAY_KEY, JSON.stringify(identity));
+  return identity;
+}
+
+function getReport(name: string): DisplayReport {
+  const scale = window.devicePixelRatio || 1;
+  const width = Math.round(window.screen.width * scale);
+  const height = Math.round(window.screen.height * scale);
+
+  return {
+    name,
+    resolution: `${width}×${height}`,
+    appVersion: __APP_VERSION__,
+  };
+}
+
+interface UseDisplayRegistrationReturn {
+  deviceId: string;
+  display: RoomDisplay | null; // Our entry, with the controller's choices
+}
+
+// Keeps this display listed in the room's registry while `enabled` (the
+// room has been joined), and follows what controllers ask of it
+export function useDisplayRegistration(
+  roomId: string | null,
+  enabled: boolean
+): UseDisplayRegistrationReturn {
+  const [identity] = useState(loadDisplayIdentity);
+  const [display, setDisplay] = useState<RoomDisplay | null>(null);
+
+  useEffect(() => {
+    if (!roomId || !enabled) {
+      setDisplay(null);
+      return;
+    }
+
+    const report = () => {
+      simpleFirebaseService
+        .reportDisplay(identity.id, getReport(identity.name))
+        .catch(() => {}); // Sent again with the next heartbeat
+    };
+
+    // Each heartbeat also picks up a move to another screen
+    report();
+    const unsubscribe = simpleFirebaseService.subscribeDisplay(
+      identity.id,
+      setDisplay
+    );
+    const heartbeat = setInterval(report, HEARTBEAT_INTERVAL);
+
+    return () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+    };
+  }, [roomId, enabled, identity]);
+
+  return { deviceId: identity.id, display };
+}
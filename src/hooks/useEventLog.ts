@@ -0,0 +1,119 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { EventLog } from '../types';
+import {
+  deleteEventLog,
+  loadEventLogs,
+  loadOperatorName,
+  saveEventLog,
+  saveOperatorName,
+} from '../utils/storage';
+import {
+  createEventLog,
+  getEventLogName,
+  type TimerEventDraft,
+} from '../utils/eventLog';
+
+interface UseEventLogReturn {
+  logs: EventLog[]; // Newest first - the first one is being recorded into
+  operatorName: string;
+  setOperatorName: (name: string) => void;
+  recordEvent: (event: TimerEventDraft, automatic: boolean) => void;
+  startNewLog: () => void;
+  deleteLog: (logId: string) => void;
+}
+
+function isSameDay(a: number, b: number): boolean {
+  return new Date(a).toDateString() === new Date(b).toDateString();
+}
+
+// Timer event log for the room, stored on this device. Events go into the
+// newest log until a new one is started by hand or the day changes.
+export function useEventLog(
+  roomId: string | null,
+  showName?: string
+): UseEventLogReturn {
+  const [logs, setLogs] = useState<EventLog[]>([]);
+  const [operatorName, setOperatorNameState] = useState(loadOperatorName);
+  const logsRef = useRef<EventLog[]>([]);
+  const operatorNameRef = useRef(operatorName);
+  const showNameRef = useRef(showName);
+  showNameRef.current = showName;
+
+  const reload = useCallback(() => {
+    logsRef.current = roomId ? loadEventLogs(roomId) : [];
+    setLogs(logsRef.current);
+  }, [roomId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const newLog = useCallback(
+    (now: number) => {
+      const date = getEventLogName(now);
+      const name = showNameRef.current
+        ? `${showNameRef.current} - ${date}`
+        : date;
+      return createEventLog(roomId as string, name, now);
+    },
+    [roomId]
+  );
+
+  const recordEvent = useCallback(
+    (event: TimerEventDraft, automatic: boolean) => {
+      if (!roomId) return;
+
+      const now = Date.now();
+      const latest = logsRef.current[0];
+      const log =
+        latest && isSameDay(latest.startedAt, now) ? latest : newLog(now);
+
+      saveEventLog({
+        ...log,
+        updatedAt: now,
+        events: [
+          ...log.events,
+          {
+            ...event,
+            id: `event-${now}-${Math.random().toString(36).substr(2, 9)}`,
+            by: automatic ? undefined : operatorNameRef.current || undefined,
+          },
+        ],
+      });
+      reload();
+    },
+    [roomId, newLog, reload]
+  );
+
+  const startNewLog = useCallback(() => {
+    if (!roomId) return;
+
+    saveEventLog(newLog(Date.now()));
+    reload();
+  }, [roomId, newLog, reload]);
+
+  const deleteLog = useCallback(
+    (logId: string) => {
+      if (!roomId) return;
+
+      deleteEventLog(roomId, logId);
+      reload();
+    },
+    [roomId, reload]
+  );
+
+  const setOperatorName = useCallback((name: string) => {
+    operatorNameRef.current = name;
+    setOperatorNameState(name);
+    saveOperatorName(name);
+  }, []);
+
+  return {
+    logs,
+    operatorName,
+    setOperatorName,
+    recordEvent,
+    startNewLog,
+    deleteLog,
+  };
+}
@@ -0,0 +1,86 @@
+import { useState, useCallback, useRef } from 'react';
+
+interface HistoryEntry<T> {
+  label: string; // What the action did, e.g. "Reset Timer 1"
+  snapshot: T; // State from before the action
+}
+
+interface UseHistoryReturn<T> {
+  record: (label: string, snapshot: T) => void;
+  undo: (current: T) => T | null;
+  redo: (current: T) => T | null;
+  clear: () => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+// Snapshot-based undo/redo. Callers record the state before each action,
+// and undo/redo hand back the snapshot to restore.
+export function useHistory<T>(
+  limit: number = DEFAULT_HISTORY_LIMIT
+): UseHistoryReturn<T> {
+  // Stacks live in refs so undo/redo can return synchronously
+  const pastRef = useRef<HistoryEntry<T>[]>([]);
+  const futureRef = useRef<HistoryEntry<T>[]>([]);
+  const [, setVersion] = useState(0);
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  const record = useCallback(
+    (label: string, snapshot: T) => {
+      pastRef.current = [...pastRef.current, { label, snapshot }].slice(-limit);
+      futureRef.current = [];
+      refresh();
+    },
+    [limit, refresh]
+  );
+
+  const undo = useCallback(
+    (current: T): T | null => {
+      const entry = pastRef.current[pastRef.current.length - 1];
+      if (!entry) return null;
+
+      pastRef.current = pastRef.current.slice(0, -1);
+      futureRef.current = [
+        ...futureRef.current,
+        { label: entry.label, snapshot: current },
+      ];
+      refresh();
+      return entry.snapshot;
+    },
+    [refresh]
+  );
+
+  const redo = useCallback(
+    (current: T): T | null => {
+      const entry = futureRef.current[futureRef.current.length - 1];
+      if (!entry) return null;
+
+      futureRef.current = futureRef.current.slice(0, -1);
+      pastRef.current = [
+        ...pastRef.current,
+        { label: entry.label, snapshot: current },
+      ];
+      refresh();
+      return entry.snapshot;
+    },
+    [refresh]
+  );
+
+  const clear = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    refresh();
+  }, [refresh]);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    undoLabel: pastRef.current[pastRef.current.length - 1]?.label ?? null,
+    redoLabel: futureRef.current[futureRef.current.length - 1]?.label ?? null,
+  };
+}
@@ -198,6 +198,46 @@ export function useAppKeyboard(
   useKeyboard(shortcuts, enabled);
 }
 
+/**
+ * Hook for undo/redo keyboard shortcuts (Cmd on macOS)
+ */
+export function useHistoryKeyboard(
+  onUndo: () => void,
+  onRedo: () => void,
+  enabled: boolean = true
+) {
+  const shortcuts: KeyboardShortcut[] = [
+    {
+      key: "z",
+      ctrlKey: true,
+      action: onUndo,
+      description: "Undo (Ctrl+Z)",
+    },
+    {
+      key: "z",
+      ctrlKey: true,
+      shiftKey: true,
+      action: onRedo,
+      description: "Redo (Ctrl+Shift+Z)",
+    },
+    {
+      key: "z",
+      metaKey: true,
+      action: onUndo,
+      description: "Undo (Cmd+Z)",
+    },
+    {
+      key: "z",
+      metaKey: true,
+      shiftKey: true,
+      action: onRedo,
+      description: "Redo (Cmd+Shift+Z)",
+    },
+  ];
+
+  useKeyboard(shortcuts, enabled);
+}
+
 /**
  * Get all available keyboard shortcuts for display in help
  */
@@ -214,5 +254,7 @@ export function getKeyboardShortcuts(): KeyboardShortcut[] {
     { key: "1-5", action: () => {}, description: "Show preset messages" },
     { key: "Ctrl+V", action: () => {}, description: "Toggle view mode" },
     { key: "Ctrl+T", action: () => {}, description: "Toggle theme" },
+    { key: "Ctrl+Z", action: () => {}, description: "Undo" },
+    { key: "Ctrl+Shift+Z", action: () => {}, description: "Redo" },
   ];
 }
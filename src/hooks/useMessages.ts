@@ -8,6 +8,8 @@ interface UseMessagesReturn {
   showPresetMessage: (preset: MessagePreset) => void;
   hideMessage: (messageId?: string) => void;
   clearAllMessages: () => void;
+  restoreMessage: (message: Message | null) => void;
+  restoreQueue: (queue: Message[]) => void;
   queueMessage: (text: string, options?: Partial<Message>) => void;
   processQueue: () => void;
 }
@@ -112,6 +114,27 @@ export function useMessages(): UseMessagesReturn {
     setMessageQueue([]);
   }, []);
 
+  // Put back a previously shown message (or none), e.g. for undo
+  const restoreMessage = useCallback(
+    (message: Message | null) => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+        timeoutRef.current = null;
+      }
+
+      setCurrentMessage(message);
+      if (message?.autoHide) {
+        scheduleAutoHide(message);
+      }
+    },
+    [scheduleAutoHide]
+  );
+
+  // Take over a queue changed elsewhere, e.g. by another operator
+  const restoreQueue = useCallback((queue: Message[]) => {
+    setMessageQueue(queue);
+  }, []);
+
   // Add message to queue
   const queueMessage = useCallback(
     (text: string, options: Partial<Message> = {}) => {
@@ -171,6 +194,8 @@ export function useMessages(): UseMessagesReturn {
     showPresetMessage,
     hideMessage,
     clearAllMessages,
+    restoreMessage,
+    restoreQueue,
     queueMessage,
     processQueue,
   };
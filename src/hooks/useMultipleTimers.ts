@@ -1,11 +1,34 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import type { Timer, TimerCollection, TimerType, TimerStatus } from '../types';
 import { DEFAULT_TIMER_COLLECTION } from '../types';
+import { serverClock } from '../services/serverClock';
+import {
+  createTimerState,
+  normalizeTimerState,
+  pauseTimeline,
+  resetTimeline,
+  resolveTimerState,
+  setTimelineTime,
+  startTimeline,
+} from '../utils/timeline';
+import { getPendingConfirm, resolveChain } from '../utils/chain';
+import {
+  getExpireEvent,
+  getTimerEvents,
+  type TimerEventDraft,
+} from '../utils/eventLog';
+
+// Replace a timer's state, keeping the same object when nothing changed
+function withState(timer: Timer, state: Timer['state']): Timer {
+  return state === timer.state ? timer : { ...timer, state };
+}
 
 interface UseMultipleTimersReturn {
   timers: Timer[];
+  timerCollection: TimerCollection; // Stored timeline - only changes on state changes
   activeTimer: Timer | null;
   activeTimerId: string | null;
+  pendingConfirmTimer: Timer | null; // Next timer waiting on a 'confirm' link
   initializeTimerCollection: (collection: TimerCollection) => void;
   addTimer: (
     name: string,
@@ -32,112 +55,77 @@ interface UseMultipleTimersReturn {
 
 export function useMultipleTimers(
   onTimerExpire?: (timerId: string) => void,
-  onTimerTick?: (timerId: string, currentTime: number) => void
+  onTimerTick?: (timerId: string, currentTime: number) => void,
+  // Starts, pauses, resets, expiries and time changes, for the event log.
+  // Automatic events come from chain hand-overs and countdowns running out.
+  onTimerEvent?: (event: TimerEventDraft, automatic: boolean) => void
 ): UseMultipleTimersReturn {
   const [timerCollection, setTimerCollection] = useState<TimerCollection>(
     DEFAULT_TIMER_COLLECTION
   );
-  const intervalRefs = useRef<Map<string, NodeJS.Timeout>>(new Map());
-  const startTimeRefs = useRef<Map<string, number>>(new Map());
-  const pausedTimeRefs = useRef<Map<string, number>>(new Map());
+  const [now, setNow] = useState(() => serverClock.now());
+  const prevCurrentTimesRef = useRef<Map<string, number>>(new Map());
+  const loggedCollectionRef = useRef<TimerCollection | null>(null);
+  const changeSourceRef = useRef<'action' | 'chain' | 'load'>('action');
+  const loggedExpiriesRef = useRef<Set<string>>(new Set());
+
+  // Report an event, once per countdown expiry
+  const emitTimerEvent = useCallback(
+    (event: TimerEventDraft, automatic: boolean) => {
+      if (event.type === 'expire') {
+        const key = `${event.timerId}:${event.at}`;
+        if (loggedExpiriesRef.current.has(key)) return;
+        loggedExpiriesRef.current.add(key);
+      }
+      onTimerEvent?.(event, automatic);
+    },
+    [onTimerEvent]
+  );
 
-  // Clear all intervals on unmount
-  useEffect(() => {
-    return () => {
-      intervalRefs.current.forEach((intervalId) => {
-        clearInterval(intervalId);
-      });
-    };
-  }, []);
+  const hasRunningTimer = timerCollection.timers.some(
+    (t) => t.state.status === 'running'
+  );
 
-  // Get elapsed time helper
-  const getElapsedTime = useCallback((startTime: number): number => {
-    return (Date.now() - startTime) / 1000;
-  }, []);
+  // Single clock for all timers - only ticks while something is running
+  useEffect(() => {
+    setNow(serverClock.now());
+    if (!hasRunningTimer) return;
+
+    const intervalId = setInterval(() => setNow(serverClock.now()), 100);
+    return () => clearInterval(intervalId);
+  }, [hasRunningTimer]);
+
+  // Timers with currentTime/elapsedTime resolved for this moment
+  const resolvedTimers = useMemo(
+    () =>
+      timerCollection.timers
+        .map((t) => {
+          const state = resolveTimerState(t.state, now);
+          return state === t.state ? t : { ...t, state };
+        })
+        .sort((a, b) => a.order - b.order),
+    [timerCollection.timers, now]
+  );
 
-  // Main timer tick function
-  const tick = useCallback(
-    (timerId: string) => {
+  // Apply a timeline change to one timer
+  const updateTimerAt = useCallback(
+    (timerId: string, update: (timer: Timer, now: number) => Timer) => {
+      const at = serverClock.now();
+      setNow(at);
       setTimerCollection((prev) => {
         const timer = prev.timers.find((t) => t.id === timerId);
-        if (!timer || timer.state.status !== 'running') {
-          return prev;
-        }
-
-        const startTime = startTimeRefs.current.get(timerId);
-        if (!startTime) return prev;
-
-        const elapsed = getElapsedTime(startTime);
-        let newElapsedTime = elapsed;
-        let newCurrentTime: number;
-        let hasJustExpired = false;
-
-        // Add a small delay (1 second) before starting countdown to show full duration first
-        if (elapsed < 1) {
-          newElapsedTime = 0;
-        } else {
-          newElapsedTime = elapsed - 1;
-        }
-
-        switch (timer.state.type) {
-          case 'countdown':
-            // For countdown: current time = initial time - elapsed time
-            newCurrentTime = timer.state.initialTime - newElapsedTime;
-            // Check if timer just crossed zero for callbacks
-            if (newCurrentTime <= 0 && timer.state.currentTime > 0) {
-              hasJustExpired = true;
-            }
-            break;
-
-          case 'countup':
-            newCurrentTime = newElapsedTime;
-            break;
-
-          case 'stopwatch':
-            newCurrentTime = newElapsedTime;
-            break;
-
-          default:
-            newCurrentTime = timer.state.currentTime;
-        }
-
-        const updatedTimers = prev.timers.map((t) =>
-          t.id === timerId
-            ? {
-                ...t,
-                state: {
-                  ...t.state,
-                  currentTime: newCurrentTime,
-                  elapsedTime: newElapsedTime,
-                  status: 'running' as TimerStatus, // Always keep status as running
-                },
-              }
-            : t
-        );
-
-        // Call callbacks
-        if (onTimerTick) {
-          onTimerTick(timerId, newCurrentTime);
-        }
-
-        if (hasJustExpired && onTimerExpire) {
-          onTimerExpire(timerId);
+        if (!timer) return prev;
 
-          // Auto-start next timer if linked
-          const currentIndex = prev.timers.findIndex((t) => t.id === timerId);
-          const nextTimer = prev.timers[currentIndex + 1];
-          if (nextTimer && nextTimer.autoLinkToPrevious) {
-            setTimeout(() => startTimer(nextTimer.id), 100);
-          }
-        }
+        const updated = update(timer, at);
+        if (updated === timer) return prev;
 
         return {
           ...prev,
-          timers: updatedTimers,
+          timers: prev.timers.map((t) => (t.id === timerId ? updated : t)),
         };
       });
     },
-    [getElapsedTime, onTimerTick, onTimerExpire]
+    []
   );
 
   // Start timer
@@ -146,123 +134,104 @@ export function useMultipleTimers(
       const targetId = timerId || timerCollection.activeTimerId;
       if (!targetId) return;
 
+      const at = serverClock.now();
+      setNow(at);
       setTimerCollection((prev) => {
         const timer = prev.timers.find((t) => t.id === targetId);
         if (!timer || timer.state.status === 'running') {
           return prev;
         }
 
-        // Pause all other running timers first
-        prev.timers.forEach((t) => {
-          if (t.id !== targetId && t.state.status === 'running') {
-            const intervalId = intervalRefs.current.get(t.id);
-            if (intervalId) {
-              clearInterval(intervalId);
-              intervalRefs.current.delete(t.id);
-            }
-          }
-        });
-
-        // Set start time
-        if (timer.state.status === 'idle') {
-          startTimeRefs.current.set(targetId, Date.now());
-          pausedTimeRefs.current.set(targetId, 0);
-        } else if (
-          timer.state.status === 'paused' ||
-          timer.state.status === 'expired'
-        ) {
-          // Resume from pause or expired state
-          // Calculate how much time should be "subtracted" to maintain current timer position
-          const currentTime = timer.state.currentTime;
-          let adjustedElapsed: number;
-
-          if (timer.state.type === 'countdown') {
-            // For countdown: if timer shows 00:39, and initial was 10:00 (600s),
-            // then elapsed time should be 600 - 39 = 561 seconds
-            adjustedElapsed = timer.state.initialTime - currentTime;
-            // Add 1 second for the initial delay we implemented
-            adjustedElapsed += 1;
-          } else {
-            // For countup/stopwatch: elapsed time equals current time
-            adjustedElapsed = currentTime;
-          }
-
-          // Set new start time as if the timer had been running for adjustedElapsed seconds
-          const newStartTime = Date.now() - adjustedElapsed * 1000;
-          startTimeRefs.current.set(targetId, newStartTime);
-          pausedTimeRefs.current.set(targetId, 0);
-        }
-
-        // Start interval
-        const intervalId = setInterval(() => tick(targetId), 100);
-        intervalRefs.current.set(targetId, intervalId);
-
+        // Only one timer runs at a time - pause the others
         const updatedTimers = prev.timers.map((t) =>
           t.id === targetId
             ? {
                 ...t,
-                state: {
-                  ...t.state,
-                  status: 'running' as TimerStatus,
-                  startTime: startTimeRefs.current.get(targetId),
-                  pausedTime: undefined, // Clear paused time when resuming
-                },
+                state: startTimeline(t.state, at),
+                actualStart: t.actualStart ?? at,
+                actualEnd: undefined,
               }
             : t.state.status === 'running'
-              ? {
-                  ...t,
-                  state: {
-                    ...t.state,
-                    status: 'paused' as TimerStatus,
-                    pausedTime: Date.now(),
-                  },
-                }
+              ? { ...t, state: pauseTimeline(t.state, at), actualEnd: at }
               : t
         );
 
         return {
           ...prev,
           timers: updatedTimers,
+          activeTimerId: targetId,
         };
       });
     },
-    [timerCollection.activeTimerId, tick]
+    [timerCollection.activeTimerId]
   );
 
+  // Log what changed in the stored timeline. Runs before the chain effect
+  // below so a hand-over is reported as its own automatic change. Loaded
+  // collections (from the room, a show or an undo) aren't logged.
+  useEffect(() => {
+    const prev = loggedCollectionRef.current;
+    const source = changeSourceRef.current;
+    loggedCollectionRef.current = timerCollection;
+    changeSourceRef.current = 'action';
+
+    if (!prev || prev === timerCollection || source === 'load') return;
+
+    getTimerEvents(prev, timerCollection, serverClock.now()).forEach((event) =>
+      emitTimerEvent(event, source === 'chain' || event.type === 'expire')
+    );
+  }, [timerCollection, emitTimerEvent]);
+
+  // Store automatic chain hand-overs. Displays resolve the same chain from
+  // the timeline themselves, this just writes down what already happened.
+  useEffect(() => {
+    if (resolveChain(timerCollection, now) === timerCollection) return;
+    changeSourceRef.current = 'chain';
+    setTimerCollection((prev) => resolveChain(prev, now));
+  }, [timerCollection, now]);
+
+  // Fire tick/expire callbacks as resolved times change
+  useEffect(() => {
+    resolvedTimers.forEach((timer) => {
+      if (timer.state.status !== 'running') {
+        prevCurrentTimesRef.current.delete(timer.id);
+        return;
+      }
+
+      const prevTime = prevCurrentTimesRef.current.get(timer.id);
+      const { currentTime } = timer.state;
+      if (prevTime === currentTime) return;
+
+      prevCurrentTimesRef.current.set(timer.id, currentTime);
+      onTimerTick?.(timer.id, currentTime);
+
+      // Check if countdown just crossed zero
+      if (
+        timer.state.type === 'countdown' &&
+        prevTime !== undefined &&
+        prevTime > 0 &&
+        currentTime <= 0
+      ) {
+        onTimerExpire?.(timer.id);
+
+        const event = getExpireEvent(timer);
+        if (event) emitTimerEvent(event, true);
+      }
+    });
+  }, [resolvedTimers, onTimerTick, onTimerExpire, emitTimerEvent]);
+
   // Pause timer
   const pauseTimer = useCallback(
     (timerId?: string) => {
       const targetId = timerId || timerCollection.activeTimerId;
       if (!targetId) return;
 
-      // Clear interval
-      const intervalId = intervalRefs.current.get(targetId);
-      if (intervalId) {
-        clearInterval(intervalId);
-        intervalRefs.current.delete(targetId);
-      }
-
-      setTimerCollection((prev) => {
-        const updatedTimers = prev.timers.map((t) =>
-          t.id === targetId
-            ? {
-                ...t,
-                state: {
-                  ...t.state,
-                  status: 'paused' as TimerStatus,
-                  pausedTime: Date.now(),
-                },
-              }
-            : t
-        );
-
-        return {
-          ...prev,
-          timers: updatedTimers,
-        };
+      updateTimerAt(targetId, (t, at) => {
+        const state = pauseTimeline(t.state, at);
+        return state === t.state ? t : { ...t, state, actualEnd: at };
       });
     },
-    [timerCollection.activeTimerId]
+    [timerCollection.activeTimerId, updateTimerAt]
   );
 
   // Reset timer
@@ -271,47 +240,14 @@ export function useMultipleTimers(
       const targetId = timerId || timerCollection.activeTimerId;
       if (!targetId) return;
 
-      // Clear interval
-      const intervalId = intervalRefs.current.get(targetId);
-      if (intervalId) {
-        clearInterval(intervalId);
-        intervalRefs.current.delete(targetId);
-      }
-
-      // Clear refs
-      startTimeRefs.current.delete(targetId);
-      pausedTimeRefs.current.delete(targetId);
-
-      setTimerCollection((prev) => {
-        const timer = prev.timers.find((t) => t.id === targetId);
-        if (!timer) return prev;
-
-        const currentTime =
-          timer.state.type === 'countdown' ? timer.state.initialTime : 0;
-
-        const updatedTimers = prev.timers.map((t) =>
-          t.id === targetId
-            ? {
-                ...t,
-                state: {
-                  ...t.state,
-                  status: 'idle' as TimerStatus,
-                  currentTime,
-                  elapsedTime: 0,
-                  startTime: undefined,
-                  pausedTime: undefined,
-                },
-              }
-            : t
-        );
-
-        return {
-          ...prev,
-          timers: updatedTimers,
-        };
-      });
+      updateTimerAt(targetId, (t) => ({
+        ...t,
+        state: resetTimeline(t.state),
+        actualStart: undefined,
+        actualEnd: undefined,
+      }));
     },
-    [timerCollection.activeTimerId]
+    [timerCollection.activeTimerId, updateTimerAt]
   );
 
   // Stop timer (alias for pause)
@@ -325,15 +261,26 @@ export function useMultipleTimers(
   // Initialize timer collection (for loading from Firebase)
   const initializeTimerCollection = useCallback(
     (collection: TimerCollection) => {
-      // Clear all existing intervals first
-      intervalRefs.current.forEach((intervalId) => {
-        clearInterval(intervalId);
-      });
-      intervalRefs.current.clear();
-      startTimeRefs.current.clear();
-      pausedTimeRefs.current.clear();
+      const at = serverClock.now();
+      const needsMigration = collection.timers.some(
+        (t) => t.state.startedAt === undefined
+      );
 
-      setTimerCollection(collection);
+      setNow(at);
+      if (needsMigration || collection !== loggedCollectionRef.current) {
+        changeSourceRef.current = 'load';
+      }
+      setTimerCollection(
+        needsMigration
+          ? {
+              ...collection,
+              timers: collection.timers.map((t) => ({
+                ...t,
+                state: normalizeTimerState(t.state, at),
+              })),
+            }
+          : collection
+      );
     },
     []
   );
@@ -349,46 +296,33 @@ export function useMultipleTimers(
       const newId = `timer-${Date.now()}-${Math.random()
         .toString(36)
         .substr(2, 9)}`;
-      const newOrder =
-        Math.max(...timerCollection.timers.map((t) => t.order), 0) + 1;
-
-      const newTimer: Timer = {
-        id: newId,
-        name,
-        state: {
-          type,
-          status: 'idle',
-          currentTime: type === 'countdown' ? duration : 0,
-          initialTime: duration,
-          elapsedTime: 0,
-        },
-        order: newOrder,
-        startTime,
-      };
 
-      setTimerCollection((prev) => ({
-        ...prev,
-        timers: [...prev.timers, newTimer],
-      }));
+      setTimerCollection((prev) => {
+        const newOrder = Math.max(...prev.timers.map((t) => t.order), 0) + 1;
+
+        const newTimer: Timer = {
+          id: newId,
+          name,
+          state: createTimerState(type, duration),
+          order: newOrder,
+          startTime,
+        };
+
+        return {
+          ...prev,
+          timers: [...prev.timers, newTimer],
+          // Select the new timer if nothing is active yet
+          activeTimerId: prev.activeTimerId || newId,
+        };
+      });
 
       return newId;
     },
-    [timerCollection.timers]
+    []
   );
 
   // Delete timer
   const deleteTimer = useCallback((timerId: string) => {
-    // Clear interval if running
-    const intervalId = intervalRefs.current.get(timerId);
-    if (intervalId) {
-      clearInterval(intervalId);
-      intervalRefs.current.delete(timerId);
-    }
-
-    // Clear refs
-    startTimeRefs.current.delete(timerId);
-    pausedTimeRefs.current.delete(timerId);
-
     setTimerCollection((prev) => {
       const updatedTimers = prev.timers.filter((t) => t.id !== timerId);
       let newActiveId = prev.activeTimerId;
@@ -418,33 +352,14 @@ export function useMultipleTimers(
       const timer = prev.timers.find((t) => t.id === timerId);
       if (!timer) return prev;
 
-      // Clear any running intervals for the newly selected timer
-      const intervalId = intervalRefs.current.get(timerId);
-      if (intervalId) {
-        clearInterval(intervalId);
-        intervalRefs.current.delete(timerId);
-      }
-
-      // Clear refs for the newly selected timer
-      startTimeRefs.current.delete(timerId);
-      pausedTimeRefs.current.delete(timerId);
-
       // Reset the newly selected timer to its initial state
-      const currentTime =
-        timer.state.type === 'countdown' ? timer.state.initialTime : 0;
-
       const updatedTimers = prev.timers.map((t) =>
         t.id === timerId
           ? {
               ...t,
-              state: {
-                ...t.state,
-                status: 'idle' as TimerStatus,
-                currentTime,
-                elapsedTime: 0,
-                startTime: undefined,
-                pausedTime: undefined,
-              },
+              state: resetTimeline(t.state),
+              actualStart: undefined,
+              actualEnd: undefined,
             }
           : t
       );
@@ -474,98 +389,38 @@ export function useMultipleTimers(
     []
   );
 
-  // Update timer time
-  const updateTimerTime = useCallback((timerId: string, newTime: number) => {
-    setTimerCollection((prev) => {
-      const updatedTimers = prev.timers.map((t) =>
-        t.id === timerId
-          ? {
-              ...t,
-              state: {
-                ...t.state,
-                currentTime: newTime,
-              },
-            }
-          : t
+  // Update timer time - moves the timeline so the timer shows newTime
+  const updateTimerTime = useCallback(
+    (timerId: string, newTime: number) => {
+      updateTimerAt(timerId, (t, at) =>
+        withState(t, setTimelineTime(t.state, newTime, at))
       );
+    },
+    [updateTimerAt]
+  );
 
-      return {
-        ...prev,
-        timers: updatedTimers,
-      };
-    });
-  }, []);
-
-  // Update timer duration
+  // Update timer duration - elapsed time is kept, so remaining time changes
   const updateTimerDuration = useCallback(
     (timerId: string, newDuration: number) => {
-      setTimerCollection((prev) => {
-        const updatedTimers = prev.timers.map((t) =>
-          t.id === timerId
-            ? {
-                ...t,
-                state: {
-                  ...t.state,
-                  initialTime: newDuration,
-                  currentTime:
-                    t.state.type === 'countdown'
-                      ? newDuration
-                      : t.state.currentTime,
-                },
-              }
-            : t
-        );
-
-        return {
-          ...prev,
-          timers: updatedTimers,
-        };
-      });
+      updateTimerAt(timerId, (t, at) =>
+        withState(
+          t,
+          resolveTimerState({ ...t.state, initialTime: newDuration }, at)
+        )
+      );
     },
-    []
+    [updateTimerAt]
   );
 
   // Update timer type
-  const updateTimerType = useCallback((timerId: string, newType: TimerType) => {
-    setTimerCollection((prev) => {
-      const timer = prev.timers.find((t) => t.id === timerId);
-      if (!timer) return prev;
-
-      // Handle different timer types appropriately
-      let newCurrentTime: number;
-      switch (newType) {
-        case 'countdown':
-          newCurrentTime = timer.state.initialTime;
-          break;
-        case 'countup':
-        case 'stopwatch':
-        case 'hidden':
-          newCurrentTime = 0;
-          break;
-        default:
-          newCurrentTime = 0;
-      }
-
-      const updatedTimers = prev.timers.map((t) =>
-        t.id === timerId
-          ? {
-              ...t,
-              state: {
-                ...t.state,
-                type: newType,
-                currentTime: newCurrentTime,
-                status: 'idle' as TimerStatus,
-              },
-            }
-          : t
+  const updateTimerType = useCallback(
+    (timerId: string, newType: TimerType) => {
+      updateTimerAt(timerId, (t) =>
+        withState(t, resetTimeline({ ...t.state, type: newType }))
       );
-
-      return {
-        ...prev,
-        timers: updatedTimers,
-      };
-    });
-  }, []);
+    },
+    [updateTimerAt]
+  );
 
   // Reorder timers
   const reorderTimers = useCallback((timerIds: string[]) => {
@@ -584,69 +439,58 @@ export function useMultipleTimers(
     });
   }, []);
 
-  // Adjust time
-  const adjustTime = useCallback((timerId: string, seconds: number) => {
-    setTimerCollection((prev) => {
-      const timer = prev.timers.find((t) => t.id === timerId);
-      if (!timer) return prev;
-
-      const newTime = Math.max(0, timer.state.currentTime + seconds);
-
-      const updatedTimers = prev.timers.map((t) =>
-        t.id === timerId
-          ? {
-              ...t,
-              state: {
-                ...t.state,
-                currentTime: newTime,
-              },
-            }
-          : t
-      );
-
-      return {
-        ...prev,
-        timers: updatedTimers,
-      };
-    });
-  }, []);
+  // Adjust time - adds/removes seconds from what the timer currently shows
+  const adjustTime = useCallback(
+    (timerId: string, seconds: number) => {
+      updateTimerAt(timerId, (t, at) => {
+        const resolved = resolveTimerState(t.state, at);
+        return withState(
+          t,
+          setTimelineTime(t.state, resolved.currentTime + seconds, at)
+        );
+      });
+    },
+    [updateTimerAt]
+  );
 
   // Helper functions
-  const isTimerRunning = useCallback(
-    (timerId: string): boolean => {
-      const timer = timerCollection.timers.find((t) => t.id === timerId);
-      return timer?.state.status === 'running' || false;
-    },
+  const getStatus = useCallback(
+    (timerId: string): TimerStatus | undefined =>
+      timerCollection.timers.find((t) => t.id === timerId)?.state.status,
     [timerCollection.timers]
   );
 
+  const isTimerRunning = useCallback(
+    (timerId: string): boolean => getStatus(timerId) === 'running',
+    [getStatus]
+  );
+
   const isTimerPaused = useCallback(
-    (timerId: string): boolean => {
-      const timer = timerCollection.timers.find((t) => t.id === timerId);
-      return timer?.state.status === 'paused' || false;
-    },
-    [timerCollection.timers]
+    (timerId: string): boolean => getStatus(timerId) === 'paused',
+    [getStatus]
   );
 
   const isTimerExpired = useCallback(
-    (timerId: string): boolean => {
-      const timer = timerCollection.timers.find((t) => t.id === timerId);
-      return timer?.state.status === 'expired' || false;
-    },
-    [timerCollection.timers]
+    (timerId: string): boolean => getStatus(timerId) === 'expired',
+    [getStatus]
   );
 
   // Get active timer
   const activeTimer = timerCollection.activeTimerId
-    ? timerCollection.timers.find(
-        (t) => t.id === timerCollection.activeTimerId
-      ) || null
+    ? resolvedTimers.find((t) => t.id === timerCollection.activeTimerId) || null
     : null;
 
+  const pendingConfirmTimer = useMemo(
+    () => getPendingConfirm(timerCollection, now),
+    [timerCollection, now]
+  );
+
   return {
-    timers: timerCollection.timers.sort((a, b) => a.order - b.order),
+    timers: resolvedTimers,
+    timerCollection,
     activeTimer,
     activeTimerId: timerCollection.activeTimerId,
+    pendingConfirmTimer,
     initializeTimerCollection,
     addTimer,
     deleteTimer,
@@ -0,0 +1,91 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  simpleFirebaseService,
+  type RoomPresence,
+} from '../services/simpleFirebase';
+import { serverClock } from '../services/serverClock';
+
+const HEARTBEAT_INTERVAL = 20 * 1000;
+const STALE_AFTER = 60 * 1000; // Windows closed without saying goodbye
+
+interface UsePresenceOptions {
+  roomId: string | null;
+  enabled: boolean; // Only controllers announce themselves
+  name: string;
+  selectedTimerId: string | null;
+  editingTimerId: string | null;
+}
+
+interface UsePresenceReturn {
+  operators: RoomPresence[]; // Everyone else with this room's controller open
+  // This window's id sorts first among the open controllers, so it sends what
+  // they'd otherwise all send at once (timer-driven webhooks)
+  isLead: boolean;
+}
+
+// Presence of the other operators in the room, and ours for them to see
+export function usePresence({
+  roomId,
+  enabled,
+  name,
+  selectedTimerId,
+  editingTimerId,
+}: UsePresenceOptions): UsePresenceReturn {
+  const [presence, setPresence] = useState<RoomPresence[]>([]);
+  const [now, setNow] = useState(() => serverClock.now());
+
+  // The heartbeat sends whatever is current when it fires
+  const stateRef = useRef({ name, selectedTimerId, editingTimerId });
+  stateRef.current = { name, selectedTimerId, editingTimerId };
+
+  useEffect(() => {
+    if (!roomId || !enabled) {
+      setPresence([]);
+      return;
+    }
+
+    const unsubscribe = simpleFirebaseService.subscribePresence(setPresence);
+
+    // A missed heartbeat is made up by the next one
+    const heartbeat = setInterval(() => {
+      simpleFirebaseService.updatePresence(stateRef.current).catch(() => {});
+      setNow(serverClock.now());
+    }, HEARTBEAT_INTERVAL);
+
+    // Closing the window skips React cleanup
+    const leave = () => {
+      simpleFirebaseService.clearPresence().catch(() => {});
+    };
+    window.addEventListener('pagehide', leave);
+
+    return () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', leave);
+      leave();
+    };
+  }, [roomId, enabled]);
+
+  // Let the others know straight away when we move to another timer
+  useEffect(() => {
+    if (!roomId || !enabled) return;
+
+    simpleFirebaseService
+      .updatePresence({ name, selectedTimerId, editingTimerId })
+      .catch(() => {});
+  }, [roomId, enabled, name, selectedTimerId, editingTimerId]);
+
+  const operators = useMemo(
+    () =>
+      presence
+        .filter((p) => now - p.lastSeen < STALE_AFTER)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [presence, now]
+  );
+
+  const isLead =
+    enabled &&
+    operators.every((p) => p.id > simpleFirebaseService.ownPresenceId);
+
+  return { operators, isLead };
+}
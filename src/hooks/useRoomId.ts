@@ -0,0 +1,51 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { isValidRoomId, normalizeRoomId } from '../utils/room';
+
+/**
+ * Hook for reading and changing the room code in the `?room=` query parameter
+ */
+export function useRoomId(): [string | null, (roomId: string | null) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const rawRoomId = searchParams.get('room');
+
+  const roomId = useMemo(() => {
+    if (!rawRoomId) return null;
+    const normalized = normalizeRoomId(rawRoomId);
+    return isValidRoomId(normalized) ? normalized : null;
+  }, [rawRoomId]);
+
+  const setRoomId = useCallback(
+    (nextRoomId: string | null) => {
+      setSearchParams((prev) => {
+        const params = new URLSearchParams(prev);
+        if (nextRoomId) {
+          params.set('room', nextRoomId);
+        } else {
+          params.delete('room');
+        }
+        return params;
+      });
+    },
+    [setSearchParams]
+  );
+
+  return [roomId, setRoomId];
+}
+
+/**
+ * Hook for reading the join key (`?key=`) that display and controller links carry
+ */
+export function useRoomKey(): string | null {
+  const [searchParams] = useSearchParams();
+  return searchParams.get('key');
+}
+
+/**
+ * Hook for reading the local signalling server (`?signal=ws://host:port`)
+ * a display connects to the controller through, instead of Firestore
+ */
+export function useSignalingUrl(): string | null {
+  const [searchParams] = useSearchParams();
+  return searchParams.get('signal');
+}
@@ -0,0 +1,115 @@
+import { useState, useCallback, useEffect } from 'react';
+import {
+  simpleFirebaseService,
+  type InviteRole,
+  type RoomInvite,
+  type RoomMember,
+} from '../services/simpleFirebase';
+
+interface UseRoomMembersReturn {
+  members: RoomMember[];
+  invites: RoomInvite[]; // Only loaded for the owner
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  invite: (email: string, role: InviteRole) => Promise<void>;
+  revokeInvite: (email: string) => Promise<void>;
+  changeRole: (uid: string, role: InviteRole) => Promise<void>;
+  removeMember: (member: RoomMember) => Promise<void>;
+}
+
+// People in the current room and the owner's pending invitations. Loaded
+// while `enabled` (the people modal is open).
+export function useRoomMembers(
+  roomId: string | null,
+  isOwner: boolean,
+  enabled: boolean = true
+): UseRoomMembersReturn {
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [invites, setInvites] = useState<RoomInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!roomId) return;
+    setIsLoading(true);
+
+    try {
+      setMembers(await simpleFirebaseService.listMembers());
+      setInvites(isOwner ? await simpleFirebaseService.listInvites() : []);
+      setError(null);
+    } catch {
+      setError('Could not load the people in this room');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId, isOwner]);
+
+  useEffect(() => {
+    if (enabled) {
+      refresh();
+    }
+  }, [enabled, refresh]);
+
+  // Every change is followed by a reload, so the lists show what was saved
+  const change = useCallback(
+    async (action: () => Promise<void>, failure: string) => {
+      try {
+        await action();
+        setError(null);
+      } catch {
+        setError(failure);
+      }
+      await refresh();
+    },
+    [refresh]
+  );
+
+  const invite = useCallback(
+    (email: string, role: InviteRole) =>
+      change(
+        () => simpleFirebaseService.inviteMember(email, role),
+        `Could not invite ${email}`
+      ),
+    [change]
+  );
+
+  const revokeInvite = useCallback(
+    (email: string) =>
+      change(
+        () => simpleFirebaseService.revokeInvite(email),
+        'Could not cancel the invitation'
+      ),
+    [change]
+  );
+
+  const changeRole = useCallback(
+    (uid: string, role: InviteRole) =>
+      change(
+        () => simpleFirebaseService.setMemberRole(uid, role),
+        'Could not change the role'
+      ),
+    [change]
+  );
+
+  const removeMember = useCallback(
+    (member: RoomMember) =>
+      change(
+        () => simpleFirebaseService.removeMember(member),
+        'Could not remove them from the room'
+      ),
+    [change]
+  );
+
+  return {
+    members,
+    invites,
+    isLoading,
+    error,
+    refresh,
+    invite,
+    revokeInvite,
+    changeRole,
+    removeMember,
+  };
+}
@@ -0,0 +1,172 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Timer } from '../types';
+import { serverClock } from '../services/serverClock';
+import {
+  loadScheduleState,
+  saveScheduleState,
+  type ScheduleState,
+} from '../utils/storage';
+import {
+  getScheduleEntries,
+  isOccurrenceStarted,
+  SCHEDULE_GRACE_MS,
+  type ScheduleEntry,
+} from '../utils/schedule';
+
+interface UseSchedulerOptions {
+  roomId: string | null;
+  timers: Timer[];
+  enabled?: boolean;
+  onStart: (timerId: string) => void;
+  onArm: (timerId: string) => void;
+}
+
+interface UseSchedulerReturn {
+  entries: ScheduleEntry[];
+  nextEntry: ScheduleEntry | null;
+  armedEntry: ScheduleEntry | null; // Loaded and waiting for the operator
+  now: number; // Server time (ms), ticks while anything is scheduled
+  isHeld: boolean;
+  skipNext: () => void;
+  toggleHold: () => void;
+}
+
+const EMPTY_SCHEDULE_STATE: ScheduleState = { held: false, handled: {} };
+
+// Starts or arms timers when their startTime arrives. Only the controller
+// runs this - displays just follow the timeline it writes.
+export function useScheduler({
+  roomId,
+  timers,
+  enabled = true,
+  onStart,
+  onArm,
+}: UseSchedulerOptions): UseSchedulerReturn {
+  const [state, setState] = useState<ScheduleState>(() =>
+    roomId ? loadScheduleState(roomId) : EMPTY_SCHEDULE_STATE
+  );
+  const [now, setNow] = useState(() => serverClock.now());
+  const [armedEntry, setArmedEntry] = useState<ScheduleEntry | null>(null);
+  const firedRef = useRef<Set<string>>(new Set());
+
+  // Each room keeps its own skip/hold history
+  useEffect(() => {
+    setState(roomId ? loadScheduleState(roomId) : EMPTY_SCHEDULE_STATE);
+    setArmedEntry(null);
+  }, [roomId]);
+
+  const updateState = useCallback(
+    (update: (prev: ScheduleState) => ScheduleState) => {
+      setState((prev) => {
+        const next = update(prev);
+        if (roomId) saveScheduleState(roomId, next);
+        return next;
+      });
+    },
+    [roomId]
+  );
+
+  const markHandled = useCallback(
+    (handledEntries: ScheduleEntry[]) => {
+      updateState((prev) => ({
+        ...prev,
+        handled: {
+          ...prev.handled,
+          ...Object.fromEntries(handledEntries.map((e) => [e.key, e.at])),
+        },
+      }));
+    },
+    [updateState]
+  );
+
+  const hasSchedule =
+    armedEntry !== null ||
+    timers.some(
+      (t) => t.startTime && t.scheduleMode && t.scheduleMode !== 'off'
+    );
+
+  // Check the schedule once a second while anything is scheduled
+  useEffect(() => {
+    setNow(serverClock.now());
+    if (!enabled || !hasSchedule) return;
+
+    const interval = setInterval(() => setNow(serverClock.now()), 1000);
+    return () => clearInterval(interval);
+  }, [enabled, hasSchedule]);
+
+  const entries = useMemo(
+    () => getScheduleEntries(timers, now, state.handled),
+    [timers, now, state.handled]
+  );
+
+  // Act on entries that have come due
+  useEffect(() => {
+    if (!enabled || state.held) return;
+
+    const due = entries.filter(
+      (e) => now >= e.triggerAt && !firedRef.current.has(e.key)
+    );
+    if (due.length === 0) return;
+
+    const runningTimer = timers.find((t) => t.state.status === 'running');
+    const handled: ScheduleEntry[] = [];
+
+    due.forEach((entry) => {
+      const timer = timers.find((t) => t.id === entry.timerId);
+      if (!timer || isOccurrenceStarted(timer, entry)) {
+        handled.push(entry);
+        return;
+      }
+
+      if (entry.mode === 'start') {
+        onStart(timer.id);
+        handled.push(entry);
+      } else if (!runningTimer || runningTimer.id === timer.id) {
+        // Don't pull the display away from a running timer - keep waiting
+        onArm(timer.id);
+        setArmedEntry(entry);
+        handled.push(entry);
+      }
+    });
+
+    if (handled.length > 0) {
+      handled.forEach((e) => firedRef.current.add(e.key));
+      markHandled(handled);
+    }
+  }, [enabled, state.held, entries, now, timers, onStart, onArm, markHandled]);
+
+  // An armed timer stops being armed once it starts or its window passes
+  useEffect(() => {
+    if (!armedEntry) return;
+
+    const timer = timers.find((t) => t.id === armedEntry.timerId);
+    if (
+      !timer ||
+      timer.state.status === 'running' ||
+      now > armedEntry.at + SCHEDULE_GRACE_MS
+    ) {
+      setArmedEntry(null);
+    }
+  }, [armedEntry, timers, now]);
+
+  const nextEntry = entries[0] ?? null;
+
+  const skipNext = useCallback(() => {
+    if (!nextEntry) return;
+    markHandled([nextEntry]);
+  }, [nextEntry, markHandled]);
+
+  const toggleHold = useCallback(() => {
+    updateState((prev) => ({ ...prev, held: !prev.held }));
+  }, [updateState]);
+
+  return {
+    entries,
+    nextEntry,
+    armedEntry,
+    now,
+    isHeld: state.held,
+    skipNext,
+    toggleHold,
+  };
+}
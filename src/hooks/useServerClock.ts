@@ -0,0 +1,23 @@
+import { useState, useEffect, useCallback } from 'react';
+import { serverClock, type ClockSyncStatus } from '../services/serverClock';
+
+interface UseServerClockReturn {
+  status: ClockSyncStatus;
+  resync: () => Promise<number>;
+}
+
+export function useServerClock(): UseServerClockReturn {
+  const [status, setStatus] = useState<ClockSyncStatus>(() =>
+    serverClock.getStatus()
+  );
+
+  // Keep the status in sync with the shared clock
+  useEffect(() => {
+    setStatus(serverClock.getStatus());
+    return serverClock.subscribe(setStatus);
+  }, []);
+
+  const resync = useCallback(() => serverClock.calibrate(), []);
+
+  return { status, resync };
+}
@@ -0,0 +1,178 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { Show } from '../types';
+import { simpleFirebaseService } from '../services/simpleFirebase';
+import { useAccount } from './useAccount';
+import {
+  deleteLocalShow,
+  loadDeletedShowIds,
+  loadLocalShows,
+  saveLocalShow,
+  setShowDeleted,
+} from '../utils/storage';
+import { generateShowId, mergeShows } from '../utils/show';
+
+// Local shows this account may see - its own, and ones never uploaded. Other
+// accounts signed in on this device keep theirs to themselves.
+function loadOwnLocalShows(uid: string | null): Show[] {
+  return loadLocalShows().filter(
+    (show) => show.ownerId === undefined || show.ownerId === uid
+  );
+}
+
+interface UseShowsReturn {
+  shows: Show[];
+  isLoading: boolean;
+  error: string | null; // Last cloud failure - local copies still work
+  refresh: () => Promise<void>;
+  saveShow: (show: Show) => Promise<void>;
+  renameShow: (showId: string, name: string) => Promise<void>;
+  duplicateShow: (showId: string) => Promise<Show | null>;
+  deleteShow: (showId: string) => Promise<void>;
+}
+
+// Saved shows, kept on this device and in Firestore. Local copies are always
+// written first, so saving works offline and catches up on the next refresh.
+export function useShows(enabled: boolean = true): UseShowsReturn {
+  const { account } = useAccount();
+  const uid = account && !account.isAnonymous ? account.uid : null;
+
+  const [shows, setShows] = useState<Show[]>(() =>
+    mergeShows(loadOwnLocalShows(uid), [])
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const local = loadOwnLocalShows(uid);
+    setShows(mergeShows(local, []));
+    setIsLoading(true);
+
+    try {
+      // Finish deletes that didn't reach the cloud, so they don't come back.
+      // One that fails again stays marked for the next refresh.
+      const deleted = loadDeletedShowIds(uid);
+      await Promise.all(
+        deleted.map((showId) =>
+          simpleFirebaseService
+            .deleteShow(showId)
+            .then(() => setShowDeleted(uid, showId, false))
+            .catch(() => {})
+        )
+      );
+
+      const cloud = (await simpleFirebaseService.listShows()).filter(
+        (show) => !deleted.includes(show.id)
+      );
+      const merged = mergeShows(local, cloud);
+
+      // Keep both sides up to date with whichever copy is newer
+      const cloudById = new Map(cloud.map((show) => [show.id, show]));
+      const localById = new Map(local.map((show) => [show.id, show]));
+      merged.forEach((show) => {
+        if ((localById.get(show.id)?.updatedAt ?? -1) < show.updatedAt) {
+          saveLocalShow(show);
+        }
+        if (uid && (cloudById.get(show.id)?.updatedAt ?? -1) < show.updatedAt) {
+          const owned = { ...show, ownerId: uid };
+          saveLocalShow(owned);
+          // The cloud copy stays older, so this is tried again next time
+          simpleFirebaseService.saveShow(owned).catch(() => {});
+        }
+      });
+
+      setShows(merged);
+      setError(null);
+    } catch {
+      setError('Could not reach the cloud - showing shows on this device');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [uid]);
+
+  useEffect(() => {
+    if (enabled) {
+      refresh();
+    }
+  }, [enabled, refresh]);
+
+  const saveShow = useCallback(
+    async (show: Show) => {
+      // The saving account owns the show from now on
+      const owned = uid ? { ...show, ownerId: uid } : show;
+      saveLocalShow(owned);
+      setShows((prev) => mergeShows(prev, [owned]));
+
+      try {
+        await simpleFirebaseService.saveShow(owned);
+        setError(null);
+      } catch {
+        setError(
+          'Saved on this device only - it will upload on the next refresh'
+        );
+      }
+    },
+    [uid]
+  );
+
+  const renameShow = useCallback(
+    async (showId: string, name: string) => {
+      const show = shows.find((s) => s.id === showId);
+      if (!show) return;
+
+      await saveShow({
+        ...show,
+        name: name.trim() || show.name,
+        updatedAt: Date.now(),
+      });
+    },
+    [shows, saveShow]
+  );
+
+  const duplicateShow = useCallback(
+    async (showId: string) => {
+      const show = shows.find((s) => s.id === showId);
+      if (!show) return null;
+
+      const now = Date.now();
+      const copy: Show = {
+        ...show,
+        id: generateShowId(),
+        name: `${show.name} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await saveShow(copy);
+      return copy;
+    },
+    [shows, saveShow]
+  );
+
+  const deleteShow = useCallback(
+    async (showId: string) => {
+      deleteLocalShow(showId);
+      setShowDeleted(uid, showId, true);
+      setShows((prev) => prev.filter((s) => s.id !== showId));
+
+      try {
+        await simpleFirebaseService.deleteShow(showId);
+        setShowDeleted(uid, showId, false);
+      } catch {
+        setError(
+          'Deleted on this device only - the cloud copy goes on the next refresh'
+        );
+      }
+    },
+    [uid]
+  );
+
+  return {
+    shows,
+    isLoading,
+    error,
+    refresh,
+    saveShow,
+    renameShow,
+    duplicateShow,
+    deleteShow,
+  };
+}
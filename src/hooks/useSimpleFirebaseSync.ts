@@ -1,15 +1,29 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
   simpleFirebaseService,
+  RoomAccessError,
   type SharedTimerData,
   type ConnectionStatus,
+  type RoomInfo,
+  type RoomKeys,
+  type RoomRole,
+  type QueuedField,
+  type RoomConflict,
 } from '../services/simpleFirebase';
+import { serverClock } from '../services/serverClock';
+import { accountService } from '../services/accountService';
 import type { TimerCollection, Message, AppSettings } from '../types';
+import type { TimerChanges } from '../utils/timerSync';
+import { DEFAULT_SETTINGS, DEFAULT_TIMER_COLLECTION } from '../types';
 
 export interface UseSimpleFirebaseSyncOptions {
+  roomId: string | null;
+  accessKey?: string | null; // ?key= from a display or controller link
   isController?: boolean;
   onDataChange?: (data: SharedTimerData) => void;
   onConnectionStatusChange?: (status: ConnectionStatus) => void;
+  // A queued change lost to a newer one from another operator - adopt value
+  onConflict?: (conflict: RoomConflict) => void;
   onError?: (error: Error) => void;
 }
 
@@ -17,6 +31,19 @@ export interface UseSimpleFirebaseSyncReturn {
   // Connection state
   connectionStatus: ConnectionStatus;
   isConnected: boolean;
+  isOnline: boolean; // Whether the server can be reached right now
+  pendingWrites: number; // Changes queued until the server can be reached
+  hasPendingWrite: (field: QueuedField, key?: string) => boolean;
+
+  // Room management
+  roomInfo: RoomInfo | null;
+  roomNotFound: boolean;
+  roomRole: RoomRole | null;
+  roomKeys: RoomKeys | null; // Controllers only, for sharing links
+  accessError: string | null; // Why the rules turned this device away
+  createRoom: (name: string) => Promise<string>;
+  getRoomInfo: (roomId: string) => Promise<RoomInfo | null>;
+  renameRoom: (name: string) => Promise<void>;
 
   // Controller methods (only work if isController = true)
   fetchExistingData: () => Promise<SharedTimerData | null>;
@@ -31,6 +58,7 @@ export interface UseSimpleFirebaseSyncReturn {
 
   // Data sync methods (controller only)
   updateTimers: (timers: TimerCollection) => Promise<void>;
+  updateTimerChanges: (changes: TimerChanges) => Promise<void>;
   updateCurrentMessage: (message: Message | null) => Promise<void>;
   updateMessageQueue: (queue: Message[]) => Promise<void>;
   updateSettings: (settings: AppSettings) => Promise<void>;
@@ -42,12 +70,15 @@ export interface UseSimpleFirebaseSyncReturn {
 }
 
 export function useSimpleFirebaseSync(
-  options: UseSimpleFirebaseSyncOptions = {}
+  options: UseSimpleFirebaseSyncOptions
 ): UseSimpleFirebaseSyncReturn {
   const {
+    roomId,
+    accessKey,
     isController = false,
     onDataChange,
     onConnectionStatusChange,
+    onConflict,
     onError,
   } = options;
 
@@ -55,6 +86,34 @@ export function useSimpleFirebaseSync(
     simpleFirebaseService.status
   );
   const [sharedData, setSharedData] = useState<SharedTimerData | null>(null);
+  const [roomInfo, setRoomInfo] = useState<RoomInfo | null>(null);
+  const [roomNotFound, setRoomNotFound] = useState(false);
+  const [roomRole, setRoomRole] = useState<RoomRole | null>(null);
+  const [roomKeys, setRoomKeys] = useState<RoomKeys | null>(null);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const [pendingWrites, setPendingWrites] = useState(0);
+  const [isOnline, setIsOnline] = useState(simpleFirebaseService.isOnline);
+
+  // Who is signed in decides which rooms can be joined, so a sign-in, sign-up
+  // or verified email joins again
+  const [accountKey, setAccountKey] = useState<string | null>(null);
+  useEffect(
+    () =>
+      accountService.subscribe((account) =>
+        setAccountKey(
+          account
+            ? `${account.uid}:${account.isAnonymous}:${account.emailVerified}`
+            : null
+        )
+      ),
+    []
+  );
+
+  // Callers pass inline callbacks; joining a room must not rerun every render
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const onConflictRef = useRef(onConflict);
+  onConflictRef.current = onConflict;
 
   // Auto-authenticate on mount
   useEffect(() => {
@@ -70,6 +129,63 @@ export function useSimpleFirebaseSync(
     authenticate();
   }, [onError]);
 
+  // Point the service at the requested room, join it and load its metadata
+  useEffect(() => {
+    simpleFirebaseService.setRoom(roomId);
+    setSharedData(null);
+    setRoomInfo(null);
+    setRoomNotFound(false);
+    setRoomRole(null);
+    setRoomKeys(null);
+    setAccessError(null);
+
+    if (!roomId || !accountKey) return;
+
+    let cancelled = false;
+    const join = async () => {
+      const role = await simpleFirebaseService.joinRoom(
+        roomId,
+        isController ? 'controller' : 'display',
+        accessKey
+      );
+      if (cancelled) return;
+      if (!role) {
+        setRoomNotFound(true);
+        return;
+      }
+      if (isController && role === 'display') {
+        throw new RoomAccessError(
+          'This device joined the room as a display - ask the room owner to invite your email address to run it'
+        );
+      }
+      setRoomRole(role);
+
+      const info = await simpleFirebaseService.getRoomInfo(roomId);
+      if (cancelled) return;
+      setRoomInfo(info);
+      setRoomNotFound(!info);
+
+      // Viewers follow the controller read-only, without the join keys
+      if (isController && role !== 'viewer') {
+        const keys = await simpleFirebaseService.getRoomKeys();
+        if (!cancelled) setRoomKeys(keys);
+      }
+    };
+
+    join().catch((error) => {
+      if (cancelled) return;
+      if (error instanceof RoomAccessError) {
+        setAccessError(error.message);
+        return;
+      }
+      onErrorRef.current?.(error as Error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, accessKey, isController, accountKey]);
+
   // Handle connection status changes
   useEffect(() => {
     const unsubscribe = simpleFirebaseService.onConnectionStatusChange(
@@ -82,6 +198,15 @@ export function useSimpleFirebaseSync(
     return unsubscribe;
   }, [onConnectionStatusChange]);
 
+  // Keep the server clock calibrated while connected so timelines resolve
+  // consistently across devices
+  useEffect(() => {
+    if (connectionStatus !== 'connected') return;
+
+    serverClock.startAutoResync();
+    return () => serverClock.stopAutoResync();
+  }, [connectionStatus]);
+
   // Handle data changes
   useEffect(() => {
     const unsubscribe = simpleFirebaseService.onDataChange((data) => {
@@ -92,6 +217,82 @@ export function useSimpleFirebaseSync(
     return unsubscribe;
   }, [onDataChange]);
 
+  // Track writes waiting for the connection, and the changes they lost to
+  useEffect(
+    () =>
+      simpleFirebaseService.onPendingWritesChange((pending, online) => {
+        setPendingWrites(pending);
+        setIsOnline(online);
+      }),
+    []
+  );
+
+  useEffect(
+    () =>
+      simpleFirebaseService.onConflict((conflict) =>
+        onConflictRef.current?.(conflict)
+      ),
+    []
+  );
+
+  const hasPendingWrite = useCallback(
+    (field: QueuedField, key?: string) =>
+      simpleFirebaseService.hasPendingWrite(field, key),
+    []
+  );
+
+  // Create a new room seeded with default data (controller only)
+  const createRoom = useCallback(
+    async (name: string): Promise<string> => {
+      if (!isController) {
+        throw new Error('Only controllers can create rooms');
+      }
+
+      try {
+        return await simpleFirebaseService.createRoom(name, {
+          timers: DEFAULT_TIMER_COLLECTION,
+          currentMessage: null,
+          messageQueue: [],
+          settings: DEFAULT_SETTINGS,
+          blackoutMode: false,
+          flashMode: false,
+        });
+      } catch (error) {
+        onError?.(error as Error);
+        throw error;
+      }
+    },
+    [isController, onError]
+  );
+
+  // Look up a room before joining it
+  const getRoomInfo = useCallback(
+    async (targetRoomId: string): Promise<RoomInfo | null> => {
+      try {
+        return await simpleFirebaseService.getRoomInfo(targetRoomId);
+      } catch (error) {
+        onError?.(error as Error);
+        throw error;
+      }
+    },
+    [onError]
+  );
+
+  // Rename the current room (controller only)
+  const renameRoom = useCallback(
+    async (name: string): Promise<void> => {
+      if (!isController) return;
+      try {
+        await simpleFirebaseService.renameRoom(name);
+        setRoomInfo((prev) => (prev ? { ...prev, name } : prev));
+      } catch (error) {
+        onError?.(error as Error);
+        throw error;
+      }
+    },
+    [isController, onError]
+  );
+
   // Fetch existing data (controller only)
   const fetchExistingData =
     useCallback(async (): Promise<SharedTimerData | null> => {
@@ -145,6 +346,19 @@ export function useSimpleFirebaseSync(
     [isController, onError]
   );
 
+  const updateTimerChanges = useCallback(
+    async (changes: TimerChanges): Promise<void> => {
+      if (!isController) return;
+      try {
+        await simpleFirebaseService.updateTimerChanges(changes);
+      } catch (error) {
+        onError?.(error as Error);
+        throw error;
+      }
+    },
+    [isController, onError]
+  );
+
   const updateCurrentMessage = useCallback(
     async (message: Message | null): Promise<void> => {
       if (!isController) return;
@@ -213,10 +427,22 @@ export function useSimpleFirebaseSync(
   return {
     connectionStatus,
     isConnected: connectionStatus === 'connected',
+    isOnline,
+    pendingWrites,
+    hasPendingWrite,
+    roomInfo,
+    roomNotFound,
+    roomRole,
+    roomKeys,
+    accessError,
+    createRoom,
+    getRoomInfo,
+    renameRoom,
     sharedData,
     fetchExistingData,
     initializeData,
     updateTimers,
+    updateTimerChanges,
     updateCurrentMessage,
     updateMessageQueue,
     updateSettings,
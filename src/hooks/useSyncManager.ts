@@ -1,72 +1,172 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import type {
-  DeviceRole,
-  ConnectionStatus,
-  SyncMethod,
   DeviceInfo,
   ConnectionConfig,
+  SyncAck,
   SyncMessage,
+  SyncMessageData,
   ConnectionState,
   SyncEventHandlers,
   TimerSyncData,
   MessageSyncData,
   SettingsSyncData,
+  SyncTransport,
 } from "../types/sync";
+import { serverClock } from "../services/serverClock";
+import { WebRTCService } from "../services/webrtcService";
+import { BroadcastChannelService } from "../services/broadcastChannelService";
+import {
+  createSignalingChannel,
+  type SignalMessage,
+  type SignalingChannel,
+  type SignalingKind,
+} from "../services/signaling";
 import {
   DEFAULT_CONNECTION_CONFIG,
   DEFAULT_DEVICE_INFO,
   generateDeviceId,
   generateDeviceName,
   generateMessageId,
-  validateSyncMessage,
 } from "../types/sync";
 
+// Everything a display needs, sent to it as soon as it connects
+export interface SyncSnapshot {
+  timers: TimerSyncData;
+  message: MessageSyncData;
+  settings: SettingsSyncData;
+  blackout: boolean;
+  flash: boolean;
+}
+
+interface UseSyncManagerOptions {
+  roomId: string | null;
+  role: "controller" | "display";
+  enabled?: boolean;
+  webrtc?: boolean; // Off: only windows on this computer, no signalling
+  signalingUrl?: string | null; // Local signalling server; Firestore if empty
+  getSnapshot?: () => SyncSnapshot | null; // Controller only
+  handlers?: Partial<SyncEventHandlers>;
+  config?: Partial<ConnectionConfig>;
+}
+
 interface UseSyncManagerReturn {
   connectionState: ConnectionState;
+  signaling: SignalingKind | null;
   isController: boolean;
   isDisplay: boolean;
-  isConnected: boolean;
+  isConnected: boolean; // A data channel to at least one peer is open
   connectedDevices: DeviceInfo[];
-  setDeviceRole: (role: DeviceRole) => void;
-  startConnection: (method?: SyncMethod) => Promise<void>;
-  stopConnection: () => void;
   sendTimerSync: (data: TimerSyncData) => void;
   sendMessageSync: (data: MessageSyncData) => void;
   sendSettingsSync: (data: SettingsSyncData) => void;
   sendBlackoutToggle: (enabled: boolean) => void;
-  sendFlashTrigger: () => void;
-  generatePairingCode: () => string;
-  connectWithPairingCode: (code: string) => Promise<void>;
+  sendFlashTrigger: (enabled: boolean) => void;
 }
 
-export function useSyncManager(
-  eventHandlers: Partial<SyncEventHandlers> = {},
-  config: Partial<ConnectionConfig> = {}
-): UseSyncManagerReturn {
-  const fullConfig = { ...DEFAULT_CONNECTION_CONFIG, ...config };
+// A state update waiting for the peer to acknowledge it
+interface PendingAck {
+  peerId: string;
+  message: SyncMessage;
+  sentAt: number;
+  attempts: number;
+}
 
-  // Generate or retrieve device info
-  const [localDevice] = useState<DeviceInfo>(() => {
-    const stored = localStorage.getItem("stage-timer-device-info");
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        return {
-          ...DEFAULT_DEVICE_INFO,
-          ...parsed,
-          lastSeen: Date.now(),
-        };
-      } catch {
-        // Fall through to generate new
-      }
-    }
+const DEVICE_INFO_KEY = "stage-timer-device-info";
+const DEVICE_ID_KEY = "stage-timer-device-id";
+const HELLO_INTERVAL = 30000; // How often a lone display asks for a controller
 
-    return {
-      ...DEFAULT_DEVICE_INFO,
-      id: generateDeviceId(),
-      name: generateDeviceName(),
-    };
+function loadLocalDevice(role: DeviceInfo["role"]): DeviceInfo {
+  let stored: Partial<DeviceInfo> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(DEVICE_INFO_KEY) || "{}");
+  } catch {
+    // Fall through to a new name
+  }
+
+  // Ids are per tab, so a controller and a display in one browser are still
+  // two peers. A reload keeps the tab's id.
+  const id = sessionStorage.getItem(DEVICE_ID_KEY) || generateDeviceId();
+  sessionStorage.setItem(DEVICE_ID_KEY, id);
+
+  return {
+    ...DEFAULT_DEVICE_INFO,
+    name: generateDeviceName(),
+    ...stored,
+    id,
+    role,
+    lastSeen: Date.now(),
+  };
+}
+
+function createMessage<T extends keyof SyncMessageData>(
+  senderId: string,
+  type: T,
+  data: SyncMessageData[T],
+  requiresAck: boolean = false
+): SyncMessage {
+  return {
+    id: generateMessageId(),
+    type,
+    timestamp: Date.now(),
+    senderId,
+    data,
+    requiresAck,
+  };
+}
+
+// The transport a peer is reached on. Another window on this computer is
+// reached over the broadcast channel even if WebRTC could reach it too.
+function findTransport(
+  transports: SyncTransport[],
+  peerId: string
+): SyncTransport | null {
+  return (
+    transports.find((transport) =>
+      transport.getConnectedPeers().includes(peerId)
+    ) ?? null
+  );
+}
+
+// Sends a message and, if it wants an ack, keeps it for resending. A newer
+// update of the same type replaces an unacknowledged older one.
+function deliver(
+  transports: SyncTransport[],
+  pendingAcks: Map<string, PendingAck>,
+  peerId: string,
+  message: SyncMessage
+): void {
+  const transport = findTransport(transports, peerId);
+  if (!transport?.sendMessage(peerId, message) || !message.requiresAck) return;
+
+  pendingAcks.set(`${peerId}:${message.type}`, {
+    peerId,
+    message,
+    sentAt: Date.now(),
+    attempts: 1,
   });
+}
+
+/**
+ * Peer-to-peer sync between a controller and its displays: a broadcast
+ * channel for windows on this computer and WebRTC data channels, signalled
+ * through Firestore or a local signalling server, for other devices. It
+ * runs alongside Firebase: displays take updates from a peer while one is
+ * connected and fall back to Firebase when none is.
+ */
+export function useSyncManager({
+  roomId,
+  role,
+  enabled = true,
+  webrtc = true,
+  signalingUrl = null,
+  getSnapshot,
+  handlers = {},
+  config = {},
+}: UseSyncManagerOptions): UseSyncManagerReturn {
+  const fullConfig = { ...DEFAULT_CONNECTION_CONFIG, ...config };
+  const { heartbeatInterval, reconnectAttempts } = fullConfig;
+
+  const [localDevice] = useState<DeviceInfo>(() => loadLocalDevice(role));
 
   // Connection state
   const [connectionState, setConnectionState] = useState<ConnectionState>({
@@ -77,371 +177,463 @@ export function useSyncManager(
     lastSync: 0,
     errors: [],
   });
+  const [signaling, setSignaling] = useState<SignalingKind | null>(null);
 
   // Refs for connection management
-  const connectionRef = useRef<any>(null);
-  const heartbeatRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectTimeoutRef = useRef<number | null>(null);
-  const messageQueueRef = useRef<SyncMessage[]>([]);
+  const transportsRef = useRef<SyncTransport[]>([]);
+  const pendingAcksRef = useRef<Map<string, PendingAck>>(new Map());
+  const pendingHeartbeatsRef = useRef<Map<string, number>>(new Map());
+
+  // Callers pass these inline; the connection reads the latest ones
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const getSnapshotRef = useRef(getSnapshot);
+  getSnapshotRef.current = getSnapshot;
 
   // Save device info to localStorage when it changes
   useEffect(() => {
-    localStorage.setItem(
-      "stage-timer-device-info",
-      JSON.stringify(localDevice)
-    );
+    localStorage.setItem(DEVICE_INFO_KEY, JSON.stringify(localDevice));
   }, [localDevice]);
 
-  // Cleanup on unmount
+  // Transports, signalling and heartbeats for the current room
   useEffect(() => {
-    return () => {
-      // Cleanup function - will be handled by the stopConnection function
-      if (heartbeatRef.current) {
-        clearInterval(heartbeatRef.current);
-        heartbeatRef.current = null;
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-        reconnectTimeoutRef.current = null;
-      }
-      if (connectionRef.current) {
-        try {
-          connectionRef.current.close();
-        } catch (error) {
-          // Ignore cleanup errors
-        }
-        connectionRef.current = null;
-      }
+    if (!enabled || !roomId) return;
+
+    const pendingAcks = pendingAcksRef.current;
+    const pendingHeartbeats = pendingHeartbeatsRef.current;
+    const announced = new Set<string>(); // Peers we've sent device_info to
+    const lastSeen = new Map<string, number>();
+    const transports: SyncTransport[] = [];
+    let local: BroadcastChannelService | null = null;
+    let channel: SignalingChannel | null = null;
+    let lastHello = 0;
+
+    const connectedPeers = () =>
+      transports.flatMap((transport) => transport.getConnectedPeers());
+
+    const send = (peerId: string, message: SyncMessage) =>
+      findTransport(transports, peerId)?.sendMessage(peerId, message) ?? false;
+
+    const sayHello = (to: string = "*") => {
+      lastHello = Date.now();
+      if (to === "*") local?.announce();
+      // A lost hello goes out again with the next heartbeat
+      channel?.send({ type: "hello", to, role }).catch(() => {});
     };
-  }, []);
 
-  // Connection status helpers
-  const isController = connectionState.localDevice.role === "controller";
-  const isDisplay = connectionState.localDevice.role === "display";
-  const isConnected = connectionState.status === "connected";
+    const reportError = (error: string) => {
+      setConnectionState((prev) => ({
+        ...prev,
+        errors: [...prev.errors.slice(-4), error],
+      }));
+      handlersRef.current.onError?.(error);
+    };
 
-  // Update connection status
-  const updateConnectionStatus = useCallback(
-    (status: ConnectionStatus, error?: string) => {
+    const updateStatus = () => {
+      const methods = transports
+        .filter((transport) => transport.getConnectedPeers().length > 0)
+        .map((transport) => transport.method);
+      const status = methods.length ? "connected" : "connecting";
       setConnectionState((prev) => ({
         ...prev,
         status,
-        errors: error ? [...prev.errors.slice(-4), error] : prev.errors,
+        method: methods[0] ?? null,
       }));
+      handlersRef.current.onConnectionStatusChange?.(status);
+    };
 
-      eventHandlers.onConnectionStatusChange?.(status);
-      if (error) {
-        eventHandlers.onError?.(error);
-      }
-    },
-    [eventHandlers]
-  );
+    // A display stays with the controller it has
+    const shouldConnect = (peerId: string) =>
+      role === "controller" || connectedPeers().every((id) => id === peerId);
+
+    const handlePeerConnected = (peerId: string) => {
+      // Fires for the connection and again for the data channel; only
+      // an open channel can carry the introduction
+      if (announced.has(peerId)) return;
+      const introduction = createMessage(
+        localDevice.id,
+        "device_info",
+        localDevice
+      );
+      if (!send(peerId, introduction)) return;
+
+      announced.add(peerId);
+      lastSeen.set(peerId, Date.now());
+      updateStatus();
+    };
 
-  // Send message through active connection
-  const sendMessage = useCallback(
-    (message: SyncMessage) => {
-      if (!isConnected || !connectionRef.current) {
-        // Queue message for later
-        messageQueueRef.current.push(message);
-        return;
+    const handlePeerDisconnected = (peerId: string) => {
+      // Still reachable some other way
+      if (findTransport(transports, peerId)) return;
+      if (!announced.delete(peerId)) return;
+
+      lastSeen.delete(peerId);
+      pendingAcks.forEach((entry, key) => {
+        if (entry.peerId === peerId) pendingAcks.delete(key);
+      });
+      setConnectionState((prev) => ({
+        ...prev,
+        connectedDevices: prev.connectedDevices.filter(
+          (d) => d.id !== peerId
+        ),
+      }));
+      updateStatus();
+      handlersRef.current.onDeviceDisconnected?.(peerId);
+
+      // Ask again straight away rather than waiting for the next hello
+      if (role === "display") sayHello();
+    };
+
+    // A display that just connected gets the full state at once
+    const sendSnapshot = (peerId: string) => {
+      const snapshot = getSnapshotRef.current?.();
+      if (!snapshot) return;
+
+      const sendState = <T extends keyof SyncMessageData>(
+        type: T,
+        data: SyncMessageData[T]
+      ) =>
+        deliver(
+          transports,
+          pendingAcks,
+          peerId,
+          createMessage(localDevice.id, type, data, true)
+        );
+      sendState("timer_state", snapshot.timers);
+      sendState("message_update", snapshot.message);
+      sendState("settings_update", snapshot.settings);
+      sendState("blackout_toggle", { enabled: snapshot.blackout });
+      sendState("flash_trigger", { enabled: snapshot.flash });
+    };
+
+    const handleMessage = (message: SyncMessage) => {
+      const peerId = message.senderId;
+      lastSeen.set(peerId, Date.now());
+      setConnectionState((prev) => ({ ...prev, lastSync: Date.now() }));
+
+      if (message.requiresAck) {
+        send(
+          peerId,
+          createMessage(localDevice.id, "ack", { originalId: message.id })
+        );
       }
 
-      try {
-        const messageStr = JSON.stringify(message);
-
-        if (
-          connectionRef.current.dataChannel &&
-          typeof connectionRef.current.dataChannel.send === "function"
-        ) {
-          connectionRef.current.dataChannel.send(messageStr);
-        } else if (
-          connectionRef.current.send &&
-          typeof connectionRef.current.send === "function"
-        ) {
-          connectionRef.current.send(messageStr);
+      switch (message.type) {
+        case "device_info": {
+          const deviceInfo = message.data as DeviceInfo;
+          setConnectionState((prev) => ({
+            ...prev,
+            connectedDevices: prev.connectedDevices.some(
+              (d) => d.id === deviceInfo.id
+            )
+              ? prev.connectedDevices.map((d) =>
+                  d.id === deviceInfo.id ? deviceInfo : d
+                )
+              : [...prev.connectedDevices, deviceInfo],
+          }));
+          handlersRef.current.onDeviceConnected?.(deviceInfo);
+
+          if (role === "controller") sendSnapshot(peerId);
+          break;
         }
 
-        setConnectionState((prev) => ({ ...prev, lastSync: Date.now() }));
-      } catch (error) {
-        console.error("Failed to send message:", error);
-        updateConnectionStatus("error", `Failed to send message: ${error}`);
+        case "heartbeat":
+          // Send heartbeat response, including our server time estimate so
+          // displays can use the heartbeat as a clock-sync ping
+          send(
+            peerId,
+            createMessage(localDevice.id, "ack", {
+              originalId: message.id,
+              referenceTime: serverClock.now(),
+              referenceRole: role,
+            })
+          );
+          break;
+
+        case "ack": {
+          const { originalId, referenceTime, referenceRole } =
+            message.data as SyncAck;
+
+          // State updates stop being resent once acknowledged
+          pendingAcks.forEach((entry, key) => {
+            if (entry.peerId === peerId && entry.message.id === originalId) {
+              pendingAcks.delete(key);
+            }
+          });
+
+          // Heartbeat acks from the controller double as clock samples
+          const sentAt = pendingHeartbeats.get(originalId);
+          if (sentAt === undefined) break;
+
+          pendingHeartbeats.delete(originalId);
+          if (
+            typeof referenceTime === "number" &&
+            referenceRole === "controller" &&
+            role === "display"
+          ) {
+            serverClock.addSample(
+              { serverTime: referenceTime, sentAt, receivedAt: Date.now() },
+              "heartbeat"
+            );
+          }
+          break;
+        }
+
+        default:
+          // Forward to event handler
+          handlersRef.current.onSyncMessage?.(message);
+          break;
       }
-    },
-    [isConnected, updateConnectionStatus]
-  );
+    };
 
-  // Process queued messages
-  const processMessageQueue = useCallback(() => {
-    if (messageQueueRef.current.length > 0 && isConnected) {
-      const messages = [...messageQueueRef.current];
-      messageQueueRef.current = [];
+    const callbacks = {
+      onMessage: handleMessage,
+      onPeerConnected: handlePeerConnected,
+      onPeerDisconnected: handlePeerDisconnected,
+    };
 
-      messages.forEach((message) => {
-        sendMessage(message);
+    // Other windows on this computer, with no network at all
+    if (BroadcastChannelService.isSupported()) {
+      local = new BroadcastChannelService(roomId, localDevice, {
+        ...callbacks,
+        shouldConnect,
       });
+      transports.push(local);
     }
-  }, [isConnected, sendMessage]);
 
-  // Handle incoming messages
-  const handleIncomingMessage = useCallback(
-    (messageStr: string) => {
-      try {
-        const message = JSON.parse(messageStr);
+    // Other devices, through a signalling channel
+    const rtc =
+      webrtc && WebRTCService.isSupported()
+        ? new WebRTCService(
+            localDevice,
+            {},
+            {
+              ...callbacks,
+              onPeerConnected: (peerId) => {
+                // Windows on this computer already talk over the broadcast
+                // channel
+                if (local?.getConnectedPeers().includes(peerId)) {
+                  rtc?.disconnectPeer(peerId);
+                  return;
+                }
+                handlePeerConnected(peerId);
+              },
+              onError: reportError,
+              onIceCandidate: (peerId, candidate) => {
+                // Losing one candidate leaves the others to get through
+                channel
+                  ?.send({
+                    type: "candidate",
+                    to: peerId,
+                    role,
+                    data: candidate,
+                  })
+                  .catch(() => {});
+              },
+            }
+          )
+        : null;
+
+    // Without WebRTC, other devices sync through Firebase alone
+    if (rtc) {
+      channel = createSignalingChannel(roomId, localDevice.id, signalingUrl);
+      transports.push(rtc);
+    }
 
-        if (!validateSyncMessage(message)) {
-          console.warn("Invalid sync message received:", message);
-          return;
-        }
+    if (transports.length === 0) return;
+    transportsRef.current = transports;
+
+    const handleSignal = async (signal: SignalMessage) => {
+      if (!rtc || !channel) return;
 
-        // Update last sync time
-        setConnectionState((prev) => ({ ...prev, lastSync: Date.now() }));
-
-        // Handle different message types
-        switch (message.type) {
-          case "device_info": {
-            const deviceInfo = message.data as DeviceInfo;
-            setConnectionState((prev) => ({
-              ...prev,
-              connectedDevices: prev.connectedDevices.some(
-                (d) => d.id === deviceInfo.id
-              )
-                ? prev.connectedDevices.map((d) =>
-                    d.id === deviceInfo.id ? deviceInfo : d
-                  )
-                : [...prev.connectedDevices, deviceInfo],
-            }));
-            eventHandlers.onDeviceConnected?.(deviceInfo);
+      try {
+        switch (signal.type) {
+          case "hello":
+            if (
+              role === "controller" &&
+              signal.role === "display" &&
+              !local?.getConnectedPeers().includes(signal.from)
+            ) {
+              const offer = await rtc.createOffer(signal.from);
+              await channel.send({
+                type: "offer",
+                to: signal.from,
+                role,
+                data: offer,
+              });
+            } else if (
+              role === "display" &&
+              signal.role === "controller" &&
+              connectedPeers().length === 0
+            ) {
+              // A controller has just arrived - ask it for an offer
+              sayHello(signal.from);
+            }
             break;
-          }
 
-          case "heartbeat":
-            // Send heartbeat response
-            sendMessage({
-              id: generateMessageId(),
-              type: "ack",
-              timestamp: Date.now(),
-              senderId: localDevice.id,
-              data: { originalId: message.id },
+          case "offer":
+            // One controller at a time
+            if (role !== "display" || !shouldConnect(signal.from)) break;
+            if (local?.getConnectedPeers().includes(signal.from)) break;
+
+            await channel.send({
+              type: "answer",
+              to: signal.from,
+              role,
+              data: await rtc.acceptOffer(signal.from, signal.data),
             });
             break;
 
-          case "ack":
-            // Handle acknowledgment
+          case "answer":
+            await rtc.completeConnection(signal.from, signal.data);
             break;
 
-          default:
-            // Forward to event handler
-            eventHandlers.onSyncMessage?.(message);
+          case "candidate":
+            await rtc.addIceCandidate(signal.from, signal.data);
+            break;
+
+          case "bye":
+            rtc.disconnectPeer(signal.from);
+            handlePeerDisconnected(signal.from);
             break;
         }
-      } catch (error) {
-        console.error("Failed to process incoming message:", error);
+      } catch {
+        reportError(`Failed to handle ${signal.type} signal`);
       }
-    },
-    [localDevice.id, eventHandlers, sendMessage]
-  );
+    };
 
-  // Start heartbeat
-  const startHeartbeat = useCallback(() => {
-    if (heartbeatRef.current) {
-      clearInterval(heartbeatRef.current);
-    }
+    setSignaling(channel?.kind ?? null);
+    updateStatus();
+    local?.announce();
+    channel?.open({ onSignal: handleSignal, onReady: () => sayHello() });
+
+    const heartbeat = setInterval(() => {
+      const now = Date.now();
+      const peers = connectedPeers();
 
-    heartbeatRef.current = setInterval(() => {
-      if (isConnected) {
-        sendMessage({
-          id: generateMessageId(),
-          type: "heartbeat",
-          timestamp: Date.now(),
-          senderId: localDevice.id,
-          data: localDevice,
-        });
+      if (role === "display" && peers.length === 0) {
+        if (now - lastHello >= HELLO_INTERVAL) sayHello();
+        return;
+      }
 
+      peers.forEach((peerId) => {
         // Check connection health
-        const currentTime = Date.now();
-        const lastSync = connectionState.lastSync;
-        if (
-          lastSync > 0 &&
-          currentTime - lastSync > fullConfig.heartbeatInterval * 3
-        ) {
-          updateConnectionStatus("error", "Connection timeout");
+        if (now - (lastSeen.get(peerId) ?? now) > heartbeatInterval * 3) {
+          reportError(`Peer ${peerId} timed out`);
+          transports.forEach((transport) => transport.disconnectPeer(peerId));
+          handlePeerDisconnected(peerId);
+          return;
         }
-      }
-    }, fullConfig.heartbeatInterval);
-  }, [
-    isConnected,
-    sendMessage,
-    localDevice,
-    fullConfig.heartbeatInterval,
-    updateConnectionStatus,
-  ]);
 
-  // Stop heartbeat
-  const stopHeartbeat = useCallback(() => {
-    if (heartbeatRef.current) {
-      clearInterval(heartbeatRef.current);
-      heartbeatRef.current = null;
-    }
-  }, []);
+        const heartbeatMessage = createMessage(
+          localDevice.id,
+          "heartbeat",
+          localDevice
+        );
+
+        // Only keep the most recent pings around for matching acks
+        pendingHeartbeats.set(heartbeatMessage.id, now);
+        if (pendingHeartbeats.size > 10) {
+          const oldest = pendingHeartbeats.keys().next().value;
+          if (oldest) pendingHeartbeats.delete(oldest);
+        }
 
-  // Set device role
-  const setDeviceRole = useCallback((role: DeviceRole) => {
-    setConnectionState((prev) => ({
-      ...prev,
-      localDevice: { ...prev.localDevice, role },
-    }));
-  }, []);
+        send(peerId, heartbeatMessage);
+      });
 
-  // Start connection (placeholder - will be implemented in specific connection methods)
-  const startConnection = useCallback(
-    async (method: SyncMethod = fullConfig.method) => {
-      updateConnectionStatus("connecting");
+      // Resend state updates nobody acknowledged, a few times at most
+      pendingAcks.forEach((entry, key) => {
+        if (now - entry.sentAt < heartbeatInterval) return;
+        if (entry.attempts >= reconnectAttempts) {
+          pendingAcks.delete(key);
+          return;
+        }
 
-      try {
-        // This will be implemented by specific connection handlers
-        // For now, just update the method
-        setConnectionState((prev) => ({ ...prev, method }));
+        send(entry.peerId, entry.message);
+        entry.sentAt = now;
+        entry.attempts++;
+      });
+    }, heartbeatInterval);
 
-        // Start heartbeat
-        startHeartbeat();
+    return () => {
+      clearInterval(heartbeat);
+      channel?.close();
+      transports.forEach((transport) => transport.destroy());
+      transportsRef.current = [];
+      pendingAcks.clear();
+      pendingHeartbeats.clear();
+      setSignaling(null);
+      setConnectionState((prev) => ({
+        ...prev,
+        status: "disconnected",
+        method: null,
+        connectedDevices: [],
+        lastSync: 0,
+      }));
+    };
+  }, [
+    enabled,
+    webrtc,
+    roomId,
+    role,
+    signalingUrl,
+    localDevice,
+    heartbeatInterval,
+    reconnectAttempts,
+  ]);
 
-        // Process any queued messages
-        processMessageQueue();
-      } catch (error) {
-        updateConnectionStatus("error", `Connection failed: ${error}`);
-      }
+  // Controller state goes to every connected display, acknowledged
+  const broadcast = useCallback(
+    <T extends keyof SyncMessageData>(type: T, data: SyncMessageData[T]) => {
+      const transports = transportsRef.current;
+      const message = createMessage(localDevice.id, type, data, true);
+
+      transports
+        .flatMap((transport) => transport.getConnectedPeers())
+        .forEach((peerId) =>
+          deliver(transports, pendingAcksRef.current, peerId, message)
+        );
     },
-    [
-      fullConfig.method,
-      updateConnectionStatus,
-      startHeartbeat,
-      processMessageQueue,
-    ]
+    [localDevice.id]
   );
 
-  // Stop connection
-  const stopConnection = useCallback(() => {
-    stopHeartbeat();
-
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-
-    if (connectionRef.current) {
-      try {
-        // Try to close connection regardless of method
-        if (typeof connectionRef.current.close === "function") {
-          connectionRef.current.close();
-        }
-      } catch (error) {
-        console.error("Error closing connection:", error);
-      }
-      connectionRef.current = null;
-    }
-
-    setConnectionState((prev) => ({
-      ...prev,
-      status: "disconnected",
-      method: null,
-      connectedDevices: [],
-      lastSync: 0,
-    }));
-  }, [stopHeartbeat]);
-
   // Sync message senders
   const sendTimerSync = useCallback(
-    (data: TimerSyncData) => {
-      sendMessage({
-        id: generateMessageId(),
-        type: "timer_state",
-        timestamp: Date.now(),
-        senderId: localDevice.id,
-        data,
-      });
-    },
-    [sendMessage, localDevice.id]
+    (data: TimerSyncData) => broadcast("timer_state", data),
+    [broadcast]
   );
 
   const sendMessageSync = useCallback(
-    (data: MessageSyncData) => {
-      sendMessage({
-        id: generateMessageId(),
-        type: "message_update",
-        timestamp: Date.now(),
-        senderId: localDevice.id,
-        data,
-      });
-    },
-    [sendMessage, localDevice.id]
+    (data: MessageSyncData) => broadcast("message_update", data),
+    [broadcast]
   );
 
   const sendSettingsSync = useCallback(
-    (data: SettingsSyncData) => {
-      sendMessage({
-        id: generateMessageId(),
-        type: "settings_update",
-        timestamp: Date.now(),
-        senderId: localDevice.id,
-        data,
-      });
-    },
-    [sendMessage, localDevice.id]
+    (data: SettingsSyncData) => broadcast("settings_update", data),
+    [broadcast]
   );
 
   const sendBlackoutToggle = useCallback(
-    (enabled: boolean) => {
-      sendMessage({
-        id: generateMessageId(),
-        type: "blackout_toggle",
-        timestamp: Date.now(),
-        senderId: localDevice.id,
-        data: { enabled },
-      });
-    },
-    [sendMessage, localDevice.id]
+    (enabled: boolean) => broadcast("blackout_toggle", { enabled }),
+    [broadcast]
   );
 
-  const sendFlashTrigger = useCallback(() => {
-    sendMessage({
-      id: generateMessageId(),
-      type: "flash_trigger",
-      timestamp: Date.now(),
-      senderId: localDevice.id,
-      data: {},
-    });
-  }, [sendMessage, localDevice.id]);
-
-  // Pairing code generation (placeholder)
-  const generatePairingCode = useCallback((): string => {
-    // This will be implemented with actual pairing logic
-    return "PAIR123";
-  }, []);
-
-  // Connect with pairing code (placeholder)
-  const connectWithPairingCode = useCallback(
-    async (code: string): Promise<void> => {
-      // This will be implemented with actual pairing logic
-      console.log("Connecting with code:", code);
-    },
-    []
+  const sendFlashTrigger = useCallback(
+    (enabled: boolean) => broadcast("flash_trigger", { enabled }),
+    [broadcast]
   );
 
   return {
     connectionState,
-    isController,
-    isDisplay,
-    isConnected,
+    signaling,
+    isController: role === "controller",
+    isDisplay: role === "display",
+    isConnected: connectionState.status === "connected",
     connectedDevices: connectionState.connectedDevices,
-    setDeviceRole,
-    startConnection,
-    stopConnection,
     sendTimerSync,
     sendMessageSync,
     sendSettingsSync,
     sendBlackoutToggle,
     sendFlashTrigger,
-    generatePairingCode,
-    connectWithPairingCode,
   };
 }
@@ -107,14 +107,15 @@ export function useTimer(
         pausedTimeRef.current = 0;
       } else if (prevTimer.status === 'paused') {
         // Resume from pause - adjust start time to account for pause duration
-        const pauseDuration = Date.now() - (prevTimer.pausedTime || Date.now());
+        const pauseDuration = Date.now() - (prevTimer.pausedAt || Date.now());
         pausedTimeRef.current += pauseDuration / 1000;
       }
 
       return {
         ...prevTimer,
         status: 'running',
-        startTime: startTimeRef.current || undefined,
+        startedAt: startTimeRef.current,
+        pausedAt: null,
       };
     });
 
@@ -134,7 +135,7 @@ export function useTimer(
     setTimerState((prevTimer) => ({
       ...prevTimer,
       status: 'paused',
-      pausedTime: Date.now(),
+      pausedAt: Date.now(),
     }));
 
     if (intervalRef.current) {
@@ -152,8 +153,9 @@ export function useTimer(
         ...prevTimer,
         status: 'idle',
         currentTime: resetTime,
-        startTime: undefined,
-        pausedTime: undefined,
+        startedAt: null,
+        pausedAt: null,
+        accumulatedPause: 0,
       };
     });
 
@@ -193,8 +195,9 @@ export function useTimer(
       status: 'idle',
       currentTime,
       initialTime: duration,
-      startTime: undefined,
-      pausedTime: undefined,
+      startedAt: null,
+      pausedAt: null,
+      accumulatedPause: 0,
       elapsedTime: 0,
     });
 
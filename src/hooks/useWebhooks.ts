@@ -0,0 +1,268 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type {
+  Timer,
+  TimerSettings,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookTarget,
+} from '../types';
+import { webhookService } from '../services/webhookService';
+import type { TimerEventDraft } from '../utils/eventLog';
+import {
+  getThresholdLevel,
+  resolveThresholds,
+  type ThresholdLevel,
+} from '../utils/thresholds';
+import {
+  formatRemaining,
+  getWebhookSummary,
+  renderWebhookTemplate,
+  type WebhookVariables,
+} from '../utils/webhooks';
+
+interface UseWebhooksOptions {
+  targets: WebhookTarget[];
+  roomId: string | null;
+  roomName?: string;
+  timers: Timer[];
+  timerSettings: TimerSettings; // Default thresholds
+  // Expire, threshold and overrun fire in every open controller at once, and
+  // so do automatic starts and pauses, so only one window per room sends them
+  sendsTimerAlerts: boolean;
+}
+
+interface UseWebhooksReturn {
+  deliveries: WebhookDelivery[]; // Newest first
+  // Timer callbacks for useMultipleTimers
+  onTimerEvent: (event: TimerEventDraft, automatic: boolean) => void;
+  onTimerTick: (timerId: string, currentTime: number) => void;
+  onTimerExpire: (timerId: string) => void;
+  notifyMessage: (text: string) => void;
+  notifyBlackout: (on: boolean) => void;
+  sendTest: (target: WebhookTarget) => void;
+  clearDeliveries: () => void;
+}
+
+const LEVEL_RANK: Record<ThresholdLevel, number> = {
+  normal: 0,
+  warning: 1,
+  critical: 2,
+  expired: 3,
+};
+
+// Fires the configured webhook targets on timer lifecycle events, thresholds,
+// messages and blackout
+export function useWebhooks({
+  targets,
+  roomId,
+  roomName,
+  timers,
+  timerSettings,
+  sendsTimerAlerts,
+}: UseWebhooksOptions): UseWebhooksReturn {
+  const [deliveries, setDeliveries] = useState(() =>
+    webhookService.getDeliveries()
+  );
+  const optionsRef = useRef({
+    targets,
+    roomId,
+    roomName,
+    timers,
+    timerSettings,
+    sendsTimerAlerts,
+  });
+  optionsRef.current = {
+    targets,
+    roomId,
+    roomName,
+    timers,
+    timerSettings,
+    sendsTimerAlerts,
+  };
+
+  // Stage and minutes over per running countdown, to fire on crossings only
+  const levelsRef = useRef<Map<string, ThresholdLevel>>(new Map());
+  const overrunsRef = useRef<Map<string, number>>(new Map());
+
+  useEffect(() => webhookService.subscribe(setDeliveries), []);
+
+  const deliver = useCallback(
+    (
+      event: WebhookEvent,
+      details: Partial<WebhookVariables>,
+      onlyTarget?: WebhookTarget
+    ) => {
+      const { targets, roomId, roomName } = optionsRef.current;
+      const recipients = onlyTarget
+        ? [onlyTarget]
+        : targets.filter((t) => t.enabled && t.url && t.events.includes(event));
+      if (recipients.length === 0) return;
+
+      const now = Date.now();
+      const base = {
+        event,
+        timerId: '',
+        timerName: '',
+        remaining: '',
+        remainingSeconds: 0,
+        duration: 0,
+        level: '',
+        overrunMinutes: 0,
+        message: '',
+        blackout: false,
+        roomId: roomId ?? '',
+        roomName: roomName ?? roomId ?? '',
+        time: new Date(now).toISOString(),
+        timestamp: now,
+        ...details,
+      };
+      const variables: WebhookVariables = {
+        ...base,
+        summary: details.summary ?? getWebhookSummary(base),
+      };
+
+      recipients.forEach((target) => {
+        let body: string;
+        try {
+          body = renderWebhookTemplate(target.template, variables);
+        } catch {
+          return; // The editor won't save an invalid template, but imports can
+        }
+        webhookService.send(target, event, variables.summary, body);
+      });
+    },
+    []
+  );
+
+  const getTimerDetails = useCallback(
+    (timerId: string): Partial<WebhookVariables> | null => {
+      const timer = optionsRef.current.timers.find((t) => t.id === timerId);
+      if (!timer) return null;
+
+      return {
+        timerId,
+        timerName: timer.name,
+        remaining: formatRemaining(timer.state.currentTime),
+        remainingSeconds: timer.state.currentTime,
+        duration: timer.state.initialTime,
+      };
+    },
+    []
+  );
+
+  const onTimerEvent = useCallback(
+    (event: TimerEventDraft, automatic: boolean) => {
+      // A fresh run starts its threshold tracking over
+      if (event.type === 'start' || event.type === 'reset') {
+        levelsRef.current.delete(event.timerId);
+        overrunsRef.current.delete(event.timerId);
+      }
+      if (
+        event.type !== 'start' &&
+        event.type !== 'resume' &&
+        event.type !== 'pause'
+      ) {
+        return;
+      }
+      // Manual actions only happen in the window that took them
+      if (automatic && !optionsRef.current.sendsTimerAlerts) return;
+
+      const details = getTimerDetails(event.timerId);
+      if (details) deliver(event.type === 'pause' ? 'pause' : 'start', details);
+    },
+    [deliver, getTimerDetails]
+  );
+
+  const onTimerTick = useCallback(
+    (timerId: string, currentTime: number) => {
+      const { timers, timerSettings, sendsTimerAlerts } = optionsRef.current;
+      const timer = timers.find((t) => t.id === timerId);
+      if (!timer || timer.state.type !== 'countdown') return;
+
+      // The first tick after a load only records where the timer is. Every
+      // window keeps track, so another can take over sending mid-countdown.
+      const level = getThresholdLevel(
+        timer.state,
+        resolveThresholds(timer, timerSettings)
+      );
+      const previousLevel = levelsRef.current.get(timerId);
+      levelsRef.current.set(timerId, level);
+      if (
+        sendsTimerAlerts &&
+        previousLevel !== undefined &&
+        (level === 'warning' || level === 'critical') &&
+        LEVEL_RANK[level] > LEVEL_RANK[previousLevel]
+      ) {
+        deliver('threshold', { ...getTimerDetails(timerId), level });
+      }
+
+      const minutesOver = currentTime < 0 ? Math.floor(-currentTime / 60) : 0;
+      const previousMinutes = overrunsRef.current.get(timerId);
+      overrunsRef.current.set(timerId, minutesOver);
+      if (
+        sendsTimerAlerts &&
+        previousMinutes !== undefined &&
+        minutesOver > previousMinutes &&
+        minutesOver > 0
+      ) {
+        deliver('overrun', {
+          ...getTimerDetails(timerId),
+          overrunMinutes: minutesOver,
+        });
+      }
+    },
+    [deliver, getTimerDetails]
+  );
+
+  const onTimerExpire = useCallback(
+    (timerId: string) => {
+      if (!optionsRef.current.sendsTimerAlerts) return;
+      const details = getTimerDetails(timerId);
+      if (details) deliver('expire', details);
+    },
+    [deliver, getTimerDetails]
+  );
+
+  const notifyMessage = useCallback(
+    (text: string) => deliver('message', { message: text }),
+    [deliver]
+  );
+
+  const notifyBlackout = useCallback(
+    (on: boolean) => deliver('blackout', { blackout: on }),
+    [deliver]
+  );
+
+  const sendTest = useCallback(
+    (target: WebhookTarget) => {
+      const { roomName, roomId } = optionsRef.current;
+      deliver(
+        target.events[0] ?? 'start',
+        {
+          timerName: 'Test timer',
+          remaining: '5:00',
+          remainingSeconds: 300,
+          duration: 300,
+          summary: `Test from ${roomName ?? roomId ?? 'the stage timer'}`,
+        },
+        target
+      );
+    },
+    [deliver]
+  );
+
+  const clearDeliveries = useCallback(() => {
+    webhookService.clearDeliveries();
+  }, []);
+
+  return {
+    deliveries,
+    onTimerEvent,
+    onTimerTick,
+    onTimerExpire,
+    notifyMessage,
+    notifyBlackout,
+    sendTest,
+    clearDeliveries,
+  };
+}
@@ -1,6 +1,19 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { AppSettings, MessagePreset, TimerType, Timer } from '../types';
+import type {
+  AppSettings,
+  Message,
+  MessagePreset,
+  Show,
+  TimerType,
+  TimerCollection,
+  WebhookTarget,
+} from '../types';
+import {
+  DEFAULT_BRIDGE_SETTINGS,
+  type ControlCommand,
+  type ControlState,
+} from '../types/control';
 import {
   DEFAULT_TIMER_PRESETS,
   DEFAULT_MESSAGE_PRESETS,
@@ -10,23 +23,107 @@ import { useMultipleTimers } from '../hooks/useMultipleTimers';
 import { useMessages } from '../hooks/useMessages';
 import { useLocalStorage } from '../hooks/useLocalStorage';
 import { useSimpleFirebaseSync } from '../hooks/useSimpleFirebaseSync';
+import { serverClock } from '../services/serverClock';
+import type {
+  QueuedField,
+  RoomConflict,
+  SharedField,
+  SharedTimerData,
+} from '../services/simpleFirebase';
+import { useRoomId } from '../hooks/useRoomId';
+import { useScheduler } from '../hooks/useScheduler';
+import { useHistory } from '../hooks/useHistory';
+import { useShows } from '../hooks/useShows';
+import { useEventLog } from '../hooks/useEventLog';
+import { useBridge } from '../hooks/useBridge';
+import { useWebhooks } from '../hooks/useWebhooks';
+import { useAccount } from '../hooks/useAccount';
+import { useRoomMembers } from '../hooks/useRoomMembers';
+import { useDisplayDevices } from '../hooks/useDisplayDevices';
+import { useSyncManager } from '../hooks/useSyncManager';
+import { usePresence } from '../hooks/usePresence';
+import { saveRecentRoom } from '../utils/storage';
+import { createShow, toShowTimers } from '../utils/show';
+import type { TimerEventDraft } from '../utils/eventLog';
+import { resolveThresholds } from '../utils/thresholds';
+import {
+  applyTimerChanges,
+  diffTimerCollections,
+  hasTimerChanges,
+  mergeRemoteTimers,
+  type TimerChanges,
+} from '../utils/timerSync';
+import {
+  applyRunOfShow,
+  type RunOfShowImportMode,
+  type RunOfShowRow,
+} from '../utils/runOfShow';
+import {
+  applyAppImport,
+  type AppExportContent,
+  type ImportMode,
+} from '../utils/appExport';
 import {
   useTimerKeyboard,
   useFullscreenKeyboard,
   useMessageKeyboard,
   useAppKeyboard,
+  useHistoryKeyboard,
 } from '../hooks/useKeyboard';
 import { ControlView } from '../components/ControlView';
+import { RoomPicker } from '../components/RoomPicker';
+import { ShowsModal } from '../components/ShowsModal';
+import { ImportExportModal } from '../components/ImportExportModal';
+import { EventReportModal } from '../components/EventReportModal';
+import { BridgeModal } from '../components/BridgeModal';
+import { WebhooksModal } from '../components/WebhooksModal';
+import { AccountModal } from '../components/AccountModal';
+import { RoomMembersModal } from '../components/RoomMembersModal';
+import { DisplaysModal } from '../components/DisplaysModal';
+
+// Everything an undo can put back - all of it is synced to displays
+interface ControllerSnapshot {
+  timers: TimerCollection;
+  currentMessage: Message | null;
+  blackoutMode: boolean;
+}
 
 export function ControllerRoute() {
   const navigate = useNavigate();
+  const [roomId, setRoomId] = useRoomId();
+  const [showRoomPicker, setShowRoomPicker] = useState(false);
+  const [showShowsModal, setShowShowsModal] = useState(false);
+  const [showImportExport, setShowImportExport] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showBridge, setShowBridge] = useState(false);
+  const [showWebhooks, setShowWebhooks] = useState(false);
+  const [showAccount, setShowAccount] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
+  const [showDisplays, setShowDisplays] = useState(false);
+
+  // Controllers work from an account; displays stay anonymous
+  const {
+    account,
+    isReady: isAccountReady,
+    hasAccount,
+    signIn,
+    signUp,
+    sendVerification,
+    refresh: refreshAccount,
+    resetPassword,
+    signOut,
+  } = useAccount();
+  const [currentShow, setCurrentShow] = useState<Pick<
+    Show,
+    'id' | 'name'
+  > | null>(null);
 
   // Local storage
-  const [timerPresets] = useLocalStorage(
+  const [timerPresets, setTimerPresets] = useLocalStorage(
     'church-timer-presets',
     DEFAULT_TIMER_PRESETS
   );
-  const [messagePresets] = useLocalStorage(
+  const [messagePresets, setMessagePresets] = useLocalStorage(
     'church-timer-message-presets',
     DEFAULT_MESSAGE_PRESETS
   );
@@ -34,6 +131,14 @@ export function ControllerRoute() {
     'church-timer-settings',
     DEFAULT_SETTINGS
   );
+  const [bridgeSettings, setBridgeSettings] = useLocalStorage(
+    'church-timer-bridge',
+    DEFAULT_BRIDGE_SETTINGS
+  );
+  const [webhookTargets, setWebhookTargets] = useLocalStorage<WebhookTarget[]>(
+    'church-timer-webhooks',
+    []
+  );
 
   // App state
   const [, setIsFullscreen] = useState(false);
@@ -41,37 +146,95 @@ export function ControllerRoute() {
   const [flashMode, setFlashMode] = useState(false);
   const [loadingTimers, setLoadingTimers] = useState<Set<string>>(new Set());
   const initializationRef = useRef(false);
-
-  // Simple Firebase sync - no sessions needed!
+  const lastSyncedCollectionRef = useRef<TimerCollection | null>(null);
+  const lastSyncedMessageRef = useRef<Message | null | undefined>(undefined);
+  // When each room field last changed, as of the last snapshot applied
+  const seenFieldTimesRef = useRef<Partial<Record<QueuedField, number>>>({});
+  // Changes from other operators - set once the state setters below exist
+  const roomChangesRef = useRef<{
+    onData: (data: SharedTimerData) => void;
+    onConflict: (conflict: RoomConflict) => void;
+  } | null>(null);
+
+  // Firebase sync scoped to the room in the URL
   const {
     connectionStatus,
     isConnected,
+    isOnline,
+    pendingWrites,
+    hasPendingWrite,
+    roomInfo,
+    roomNotFound,
+    roomRole,
+    roomKeys,
+    accessError,
+    createRoom,
+    getRoomInfo,
     fetchExistingData,
     initializeData,
-    updateTimers,
+    updateTimerChanges,
     updateCurrentMessage,
     updateMessageQueue,
     updateSettings: updateFirebaseSettings,
     updateBlackoutMode,
     updateFlashMode,
   } = useSimpleFirebaseSync({
+    roomId,
     isController: true,
-    onDataChange: (data) => {
-      // Controller doesn't need to react to its own updates
-    },
+    onDataChange: (data) => roomChangesRef.current?.onData(data),
     onConnectionStatusChange: (status) => {
       console.log('Firebase connection status:', status);
     },
+    onConflict: (conflict) => roomChangesRef.current?.onConflict(conflict),
     onError: (error) => {
       console.error('Firebase sync error:', error);
     },
   });
 
+  // Everyone in the room follows it; only owners and operators write to it
+  const canControl = roomRole === 'owner' || roomRole === 'operator';
+  const writesRoom = isConnected && canControl;
+  // Without a room the controller only drives this device
+  const readOnly = !!roomId && !canControl;
+
+  // Per-timer event log for the post-event timing report
+  const {
+    logs: eventLogs,
+    operatorName,
+    setOperatorName,
+    recordEvent,
+    startNewLog,
+    deleteLog,
+  } = useEventLog(roomId, currentShow?.name);
+
+  // Webhooks need the resolved timers, so they're set up after
+  // useMultipleTimers and its callbacks reach them through a ref
+  const webhooksRef = useRef<ReturnType<typeof useWebhooks> | null>(null);
+  const handleTimerExpire = useCallback((timerId: string) => {
+    webhooksRef.current?.onTimerExpire(timerId);
+  }, []);
+  const handleTimerTick = useCallback(
+    (timerId: string, currentTime: number) => {
+      webhooksRef.current?.onTimerTick(timerId, currentTime);
+    },
+    []
+  );
+  const handleTimerEvent = useCallback(
+    (event: TimerEventDraft, automatic: boolean) => {
+      if (readOnly) return;
+      recordEvent(event, automatic);
+      webhooksRef.current?.onTimerEvent(event, automatic);
+    },
+    [readOnly, recordEvent]
+  );
+
   // Multiple timer functionality
   const {
-    timers: timerCollection,
+    timers,
+    timerCollection,
     activeTimer,
     activeTimerId,
+    pendingConfirmTimer,
     initializeTimerCollection,
     addTimer,
     deleteTimer,
@@ -88,10 +251,7 @@ export function ControllerRoute() {
     isTimerRunning,
     isTimerPaused,
     isTimerExpired,
-  } = useMultipleTimers();
-
-  // Extract timers array for component props
-  const timers = timerCollection;
+  } = useMultipleTimers(handleTimerExpire, handleTimerTick, handleTimerEvent);
 
   // Message functionality
   const {
@@ -101,16 +261,141 @@ export function ControllerRoute() {
     showPresetMessage,
     hideMessage,
     clearAllMessages,
+    restoreMessage,
+    restoreQueue,
   } = useMessages();
 
-  // Initialize Firebase data when connected (only once)
+  // Undo/redo history of controller actions
+  const {
+    record: recordHistory,
+    undo: undoHistory,
+    redo: redoHistory,
+    clear: clearHistory,
+    undoLabel,
+    redoLabel,
+  } = useHistory<ControllerSnapshot>();
+
+  // Latest state, read when an action is recorded or undone
+  const snapshotRef = useRef<ControllerSnapshot>({
+    timers: timerCollection,
+    currentMessage,
+    blackoutMode,
+  });
+  snapshotRef.current = {
+    timers: timerCollection,
+    currentMessage,
+    blackoutMode,
+  };
+
+  // Saved shows - refreshed from the cloud whenever the list is opened
+  const {
+    shows: savedShows,
+    isLoading: isLoadingShows,
+    error: showsError,
+    refresh: refreshShows,
+    saveShow,
+    renameShow,
+    duplicateShow,
+    deleteShow,
+  } = useShows(showShowsModal);
+
+  // Members and invitations, loaded while the people modal is open
+  const roomMembers = useRoomMembers(roomId, roomRole === 'owner', showMembers);
+
+  // Displays reporting into the room - the header shows how many are online
+  const displayDevices = useDisplayDevices(roomId, !!roomRole);
+
+  // Other operators in the room, and the timer this one is on for them to see
+  const [focusedTimerId, setFocusedTimerId] = useState<string | null>(null);
+  const [editingTimerId, setEditingTimerId] = useState<string | null>(null);
+  const { operators, isLead } = usePresence({
+    roomId,
+    enabled: canControl,
+    name: account?.name ?? 'Operator',
+    selectedTimerId: focusedTimerId ?? activeTimerId,
+    editingTimerId,
+  });
+
+  // Wall-clock scheduler - starts or arms timers when their start time
+  // arrives. Every controller in the room would, so only the lead one does.
+  const scheduler = useScheduler({
+    roomId,
+    timers: timerCollection.timers,
+    enabled: roomId ? canControl && isLead : true,
+    onStart: startTimer,
+    onArm: selectTimer,
+  });
+
+  // Outgoing webhooks on timer events, messages and blackout
+  const webhooks = useWebhooks({
+    targets: webhookTargets,
+    roomId,
+    roomName: roomInfo?.name,
+    timers,
+    timerSettings: settings.timer,
+    sendsTimerAlerts: roomId ? isLead : true,
+  });
+  webhooksRef.current = webhooks;
+
+  // Displays signal through the bridge when asked to, Firestore otherwise
+  const signalingUrl =
+    bridgeSettings.enabled && bridgeSettings.signalDisplays
+      ? bridgeSettings.token
+        ? `${bridgeSettings.url}?token=${encodeURIComponent(bridgeSettings.token)}`
+        : bridgeSettings.url
+      : null;
+
+  // Peer-to-peer links to displays. They keep updating over the LAN if the
+  // internet drops; Firebase covers any display without a link.
+  const {
+    sendTimerSync,
+    sendMessageSync,
+    sendSettingsSync,
+    sendBlackoutToggle,
+    sendFlashTrigger,
+  } = useSyncManager({
+    roomId,
+    role: 'controller',
+    enabled: canControl,
+    signalingUrl,
+    getSnapshot: () =>
+      initializationRef.current
+        ? {
+            timers: {
+              timers: timerCollection.timers,
+              activeTimerId: timerCollection.activeTimerId,
+            },
+            message: { currentMessage, messageQueue },
+            settings: { settings },
+            blackout: blackoutMode,
+            flash: flashMode,
+          }
+        : null,
+  });
+
+  // Re-run initialization whenever the controller switches rooms
+  useEffect(() => {
+    initializationRef.current = false;
+    clearHistory();
+    setCurrentShow(null);
+  }, [roomId, clearHistory]);
+
+  // Remember rooms this controller has opened
   useEffect(() => {
-    if (isConnected && !initializationRef.current) {
+    if (roomInfo) {
+      saveRecentRoom({ id: roomInfo.id, name: roomInfo.name });
+    }
+  }, [roomInfo]);
+
+  // Initialize Firebase data when connected (once per room)
+  useEffect(() => {
+    if (isConnected && roomId && roomRole && !initializationRef.current) {
       const initData = async () => {
         try {
           // First, try to fetch existing data from Firebase
           console.log('🔍 Checking for existing data in Firebase...');
           const existingData = await fetchExistingData();
+          seenFieldTimesRef.current = { ...existingData?.fieldTimes };
 
           if (existingData) {
             // Use existing data from Firebase
@@ -119,10 +404,12 @@ export function ControllerRoute() {
             // Update local state with Firebase data
             if (existingData.timers) {
               // Update timer collection with existing data
-              initializeTimerCollection({
+              const existingCollection = {
                 timers: existingData.timers.timers || [],
                 activeTimerId: existingData.timers.activeTimerId || null,
-              });
+              };
+              lastSyncedCollectionRef.current = existingCollection;
+              initializeTimerCollection(existingCollection);
             }
 
             if (existingData.settings) {
@@ -138,17 +425,15 @@ export function ControllerRoute() {
             }
 
             console.log('✅ Existing data loaded successfully');
-          } else {
-            // No existing data, initialize with defaults
+          } else if (canControl) {
+            // No existing data, initialize with defaults. Viewers wait for
+            // an operator to start the room instead.
             console.log(
               '📝 No existing data found, initializing with defaults'
             );
-            const timerCollectionData = {
-              timers: timerCollection,
-              activeTimerId,
-            };
+            lastSyncedCollectionRef.current = timerCollection;
             await initializeData({
-              timers: timerCollectionData,
+              timers: { ...timerCollection, lastUpdated: serverClock.now() },
               currentMessage,
               messageQueue,
               settings,
@@ -158,6 +443,8 @@ export function ControllerRoute() {
             console.log('✅ Firebase data initialized with defaults');
           }
 
+          // Only messages shown from here on are written to the room
+          lastSyncedMessageRef.current = currentMessage;
           initializationRef.current = true;
         } catch (error) {
           console.error('❌ Failed to initialize Firebase data:', error);
@@ -168,12 +455,14 @@ export function ControllerRoute() {
     }
   }, [
     isConnected,
+    roomId,
+    roomRole,
+    canControl,
     fetchExistingData,
     initializeTimerCollection,
     updateSettings,
     initializeData,
     timerCollection,
-    activeTimerId,
     currentMessage,
     messageQueue,
     settings,
@@ -181,25 +470,61 @@ export function ControllerRoute() {
     flashMode,
   ]);
 
-  // Track timer statuses to only sync when status changes (not on every tick)
-  const prevTimerStatusesRef = useRef<Map<string, string>>(new Map());
+  // Write the timers that changed whenever the collection does, so other
+  // operators' timers are left alone. Timers don't tick in the stored
+  // collection, so this only fires on real state changes.
+  useEffect(() => {
+    if (!writesRoom || !initializationRef.current) return;
+    if (lastSyncedCollectionRef.current === timerCollection) return;
 
-  // Simple manual sync function (no automatic loops)
-  const syncTimersToFirebase = useCallback(async () => {
-    if (isConnected && initializationRef.current) {
-      const timerCollectionData = {
-        timers: timerCollection,
-        activeTimerId,
-        lastUpdated: Date.now(), // Add timestamp for sync tracking
-      };
+    const changes = diffTimerCollections(
+      lastSyncedCollectionRef.current,
+      timerCollection
+    );
+    lastSyncedCollectionRef.current = timerCollection;
+    if (!hasTimerChanges(changes)) return;
 
-      // Syncing timer collection to Firebase
+    // Changes are queued, so this only fails with no room or user to write as
+    updateTimerChanges(changes).catch(() => {});
+  }, [writesRoom, timerCollection, updateTimerChanges]);
 
-      await updateTimers(timerCollectionData);
-    }
-  }, [isConnected, timerCollection, activeTimerId, updateTimers]);
+  // Write the current message whenever it is shown, hidden or restored
+  useEffect(() => {
+    if (!writesRoom || !initializationRef.current) return;
+    if (lastSyncedMessageRef.current === currentMessage) return;
 
-  // Remove auto-sync to prevent infinite loop
+    lastSyncedMessageRef.current = currentMessage;
+    updateCurrentMessage(currentMessage).catch(() => {});
+  }, [writesRoom, currentMessage, updateCurrentMessage]);
+
+  // Displays connected peer-to-peer get each change straight away
+  useEffect(() => {
+    if (!initializationRef.current) return;
+    sendTimerSync({
+      timers: timerCollection.timers,
+      activeTimerId: timerCollection.activeTimerId,
+    });
+  }, [timerCollection, sendTimerSync]);
+
+  useEffect(() => {
+    if (!initializationRef.current) return;
+    sendMessageSync({ currentMessage, messageQueue });
+  }, [currentMessage, messageQueue, sendMessageSync]);
+
+  useEffect(() => {
+    if (!initializationRef.current) return;
+    sendSettingsSync({ settings });
+  }, [settings, sendSettingsSync]);
+
+  useEffect(() => {
+    if (!initializationRef.current) return;
+    sendBlackoutToggle(blackoutMode);
+  }, [blackoutMode, sendBlackoutToggle]);
+
+  useEffect(() => {
+    if (!initializationRef.current) return;
+    sendFlashTrigger(flashMode);
+  }, [flashMode, sendFlashTrigger]);
 
   // Loading state helpers
   const setTimerLoading = useCallback((timerId: string, loading: boolean) => {
@@ -234,12 +559,120 @@ export function ControllerRoute() {
 
       // Sync to Firebase after a short delay
       setTimeout(() => {
-        if (isConnected && initializationRef.current) {
+        if (writesRoom && initializationRef.current) {
           updateFirebaseSettings(newSettings);
         }
       }, 100);
     },
-    [settings, updateSettings, isConnected, updateFirebaseSettings]
+    [settings, updateSettings, writesRoom, updateFirebaseSettings]
+  );
+
+  // Show handlers
+  const handleSaveShowAs = useCallback(
+    async (name: string) => {
+      const show = createShow(name, {
+        timers: timerCollection,
+        messagePresets,
+        settings,
+      });
+      await saveShow(show);
+      setCurrentShow({ id: show.id, name: show.name });
+    },
+    [timerCollection, messagePresets, settings, saveShow]
+  );
+
+  // Save over the current show, or ask for a name if there isn't one yet
+  const handleSaveShow = useCallback(async () => {
+    const existing =
+      currentShow && savedShows.find((s) => s.id === currentShow.id);
+    if (!existing) {
+      setShowShowsModal(true);
+      return;
+    }
+
+    const updated = createShow(existing.name, {
+      timers: timerCollection,
+      messagePresets,
+      settings,
+    });
+    await saveShow({
+      ...updated,
+      id: existing.id,
+      createdAt: existing.createdAt,
+    });
+  }, [
+    currentShow,
+    savedShows,
+    saveShow,
+    timerCollection,
+    messagePresets,
+    settings,
+  ]);
+
+  const handleLoadShow = useCallback(
+    (show: Show) => {
+      initializeTimerCollection(toShowTimers(show.timers));
+      setMessagePresets(show.messagePresets);
+      handleUpdateSettings(show.settings);
+
+      // Earlier actions belong to the previous show
+      clearHistory();
+      setCurrentShow({ id: show.id, name: show.name });
+      setShowShowsModal(false);
+    },
+    [
+      initializeTimerCollection,
+      setMessagePresets,
+      handleUpdateSettings,
+      clearHistory,
+    ]
+  );
+
+  const handleRenameShow = useCallback(
+    async (showId: string, name: string) => {
+      await renameShow(showId, name);
+      setCurrentShow((prev) =>
+        prev?.id === showId ? { ...prev, name: name.trim() || prev.name } : prev
+      );
+    },
+    [renameShow]
+  );
+
+  const handleDeleteShow = useCallback(
+    async (showId: string) => {
+      await deleteShow(showId);
+      setCurrentShow((prev) => (prev?.id === showId ? null : prev));
+    },
+    [deleteShow]
+  );
+
+  // Import a backup file - merge keeps the current settings
+  const handleImport = useCallback(
+    (incoming: AppExportContent, mode: ImportMode) => {
+      const result = applyAppImport(
+        { timers: timerCollection, timerPresets, messagePresets, settings },
+        incoming,
+        mode
+      );
+
+      initializeTimerCollection(result.timers);
+      setTimerPresets(result.timerPresets);
+      setMessagePresets(result.messagePresets);
+      if (mode === 'replace') {
+        handleUpdateSettings(result.settings);
+        setCurrentShow(null);
+      }
+    },
+    [
+      timerCollection,
+      timerPresets,
+      messagePresets,
+      settings,
+      initializeTimerCollection,
+      setTimerPresets,
+      setMessagePresets,
+      handleUpdateSettings,
+    ]
   );
 
   // Fullscreen functionality
@@ -266,22 +699,27 @@ export function ControllerRoute() {
   // Blackout and Flash functionality with Firebase sync
   const toggleBlackout = useCallback(() => {
     const newBlackoutMode = !blackoutMode;
+    recordHistory(
+      newBlackoutMode ? 'Blackout on' : 'Blackout off',
+      snapshotRef.current
+    );
     setBlackoutMode(newBlackoutMode);
+    webhooksRef.current?.notifyBlackout(newBlackoutMode);
 
     // Sync to Firebase
     setTimeout(() => {
-      if (isConnected && initializationRef.current) {
+      if (writesRoom && initializationRef.current) {
         updateBlackoutMode(newBlackoutMode);
       }
     }, 100);
-  }, [blackoutMode, isConnected, updateBlackoutMode]);
+  }, [blackoutMode, writesRoom, updateBlackoutMode, recordHistory]);
 
   const toggleFlash = useCallback(() => {
     setFlashMode((prev) => {
       if (!prev) {
         // Sync flash trigger to Firebase
         setTimeout(() => {
-          if (isConnected && initializationRef.current) {
+          if (writesRoom && initializationRef.current) {
             updateFlashMode(true);
           }
         }, 100);
@@ -289,28 +727,43 @@ export function ControllerRoute() {
         // Flash for 3 seconds then turn off
         setTimeout(() => {
           setFlashMode(false);
-          if (isConnected && initializationRef.current) {
+          if (writesRoom && initializationRef.current) {
             updateFlashMode(false);
           }
         }, 3000);
       }
       return !prev;
     });
-  }, [isConnected, updateFlashMode]);
+  }, [writesRoom, updateFlashMode]);
+
+  // Room handlers
+  const handleCreateRoom = useCallback(
+    async (name: string) => {
+      const newRoomId = await createRoom(name);
+      setRoomId(newRoomId);
+      setShowRoomPicker(false);
+    },
+    [createRoom, setRoomId]
+  );
+
+  const handleJoinRoom = useCallback(
+    async (targetRoomId: string) => {
+      const info = await getRoomInfo(targetRoomId);
+      if (!info) {
+        throw new Error(`Room ${targetRoomId} does not exist`);
+      }
+      setRoomId(targetRoomId);
+      setShowRoomPicker(false);
+    },
+    [getRoomInfo, setRoomId]
+  );
 
   // Navigation
   const switchToDisplay = useCallback(() => {
-    navigate('/');
-  }, [navigate]);
+    navigate(roomId ? `/?room=${roomId}` : '/');
+  }, [navigate, roomId]);
 
   // Keyboard shortcuts
-  useTimerKeyboard(
-    () => activeTimerId && startTimer(activeTimerId),
-    () => activeTimerId && pauseTimer(activeTimerId),
-    () => activeTimerId && resetTimer(activeTimerId),
-    () => activeTimerId && pauseTimer(activeTimerId),
-    true
-  );
   useFullscreenKeyboard(toggleFullscreen, true);
   useMessageKeyboard(
     () => hideMessage(),
@@ -321,406 +774,419 @@ export function ControllerRoute() {
     },
     true
   );
-  useAppKeyboard(() => navigate('/'), toggleTheme, true);
+  useAppKeyboard(switchToDisplay, toggleTheme, true);
 
   // Message handlers
   const handleMessagePresetSelect = useCallback(
     (preset: MessagePreset) => {
+      recordHistory('Show message', snapshotRef.current);
       showPresetMessage(preset);
+      webhooksRef.current?.notifyMessage(preset.text);
       // Message sync will happen via separate useEffect for messages
     },
-    [showPresetMessage]
+    [showPresetMessage, recordHistory]
   );
 
   const handleShowMessage = useCallback(
     (text: string, autoHide?: boolean, hideAfter?: number) => {
       const message = { text, autoHide, hideAfter };
+      recordHistory('Show message', snapshotRef.current);
       showMessage(text, message);
+      webhooksRef.current?.notifyMessage(text);
       // Message sync will happen via separate useEffect for messages
     },
-    [showMessage]
-  );
-
-  // Custom sync function for add operations
-  const syncTimersWithAdd = useCallback(
-    async (
-      name: string,
-      duration: number,
-      type: TimerType,
-      startTime?: string
-    ) => {
-      if (isConnected && initializationRef.current) {
-        // Generate a new timer ID
-        const newTimerId = `timer-${Date.now()}`;
-        const currentTime = type === 'countdown' ? duration : 0;
-
-        const newTimer = {
-          id: newTimerId,
-          name,
-          state: {
-            type,
-            status: 'idle' as const,
-            currentTime,
-            initialTime: duration,
-            elapsedTime: 0,
-          },
-          order: timerCollection.length + 1,
-          startTime,
-        };
+    [showMessage, recordHistory]
+  );
 
-        const updatedTimers = [...timerCollection, newTimer];
+  const handleClearMessage = useCallback(() => {
+    if (!snapshotRef.current.currentMessage) return;
+    recordHistory('Hide message', snapshotRef.current);
+    hideMessage();
+  }, [hideMessage, recordHistory]);
 
-        const timerCollectionData = {
-          timers: updatedTimers,
-          activeTimerId: activeTimerId || newTimerId, // Set as active if no active timer
-          lastUpdated: Date.now(),
-        };
+  const handleClearAllMessages = useCallback(() => {
+    recordHistory('Clear messages', snapshotRef.current);
+    clearAllMessages();
+  }, [clearAllMessages, recordHistory]);
 
-        await updateTimers(timerCollectionData);
-      }
-    },
-    [isConnected, timerCollection, activeTimerId, updateTimers]
-  );
-
-  // Timer handlers with Firebase sync
+  // Timer handlers - Firebase sync happens via the timeline effect above
   const handleAddTimer = useCallback(
-    async (
-      name: string,
-      duration: number,
-      type: TimerType,
-      startTime?: string
-    ) => {
+    (name: string, duration: number, type: TimerType, startTime?: string) => {
       addTimer(name, duration, type, startTime);
-      // Sync immediately with the expected new timer
-      await syncTimersWithAdd(name, duration, type, startTime);
-    },
-    [addTimer, syncTimersWithAdd]
-  );
-
-  // Create a custom sync function that takes the expected status and handles multiple timers
-  const syncTimersWithStatus = useCallback(
-    async (timerId: string, expectedStatus: 'running' | 'paused') => {
-      if (isConnected && initializationRef.current) {
-        // Create a copy of the timer collection with the correct status
-        // If starting a timer, pause all other running timers
-        const updatedTimers = timerCollection.map((t) => {
-          if (t.id === timerId) {
-            return { ...t, state: { ...t.state, status: expectedStatus } };
-          } else if (
-            expectedStatus === 'running' &&
-            t.state.status === 'running'
-          ) {
-            // Pause other running timers when starting a new one
-            return {
-              ...t,
-              state: {
-                ...t.state,
-                status: 'paused' as const,
-                pausedTime: Date.now(),
-              },
-            };
-          }
-          return t;
-        });
-
-        const timerCollectionData = {
-          timers: updatedTimers,
-          activeTimerId: expectedStatus === 'running' ? timerId : activeTimerId, // Update activeTimerId when starting a timer
-          lastUpdated: Date.now(), // Add timestamp for sync tracking
-        };
-
-        // Syncing to Firebase with the correct expected status
-        await updateTimers(timerCollectionData);
-      }
     },
-    [isConnected, timerCollection, activeTimerId, updateTimers]
+    [addTimer]
   );
 
-  const handleStartTimer = useCallback(
-    async (timerId: string) => {
+  // Briefly show a loading state on the timer that was acted on
+  const withTimerLoading = useCallback(
+    (timerId: string, action: () => void) => {
       setTimerLoading(timerId, true);
       try {
-        startTimer(timerId);
-        // Sync immediately with the expected status
-        await syncTimersWithStatus(timerId, 'running');
+        action();
       } finally {
         setTimeout(() => setTimerLoading(timerId, false), 300);
       }
     },
-    [startTimer, setTimerLoading, syncTimersWithStatus]
+    [setTimerLoading]
   );
 
-  const handlePauseTimer = useCallback(
-    async (timerId: string) => {
-      setTimerLoading(timerId, true);
-      try {
-        pauseTimer(timerId);
-        // Sync immediately with the expected status
-        await syncTimersWithStatus(timerId, 'paused');
-      } finally {
-        setTimeout(() => setTimerLoading(timerId, false), 300);
-      }
+  // Record the state before a timer action, labelled with the timer's name
+  const recordTimerAction = useCallback(
+    (action: string, timerId: string) => {
+      const timer = snapshotRef.current.timers.timers.find(
+        (t) => t.id === timerId
+      );
+      recordHistory(`${action} ${timer?.name ?? 'timer'}`, snapshotRef.current);
     },
-    [pauseTimer, setTimerLoading, syncTimersWithStatus]
-  );
-
-  // Custom sync function for reset operations
-  const syncTimersWithReset = useCallback(
-    async (timerId: string) => {
-      if (isConnected && initializationRef.current) {
-        const updatedTimers = timerCollection.map((t) => {
-          if (t.id === timerId) {
-            const currentTime =
-              t.state.type === 'countdown' ? t.state.initialTime : 0;
-            return {
-              ...t,
-              state: {
-                ...t.state,
-                status: 'idle' as const,
-                currentTime,
-                elapsedTime: 0,
-                startTime: undefined,
-                pausedTime: undefined,
-              },
-            };
-          }
-          return t;
-        });
-
-        const timerCollectionData = {
-          timers: updatedTimers,
-          activeTimerId,
-          lastUpdated: Date.now(),
-        };
+    [recordHistory]
+  );
 
-        await updateTimers(timerCollectionData);
-      }
+  const handleStartTimer = useCallback(
+    (timerId: string) => {
+      recordTimerAction('Start', timerId);
+      withTimerLoading(timerId, () => startTimer(timerId));
     },
-    [isConnected, timerCollection, activeTimerId, updateTimers]
+    [startTimer, withTimerLoading, recordTimerAction]
   );
 
-  const handleResetTimer = useCallback(
-    async (timerId: string) => {
-      setTimerLoading(timerId, true);
-      try {
-        resetTimer(timerId);
-        // Sync immediately with the expected reset state
-        await syncTimersWithReset(timerId);
-      } finally {
-        setTimeout(() => setTimerLoading(timerId, false), 300);
-      }
+  const handlePauseTimer = useCallback(
+    (timerId: string) => {
+      recordTimerAction('Pause', timerId);
+      withTimerLoading(timerId, () => pauseTimer(timerId));
     },
-    [resetTimer, setTimerLoading, syncTimersWithReset]
+    [pauseTimer, withTimerLoading, recordTimerAction]
   );
 
-  // Custom sync function for delete operations
-  const syncTimersWithDelete = useCallback(
-    async (timerId: string) => {
-      if (isConnected && initializationRef.current) {
-        const updatedTimers = timerCollection.filter((t) => t.id !== timerId);
-
-        // If we're deleting the active timer, select the first remaining timer
-        let newActiveTimerId = activeTimerId;
-        if (activeTimerId === timerId && updatedTimers.length > 0) {
-          newActiveTimerId = updatedTimers[0].id;
-        } else if (updatedTimers.length === 0) {
-          newActiveTimerId = null;
-        }
-
-        const timerCollectionData = {
-          timers: updatedTimers,
-          activeTimerId: newActiveTimerId,
-          lastUpdated: Date.now(),
-        };
-
-        await updateTimers(timerCollectionData);
-      }
+  const handleResetTimer = useCallback(
+    (timerId: string) => {
+      recordTimerAction('Reset', timerId);
+      withTimerLoading(timerId, () => resetTimer(timerId));
     },
-    [isConnected, timerCollection, activeTimerId, updateTimers]
+    [resetTimer, withTimerLoading, recordTimerAction]
   );
 
   const handleDeleteTimer = useCallback(
-    async (timerId: string) => {
+    (timerId: string) => {
+      recordTimerAction('Delete', timerId);
       deleteTimer(timerId);
-      // Sync immediately with the expected deletion
-      await syncTimersWithDelete(timerId);
     },
-    [deleteTimer, syncTimersWithDelete]
+    [deleteTimer, recordTimerAction]
   );
 
-  // Custom sync function for timer updates (name, startTime, etc.)
-  const syncTimersWithUpdates = useCallback(
-    async (timerId: string, updates: Partial<Timer>) => {
-      if (isConnected && initializationRef.current) {
-        const updatedTimers = timerCollection.map((t) => {
-          if (t.id === timerId) {
-            return { ...t, ...updates };
-          }
-          return t;
-        });
-
-        const timerCollectionData = {
-          timers: updatedTimers,
-          activeTimerId,
-          lastUpdated: Date.now(),
-        };
-
-        await updateTimers(timerCollectionData);
-      }
+  const handleAdjustTime = useCallback(
+    (timerId: string, seconds: number) => {
+      recordTimerAction('Adjust', timerId);
+      adjustTime(timerId, seconds);
     },
-    [isConnected, timerCollection, activeTimerId, updateTimers]
+    [adjustTime, recordTimerAction]
   );
 
-  const handleUpdateTimer = useCallback(
-    async (timerId: string, updates: Partial<Timer>) => {
-      updateTimer(timerId, updates);
-      // Sync immediately with the expected updates
-      await syncTimersWithUpdates(timerId, updates);
+  const handleUpdateTimerTime = useCallback(
+    (timerId: string, time: number) => {
+      recordTimerAction('Set time on', timerId);
+      updateTimerTime(timerId, time);
     },
-    [updateTimer, syncTimersWithUpdates]
-  );
-
-  // Custom sync function for duration updates
-  const syncTimersWithDuration = useCallback(
-    async (timerId: string, newDuration: number) => {
-      if (isConnected && initializationRef.current) {
-        const updatedTimers = timerCollection.map((t) => {
-          if (t.id === timerId) {
-            return {
-              ...t,
-              state: {
-                ...t.state,
-                initialTime: newDuration,
-                currentTime:
-                  t.state.type === 'countdown'
-                    ? newDuration
-                    : t.state.currentTime,
-              },
-            };
-          }
-          return t;
-        });
+    [updateTimerTime, recordTimerAction]
+  );
 
-        const timerCollectionData = {
-          timers: updatedTimers,
-          activeTimerId,
-          lastUpdated: Date.now(),
-        };
+  const handleReorderTimers = useCallback(
+    (timerIds: string[]) => {
+      recordHistory('Reorder timers', snapshotRef.current);
+      reorderTimers(timerIds);
+    },
+    [reorderTimers, recordHistory]
+  );
 
-        await updateTimers(timerCollectionData);
-      }
+  const handleImportRunOfShow = useCallback(
+    (rows: RunOfShowRow[], mode: RunOfShowImportMode) => {
+      recordHistory(
+        mode === 'replace'
+          ? 'Replace timers from CSV'
+          : 'Import timers from CSV',
+        snapshotRef.current
+      );
+      initializeTimerCollection(
+        applyRunOfShow(snapshotRef.current.timers, rows, mode)
+      );
     },
-    [isConnected, timerCollection, activeTimerId, updateTimers]
-  );
-
-  // Custom sync function for type updates
-  const syncTimersWithType = useCallback(
-    async (timerId: string, newType: TimerType) => {
-      if (isConnected && initializationRef.current) {
-        const updatedTimers = timerCollection.map((t) => {
-          if (t.id === timerId) {
-            const newCurrentTime =
-              newType === 'countdown' ? t.state.initialTime : 0;
-            return {
-              ...t,
-              state: {
-                ...t.state,
-                type: newType,
-                currentTime: newCurrentTime,
-                status: 'idle' as const,
-              },
-            };
-          }
-          return t;
-        });
+    [initializeTimerCollection, recordHistory]
+  );
 
-        const timerCollectionData = {
-          timers: updatedTimers,
-          activeTimerId,
-          lastUpdated: Date.now(),
-        };
+  // Undo/redo - restores timers, message and blackout together
+  const restoreSnapshot = useCallback(
+    (snapshot: ControllerSnapshot) => {
+      initializeTimerCollection(snapshot.timers);
+      restoreMessage(snapshot.currentMessage);
 
-        await updateTimers(timerCollectionData);
+      if (snapshot.blackoutMode !== snapshotRef.current.blackoutMode) {
+        setBlackoutMode(snapshot.blackoutMode);
+        if (writesRoom && initializationRef.current) {
+          updateBlackoutMode(snapshot.blackoutMode);
+        }
       }
     },
-    [isConnected, timerCollection, activeTimerId, updateTimers]
+    [initializeTimerCollection, restoreMessage, writesRoom, updateBlackoutMode]
   );
 
-  const handleUpdateTimerDuration = useCallback(
-    async (timerId: string, newDuration: number) => {
-      updateTimerDuration(timerId, newDuration);
-      // Sync immediately with the expected duration
-      await syncTimersWithDuration(timerId, newDuration);
-    },
-    [updateTimerDuration, syncTimersWithDuration]
-  );
+  // Take timer changes from the room without writing them back
+  const adoptTimers = (collection: TimerCollection) => {
+    lastSyncedCollectionRef.current = collection;
+    initializeTimerCollection(collection);
+  };
+  const adoptTimerChanges = (changes: TimerChanges) =>
+    adoptTimers(applyTimerChanges(timerCollection, changes));
+
+  roomChangesRef.current = {
+    // Timers other operators changed are merged in as they arrive. Ones this
+    // operator changed too are settled by the queued write, newest first.
+    onData: (data) => {
+      if (!initializationRef.current) return;
+
+      if (data.timers) {
+        const merged = mergeRemoteTimers(
+          lastSyncedCollectionRef.current,
+          timerCollection,
+          {
+            timers: data.timers.timers || [],
+            activeTimerId: data.timers.activeTimerId || null,
+          },
+          hasPendingWrite
+        );
+        if (merged !== timerCollection) {
+          adoptTimers(merged);
+        }
+      }
 
-  const handleUpdateTimerType = useCallback(
-    async (timerId: string, newType: TimerType) => {
-      updateTimerType(timerId, newType);
-      // Sync immediately with the expected type
-      await syncTimersWithType(timerId, newType);
-    },
-    [updateTimerType, syncTimersWithType]
-  );
+      // Other fields are taken whole once they change in the room, unless
+      // this operator's own change to them is still queued
+      const changed = (field: SharedField) => {
+        const changedAt = data.fieldTimes?.[field] ?? 0;
+        if (changedAt <= (seenFieldTimesRef.current[field] ?? 0)) return false;
+        seenFieldTimesRef.current[field] = changedAt;
+        return !hasPendingWrite(field);
+      };
 
-  const handleUpdateTimerTime = useCallback(
-    async (timerId: string, newTime: number) => {
-      updateTimerTime(timerId, newTime);
-      // Sync to Firebase after time update
-      setTimeout(async () => {
-        await syncTimersToFirebase();
-      }, 100);
+      if (
+        changed('currentMessage') &&
+        data.currentMessage?.id !== currentMessage?.id
+      ) {
+        lastSyncedMessageRef.current = data.currentMessage ?? null;
+        restoreMessage(data.currentMessage ?? null);
+      }
+      if (changed('messageQueue')) {
+        restoreQueue(data.messageQueue ?? []);
+      }
+      if (changed('settings') && data.settings) {
+        updateSettings(data.settings);
+      }
+      if (changed('blackoutMode') && !!data.blackoutMode !== blackoutMode) {
+        setBlackoutMode(!!data.blackoutMode);
+      }
+      if (changed('flashMode') && !!data.flashMode !== flashMode) {
+        setFlashMode(!!data.flashMode);
+      }
     },
-    [updateTimerTime, syncTimersToFirebase]
-  );
-
-  // Custom sync function for select operations
-  const syncTimersWithSelect = useCallback(
-    async (timerId: string) => {
-      if (isConnected && initializationRef.current) {
-        const timer = timerCollection.find((t) => t.id === timerId);
-        if (!timer) return;
-
-        const currentTime =
-          timer.state.type === 'countdown' ? timer.state.initialTime : 0;
-
-        const updatedTimers = timerCollection.map((t) =>
-          t.id === timerId
-            ? {
-                ...t,
-                state: {
-                  ...t.state,
-                  status: 'idle' as const,
-                  currentTime,
-                  elapsedTime: 0,
-                  startTime: undefined,
-                  pausedTime: undefined,
-                },
-              }
-            : t
-        );
 
-        const timerCollectionData = {
-          timers: updatedTimers,
-          activeTimerId: timerId,
-          lastUpdated: Date.now(),
-        };
+    // Another operator's change was newer than our queued one - show what
+    // the room has now instead
+    onConflict: (conflict) => {
+      switch (conflict.field) {
+        case 'timers':
+          if (conflict.key !== undefined) {
+            adoptTimerChanges({ timers: { [conflict.key]: conflict.value } });
+          } else if (conflict.value) {
+            adoptTimers(conflict.value);
+          }
+          break;
+        case 'activeTimerId':
+          adoptTimerChanges({ timers: {}, activeTimerId: conflict.value });
+          break;
+        case 'currentMessage':
+          lastSyncedMessageRef.current = conflict.value;
+          restoreMessage(conflict.value);
+          break;
+        case 'messageQueue':
+          restoreQueue(conflict.value ?? []);
+          break;
+        case 'settings':
+          if (conflict.value) updateSettings(conflict.value);
+          break;
+        case 'blackoutMode':
+          setBlackoutMode(!!conflict.value);
+          break;
+        case 'flashMode':
+          setFlashMode(!!conflict.value);
+          break;
+      }
+    },
+  };
+
+  const handleUndo = useCallback(() => {
+    const snapshot = undoHistory(snapshotRef.current);
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [undoHistory, restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    const snapshot = redoHistory(snapshotRef.current);
+    if (snapshot) restoreSnapshot(snapshot);
+  }, [redoHistory, restoreSnapshot]);
+
+  // Commands from the remote control bridge, run through the same handlers
+  // as the buttons. Returns an error message for the remote client.
+  const handleControlCommand = useCallback(
+    (command: ControlCommand): string | null => {
+      if (readOnly) return 'View only - this account cannot change the room';
+
+      const collection = snapshotRef.current.timers;
+      const ordered = [...collection.timers].sort((a, b) => a.order - b.order);
+      const activeIndex = ordered.findIndex(
+        (t) => t.id === collection.activeTimerId
+      );
+
+      switch (command.action) {
+        case 'start':
+        case 'pause':
+        case 'reset':
+        case 'toggle':
+        case 'adjust':
+        case 'select': {
+          const timerId = command.timerId ?? collection.activeTimerId;
+          const timer = ordered.find((t) => t.id === timerId);
+          if (!timer) {
+            return command.timerId
+              ? `No timer ${command.timerId}`
+              : 'No active timer';
+          }
 
-        await updateTimers(timerCollectionData);
+          if (command.action === 'start') {
+            handleStartTimer(timer.id);
+          } else if (command.action === 'pause') {
+            handlePauseTimer(timer.id);
+          } else if (command.action === 'reset') {
+            handleResetTimer(timer.id);
+          } else if (command.action === 'toggle') {
+            if (timer.state.status === 'running') {
+              handlePauseTimer(timer.id);
+            } else {
+              handleStartTimer(timer.id);
+            }
+          } else if (command.action === 'adjust') {
+            handleAdjustTime(timer.id, command.seconds);
+          } else {
+            selectTimer(timer.id);
+          }
+          return null;
+        }
+        // Same as the preview's skip buttons - a running timer hands over
+        // to the one it skips to
+        case 'next':
+        case 'previous': {
+          const target =
+            ordered[activeIndex + (command.action === 'next' ? 1 : -1)];
+          if (!target) return `No ${command.action} timer`;
+
+          const current = ordered[activeIndex];
+          const wasRunning = current?.state.status === 'running';
+          if (wasRunning) handlePauseTimer(current.id);
+          selectTimer(target.id);
+          if (wasRunning) {
+            setTimeout(() => handleStartTimer(target.id), 0);
+          }
+          return null;
+        }
+        case 'showMessage':
+          handleShowMessage(command.text);
+          return null;
+        case 'showPreset': {
+          const preset = messagePresets[command.index - 1];
+          if (!preset) return `No message preset ${command.index}`;
+          handleMessagePresetSelect(preset);
+          return null;
+        }
+        case 'hideMessage':
+          handleClearMessage();
+          return null;
+        case 'blackout':
+          if (
+            command.on === undefined ||
+            command.on !== snapshotRef.current.blackoutMode
+          ) {
+            toggleBlackout();
+          }
+          return null;
+        case 'flash':
+          toggleFlash();
+          return null;
+        default:
+          return 'Unknown command';
       }
     },
-    [isConnected, timerCollection, updateTimers]
+    [
+      readOnly,
+      handleStartTimer,
+      handlePauseTimer,
+      handleResetTimer,
+      handleAdjustTime,
+      selectTimer,
+      handleShowMessage,
+      handleMessagePresetSelect,
+      handleClearMessage,
+      toggleBlackout,
+      toggleFlash,
+      messagePresets,
+    ]
   );
 
-  const handleSelectTimer = useCallback(
-    async (timerId: string) => {
-      selectTimer(timerId);
-      // Sync immediately with the expected select state
-      await syncTimersWithSelect(timerId);
-    },
-    [selectTimer, syncTimersWithSelect]
+  // State published to the bridge - the stored timeline, so it only changes
+  // on real state changes and remote clients resolve the ticking themselves
+  const controlState = useMemo(
+    (): ControlState => ({
+      roomId,
+      roomName: roomInfo?.name ?? null,
+      activeTimerId: timerCollection.activeTimerId,
+      timers: timerCollection.timers.map((t) => ({
+        id: t.id,
+        name: t.name,
+        type: t.state.type,
+        order: t.order,
+        status: t.state.status,
+        initialTime: t.state.initialTime,
+        startedAt: t.state.startedAt,
+        pausedAt: t.state.pausedAt,
+        accumulatedPause: t.state.accumulatedPause,
+        thresholds: resolveThresholds(t, settings.timer),
+      })),
+      message: currentMessage?.text ?? null,
+      messagePresets: messagePresets.map(({ name, text }) => ({ name, text })),
+      blackout: blackoutMode,
+      serverTime: serverClock.now(),
+    }),
+    [
+      roomId,
+      roomInfo?.name,
+      timerCollection,
+      currentMessage,
+      messagePresets,
+      blackoutMode,
+      settings.timer,
+    ]
+  );
+
+  const { status: bridgeStatus, clientCount: bridgeClientCount } = useBridge({
+    settings: bridgeSettings,
+    state: controlState,
+    onCommand: handleControlCommand,
+  });
+
+  // Keyboard timer controls go through the handlers so they can be undone
+  useTimerKeyboard(
+    () => activeTimerId && handleStartTimer(activeTimerId),
+    () => activeTimerId && handlePauseTimer(activeTimerId),
+    () => activeTimerId && handleResetTimer(activeTimerId),
+    () => activeTimerId && handlePauseTimer(activeTimerId),
+    !readOnly
   );
+  useHistoryKeyboard(handleUndo, handleRedo, !readOnly);
 
   return (
     <div className="controller-route h-screen w-screen overflow-hidden">
@@ -728,6 +1194,9 @@ export function ControllerRoute() {
         timers={timers}
         activeTimer={activeTimer}
         activeTimerId={activeTimerId}
+        pendingConfirmTimer={pendingConfirmTimer}
+        roomId={roomId}
+        roomName={roomInfo?.name}
         currentMessage={currentMessage}
         messageQueue={messageQueue}
         settings={settings}
@@ -735,40 +1204,223 @@ export function ControllerRoute() {
         messagePresets={messagePresets}
         blackoutMode={blackoutMode}
         flashMode={flashMode}
+        schedule={{
+          nextEntry: scheduler.nextEntry,
+          armedEntry: scheduler.armedEntry,
+          now: scheduler.now,
+          isHeld: scheduler.isHeld,
+          onSkip: scheduler.skipNext,
+          onToggleHold: scheduler.toggleHold,
+        }}
         onAddTimer={handleAddTimer}
         onDeleteTimer={handleDeleteTimer}
-        onSelectTimer={handleSelectTimer}
+        onSelectTimer={selectTimer}
         onStartTimer={handleStartTimer}
         onPauseTimer={handlePauseTimer}
         onResetTimer={handleResetTimer}
         onUpdateTimerTime={handleUpdateTimerTime}
-        onUpdateTimerDuration={handleUpdateTimerDuration}
-        onUpdateTimerType={handleUpdateTimerType}
-        onUpdateTimer={handleUpdateTimer}
-        onReorderTimers={reorderTimers}
-        onAdjustTime={adjustTime}
+        onUpdateTimerDuration={updateTimerDuration}
+        onUpdateTimerType={updateTimerType}
+        onUpdateTimer={updateTimer}
+        onReorderTimers={handleReorderTimers}
+        onImportRunOfShow={handleImportRunOfShow}
+        onAdjustTime={handleAdjustTime}
         onShowMessage={handleShowMessage}
         onShowPresetMessage={handleMessagePresetSelect}
-        onClearMessage={() => hideMessage()}
-        onClearAllMessages={clearAllMessages}
+        onClearMessage={handleClearMessage}
+        onClearAllMessages={handleClearAllMessages}
         onUpdateSettings={handleUpdateSettings}
         onToggleFullscreen={toggleFullscreen}
         onToggleBlackout={toggleBlackout}
         onToggleFlash={toggleFlash}
+        onUndo={readOnly ? undefined : handleUndo}
+        onRedo={readOnly ? undefined : handleRedo}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
         onSwitchToDisplay={switchToDisplay}
+        onOpenRoomPicker={() => setShowRoomPicker(true)}
+        onOpenMembers={roomRole ? () => setShowMembers(true) : undefined}
+        onOpenDisplays={roomRole ? () => setShowDisplays(true) : undefined}
+        displaysOnline={displayDevices.displays.filter((d) => d.online).length}
+        operators={operators}
+        onFocusTimer={setFocusedTimerId}
+        onEditTimer={setEditingTimerId}
+        accountName={hasAccount ? account?.name : null}
+        onOpenAccount={() => setShowAccount(true)}
+        showName={currentShow?.name}
+        onOpenShows={() => setShowShowsModal(true)}
+        onSaveShow={handleSaveShow}
+        onOpenImportExport={() => setShowImportExport(true)}
+        onOpenReport={() => setShowReport(true)}
+        bridgeStatus={bridgeStatus}
+        isOnline={isOnline}
+        pendingChanges={pendingWrites}
+        onOpenBridge={() => setShowBridge(true)}
+        onOpenWebhooks={() => setShowWebhooks(true)}
         onSwitchToMultiDevice={() => {}} // No longer needed
         isTimerRunning={isTimerRunning}
         isTimerPaused={isTimerPaused}
         isTimerExpired={isTimerExpired}
         isTimerLoading={isTimerLoading}
+        readOnly={readOnly}
       />
 
       {/* Connection Status Indicator */}
       <div className="fixed right-4 top-4 z-30 rounded-md bg-green-100 px-3 py-2 text-sm text-green-800 dark:bg-green-900 dark:text-green-200">
         Firebase: {connectionStatus} •{' '}
-        {initializationRef.current ? 'Syncing' : 'Initializing'}
+        {!canControl && roomRole
+          ? 'View only'
+          : initializationRef.current
+            ? 'Syncing'
+            : 'Initializing'}
       </div>
 
+      {/* Sign-in - required before any room can be run */}
+      {((isAccountReady && !hasAccount) || showAccount) && (
+        <AccountModal
+          account={account}
+          onSignIn={signIn}
+          onSignUp={signUp}
+          onResetPassword={resetPassword}
+          onSendVerification={sendVerification}
+          onRefresh={refreshAccount}
+          onSignOut={async () => {
+            await signOut();
+            setShowAccount(false);
+          }}
+          onClose={hasAccount ? () => setShowAccount(false) : undefined}
+        />
+      )}
+
+      {/* Room picker - required until a room is chosen */}
+      {hasAccount &&
+        (!roomId || roomNotFound || accessError || showRoomPicker) && (
+          <RoomPicker
+            currentRoomId={roomNotFound || accessError ? null : roomId}
+            roomKeys={roomKeys}
+            isConnected={isConnected}
+            notice={
+              roomNotFound
+                ? `Room ${roomId} was not found.`
+                : (accessError ?? undefined)
+            }
+            onCreateRoom={handleCreateRoom}
+            onJoinRoom={handleJoinRoom}
+            onClose={
+              roomId && !roomNotFound && !accessError
+                ? () => setShowRoomPicker(false)
+                : undefined
+            }
+          />
+        )}
+
+      {/* Saved shows */}
+      {showShowsModal && (
+        <ShowsModal
+          shows={savedShows}
+          currentShowId={currentShow?.id ?? null}
+          roomId={roomId}
+          isLoading={isLoadingShows}
+          error={showsError}
+          onSaveAs={handleSaveShowAs}
+          onLoad={handleLoadShow}
+          onRename={handleRenameShow}
+          onDuplicate={duplicateShow}
+          onDelete={handleDeleteShow}
+          onRefresh={refreshShows}
+          onClose={() => setShowShowsModal(false)}
+        />
+      )}
+
+      {/* Backup file */}
+      {showImportExport && (
+        <ImportExportModal
+          content={{
+            timers: timerCollection,
+            timerPresets,
+            messagePresets,
+            settings,
+          }}
+          onImport={handleImport}
+          onClose={() => setShowImportExport(false)}
+        />
+      )}
+
+      {/* Post-event timing report */}
+      {showReport && (
+        <EventReportModal
+          logs={eventLogs}
+          operatorName={operatorName}
+          timeFormat={settings.display.timeFormat}
+          onOperatorNameChange={setOperatorName}
+          onStartNewLog={startNewLog}
+          onDeleteLog={deleteLog}
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
+      {/* Remote control bridge */}
+      {showBridge && (
+        <BridgeModal
+          settings={bridgeSettings}
+          status={bridgeStatus}
+          clientCount={bridgeClientCount}
+          onSave={setBridgeSettings}
+          onClose={() => setShowBridge(false)}
+        />
+      )}
+
+      {/* Outgoing webhooks */}
+      {showWebhooks && (
+        <WebhooksModal
+          targets={webhookTargets}
+          deliveries={webhooks.deliveries}
+          onSave={setWebhookTargets}
+          onSendTest={webhooks.sendTest}
+          onClearDeliveries={webhooks.clearDeliveries}
+          onClose={() => setShowWebhooks(false)}
+        />
+      )}
+
+      {/* People and invitations */}
+      {showMembers && roomId && (
+        <RoomMembersModal
+          roomId={roomId}
+          roomRole={roomRole}
+          currentUid={account?.uid ?? null}
+          members={roomMembers.members}
+          invites={roomMembers.invites}
+          isLoading={roomMembers.isLoading}
+          error={roomMembers.error}
+          onInvite={roomMembers.invite}
+          onRevokeInvite={roomMembers.revokeInvite}
+          onChangeRole={roomMembers.changeRole}
+          onRemoveMember={roomMembers.removeMember}
+          onClose={() => setShowMembers(false)}
+        />
+      )}
+
+      {/* Display registry */}
+      {showDisplays && roomId && (
+        <DisplaysModal
+          roomId={roomId}
+          displays={displayDevices.displays}
+          timers={timerCollection.timers}
+          error={displayDevices.error}
+          actions={
+            canControl
+              ? {
+                  onRename: displayDevices.rename,
+                  onIdentify: displayDevices.identify,
+                  onAssign: displayDevices.assign,
+                  onForget: displayDevices.forget,
+                }
+              : undefined
+          }
+          onClose={() => setShowDisplays(false)}
+        />
+      )}
+
       {/* Blackout overlay */}
       {blackoutMode && <div className="fixed inset-0 z-50 bg-black" />}
 
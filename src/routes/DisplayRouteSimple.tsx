@@ -2,20 +2,43 @@ import React, {
   useState,
   useEffect,
   useCallback,
-  useRef,
   useMemo,
+  useRef,
 } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useSimpleFirebaseSync } from '../hooks/useSimpleFirebaseSync';
+import { useRoomId, useRoomKey, useSignalingUrl } from '../hooks/useRoomId';
+import { useSyncManager } from '../hooks/useSyncManager';
 import { useLocalStorage } from '../hooks/useLocalStorage';
 import { useFullscreenKeyboard } from '../hooks/useKeyboard';
 import { TimerPreview } from '../components/TimerPreview';
 import { LoadingSpinner } from '../components/LoadingSpinner';
-import { DEFAULT_SETTINGS, DEFAULT_TIMER_COLLECTION } from '../types';
+import { serverClock } from '../services/serverClock';
+import {
+  DEFAULT_SETTINGS,
+  DEFAULT_TIMER_COLLECTION,
+  DEFAULT_TIMER_STATE,
+} from '../types';
 import type { TimerCollection, Message, AppSettings } from '../types';
+import type { SyncMessage } from '../types/sync';
+import type { SharedTimerData } from '../services/simpleFirebase';
+import { formatRoomId, isValidRoomId, normalizeRoomId } from '../utils/room';
+import { normalizeTimerState, resolveTimerState } from '../utils/timeline';
+import { resolveChain } from '../utils/chain';
+import { resolveThresholds } from '../utils/thresholds';
+import { formatClockOffset } from '../utils/time';
+import { useServerClock } from '../hooks/useServerClock';
+import { useDisplayRegistration } from '../hooks/useDisplayRegistration';
+import { getDisplayName } from '../hooks/useDisplayDevices';
+
+const IDENTIFY_DURATION = 5000; // How long the identify flash stays up
 
 export function DisplayRoute() {
   const navigate = useNavigate();
+  const [roomId, setRoomId] = useRoomId();
+  const roomKey = useRoomKey();
+  const signalingUrl = useSignalingUrl();
+  const { status: clockStatus } = useServerClock();
 
   // Local storage for settings (fallback)
   const [localSettings] = useLocalStorage(
@@ -33,8 +56,31 @@ export function DisplayRoute() {
   const [blackoutMode, setBlackoutMode] = useState(false);
   const [flashMode, setFlashMode] = useState(false);
 
+  // While a peer-to-peer link to the controller is open it drives the
+  // display; Firebase data is kept for when the link drops
+  const isPeerSyncedRef = useRef(false);
+  const latestSharedDataRef = useRef<SharedTimerData | null>(null);
+
+  const applySharedData = useCallback((data: SharedTimerData) => {
+    setTimers(data.timers);
+    setCurrentMessage(data.currentMessage);
+    setMessageQueue(data.messageQueue);
+    setSettings(data.settings);
+    setBlackoutMode(data.blackoutMode);
+    setFlashMode(data.flashMode);
+  }, []);
+
   // Simple Firebase sync for receiving updates from controller
-  const { connectionStatus, isConnected, sharedData } = useSimpleFirebaseSync({
+  const {
+    connectionStatus,
+    isConnected,
+    sharedData,
+    roomNotFound,
+    roomRole,
+    accessError,
+  } = useSimpleFirebaseSync({
+    roomId,
+    accessKey: roomKey,
     isController: false,
     onDataChange: (data) => {
       // Update display state when shared data changes
@@ -49,25 +95,16 @@ export function DisplayRoute() {
         status: activeTimerData?.state?.status,
         type: activeTimerData?.state?.type,
         initialTime: activeTimerData?.state?.initialTime,
-        currentTime: activeTimerData?.state?.currentTime,
-        elapsedTime: activeTimerData?.state?.elapsedTime,
+        startedAt: activeTimerData?.state?.startedAt,
+        pausedAt: activeTimerData?.state?.pausedAt,
+        accumulatedPause: activeTimerData?.state?.accumulatedPause,
       });
 
-      // Store the timestamp when this data was last updated
-      if (data.timers?.lastUpdated) {
-        dataTimestampRef.current = data.timers.lastUpdated;
-      } else {
-        // If no timestamp, use current time
-        dataTimestampRef.current = Date.now();
-      }
-
       // Immediately update all state to ensure instant reflection of changes
-      setTimers(data.timers);
-      setCurrentMessage(data.currentMessage);
-      setMessageQueue(data.messageQueue);
-      setSettings(data.settings);
-      setBlackoutMode(data.blackoutMode);
-      setFlashMode(data.flashMode);
+      latestSharedDataRef.current = data;
+      if (!isPeerSyncedRef.current) {
+        applySharedData(data);
+      }
     },
     onConnectionStatusChange: (status) => {
       console.log('📺 Display Firebase connection status:', status);
@@ -77,148 +114,122 @@ export function DisplayRoute() {
     },
   });
 
-  // Double-click to go to controller (for setup)
-  const handleDoubleClick = useCallback(() => {
-    navigate('/control');
-  }, [navigate]);
+  // Updates straight from the controller over the data channel
+  const handlePeerMessage = useCallback((message: SyncMessage) => {
+    const { data } = message;
 
-  // Real-time timer state calculation
-  const [realtimeTimer, setRealtimeTimer] = useState<typeof baseTimer | null>(
-    null
-  );
-  const lastSyncTimeRef = useRef<number>(Date.now());
-  const dataTimestampRef = useRef<number>(Date.now());
+    switch (message.type) {
+      case 'timer_state':
+        setTimers({ timers: data.timers, activeTimerId: data.activeTimerId });
+        break;
+      case 'message_update':
+        setCurrentMessage(data.currentMessage);
+        setMessageQueue(data.messageQueue);
+        break;
+      case 'settings_update':
+        setSettings(data.settings);
+        break;
+      case 'blackout_toggle':
+        setBlackoutMode(data.enabled);
+        break;
+      case 'flash_trigger':
+        setFlashMode(data.enabled);
+        break;
+    }
+  }, []);
 
-  // Get current timer for display
-  const activeTimer = timers.timers.find((t) => t.id === timers.activeTimerId);
-  const baseTimer = useMemo(
-    () =>
-      activeTimer?.state || {
-        type: 'countdown' as const,
-        status: 'idle' as const,
-        currentTime: 0,
-        initialTime: 0,
-        elapsedTime: 0,
-      },
-    [activeTimer?.state]
-  );
+  // A controller window on this computer and a local signalling server both
+  // work without Firebase; Firestore signalling needs the room joined first
+  const { isConnected: isPeerConnected, connectionState: peerState } =
+    useSyncManager({
+      roomId,
+      role: 'display',
+      webrtc: !!signalingUrl || !!roomRole,
+      signalingUrl,
+      handlers: { onSyncMessage: handlePeerMessage },
+    });
+
+  // List this display in the room so controllers can name and assign it
+  const { display } = useDisplayRegistration(roomId, !!roomRole);
+  const assignment = display?.assignment;
+  const layout = assignment?.layout ?? 'standard';
+
+  // Flash our name when a controller asks which screen we are
+  const [isIdentifying, setIsIdentifying] = useState(false);
+  const identifyAt = display?.identifyAt ?? null;
 
-  // Force immediate update when active timer changes
   useEffect(() => {
-    if (activeTimer) {
-      // Reset real-time timer to immediately reflect any changes
-      setRealtimeTimer(null);
-    }
-  }, [activeTimer]);
+    if (identifyAt === null) return;
 
-  // Update real-time timer calculation - simplified for immediate updates
+    const remaining = identifyAt + IDENTIFY_DURATION - serverClock.now();
+    if (remaining <= 0) return;
+
+    setIsIdentifying(true);
+    const timeout = setTimeout(() => setIsIdentifying(false), remaining);
+    return () => clearTimeout(timeout);
+  }, [identifyAt]);
+
+  // Fall back to the latest Firebase data whenever the link drops
   useEffect(() => {
-    if (!activeTimer) {
-      setRealtimeTimer(baseTimer);
-      return;
+    isPeerSyncedRef.current = isPeerConnected;
+    if (!isPeerConnected && latestSharedDataRef.current) {
+      applySharedData(latestSharedDataRef.current);
     }
+  }, [isPeerConnected, applySharedData]);
 
-    // Always update the last sync time when we receive new data
-    lastSyncTimeRef.current = Date.now();
-
-    // Calculate the time difference between when data was saved and now
-    const now = Date.now();
-    const dataAge = dataTimestampRef.current
-      ? (now - dataTimestampRef.current) / 1000
-      : 0;
-
-    // For immediate updates, always start with the base timer and adjust for data age
-    let adjustedElapsedTime =
-      baseTimer.elapsedTime + (baseTimer.status === 'running' ? dataAge : 0);
-
-    // Apply the same 1-second delay logic as the controller for consistency
-    if (baseTimer.status === 'running') {
-      if (adjustedElapsedTime < 1) {
-        adjustedElapsedTime = 0;
-      } else {
-        adjustedElapsedTime = adjustedElapsedTime - 1;
-      }
-    }
+  // Double-click to go to controller (for setup)
+  const handleDoubleClick = useCallback(() => {
+    navigate(roomId ? `/control?room=${roomId}` : '/control');
+  }, [navigate, roomId]);
 
-    // Calculate currentTime based on timer type for consistency
-    let adjustedCurrentTime: number;
-    switch (baseTimer.type) {
-      case 'countdown':
-        adjustedCurrentTime = Math.max(
-          0,
-          baseTimer.initialTime - adjustedElapsedTime
-        );
-        break;
-      case 'countup':
-      case 'stopwatch':
-      case 'hidden':
-        adjustedCurrentTime = adjustedElapsedTime;
-        break;
-      default:
-        adjustedCurrentTime = baseTimer.currentTime;
-    }
+  const isRunning = timers.timers.some((t) => t.state?.status === 'running');
+
+  // Every client resolves the shared timeline against server time, so the
+  // display only needs a local tick while a timer is running
+  const [now, setNow] = useState(() => serverClock.now());
+
+  useEffect(() => {
+    setNow(serverClock.now());
+    if (!isRunning) return;
+
+    const interval = setInterval(() => setNow(serverClock.now()), 100);
+    return () => clearInterval(interval);
+  }, [isRunning, timers]);
 
-    const adjustedTimer = {
-      ...baseTimer,
-      elapsedTime: adjustedElapsedTime,
-      currentTime: adjustedCurrentTime,
-    };
-
-    // Immediately set the adjusted timer
-    setRealtimeTimer(adjustedTimer);
-
-    // Only start real-time updates if timer is actually running
-    if (baseTimer.status === 'running') {
-      const interval = setInterval(() => {
-        const now = Date.now();
-        const timeSinceSync = (now - lastSyncTimeRef.current) / 1000;
-
-        setRealtimeTimer((prev) => {
-          // Double-check that the timer is still running
-          if (!prev || prev.status !== 'running') {
-            return prev;
-          }
-
-          let newElapsedTime = adjustedElapsedTime + timeSinceSync;
-
-          // Add the same 1-second delay logic as the controller
-          // Add a small delay (1 second) before starting countdown to show full duration first
-          if (newElapsedTime < 1) {
-            newElapsedTime = 0;
-          } else {
-            newElapsedTime = newElapsedTime - 1;
-          }
-
-          // Calculate currentTime based on timer type for consistency with TimerCard
-          let newCurrentTime: number;
-          switch (prev.type) {
-            case 'countdown':
-              newCurrentTime = Math.max(0, prev.initialTime - newElapsedTime);
-              break;
-            case 'countup':
-            case 'stopwatch':
-            case 'hidden':
-              newCurrentTime = newElapsedTime;
-              break;
-            default:
-              newCurrentTime = prev.currentTime;
-          }
-
-          return {
-            ...prev,
-            elapsedTime: newElapsedTime,
-            currentTime: newCurrentTime,
-          };
-        });
-      }, 100); // Update every 100ms for smooth countdown
-
-      return () => {
-        clearInterval(interval);
-      };
+  // Follow linked timers from the timeline too, so chains keep going even
+  // if the controller has gone to sleep
+  const chainedTimers = useMemo(
+    () =>
+      resolveChain(
+        {
+          ...timers,
+          timers: timers.timers.map((t) => ({
+            ...t,
+            state: normalizeTimerState(t.state, now),
+          })),
+        },
+        now
+      ),
+    [timers, now]
+  );
+
+  // Get current timer for display - the one assigned to this display if it
+  // still exists, otherwise the room's active timer
+  const activeTimer =
+    chainedTimers.timers.find((t) => t.id === assignment?.timerId) ??
+    chainedTimers.timers.find((t) => t.id === chainedTimers.activeTimerId);
+  const activeState = activeTimer?.state;
+
+  const currentTimer = useMemo(() => {
+    if (layout === 'clock') {
+      return { ...DEFAULT_TIMER_STATE, type: 'stopwatch' as const };
     }
-  }, [activeTimer, baseTimer]); // Include all properties that should trigger immediate updates
+    return activeState
+      ? resolveTimerState(activeState, now)
+      : DEFAULT_TIMER_STATE;
+  }, [layout, activeState, now]);
 
-  const currentTimer = realtimeTimer || baseTimer;
+  const isBlackedOut = assignment?.blackout ?? blackoutMode;
 
   // Check if timer is expired
   const isTimerExpired =
@@ -238,12 +249,24 @@ export function DisplayRoute() {
   // Keyboard shortcuts
   useFullscreenKeyboard(toggleFullscreen, true);
 
-  // Show loading spinner while waiting for Firebase data
-  const isLoading = !sharedData && connectionStatus === 'connected';
+  // Show loading spinner while waiting for Firebase data (or the controller)
+  const isLoading =
+    !sharedData && !isPeerConnected && connectionStatus === 'connected';
+
+  // A display needs a room code before it can sync anything
+  if (!roomId || roomNotFound || accessError) {
+    return (
+      <DisplayRoomPrompt
+        missingRoomId={roomNotFound ? roomId : null}
+        accessError={accessError}
+        onSubmit={setRoomId}
+      />
+    );
+  }
 
   return (
     <div className="display-route h-screen w-screen overflow-hidden">
-      {isLoading || !isConnected ? (
+      {isLoading || !(isConnected || isPeerConnected) ? (
         /* Loading Screen */
         <div className="flex h-full w-full items-center justify-center bg-[#1D1918]">
           <div className="text-center">
@@ -259,11 +282,12 @@ export function DisplayRoute() {
         <div className="h-full w-full">
           <TimerPreview
             timer={currentTimer}
-            timerName={activeTimer?.name}
-            currentMessage={currentMessage}
+            timerName={layout === 'clock' ? 'Time of Day' : activeTimer?.name}
+            currentMessage={layout === 'timer' ? null : currentMessage}
             settings={settings.display}
             isExpired={isTimerExpired}
             isActive={true}
+            thresholds={resolveThresholds(activeTimer, settings.timer)}
             displayMode="display"
             className="h-full w-full"
             onToggleFullscreen={toggleFullscreen}
@@ -278,13 +302,26 @@ export function DisplayRoute() {
       </div> */}
 
       {/* Blackout overlay */}
-      {blackoutMode && <div className="fixed inset-0 z-50 bg-black" />}
+      {isBlackedOut && <div className="fixed inset-0 z-50 bg-black" />}
 
       {/* Flash overlay */}
       {flashMode && (
         <div className="pointer-events-none fixed inset-0 z-40 animate-flash bg-white" />
       )}
 
+      {/* Identify overlay - shows through blackout so the screen can be found */}
+      {isIdentifying && display && (
+        <div className="pointer-events-none fixed inset-0 z-[60] flex items-center justify-center">
+          <div className="absolute inset-0 animate-flash bg-white" />
+          <div className="relative rounded-lg bg-black/80 px-10 py-6 text-center text-white">
+            <div className="text-sm uppercase tracking-widest text-neutral-400">
+              This display
+            </div>
+            <div className="text-6xl font-bold">{getDisplayName(display)}</div>
+          </div>
+        </div>
+      )}
+
       {/* Double-click handler for setup access */}
       {/* <div
         className="fixed inset-0 z-30"
@@ -294,9 +331,72 @@ export function DisplayRoute() {
 
       {/* Device info (hidden, for debugging) */}
       <div className="fixed bottom-4 left-4 z-20 rounded bg-black/50 p-2 text-xs text-white/50 opacity-0 transition-opacity hover:opacity-100">
-        Display Mode • Firebase: {connectionStatus} • Data:{' '}
-        {sharedData ? 'Available' : 'None'}
+        Display Mode • Room: {formatRoomId(roomId)} • Firebase:{' '}
+        {connectionStatus} • Peer:{' '}
+        {isPeerConnected ? `connected via ${peerState.method}` : 'none'} • Data:{' '}
+        {sharedData ? 'Available' : 'None'} • Clock:{' '}
+        {formatClockOffset(clockStatus.offset)}
+        {display && ` • ${getDisplayName(display)}`}
       </div>
     </div>
   );
 }
+
+interface DisplayRoomPromptProps {
+  missingRoomId: string | null;
+  accessError: string | null;
+  onSubmit: (roomId: string) => void;
+}
+
+function DisplayRoomPrompt({
+  missingRoomId,
+  accessError,
+  onSubmit,
+}: DisplayRoomPromptProps) {
+  const [code, setCode] = useState('');
+  const normalized = normalizeRoomId(code);
+  const isValid = isValidRoomId(normalized);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isValid) {
+      onSubmit(normalized);
+    }
+  };
+
+  return (
+    <div className="display-route flex h-screen w-screen items-center justify-center bg-[#1D1918]">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm px-6 text-center"
+      >
+        <div className="mb-2 text-2xl font-semibold text-white">
+          Enter Room Code
+        </div>
+        <div className="mb-6 text-sm text-neutral-400">
+          {accessError
+            ? `${accessError}.`
+            : missingRoomId
+              ? `Room ${formatRoomId(missingRoomId)} was not found. Check the code on the controller.`
+              : 'The room code is shown in the controller header.'}
+        </div>
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="XXX-XXX"
+          maxLength={7}
+          autoFocus
+          className="input-ctrl mb-4 h-12 w-full px-3 text-center font-mono text-2xl uppercase tracking-widest"
+        />
+        <button
+          type="submit"
+          disabled={!isValid}
+          className="btn-ctrl h-10 w-full text-base"
+        >
+          Connect
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import {
+  EmailAuthProvider,
+  createUserWithEmailAndPassword,
+  linkWithCredential,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  signInWithEmailAndPassword,
+  signOut,
+  updateProfile,
+  type User,
+} from 'firebase/auth';
+import { auth } from '../config/firebase';
+import { simpleFirebaseService } from './simpleFirebase';
+
+// The person using this device, as the UI needs them
+export interface Account {
+  uid: string;
+  email: string | null;
+  name: string; // Display name, or the email if none was given
+  isAnonymous: boolean; // Displays run without an account
+  emailVerified: boolean; // Needed to accept invitations
+}
+
+function toAccount(user: User | null): Account | null {
+  if (!user) return null;
+
+  return {
+    uid: user.uid,
+    email: user.email,
+    name: user.displayName || user.email || 'Anonymous',
+    isAnonymous: user.isAnonymous,
+    emailVerified: user.emailVerified,
+  };
+}
+
+// Firebase error codes an operator can act on
+const AUTH_ERRORS: Record<string, string> = {
+  'auth/invalid-email': 'That email address is not valid',
+  'auth/invalid-credential': 'Wrong email or password',
+  'auth/wrong-password': 'Wrong email or password',
+  'auth/user-not-found': 'No account uses that email',
+  'auth/email-already-in-use': 'An account already uses that email - sign in',
+  'auth/credential-already-in-use':
+    'An account already uses that email - sign in',
+  'auth/weak-password': 'Use a password of at least 6 characters',
+  'auth/too-many-requests': 'Too many attempts - try again in a few minutes',
+  'auth/network-request-failed': 'Could not reach the sign-in service',
+};
+
+function toAuthError(error: unknown): Error {
+  const code = (error as { code?: string })?.code;
+  return new Error(
+    (code && AUTH_ERRORS[code]) ||
+      (error instanceof Error ? error.message : 'Sign-in failed')
+  );
+}
+
+// Email and password accounts for controllers. Displays keep signing in
+// anonymously through simpleFirebaseService.
+export class AccountService {
+  private account: Account | null = toAccount(auth.currentUser);
+  private listeners: ((account: Account | null) => void)[] = [];
+  private ready = false;
+
+  constructor() {
+    auth.onAuthStateChanged((user) => {
+      this.ready = true;
+      this.update(user);
+    });
+  }
+
+  // Whether Firebase has restored (or ruled out) a saved session
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  getAccount(): Account | null {
+    return this.account;
+  }
+
+  subscribe(listener: (account: Account | null) => void): () => void {
+    this.listeners.push(listener);
+    listener(this.account);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  async signIn(email: string, password: string): Promise<void> {
+    try {
+      await signInWithEmailAndPassword(auth, email.trim(), password);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }
+
+  // An anonymous session is upgraded in place, so rooms it already owns stay
+  // with the new account
+  async signUp(name: string, email: string, password: string): Promise<void> {
+    try {
+      const current = auth.currentUser;
+      const { user } = current?.isAnonymous
+        ? await linkWithCredential(
+            current,
+            EmailAuthProvider.credential(email.trim(), password)
+          )
+        : await createUserWithEmailAndPassword(auth, email.trim(), password);
+
+      if (name.trim()) {
+        await updateProfile(user, { displayName: name.trim() });
+      }
+      await sendEmailVerification(user);
+      await this.refresh();
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }
+
+  async sendVerification(): Promise<void> {
+    if (!auth.currentUser) return;
+
+    try {
+      await sendEmailVerification(auth.currentUser);
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }
+
+  // Pick up a verified email (or a new name) and put it in the ID token the
+  // security rules see
+  async refresh(): Promise<void> {
+    const user = auth.currentUser;
+    if (!user) return;
+
+    await user.reload();
+    await user.getIdToken(true);
+    this.update(auth.currentUser);
+  }
+
+  async resetPassword(email: string): Promise<void> {
+    try {
+      await sendPasswordResetEmail(auth, email.trim());
+    } catch (error) {
+      throw toAuthError(error);
+    }
+  }
+
+  // Back to an anonymous session, like a display
+  async signOut(): Promise<void> {
+    await signOut(auth);
+    await simpleFirebaseService.authenticate();
+  }
+
+  private update(user: User | null): void {
+    this.account = toAccount(user);
+    this.listeners.forEach((listener) => listener(this.account));
+  }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,205 @@
+import type {
+  BridgeControllerMessage,
+  BridgeServerMessage,
+  BridgeStatus,
+  ControlCommand,
+  ControlState,
+} from '../types/control';
+import { toControlCommand } from '../utils/control';
+
+// Returns an error message, or null when the command worked
+export type ControlCommandHandler = (
+  command: ControlCommand
+) => string | null | Promise<string | null>;
+
+const RECONNECT_DELAYS = [1000, 2000, 5000, 10000];
+
+// Connects the controller page to the companion bridge (bridge/index.js) on
+// the LAN. Publishes the timer state and runs commands the bridge relays
+// from REST, WebSocket and OSC clients. Keeps retrying while enabled.
+export class BridgeService {
+  private socket: WebSocket | null = null;
+  private url: string | null = null;
+  private token = '';
+  private status: BridgeStatus = 'disabled';
+  private clientCount = 0;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastState: ControlState | null = null;
+  private commandHandler: ControlCommandHandler | null = null;
+  private listeners: ((status: BridgeStatus, clients: number) => void)[] = [];
+
+  // Connect (or reconnect) to a bridge, e.g. ws://192.168.1.20:8765
+  connect(url: string, token: string = ''): void {
+    this.disconnect();
+    this.url = url.replace(/\/+$/, '');
+    this.token = token;
+    this.open();
+  }
+
+  disconnect(): void {
+    this.url = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    this.clientCount = 0;
+    this.setStatus('disabled');
+  }
+
+  // Send the latest state, now or as soon as the bridge is reachable
+  publishState(state: ControlState): void {
+    this.lastState = state;
+    this.send({ type: 'state', state });
+  }
+
+  setCommandHandler(handler: ControlCommandHandler | null): void {
+    this.commandHandler = handler;
+  }
+
+  getStatus(): BridgeStatus {
+    return this.status;
+  }
+
+  getClientCount(): number {
+    return this.clientCount;
+  }
+
+  subscribe(
+    listener: (status: BridgeStatus, clients: number) => void
+  ): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private open(): void {
+    if (!this.url) return;
+
+    const query = this.token ? `?token=${encodeURIComponent(this.token)}` : '';
+    this.setStatus('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(`${this.url}/controller${query}`);
+    } catch {
+      this.setStatus('error'); // Not a valid address
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempt = 0;
+      this.setStatus('connected');
+      if (this.lastState) {
+        this.send({ type: 'state', state: this.lastState });
+      }
+    };
+
+    socket.onmessage = (event) => {
+      this.handleMessage(event.data);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.clientCount = 0;
+      this.setStatus('error');
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.url || this.reconnectTimer) return;
+
+    const delay =
+      RECONNECT_DELAYS[
+        Math.min(this.reconnectAttempt, RECONNECT_DELAYS.length - 1)
+      ];
+    this.reconnectAttempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private handleMessage(data: unknown): void {
+    let message: BridgeServerMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+
+    if (message.type === 'clients') {
+      this.clientCount = message.count;
+      this.notify();
+      return;
+    }
+
+    if (message.type === 'command') {
+      this.runCommand(message.id, message.command);
+    }
+
+    // OSC input arrives as app actions
+    if (message.type === 'action') {
+      const command = toControlCommand(message.action);
+      this.runCommand(
+        message.id,
+        command,
+        `${message.action.type} is not supported remotely`
+      );
+    }
+  }
+
+  private async runCommand(
+    id: string,
+    command: ControlCommand | null,
+    unsupportedError = 'Unsupported command'
+  ): Promise<void> {
+    let error: string | null;
+    try {
+      if (!command) {
+        error = unsupportedError;
+      } else {
+        error = this.commandHandler
+          ? await this.commandHandler(command)
+          : 'The controller is not ready';
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    this.send({
+      type: 'result',
+      id,
+      ok: error === null,
+      ...(error !== null && { error }),
+    });
+  }
+
+  private send(message: BridgeControllerMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private setStatus(status: BridgeStatus): void {
+    this.status = status;
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) =>
+      listener(this.status, this.clientCount)
+    );
+  }
+}
+
+export const bridgeService = new BridgeService();
@@ -0,0 +1,146 @@
+import type { DeviceInfo, SyncMessage, SyncTransport } from '../types/sync';
+import { validateSyncMessage } from '../types/sync';
+
+// What goes over the channel. Sync messages are wrapped with an address,
+// since every window in the room hears every post.
+type Envelope =
+  | { kind: 'announce'; from: string; to: string; role: DeviceInfo['role'] }
+  | { kind: 'leave'; from: string }
+  | { kind: 'message'; from: string; to: string; message: SyncMessage };
+
+/**
+ * Sync between windows of this browser - a laptop driving a projector as a
+ * second screen, say - over a BroadcastChannel per room. No network and no
+ * signalling: windows announce themselves and pair with the other role.
+ */
+export class BroadcastChannelService implements SyncTransport {
+  readonly method = 'broadcast';
+  private channel: BroadcastChannel;
+  private localDevice: DeviceInfo;
+  private peers: Set<string> = new Set();
+  private onMessage: (message: SyncMessage) => void;
+  private onPeerConnected: (peerId: string) => void;
+  private onPeerDisconnected: (peerId: string) => void;
+  private shouldConnect: (peerId: string) => boolean;
+
+  constructor(
+    roomId: string,
+    localDevice: DeviceInfo,
+    callbacks: {
+      onMessage: (message: SyncMessage) => void;
+      onPeerConnected: (peerId: string) => void;
+      onPeerDisconnected: (peerId: string) => void;
+      // Lets a display stay with the controller it already has
+      shouldConnect?: (peerId: string) => boolean;
+    }
+  ) {
+    this.localDevice = localDevice;
+    this.onMessage = callbacks.onMessage;
+    this.onPeerConnected = callbacks.onPeerConnected;
+    this.onPeerDisconnected = callbacks.onPeerDisconnected;
+    this.shouldConnect = callbacks.shouldConnect ?? (() => true);
+
+    this.channel = new BroadcastChannel(`stage-timer-sync-${roomId}`);
+    this.channel.onmessage = (event) => this.handleEnvelope(event.data);
+
+    // Closing a window skips React cleanup, so say goodbye here too
+    window.addEventListener('pagehide', this.handlePageHide);
+  }
+
+  // Ask every window in the room to introduce itself
+  announce(to: string = '*'): void {
+    this.post({
+      kind: 'announce',
+      from: this.localDevice.id,
+      to,
+      role: this.localDevice.role,
+    });
+  }
+
+  sendMessage(peerId: string, message: SyncMessage): boolean {
+    if (!this.peers.has(peerId)) return false;
+
+    this.post({
+      kind: 'message',
+      from: this.localDevice.id,
+      to: peerId,
+      message,
+    });
+    return true;
+  }
+
+  getConnectedPeers(): string[] {
+    return Array.from(this.peers);
+  }
+
+  disconnectPeer(peerId: string): void {
+    this.peers.delete(peerId);
+  }
+
+  destroy(): void {
+    window.removeEventListener('pagehide', this.handlePageHide);
+    this.post({ kind: 'leave', from: this.localDevice.id });
+    this.peers.clear();
+    this.channel.close();
+  }
+
+  static isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  }
+
+  private handlePageHide = () => {
+    this.post({ kind: 'leave', from: this.localDevice.id });
+  };
+
+  private post(envelope: Envelope): void {
+    try {
+      this.channel.postMessage(envelope);
+    } catch {
+      // The channel is closed - this window is going away
+    }
+  }
+
+  private handleEnvelope(envelope: Envelope): void {
+    if (!envelope || envelope.from === this.localDevice.id) return;
+
+    switch (envelope.kind) {
+      case 'announce': {
+        if (envelope.to !== '*' && envelope.to !== this.localDevice.id) return;
+
+        // Controllers pair with displays and nothing else
+        const isCounterpart =
+          envelope.role !== this.localDevice.role &&
+          envelope.role !== 'auto' &&
+          this.localDevice.role !== 'auto';
+        if (!isCounterpart) return;
+
+        const isKnown = this.peers.has(envelope.from);
+        if (!isKnown && !this.shouldConnect(envelope.from)) return;
+
+        // Answer a broadcast announce so the newcomer learns about us
+        if (envelope.to === '*') this.announce(envelope.from);
+
+        if (!isKnown) {
+          this.peers.add(envelope.from);
+          this.onPeerConnected(envelope.from);
+        }
+        break;
+      }
+
+      case 'leave':
+        if (this.peers.delete(envelope.from)) {
+          this.onPeerDisconnected(envelope.from);
+        }
+        break;
+
+      case 'message':
+        if (envelope.to !== this.localDevice.id) return;
+        if (!this.peers.has(envelope.from)) return;
+
+        if (validateSyncMessage(envelope.message)) {
+          this.onMessage(envelope.message);
+        }
+        break;
+    }
+  }
+}
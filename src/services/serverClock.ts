@@ -0,0 +1,156 @@
+import { simpleFirebaseService, type ServerTimeSample } from './simpleFirebase';
+
+// Where a clock sample came from
+export type ClockSampleSource = 'firestore' | 'heartbeat';
+
+export interface ClockSample {
+  offset: number; // server time minus local time, in ms
+  rtt: number; // round-trip time of the measurement, in ms
+  source: ClockSampleSource;
+  measuredAt: number; // local ms
+}
+
+export interface ClockSyncStatus {
+  offset: number;
+  rtt: number | null;
+  source: ClockSampleSource | null;
+  lastSyncedAt: number | null; // local ms
+  sampleCount: number;
+  isSyncing: boolean;
+}
+
+const MAX_SAMPLES = 12;
+const SAMPLES_PER_CALIBRATION = 5;
+const SAMPLE_MAX_AGE = 30 * 60 * 1000; // Ignore samples older than 30 minutes
+const DEFAULT_RESYNC_INTERVAL = 5 * 60 * 1000;
+
+// Keeps an estimate of Firestore server time so timer timelines written by the
+// controller resolve identically on every display, even on devices whose
+// system clocks are several seconds off.
+export class ServerClock {
+  private offset = 0;
+  private samples: ClockSample[] = [];
+  private calibrating: Promise<number> | null = null;
+  private resyncTimer: ReturnType<typeof setInterval> | null = null;
+  private listeners: ((status: ClockSyncStatus) => void)[] = [];
+
+  // Current server time estimate in ms
+  now(): number {
+    return Date.now() + this.offset;
+  }
+
+  // Record a round-trip measurement and update the offset estimate
+  addSample(sample: ServerTimeSample, source: ClockSampleSource): ClockSample {
+    // Assume the reference time was read halfway through the round-trip
+    const rtt = Math.max(0, sample.receivedAt - sample.sentAt);
+    const midpoint = sample.sentAt + rtt / 2;
+    const clockSample: ClockSample = {
+      offset: Math.round(sample.serverTime - midpoint),
+      rtt,
+      source,
+      measuredAt: sample.receivedAt,
+    };
+
+    this.samples = [...this.samples, clockSample].slice(-MAX_SAMPLES);
+    this.updateOffset();
+    return clockSample;
+  }
+
+  // Take a few Firestore round-trips and keep the best one
+  calibrate(sampleCount: number = SAMPLES_PER_CALIBRATION): Promise<number> {
+    if (this.calibrating) return this.calibrating;
+
+    this.calibrating = (async () => {
+      try {
+        for (let i = 0; i < sampleCount; i++) {
+          const sample = await simpleFirebaseService.measureServerTime();
+          this.addSample(sample, 'firestore');
+        }
+      } catch {
+        // Keep the offset from the samples we already have
+      } finally {
+        this.calibrating = null;
+        this.notify();
+      }
+      return this.offset;
+    })();
+    this.notify();
+
+    return this.calibrating;
+  }
+
+  // Recalibrate periodically so long-running displays don't drift
+  startAutoResync(intervalMs: number = DEFAULT_RESYNC_INTERVAL): void {
+    this.stopAutoResync();
+    this.calibrate();
+    this.resyncTimer = setInterval(() => this.calibrate(), intervalMs);
+  }
+
+  stopAutoResync(): void {
+    if (this.resyncTimer) {
+      clearInterval(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+  }
+
+  // Subscribe to offset changes
+  subscribe(callback: (status: ClockSyncStatus) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      const index = this.listeners.indexOf(callback);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  getStatus(): ClockSyncStatus {
+    const best = this.getBestSample();
+    const latest = this.samples[this.samples.length - 1];
+
+    return {
+      offset: this.offset,
+      rtt: best?.rtt ?? null,
+      source: best?.source ?? null,
+      lastSyncedAt: latest?.measuredAt ?? null,
+      sampleCount: this.samples.length,
+      isSyncing: this.calibrating !== null,
+    };
+  }
+
+  get offsetMs(): number {
+    return this.offset;
+  }
+
+  get isCalibrated(): boolean {
+    return this.samples.length > 0;
+  }
+
+  // The sample with the lowest round-trip has the smallest possible error
+  private getBestSample(): ClockSample | null {
+    const cutoff = Date.now() - SAMPLE_MAX_AGE;
+    const recent = this.samples.filter((s) => s.measuredAt >= cutoff);
+    const candidates = recent.length > 0 ? recent : this.samples;
+
+    return candidates.reduce<ClockSample | null>(
+      (best, s) => (!best || s.rtt < best.rtt ? s : best),
+      null
+    );
+  }
+
+  private updateOffset(): void {
+    const best = this.getBestSample();
+    if (best) {
+      this.offset = best.offset;
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach((callback) => callback(status));
+  }
+}
+
+// Export singleton instance
+export const serverClock = new ServerClock();
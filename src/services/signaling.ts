@@ -0,0 +1,217 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  query,
+  setDoc,
+  where,
+  type Unsubscribe,
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import { serverClock } from './serverClock';
+import type { DeviceRole } from '../types/sync';
+
+// WebRTC needs the two sides to swap an offer, an answer and their ICE
+// candidates before the data channel opens. These channels carry them.
+// A signal as sent - the channel fills in who it's from.
+export type OutgoingSignal = {
+  to: string; // Device id, or '*' for everyone in the room
+  role?: DeviceRole; // Missing on the local server's 'bye'
+} & (
+  | { type: 'hello' | 'bye' }
+  | { type: 'offer' | 'answer'; data: string } // Session description, base64
+  | { type: 'candidate'; data: RTCIceCandidateInit }
+);
+
+export type SignalMessage = OutgoingSignal & {
+  from: string; // Device id of the sender
+};
+
+export type SignalType = SignalMessage['type'];
+
+export type SignalingKind = 'firestore' | 'local';
+
+export interface SignalingHandlers {
+  onSignal: (signal: SignalMessage) => void;
+  onReady: () => void; // Called on every (re)connect - say hello here
+}
+
+export interface SignalingChannel {
+  readonly kind: SignalingKind;
+  open(handlers: SignalingHandlers): void;
+  send(signal: OutgoingSignal): Promise<void>;
+  close(): void;
+}
+
+const SIGNALS_COLLECTION = 'signals';
+const SIGNAL_TTL = 60 * 1000; // Older signals are from devices long gone
+const RECONNECT_DELAY = 3000;
+
+/**
+ * Signalling through `rooms/{roomId}/signals`. Hellos are one document per
+ * device, overwritten on each hello; everything else is addressed to one
+ * device, which deletes it once read.
+ */
+export class FirestoreSignaling implements SignalingChannel {
+  readonly kind = 'firestore';
+  private roomId: string;
+  private deviceId: string;
+  private unsubscribe: Unsubscribe | null = null;
+
+  constructor(roomId: string, deviceId: string) {
+    this.roomId = roomId;
+    this.deviceId = deviceId;
+  }
+
+  open({ onSignal, onReady }: SignalingHandlers): void {
+    const signals = collection(db, 'rooms', this.roomId, SIGNALS_COLLECTION);
+
+    this.unsubscribe = onSnapshot(
+      query(signals, where('to', 'in', [this.deviceId, '*'])),
+      (snapshot) => {
+        snapshot.docChanges().forEach((change) => {
+          if (change.type === 'removed') return;
+
+          const { sentAt, ...signal } = change.doc.data();
+          if (signal.from === this.deviceId) return;
+
+          if (signal.to !== '*') {
+            deleteDoc(change.doc.ref).catch(() => {});
+          }
+          if (serverClock.now() - sentAt < SIGNAL_TTL) {
+            onSignal(signal as SignalMessage);
+          }
+        });
+      },
+      // Peers fall back to syncing through the room document
+      () => {}
+    );
+
+    onReady();
+  }
+
+  async send(signal: OutgoingSignal): Promise<void> {
+    const data = {
+      type: signal.type,
+      from: this.deviceId,
+      to: signal.to,
+      role: signal.role ?? null,
+      data: 'data' in signal ? signal.data : null,
+      sentAt: serverClock.now(),
+    };
+
+    if (signal.to === '*') {
+      await setDoc(this.helloRef(), data);
+    } else {
+      await addDoc(
+        collection(db, 'rooms', this.roomId, SIGNALS_COLLECTION),
+        data
+      );
+    }
+  }
+
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    deleteDoc(this.helloRef()).catch(() => {});
+  }
+
+  private helloRef() {
+    return doc(
+      db,
+      'rooms',
+      this.roomId,
+      SIGNALS_COLLECTION,
+      `hello-${this.deviceId}`
+    );
+  }
+}
+
+/**
+ * Signalling through the control bridge's /signal endpoint, so devices on
+ * the same network can connect with no internet at all
+ */
+export class LocalSignaling implements SignalingChannel {
+  readonly kind = 'local';
+  private url: string; // ws://host:port of the bridge, token included
+  private roomId: string;
+  private deviceId: string;
+  private socket: WebSocket | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(url: string, roomId: string, deviceId: string) {
+    this.url = url;
+    this.roomId = roomId;
+    this.deviceId = deviceId;
+  }
+
+  open(handlers: SignalingHandlers): void {
+    this.closed = false;
+    this.connect(handlers);
+  }
+
+  async send(signal: OutgoingSignal): Promise<void> {
+    if (this.socket?.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify({ ...signal, from: this.deviceId }));
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect(handlers: SignalingHandlers): void {
+    let target: URL;
+    try {
+      target = new URL(this.url);
+    } catch {
+      return; // Not a valid address - peers sync through Firebase instead
+    }
+    target.pathname = '/signal';
+    target.searchParams.set('room', this.roomId);
+    target.searchParams.set('device', this.deviceId);
+
+    const socket = new WebSocket(target.toString());
+    this.socket = socket;
+
+    socket.onopen = () => handlers.onReady();
+
+    socket.onmessage = (event) => {
+      try {
+        handlers.onSignal(JSON.parse(event.data));
+      } catch {
+        // Not a signal - ignore it
+      }
+    };
+
+    // The bridge may start after the page, or restart mid-show
+    socket.onclose = () => {
+      if (this.closed || this.socket !== socket) return;
+      this.reconnectTimeout = setTimeout(
+        () => this.connect(handlers),
+        RECONNECT_DELAY
+      );
+    };
+  }
+}
+
+/**
+ * A local signalling server when one is given, Firestore otherwise
+ */
+export function createSignalingChannel(
+  roomId: string,
+  deviceId: string,
+  localUrl?: string | null
+): SignalingChannel {
+  return localUrl
+    ? new LocalSignaling(localUrl, roomId, deviceId)
+    : new FirestoreSignaling(roomId, deviceId);
+}
@@ -1,18 +1,40 @@
 import {
+  collection,
   doc,
+  query,
+  orderBy,
   setDoc,
   getDoc,
+  getDocs,
+  deleteDoc,
+  getDocFromServer,
   onSnapshot,
   updateDoc,
+  where,
+  addDoc,
+  writeBatch,
+  runTransaction,
+  FieldPath,
   serverTimestamp,
   Timestamp,
+  type DocumentData,
   type Unsubscribe,
 } from 'firebase/firestore';
 import { signInAnonymously, type User } from 'firebase/auth';
 import { db, auth } from '../config/firebase';
-import type { TimerCollection, Message, AppSettings } from '../types';
+import { generateRoomId, generateRoomKey } from '../utils/room';
+import { serverClock } from './serverClock';
+import { WriteQueue, type QueuedWrite, type WriteOutcome } from './writeQueue';
+import type {
+  Timer,
+  TimerCollection,
+  Message,
+  AppSettings,
+  Show,
+} from '../types';
+import { applyTimerChanges, type TimerChanges } from '../utils/timerSync';
 
-// Simple shared data structure - no sessions needed!
+// Shared data structure - one document per room
 export interface SharedTimerData {
   timers: TimerCollection;
   currentMessage: Message | null;
@@ -22,6 +44,144 @@ export interface SharedTimerData {
   flashMode: boolean;
   lastUpdated: Timestamp;
   controllerActive: boolean;
+  // Server time each field was last changed, so a write replayed after an
+  // outage can't overwrite a newer change from another operator
+  fieldTimes?: Partial<Record<QueuedField, number>>;
+  timerTimes?: Record<string, number>; // The same, per timer id
+}
+
+// Fields controllers write
+export type SharedField = keyof Omit<
+  SharedTimerData,
+  'lastUpdated' | 'controllerActive' | 'fieldTimes' | 'timerTimes'
+>;
+
+// What a queued write can change. Timers are written one at a time (keyed by
+// id) and the active timer on its own, so operators working on different
+// timers don't overwrite each other.
+export type QueuedField = SharedField | 'activeTimerId';
+
+// The value another operator's newer change left in place of a queued one
+export type RoomConflict =
+  | { field: 'timers'; key: string; value: Timer | null }
+  | { field: 'activeTimerId'; key?: undefined; value: string | null }
+  | {
+      [F in SharedField]: {
+        field: F;
+        key?: undefined;
+        value: SharedTimerData[F];
+      };
+    }[SharedField];
+
+// Room metadata stored alongside the shared data
+export interface RoomInfo {
+  id: string;
+  name: string;
+  createdAt: Timestamp | null;
+}
+
+type RoomDocument = SharedTimerData & {
+  name: string;
+  createdAt: Timestamp;
+  ownerId?: string; // Missing on rooms created before ownership existed
+};
+
+// What a user may do in a room. Owners and operators control it, viewers
+// and displays only read it.
+export type RoomRole = 'owner' | 'operator' | 'viewer' | 'display';
+
+// Roles an owner can invite an account as
+export type InviteRole = 'operator' | 'viewer';
+
+// Keys carried in links (?key=) that let someone join a room without an
+// account
+export interface RoomKeys {
+  display: string;
+  submit: string; // Q&A - may only add to the submissions subcollection
+}
+
+export interface RoomMember {
+  uid: string;
+  role: RoomRole;
+  email: string | null; // Displays join without an account
+  name: string | null;
+  joinedAt: Timestamp | null;
+}
+
+// An invitation waiting for someone to sign in with this email
+export interface RoomInvite {
+  email: string;
+  role: InviteRole;
+  createdAt: Timestamp | null;
+}
+
+// An operator with the controller open, and the timer they're working on
+export interface RoomPresence {
+  id: string; // One per open controller window
+  uid: string;
+  name: string;
+  selectedTimerId: string | null;
+  editingTimerId: string | null; // Soft lock while a timer's settings are open
+  lastSeen: number; // Server time (ms) of the last heartbeat
+}
+
+export type PresenceState = Pick<
+  RoomPresence,
+  'name' | 'selectedTimerId' | 'editingTimerId'
+>;
+
+// What a display shows instead of the room's default screen
+export type DisplayLayout = 'standard' | 'timer' | 'clock';
+
+const DISPLAY_LAYOUTS: DisplayLayout[] = ['standard', 'timer', 'clock'];
+
+// A controller's choices for one display. Null follows the room.
+export interface DisplayAssignment {
+  timerId: string | null; // A timer to show instead of the active one
+  layout: DisplayLayout | null;
+  blackout: boolean | null;
+}
+
+// A display that has opened this room, as it last reported itself, plus
+// what controllers have asked of it
+export interface RoomDisplay {
+  id: string; // Device id, kept across reloads
+  uid: string;
+  name: string; // What the display calls itself
+  label: string | null; // Name given by a controller, shown instead
+  resolution: string; // Screen size, e.g. "1920×1080"
+  appVersion: string;
+  lastSeen: number; // Server time (ms) of the last heartbeat
+  identifyAt: number | null; // Server time a controller asked it to flash
+  assignment: DisplayAssignment | null;
+}
+
+export type DisplayReport = Pick<
+  RoomDisplay,
+  'name' | 'resolution' | 'appVersion'
+>;
+
+// Thrown when the security rules turn the current user away from a room
+export class RoomAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoomAccessError';
+  }
+}
+
+function isPermissionDenied(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as { code?: string }).code === 'permission-denied'
+  );
+}
+
+// One server timestamp round-trip, used to estimate the local clock offset
+export interface ServerTimeSample {
+  serverTime: number; // ms, as assigned by Firestore
+  sentAt: number; // local ms before the write
+  receivedAt: number; // local ms once the write was acknowledged
 }
 
 // Connection status
@@ -34,28 +194,63 @@ export type ConnectionStatus =
 export class SimpleFirebaseService {
   private user: User | null = null;
   private unsubscribeData: Unsubscribe | null = null;
+  private unsubscribeOnline: Unsubscribe | null = null;
   private connectionStatus: ConnectionStatus = 'disconnected';
   private statusCallbacks: ((status: ConnectionStatus) => void)[] = [];
   private dataCallbacks: ((data: SharedTimerData) => void)[] = [];
+  private conflictCallbacks: ((conflict: RoomConflict) => void)[] = [];
+  private writeQueue = new WriteQueue((entry) => this.writeQueued(entry));
+  private roomId: string | null = null;
+  private roomRole: RoomRole | null = null; // Set once joinRoom succeeds
+  private readonly presenceId = crypto.randomUUID();
+  private presenceRoomId: string | null = null; // Room our presence is in
 
-  // Use a fixed document ID - simple!
-  private readonly SHARED_DOC_ID = 'shared-timer-data';
+  // Every room is one document in this collection
+  private readonly ROOMS_COLLECTION = 'rooms';
+  // Scratch documents (one per user) for server time round-trips
+  private readonly CLOCK_COLLECTION = 'clockSync';
+  // Saved shows, each readable only by the account that saved it
+  private readonly SHOWS_COLLECTION = 'shows';
+  // Per-room subcollections
+  private readonly MEMBERS_COLLECTION = 'members';
+  private readonly INVITES_COLLECTION = 'invites';
+  private readonly PRIVATE_COLLECTION = 'private';
+  private readonly SUBMISSIONS_COLLECTION = 'submissions';
+  private readonly PRESENCE_COLLECTION = 'presence';
+  private readonly DISPLAYS_COLLECTION = 'displays';
 
   constructor() {
     // Listen for auth state changes
     auth.onAuthStateChanged((user) => {
+      // Memberships belong to the user, so a different one has to rejoin
+      if (user?.uid !== this.user?.uid) {
+        this.disconnect();
+        this.roomRole = null;
+      }
       this.user = user;
+      this.writeQueue.setUser(user?.uid ?? null);
       if (user) {
         this.setConnectionStatus('connected');
-        this.startListening();
+        if (this.roomId && this.roomRole) {
+          this.startListening();
+        }
       } else {
         this.setConnectionStatus('disconnected');
       }
     });
+
+    // The room listener confirms the server is really reachable
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.writeQueue.setOnline(true));
+    }
   }
 
   // Authentication
+  // Falls back to an anonymous session (what displays use) when nobody has
+  // signed in with an account
   async authenticate(): Promise<User> {
+    // Wait for a saved session to load so it isn't replaced
+    await auth.authStateReady();
     if (this.user) return this.user;
 
     this.setConnectionStatus('connecting');
@@ -73,11 +268,335 @@ export class SimpleFirebaseService {
     }
   }
 
+  // Switch the room this service reads from and writes to. Nothing is read
+  // until joinRoom has confirmed access.
+  setRoom(roomId: string | null): void {
+    if (roomId === this.roomId) return;
+
+    this.disconnect();
+    this.roomId = roomId;
+    this.roomRole = null;
+  }
+
+  // Make sure the current user may use a room - accepting an invitation, or
+  // redeeming a display link key - then start listening. Resolves to null if
+  // the room does not exist; throws RoomAccessError if the user isn't allowed
+  // in.
+  async joinRoom(
+    roomId: string,
+    as: 'controller' | 'display',
+    key?: string | null
+  ): Promise<RoomRole | null> {
+    const user = await this.authenticate();
+    const memberRef = doc(
+      db,
+      this.ROOMS_COLLECTION,
+      roomId,
+      this.MEMBERS_COLLECTION,
+      user.uid
+    );
+
+    const member = await getDoc(memberRef);
+    let role = member.exists() ? (member.get('role') as RoomRole) : null;
+
+    // Accounts may have been invited (a display on this device can be
+    // upgraded the same way)
+    if (as === 'controller' && (!role || role === 'display')) {
+      const invited = await this.acceptInvite(roomId, user, role !== null);
+      if (invited) role = invited;
+    }
+
+    if (!role && key && as === 'display') {
+      try {
+        await setDoc(memberRef, {
+          role: 'display',
+          key,
+          joinedAt: serverTimestamp(),
+        });
+        role = 'display';
+      } catch (error) {
+        if (isPermissionDenied(error)) {
+          throw new RoomAccessError('This display link is not valid any more');
+        }
+        throw error;
+      }
+    }
+
+    if (!role) {
+      role = await this.resolveUnownedRoom(roomId, as);
+      if (!role) return null;
+    }
+
+    if (roomId === this.roomId) {
+      this.roomRole = role;
+      this.startListening();
+    }
+    return role;
+  }
+
+  // Turn an invitation for the user's verified email into a membership
+  private async acceptInvite(
+    roomId: string,
+    user: User,
+    replaceMembership: boolean
+  ): Promise<InviteRole | null> {
+    if (!user.email || !user.emailVerified) return null;
+
+    const inviteSnap = await getDoc(
+      doc(
+        db,
+        this.ROOMS_COLLECTION,
+        roomId,
+        this.INVITES_COLLECTION,
+        user.email.toLowerCase()
+      )
+    ).catch(() => null);
+    if (!inviteSnap?.exists()) return null;
+
+    const role = inviteSnap.get('role') as InviteRole;
+    const memberRef = doc(
+      db,
+      this.ROOMS_COLLECTION,
+      roomId,
+      this.MEMBERS_COLLECTION,
+      user.uid
+    );
+    if (replaceMembership) await deleteDoc(memberRef);
+    await setDoc(memberRef, {
+      role,
+      email: user.email.toLowerCase(),
+      name: user.displayName || null,
+      joinedAt: serverTimestamp(),
+    });
+    return role;
+  }
+
+  // Without membership or a key, only rooms from before ownership existed
+  // can be opened - controllers claim them, displays just read them
+  private async resolveUnownedRoom(
+    roomId: string,
+    as: 'controller' | 'display'
+  ): Promise<RoomRole | null> {
+    const user = await this.authenticate();
+    const roomRef = doc(db, this.ROOMS_COLLECTION, roomId);
+
+    let roomSnap;
+    try {
+      roomSnap = await getDoc(roomRef);
+    } catch (error) {
+      if (isPermissionDenied(error)) {
+        throw new RoomAccessError(
+          as === 'controller'
+            ? 'Ask the room owner to invite your email address'
+            : 'Open the display link from the controller'
+        );
+      }
+      throw error;
+    }
+    if (!roomSnap.exists()) return null;
+    if (as === 'display') return 'display';
+
+    const batch = writeBatch(db);
+    batch.update(roomRef, { ownerId: user.uid });
+    this.addOwnerWrites(batch, roomId, user);
+    await batch.commit();
+    return 'owner';
+  }
+
+  // The owner's membership and the room's join keys, written with the room
+  private addOwnerWrites(
+    batch: ReturnType<typeof writeBatch>,
+    roomId: string,
+    user: User
+  ): void {
+    batch.set(
+      doc(db, this.ROOMS_COLLECTION, roomId, this.MEMBERS_COLLECTION, user.uid),
+      {
+        role: 'owner',
+        email: user.email?.toLowerCase() ?? null,
+        name: user.displayName || null,
+        joinedAt: serverTimestamp(),
+      }
+    );
+    const keys: RoomKeys = {
+      display: generateRoomKey(),
+      submit: generateRoomKey(),
+    };
+    batch.set(
+      doc(db, this.ROOMS_COLLECTION, roomId, this.PRIVATE_COLLECTION, 'keys'),
+      keys
+    );
+  }
+
+  // Join keys of the current room, for building links (controllers only)
+  async getRoomKeys(): Promise<RoomKeys | null> {
+    const docRef = this.getRoomDocRef();
+    const docSnap = await getDoc(doc(docRef, this.PRIVATE_COLLECTION, 'keys'));
+    return docSnap.exists() ? (docSnap.data() as RoomKeys) : null;
+  }
+
+  // People in the current room (controllers, viewers and displays)
+  async listMembers(): Promise<RoomMember[]> {
+    const snapshot = await getDocs(
+      query(
+        collection(this.getRoomDocRef(), this.MEMBERS_COLLECTION),
+        orderBy('joinedAt')
+      )
+    );
+    return snapshot.docs.map((docSnap) => ({
+      uid: docSnap.id,
+      role: docSnap.get('role') as RoomRole,
+      email: docSnap.get('email') ?? null,
+      name: docSnap.get('name') ?? null,
+      joinedAt: docSnap.get('joinedAt') ?? null,
+    }));
+  }
+
+  // Invitations nobody has accepted yet (owner only)
+  async listInvites(): Promise<RoomInvite[]> {
+    const snapshot = await getDocs(
+      collection(this.getRoomDocRef(), this.INVITES_COLLECTION)
+    );
+    return snapshot.docs.map((docSnap) => ({
+      email: docSnap.id,
+      role: docSnap.get('role') as InviteRole,
+      createdAt: docSnap.get('createdAt') ?? null,
+    }));
+  }
+
+  // Invite an account by email - it joins the next time that person opens
+  // the room signed in with a verified address (owner only)
+  async inviteMember(email: string, role: InviteRole): Promise<void> {
+    const user = await this.authenticate();
+    const address = email.trim().toLowerCase();
+
+    await setDoc(doc(this.getRoomDocRef(), this.INVITES_COLLECTION, address), {
+      email: address,
+      role,
+      invitedBy: user.uid,
+      createdAt: serverTimestamp(),
+    });
+  }
+
+  async revokeInvite(email: string): Promise<void> {
+    await deleteDoc(doc(this.getRoomDocRef(), this.INVITES_COLLECTION, email));
+  }
+
+  // Move someone between operator and viewer (owner only)
+  async setMemberRole(uid: string, role: InviteRole): Promise<void> {
+    await updateDoc(doc(this.getRoomDocRef(), this.MEMBERS_COLLECTION, uid), {
+      role,
+    });
+  }
+
+  // Remove someone from the room, along with their invitation so they can't
+  // rejoin (owner only)
+  async removeMember(member: RoomMember): Promise<void> {
+    const batch = writeBatch(db);
+    batch.delete(
+      doc(this.getRoomDocRef(), this.MEMBERS_COLLECTION, member.uid)
+    );
+    if (member.email) {
+      batch.delete(
+        doc(this.getRoomDocRef(), this.INVITES_COLLECTION, member.email)
+      );
+    }
+    await batch.commit();
+  }
+
+  // Add a Q&A message to a room's submissions - the only write the submit
+  // key allows
+  async submitMessage(
+    roomId: string,
+    key: string,
+    text: string,
+    author = ''
+  ): Promise<void> {
+    await this.authenticate();
+
+    await addDoc(
+      collection(
+        db,
+        this.ROOMS_COLLECTION,
+        roomId,
+        this.SUBMISSIONS_COLLECTION
+      ),
+      {
+        text: text.trim(),
+        author: author.trim(),
+        key,
+        createdAt: serverTimestamp(),
+      }
+    );
+  }
+
+  // Create a new room document (controller only)
+  async createRoom(
+    name: string,
+    data: Omit<SharedTimerData, 'lastUpdated' | 'controllerActive'>
+  ): Promise<string> {
+    const user = await this.authenticate();
+
+    // Retry on the (unlikely) event of a code collision
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const roomId = generateRoomId();
+      const docRef = doc(db, this.ROOMS_COLLECTION, roomId);
+      const existing = await getDoc(docRef);
+      if (existing.exists()) continue;
+
+      const batch = writeBatch(db);
+      batch.set(docRef, {
+        ...this.cleanData(data),
+        name: name.trim() || 'Untitled Room',
+        ownerId: user.uid,
+        createdAt: serverTimestamp(),
+        lastUpdated: serverTimestamp(),
+        controllerActive: true,
+      });
+      this.addOwnerWrites(batch, roomId, user);
+      await batch.commit();
+      return roomId;
+    }
+
+    throw new Error('Could not allocate a unique room code');
+  }
+
+  // Look up a room's metadata, or null if the room does not exist
+  async getRoomInfo(roomId: string): Promise<RoomInfo | null> {
+    await this.authenticate();
+
+    let docSnap;
+    try {
+      docSnap = await getDoc(doc(db, this.ROOMS_COLLECTION, roomId));
+    } catch (error) {
+      if (isPermissionDenied(error)) {
+        throw new RoomAccessError(
+          'Ask the room owner to invite your email address to this room'
+        );
+      }
+      throw error;
+    }
+    if (!docSnap.exists()) return null;
+
+    const data = docSnap.data() as Partial<RoomDocument>;
+    return {
+      id: roomId,
+      name: data.name || 'Untitled Room',
+      createdAt: data.createdAt ?? null,
+    };
+  }
+
+  // Rename the current room
+  async renameRoom(name: string): Promise<void> {
+    const docRef = this.getRoomDocRef();
+    await updateDoc(docRef, { name: name.trim() || 'Untitled Room' });
+  }
+
   // Fetch existing data from Firebase (if any)
   async fetchExistingData(): Promise<SharedTimerData | null> {
     await this.authenticate();
 
-    const docRef = doc(db, 'timer-data', this.SHARED_DOC_ID);
+    const docRef = this.getRoomDocRef();
 
     try {
       console.log('🔍 Fetching existing data from Firebase...');
@@ -103,7 +622,7 @@ export class SimpleFirebaseService {
   ): Promise<void> {
     await this.authenticate();
 
-    const docRef = doc(db, 'timer-data', this.SHARED_DOC_ID);
+    const docRef = this.getRoomDocRef();
 
     try {
       console.log('🚀 Initializing shared timer data...');
@@ -111,11 +630,15 @@ export class SimpleFirebaseService {
       // Clean the data to remove undefined values
       const cleanedData = this.cleanData(data);
 
-      await setDoc(docRef, {
-        ...cleanedData,
-        lastUpdated: serverTimestamp(),
-        controllerActive: true,
-      });
+      await setDoc(
+        docRef,
+        {
+          ...cleanedData,
+          lastUpdated: serverTimestamp(),
+          controllerActive: true,
+        },
+        { merge: true }
+      );
       console.log('✅ Shared data initialized successfully');
     } catch (error) {
       console.error('❌ Failed to initialize data:', error);
@@ -124,11 +647,229 @@ export class SimpleFirebaseService {
     }
   }
 
+  // Write a server timestamp and read it back to see what time Firestore thinks it is
+  async measureServerTime(): Promise<ServerTimeSample> {
+    const user = await this.authenticate();
+    const docRef = doc(db, this.CLOCK_COLLECTION, user.uid);
+
+    const sentAt = Date.now();
+    await setDoc(docRef, { at: serverTimestamp() });
+    const receivedAt = Date.now();
+
+    const docSnap = await getDocFromServer(docRef);
+    const at = docSnap.get('at') as Timestamp | null | undefined;
+    if (!at) {
+      throw new Error('Server timestamp was not returned');
+    }
+
+    return { serverTime: at.toMillis(), sentAt, receivedAt };
+  }
+
+  // Shows - saved outside any room so they can be loaded into any of them.
+  // Each account only sees the shows it saved.
+  async listShows(): Promise<Show[]> {
+    const user = await this.authenticate();
+
+    const snapshot = await getDocs(
+      query(
+        collection(db, this.SHOWS_COLLECTION),
+        where('ownerId', '==', user.uid)
+      )
+    );
+    return snapshot.docs.map((docSnap) => docSnap.data() as Show);
+  }
+
+  async saveShow(show: Show): Promise<void> {
+    const user = await this.authenticate();
+
+    await setDoc(doc(db, this.SHOWS_COLLECTION, show.id), {
+      ...this.cleanData(show),
+      ownerId: user.uid, // Only the saver can overwrite or delete it
+    });
+  }
+
+  async deleteShow(showId: string): Promise<void> {
+    await this.authenticate();
+
+    await deleteDoc(doc(db, this.SHOWS_COLLECTION, showId));
+  }
+
+  // Presence - who else has this room's controller open. Each window keeps
+  // its own document fresh with a heartbeat and removes it on the way out.
+  async updatePresence(state: PresenceState): Promise<void> {
+    if (!this.user || !this.roomId) return;
+
+    this.presenceRoomId = this.roomId;
+    await setDoc(this.presenceRef(this.roomId), {
+      uid: this.user.uid,
+      ...state,
+      lastSeen: serverClock.now(),
+    });
+  }
+
+  async clearPresence(): Promise<void> {
+    if (!this.presenceRoomId) return;
+
+    const roomId = this.presenceRoomId;
+    this.presenceRoomId = null;
+    await deleteDoc(this.presenceRef(roomId));
+  }
+
+  // Everyone else's presence in the current room, stale entries included
+  subscribePresence(callback: (presence: RoomPresence[]) => void): Unsubscribe {
+    return onSnapshot(
+      collection(this.getRoomDocRef(), this.PRESENCE_COLLECTION),
+      (snapshot) =>
+        callback(
+          snapshot.docs
+            .filter((d) => d.id !== this.presenceId)
+            .map((d) => ({ id: d.id, ...d.data() }) as RoomPresence)
+        ),
+      // The room listener already reports a lost connection
+      () => {}
+    );
+  }
+
+  private presenceRef(roomId: string) {
+    return doc(
+      db,
+      this.ROOMS_COLLECTION,
+      roomId,
+      this.PRESENCE_COLLECTION,
+      this.presenceId
+    );
+  }
+
+  // Display registry - each display keeps a document about itself fresh, and
+  // controllers rename, identify and assign through the same document
+  async reportDisplay(deviceId: string, report: DisplayReport): Promise<void> {
+    if (!this.user || !this.roomId) return;
+
+    await setDoc(
+      this.displayRef(deviceId),
+      { uid: this.user.uid, ...report, lastSeen: serverClock.now() },
+      { merge: true }
+    );
+  }
+
+  // This display's own document, or null once a controller forgets it
+  subscribeDisplay(
+    deviceId: string,
+    callback: (display: RoomDisplay | null) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      this.displayRef(deviceId),
+      (snapshot) =>
+        callback(
+          snapshot.exists()
+            ? this.toRoomDisplay(snapshot.id, snapshot.data())
+            : null
+        ),
+      // The display keeps showing its last assignment meanwhile
+      () => {}
+    );
+  }
+
+  // Every display that has reported into the current room, offline ones too
+  subscribeDisplays(callback: (displays: RoomDisplay[]) => void): Unsubscribe {
+    return onSnapshot(
+      collection(this.getRoomDocRef(), this.DISPLAYS_COLLECTION),
+      (snapshot) =>
+        callback(snapshot.docs.map((d) => this.toRoomDisplay(d.id, d.data()))),
+      // The list keeps its last state until the connection is back
+      () => {}
+    );
+  }
+
+  async renameDisplay(deviceId: string, label: string): Promise<void> {
+    await updateDoc(this.displayRef(deviceId), {
+      label: label.trim() || null,
+    });
+  }
+
+  // Ask a display to flash its name so it can be found in the room
+  async identifyDisplay(deviceId: string): Promise<void> {
+    await updateDoc(this.displayRef(deviceId), {
+      identifyAt: serverClock.now(),
+    });
+  }
+
+  async assignDisplay(
+    deviceId: string,
+    assignment: DisplayAssignment
+  ): Promise<void> {
+    await updateDoc(this.displayRef(deviceId), { assignment });
+  }
+
+  async forgetDisplay(deviceId: string): Promise<void> {
+    await deleteDoc(this.displayRef(deviceId));
+  }
+
+  private displayRef(deviceId: string) {
+    return doc(this.getRoomDocRef(), this.DISPLAYS_COLLECTION, deviceId);
+  }
+
+  // Fields controllers haven't written yet are missing from the document,
+  // and anything of the wrong type is treated as missing
+  private toRoomDisplay(id: string, data: DocumentData): RoomDisplay {
+    const text = (value: unknown) => (typeof value === 'string' ? value : null);
+    const time = (value: unknown) => (typeof value === 'number' ? value : null);
+
+    return {
+      id,
+      uid: text(data.uid) ?? '',
+      name: text(data.name) ?? 'Display',
+      label: text(data.label),
+      resolution: text(data.resolution) ?? '',
+      appVersion: text(data.appVersion) ?? '',
+      lastSeen: time(data.lastSeen) ?? 0,
+      identifyAt: time(data.identifyAt),
+      assignment: this.toDisplayAssignment(data.assignment),
+    };
+  }
+
+  private toDisplayAssignment(value: unknown): DisplayAssignment | null {
+    if (typeof value !== 'object' || value === null) return null;
+
+    const { timerId, layout, blackout } = value as DocumentData;
+    return {
+      timerId: typeof timerId === 'string' ? timerId : null,
+      layout: DISPLAY_LAYOUTS.includes(layout) ? layout : null,
+      blackout: typeof blackout === 'boolean' ? blackout : null,
+    };
+  }
+
   // Update specific fields
   async updateTimers(timers: TimerCollection): Promise<void> {
     return this.updateData({ timers });
   }
 
+  // Write only the timers that changed, and the active timer if it did
+  async updateTimerChanges(changes: TimerChanges): Promise<void> {
+    if (!this.roomId) {
+      throw new Error('No room selected');
+    }
+
+    const changedAt = serverClock.now();
+    for (const [timerId, timer] of Object.entries(changes.timers)) {
+      this.writeQueue.enqueue({
+        roomId: this.roomId,
+        field: 'timers',
+        key: timerId,
+        value: this.cleanData(timer),
+        changedAt,
+      });
+    }
+    if (changes.activeTimerId !== undefined) {
+      this.writeQueue.enqueue({
+        roomId: this.roomId,
+        field: 'activeTimerId',
+        value: changes.activeTimerId,
+        changedAt,
+      });
+    }
+  }
+
   async updateCurrentMessage(currentMessage: Message | null): Promise<void> {
     return this.updateData({ currentMessage });
   }
@@ -172,30 +913,125 @@ export class SimpleFirebaseService {
     return obj;
   }
 
-  // Generic update method
+  // Generic update method. Changes are queued and written in order, so they
+  // survive the connection dropping.
   private async updateData(
-    updates: Partial<Omit<SharedTimerData, 'lastUpdated' | 'controllerActive'>>
+    updates: Partial<Pick<SharedTimerData, SharedField>>
   ): Promise<void> {
-    if (!this.user) {
-      await this.authenticate();
+    if (!this.roomId) {
+      throw new Error('No room selected');
     }
 
-    const docRef = doc(db, 'timer-data', this.SHARED_DOC_ID);
+    const changedAt = serverClock.now();
+    for (const [field, value] of Object.entries(updates)) {
+      this.writeQueue.enqueue({
+        roomId: this.roomId,
+        field,
+        // Clean the data to remove undefined values
+        value: this.cleanData(value),
+        changedAt,
+      });
+    }
+  }
 
-    try {
-      // Clean the data to remove undefined values
-      const cleanedUpdates = this.cleanData(updates);
+  // Write one queued change unless the server has a newer one for the same
+  // field - last change wins, field by field
+  private async writeQueued(entry: QueuedWrite): Promise<WriteOutcome> {
+    // Signing in here would write as a new anonymous user. The session was
+    // lost mid-flush, so wait for the queue to be handed the user again.
+    if (this.user?.uid !== entry.uid) {
+      throw new Error('Not signed in as the user who made this change');
+    }
 
-      await updateDoc(docRef, {
-        ...cleanedUpdates,
-        lastUpdated: serverTimestamp(),
-        controllerActive: true,
-      });
-    } catch (error) {
-      console.error('❌ Failed to update data:', error);
-      console.error('❌ Data that failed:', updates);
-      throw error;
+    const docRef = doc(db, this.ROOMS_COLLECTION, entry.roomId);
+    const field = entry.field as QueuedField;
+    const key = entry.key;
+
+    const result = await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(docRef);
+      if (!snapshot.exists()) {
+        return { outcome: 'discarded' as const, value: null };
+      }
+
+      const data = snapshot.data() as SharedTimerData;
+      const fieldTimes = data.fieldTimes ?? {};
+      const timers = data.timers ?? { timers: [], activeTimerId: null };
+
+      // When the server last changed what this write touches, what it has
+      // there now, and the field paths and values to write
+      let serverChangedAt: number;
+      let serverValue: unknown;
+      let writes: unknown[];
+
+      if (field === 'timers' && key) {
+        serverChangedAt = Math.max(
+          fieldTimes.timers ?? 0,
+          data.timerTimes?.[key] ?? 0
+        );
+        serverValue = timers.timers.find((t) => t.id === key) ?? null;
+        writes = [
+          'timers',
+          {
+            ...applyTimerChanges(timers, {
+              timers: { [key]: entry.value as Timer | null },
+            }),
+            lastUpdated: entry.changedAt,
+          },
+          new FieldPath('timerTimes', key),
+          entry.changedAt,
+        ];
+      } else if (field === 'activeTimerId') {
+        serverChangedAt = Math.max(
+          fieldTimes.timers ?? 0,
+          fieldTimes.activeTimerId ?? 0
+        );
+        serverValue = timers.activeTimerId ?? null;
+        writes = [
+          'timers.activeTimerId',
+          entry.value,
+          'timers.lastUpdated',
+          entry.changedAt,
+          'fieldTimes.activeTimerId',
+          entry.changedAt,
+        ];
+      } else {
+        serverChangedAt = fieldTimes[field] ?? 0;
+        serverValue = data[field];
+        writes = [field, entry.value, `fieldTimes.${field}`, entry.changedAt];
+      }
+
+      if (serverChangedAt > entry.changedAt) {
+        return { outcome: 'superseded' as const, value: serverValue };
+      }
+
+      const [firstPath, firstValue, ...rest] = writes;
+      transaction.update(
+        docRef,
+        firstPath as string | FieldPath,
+        firstValue,
+        ...rest,
+        'lastUpdated',
+        serverTimestamp(),
+        'controllerActive',
+        true
+      );
+      return { outcome: 'written' as const, value: entry.value };
+    });
+
+    if (result.outcome === 'superseded' && entry.roomId === this.roomId) {
+      // The server value came from the branch for this field and key
+      const conflict = { field, key, value: result.value } as RoomConflict;
+      this.conflictCallbacks.forEach((callback) => callback(conflict));
+    }
+    return result.outcome;
+  }
+
+  // Resolve the document of the current room
+  private getRoomDocRef() {
+    if (!this.roomId) {
+      throw new Error('No room selected');
     }
+    return doc(db, this.ROOMS_COLLECTION, this.roomId);
   }
 
   // Start listening for changes (both controller and display)
@@ -204,7 +1040,7 @@ export class SimpleFirebaseService {
       this.unsubscribeData();
     }
 
-    const docRef = doc(db, 'timer-data', this.SHARED_DOC_ID);
+    const docRef = this.getRoomDocRef();
 
     this.unsubscribeData = onSnapshot(
       docRef,
@@ -219,6 +1055,18 @@ export class SimpleFirebaseService {
         this.setConnectionStatus('error');
       }
     );
+
+    // Snapshots served from the cache mean the server is out of reach
+    this.unsubscribeOnline?.();
+    this.unsubscribeOnline = onSnapshot(
+      docRef,
+      { includeMetadataChanges: true },
+      (snapshot) => this.writeQueue.setOnline(!snapshot.metadata.fromCache),
+      () => {}
+    );
+
+    // Writes saved before a reload go out now that there's a user and a room
+    this.writeQueue.flush();
   }
 
   // Subscribe to data changes
@@ -232,6 +1080,33 @@ export class SimpleFirebaseService {
     };
   }
 
+  // Subscribe to queued writes dropped because another operator changed the
+  // same field more recently. Gets the field (and timer id, for one timer)
+  // and the value that was kept.
+  onConflict(callback: (conflict: RoomConflict) => void): () => void {
+    this.conflictCallbacks.push(callback);
+    return () => {
+      const index = this.conflictCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.conflictCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  // Subscribe to the number of changes not yet written to the server, and
+  // whether it can be reached
+  onPendingWritesChange(
+    callback: (pending: number, online: boolean) => void
+  ): () => void {
+    return this.writeQueue.subscribe(callback);
+  }
+
+  // Whether this controller has a change to the field (or to one timer, by
+  // id) still queued for the current room
+  hasPendingWrite(field: QueuedField, key?: string): boolean {
+    return !!this.roomId && this.writeQueue.hasPending(this.roomId, field, key);
+  }
+
   // Subscribe to connection status changes
   onConnectionStatusChange(
     callback: (status: ConnectionStatus) => void
@@ -256,6 +1131,10 @@ export class SimpleFirebaseService {
       this.unsubscribeData();
       this.unsubscribeData = null;
     }
+    if (this.unsubscribeOnline) {
+      this.unsubscribeOnline();
+      this.unsubscribeOnline = null;
+    }
   }
 
   // Getters
@@ -266,6 +1145,22 @@ export class SimpleFirebaseService {
   get status(): ConnectionStatus {
     return this.connectionStatus;
   }
+
+  get currentRoomId(): string | null {
+    return this.roomId;
+  }
+
+  get currentRoomRole(): RoomRole | null {
+    return this.roomRole;
+  }
+
+  get ownPresenceId(): string {
+    return this.presenceId;
+  }
+
+  get isOnline(): boolean {
+    return this.writeQueue.isOnline;
+  }
 }
 
 // Export singleton instance
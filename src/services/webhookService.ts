@@ -0,0 +1,143 @@
+import type { WebhookDelivery, WebhookEvent, WebhookTarget } from '../types';
+import { loadWebhookDeliveries, saveWebhookDeliveries } from '../utils/storage';
+
+const RETRY_DELAYS = [2000, 10000, 30000]; // Backoff between attempts
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_DELIVERIES = 50;
+
+// Posts webhook bodies with retries and keeps a delivery log on this device.
+// Bodies go as text/plain in no-cors mode - a simple request with no
+// preflight, which Slack and most webhook endpoints accept. The browser hides
+// the response, so "delivered" means the target was reached, not that it
+// accepted the body.
+export class WebhookService {
+  private deliveries: WebhookDelivery[];
+  private listeners: ((deliveries: WebhookDelivery[]) => void)[] = [];
+
+  constructor() {
+    // Retries don't survive a reload
+    this.deliveries = loadWebhookDeliveries().map((delivery) =>
+      delivery.status === 'pending' || delivery.status === 'retrying'
+        ? { ...delivery, status: 'failed', error: 'Interrupted by a reload' }
+        : delivery
+    );
+  }
+
+  send(
+    target: WebhookTarget,
+    event: WebhookEvent,
+    summary: string,
+    body: string
+  ): void {
+    const delivery: WebhookDelivery = {
+      id: `delivery-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      targetId: target.id,
+      targetName: target.name,
+      event,
+      summary,
+      at: Date.now(),
+      attempts: 0,
+      status: 'pending',
+    };
+    this.update(delivery);
+    this.attempt(delivery, target.url, body);
+  }
+
+  getDeliveries(): WebhookDelivery[] {
+    return this.deliveries;
+  }
+
+  clearDeliveries(): void {
+    this.deliveries = this.deliveries.filter(
+      (d) => d.status === 'pending' || d.status === 'retrying'
+    );
+    saveWebhookDeliveries(this.deliveries);
+    this.notify();
+  }
+
+  subscribe(listener: (deliveries: WebhookDelivery[]) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private async attempt(
+    delivery: WebhookDelivery,
+    url: string,
+    body: string
+  ): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const abort = new AbortController();
+    const timeout = setTimeout(() => abort.abort(), REQUEST_TIMEOUT_MS);
+    let statusCode: number | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        mode: 'no-cors',
+        headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+        body,
+        signal: abort.signal,
+      });
+      // Only targets that allow CORS let us see their status
+      if (response.type !== 'opaque') {
+        statusCode = response.status;
+        if (!response.ok) error = `HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error =
+        err instanceof DOMException && err.name === 'AbortError'
+          ? 'Timed out'
+          : 'Network error';
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!error) {
+      this.update({ ...delivery, attempts, status: 'delivered', statusCode });
+      return;
+    }
+
+    // Client errors other than timeouts and rate limits won't get better
+    const retryable =
+      statusCode === undefined ||
+      statusCode >= 500 ||
+      statusCode === 408 ||
+      statusCode === 429;
+
+    if (retryable && attempts <= RETRY_DELAYS.length) {
+      const next: WebhookDelivery = {
+        ...delivery,
+        attempts,
+        status: 'retrying',
+        statusCode,
+        error,
+      };
+      this.update(next);
+      setTimeout(
+        () => this.attempt(next, url, body),
+        RETRY_DELAYS[attempts - 1]
+      );
+      return;
+    }
+
+    this.update({ ...delivery, attempts, status: 'failed', statusCode, error });
+  }
+
+  private update(delivery: WebhookDelivery): void {
+    const exists = this.deliveries.some((d) => d.id === delivery.id);
+    this.deliveries = exists
+      ? this.deliveries.map((d) => (d.id === delivery.id ? delivery : d))
+      : [delivery, ...this.deliveries].slice(0, MAX_DELIVERIES);
+    saveWebhookDeliveries(this.deliveries);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener(this.deliveries));
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -4,6 +4,7 @@ import type {
   DeviceInfo,
   SyncMessage,
   PairingInfo,
+  SyncTransport,
 } from "../types/sync";
 import {
   DEFAULT_WEBRTC_CONFIG,
@@ -11,14 +12,20 @@ import {
   validateSyncMessage,
 } from "../types/sync";
 
-export class WebRTCService {
+export class WebRTCService implements SyncTransport {
+  readonly method = "webrtc";
   private config: WebRTCConfig;
   private localDevice: DeviceInfo;
   private peers: Map<string, PeerConnection> = new Map();
+  private pendingCandidates: Map<string, RTCIceCandidateInit[]> = new Map();
   private onMessage: (message: SyncMessage) => void;
   private onPeerConnected: (peerId: string) => void;
   private onPeerDisconnected: (peerId: string) => void;
   private onError: (error: string) => void;
+  private onIceCandidate?: (
+    peerId: string,
+    candidate: RTCIceCandidateInit
+  ) => void;
 
   constructor(
     localDevice: DeviceInfo,
@@ -28,6 +35,8 @@ export class WebRTCService {
       onPeerConnected: (peerId: string) => void;
       onPeerDisconnected: (peerId: string) => void;
       onError: (error: string) => void;
+      // Trickles candidates out through a signalling channel
+      onIceCandidate?: (peerId: string, candidate: RTCIceCandidateInit) => void;
     }
   ) {
     this.config = { ...DEFAULT_WEBRTC_CONFIG, ...config };
@@ -36,6 +45,7 @@ export class WebRTCService {
     this.onPeerConnected = callbacks.onPeerConnected;
     this.onPeerDisconnected = callbacks.onPeerDisconnected;
     this.onError = callbacks.onError;
+    this.onIceCandidate = callbacks.onIceCandidate;
   }
 
   // Create a new peer connection
@@ -46,9 +56,11 @@ export class WebRTCService {
 
     // Handle ICE candidates
     pc.onicecandidate = (event) => {
-      if (event.candidate) {
-        // In a real implementation, you'd send this to the signaling server
-        // For local network, we'll use a different approach
+      if (event.candidate && this.onIceCandidate) {
+        this.onIceCandidate(peerId, event.candidate.toJSON());
+      } else if (event.candidate) {
+        // Without signalling, the candidates gathered so far are already
+        // in the local description by the time it's shared
         console.log("ICE candidate:", event.candidate);
       }
     };
@@ -125,6 +137,8 @@ export class WebRTCService {
   // Create an offer to connect to a peer
   async createOffer(peerId: string): Promise<string> {
     try {
+      // A peer that reconnects starts over
+      this.disconnectPeer(peerId);
       const pc = this.createPeerConnection(peerId);
       
       // Create data channel
@@ -157,6 +171,7 @@ export class WebRTCService {
   async acceptOffer(peerId: string, offerStr: string): Promise<string> {
     try {
       const offer = JSON.parse(atob(offerStr));
+      this.disconnectPeer(peerId);
       const pc = this.createPeerConnection(peerId);
       
       const peer: PeerConnection = {
@@ -171,6 +186,7 @@ export class WebRTCService {
 
       // Set remote description
       await pc.setRemoteDescription(offer);
+      await this.flushCandidates(peerId);
 
       // Create answer
       const answer = await pc.createAnswer();
@@ -195,12 +211,43 @@ export class WebRTCService {
       }
 
       await peer.connection.setRemoteDescription(answer);
+      await this.flushCandidates(peerId);
     } catch (error) {
       this.onError(`Failed to complete connection: ${error}`);
       throw error;
     }
   }
 
+  // Add a candidate from the remote peer. Signalling doesn't guarantee
+  // order, so candidates that beat the offer or answer wait for it.
+  async addIceCandidate(
+    peerId: string,
+    candidate: RTCIceCandidateInit
+  ): Promise<void> {
+    const peer = this.peers.get(peerId);
+
+    if (!peer || !peer.connection.remoteDescription) {
+      const pending = this.pendingCandidates.get(peerId) || [];
+      this.pendingCandidates.set(peerId, [...pending, candidate]);
+      return;
+    }
+
+    try {
+      await peer.connection.addIceCandidate(candidate);
+    } catch {
+      // A bad candidate only rules out one route; the others still work
+    }
+  }
+
+  private async flushCandidates(peerId: string): Promise<void> {
+    const pending = this.pendingCandidates.get(peerId) || [];
+    this.pendingCandidates.delete(peerId);
+
+    for (const candidate of pending) {
+      await this.addIceCandidate(peerId, candidate);
+    }
+  }
+
   // Send message to a specific peer
   sendMessage(peerId: string, message: SyncMessage): boolean {
     const peer = this.peers.get(peerId);
@@ -328,5 +375,6 @@ export class WebRTCService {
   destroy(): void {
     this.disconnectAll();
     this.peers.clear();
+    this.pendingCandidates.clear();
   }
 }
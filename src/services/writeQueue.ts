@@ -0,0 +1,255 @@
+// A room field written while the controller may be offline
+export interface QueuedWrite {
+  id: string;
+  uid: string; // Who made the change; only they can replay it
+  roomId: string;
+  field: string; // Top-level field of the room document
+  key?: string; // Part of the field, e.g. one timer of `timers`
+  value: unknown;
+  changedAt: number; // Server time of the change, for resolving conflicts
+}
+
+// 'superseded' means another operator changed the field after we did, so
+// their value was kept; 'discarded' that the room was deleted meanwhile
+export type WriteOutcome = 'written' | 'superseded' | 'discarded';
+
+// Each tab saves its writes under its own key per room, so a tab never
+// replays writes another tab queued (and will replay itself)
+const STORAGE_PREFIX = 'stage-timer-pending-writes:';
+const TAB_ID_KEY = 'stage-timer-tab-id';
+const RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 30000;
+
+// Firestore errors worth waiting out; anything else (permission denied, a
+// deleted room) will fail the same way on every attempt
+const RETRYABLE_CODES = [
+  'unavailable',
+  'deadline-exceeded',
+  'aborted',
+  'resource-exhausted',
+  'internal',
+  'unknown',
+];
+
+function isRetryable(error: unknown): boolean {
+  const code = (error as { code?: string })?.code;
+  return !code || RETRYABLE_CODES.includes(code);
+}
+
+// Kept in sessionStorage, so a reloaded tab finds its own writes again
+function getTabId(): string {
+  try {
+    let tabId = sessionStorage.getItem(TAB_ID_KEY);
+    if (!tabId) {
+      tabId = crypto.randomUUID();
+      sessionStorage.setItem(TAB_ID_KEY, tabId);
+    }
+    return tabId;
+  } catch {
+    return crypto.randomUUID();
+  }
+}
+
+function storageKey(roomId: string, tabId: string): string {
+  return `${STORAGE_PREFIX}${roomId}:${tabId}`;
+}
+
+// This tab's saved writes, from every room
+function loadEntries(tabId: string): QueuedWrite[] {
+  try {
+    const entries: QueuedWrite[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(STORAGE_PREFIX) && key.endsWith(`:${tabId}`)) {
+        entries.push(...JSON.parse(localStorage.getItem(key) ?? '[]'));
+      }
+    }
+    return entries.sort((a, b) => a.changedAt - b.changedAt);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Writes to room documents, kept in order and in localStorage until they
+ * reach the server. While offline the controller keeps working and writes
+ * pile up here; they are replayed one at a time once the connection is back.
+ * A change superseding the last queued change to the same field replaces it,
+ * so a long outage replays the final state rather than every step.
+ * Writes go out only while the user who made them is signed in, so a lost
+ * session never replays them as somebody else.
+ */
+export class WriteQueue {
+  private readonly tabId = getTabId();
+  private entries: QueuedWrite[] = loadEntries(this.tabId);
+  private savedRoomIds = new Set(this.entries.map((e) => e.roomId));
+  private write: (entry: QueuedWrite) => Promise<WriteOutcome>;
+  private online = typeof navigator === 'undefined' || navigator.onLine;
+  private uid: string | null = null;
+  private flushing = false;
+  private inFlightId: string | null = null;
+  private retryDelay = RETRY_DELAY;
+  private retryTimeout: ReturnType<typeof setTimeout> | null = null;
+  private listeners: ((pending: number, online: boolean) => void)[] = [];
+
+  constructor(write: (entry: QueuedWrite) => Promise<WriteOutcome>) {
+    this.write = write;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('offline', () => this.setOnline(false));
+    }
+  }
+
+  enqueue(write: Omit<QueuedWrite, 'id' | 'uid'>): void {
+    if (!this.uid) {
+      throw new Error('Not signed in');
+    }
+
+    const last = this.entries[this.entries.length - 1];
+    const entry = { ...write, id: crypto.randomUUID(), uid: this.uid };
+
+    if (
+      last &&
+      last.id !== this.inFlightId &&
+      last.uid === entry.uid &&
+      last.roomId === write.roomId &&
+      last.field === write.field &&
+      last.key === write.key
+    ) {
+      this.entries[this.entries.length - 1] = entry;
+    } else {
+      this.entries.push(entry);
+    }
+
+    this.save();
+    this.flush();
+  }
+
+  // Whether the server can be reached. Going online replays the queue.
+  setOnline(online: boolean): void {
+    if (online === this.online) return;
+
+    this.online = online;
+    this.notify();
+    if (online) {
+      this.retryDelay = RETRY_DELAY;
+      this.flush();
+    }
+  }
+
+  // The signed-in user. Their writes are replayed when they sign in; those
+  // of anyone else stay queued until that user is back.
+  setUser(uid: string | null): void {
+    if (uid === this.uid) return;
+
+    this.uid = uid;
+    this.notify();
+    if (uid) {
+      this.retryDelay = RETRY_DELAY;
+      this.flush();
+    }
+  }
+
+  get isOnline(): boolean {
+    return this.online;
+  }
+
+  // Whether a change to the field (or to any part of it, without a key) is
+  // still waiting to be written
+  hasPending(roomId: string, field: string, key?: string): boolean {
+    return this.entries.some(
+      (e) =>
+        e.uid === this.uid &&
+        e.roomId === roomId &&
+        e.field === field &&
+        (key === undefined || e.key === key)
+    );
+  }
+
+  subscribe(listener: (pending: number, online: boolean) => void): () => void {
+    this.listeners.push(listener);
+    listener(this.pendingCount(), this.online);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushing || !this.online || !this.uid) return;
+
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+
+    this.flushing = true;
+    try {
+      while (this.online) {
+        const entry = this.entries.find((e) => e.uid === this.uid);
+        if (!entry) break;
+        this.inFlightId = entry.id;
+
+        try {
+          await this.write(entry);
+        } catch (error) {
+          if (isRetryable(error)) {
+            this.scheduleRetry();
+            return;
+          }
+          // Anything else is dropped, or it would hold up the whole queue
+        }
+
+        this.entries = this.entries.filter((e) => e !== entry);
+        this.retryDelay = RETRY_DELAY;
+        this.save();
+      }
+    } finally {
+      this.inFlightId = null;
+      this.flushing = false;
+    }
+  }
+
+  // Back off while the server stays out of reach
+  private scheduleRetry(): void {
+    this.retryTimeout = setTimeout(() => {
+      this.retryTimeout = null;
+      this.flush();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+  }
+
+  private save(): void {
+    try {
+      const byRoom = new Map<string, QueuedWrite[]>();
+      for (const entry of this.entries) {
+        byRoom.set(entry.roomId, [...(byRoom.get(entry.roomId) ?? []), entry]);
+      }
+      for (const roomId of this.savedRoomIds) {
+        if (!byRoom.has(roomId)) {
+          localStorage.removeItem(storageKey(roomId, this.tabId));
+        }
+      }
+      for (const [roomId, entries] of byRoom) {
+        localStorage.setItem(
+          storageKey(roomId, this.tabId),
+          JSON.stringify(entries)
+        );
+      }
+      this.savedRoomIds = new Set(byRoom.keys());
+    } catch {
+      // Storage is full or blocked - the writes still go out from memory
+    }
+    this.notify();
+  }
+
+  // Writes the signed-in user is waiting on
+  private pendingCount(): number {
+    return this.entries.filter((e) => e.uid === this.uid).length;
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) =>
+      listener(this.pendingCount(), this.online)
+    );
+  }
+}
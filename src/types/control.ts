@@ -0,0 +1,118 @@
+// Remote Control Types - the control API served by the companion bridge
+// (bridge/ in the repo root). The bridge relays commands to the controller
+// page and serves the state the controller publishes back.
+
+import type {
+  AppAction,
+  MessageAction,
+  MessagePreset,
+  TimerAction,
+  TimerState,
+  TimerThresholds,
+  TimerType,
+} from './index';
+
+export type ControlCommand =
+  | { action: 'start' | 'pause' | 'reset' | 'toggle'; timerId?: string } // Active timer when no id
+  | { action: 'adjust'; timerId?: string; seconds: number }
+  | { action: 'select'; timerId: string }
+  | { action: 'next' | 'previous' }
+  | { action: 'showMessage'; text: string }
+  | { action: 'showPreset'; index: number } // 1-based message preset
+  | { action: 'hideMessage' }
+  | { action: 'blackout'; on?: boolean } // Toggles when on is left out
+  | { action: 'flash' };
+
+export type ControlAction = ControlCommand['action'];
+
+// App actions the bridge sends for OSC input. Ones with no remote meaning
+// (TICK, ADD_TIMER, ...) are answered as unsupported.
+export type RemoteAction =
+  | TimerAction
+  | MessageAction
+  | Extract<AppAction, { type: 'TOGGLE_BLACKOUT' | 'TOGGLE_FLASH' }>;
+
+// A timer as published to the bridge - the stored timeline, not ticking values
+export interface ControlTimerState
+  extends Pick<
+    TimerState,
+    'status' | 'initialTime' | 'startedAt' | 'pausedAt' | 'accumulatedPause'
+  > {
+  id: string;
+  name: string;
+  type: TimerType;
+  order: number;
+  thresholds: TimerThresholds; // Resolved - the timer's own or the defaults
+}
+
+export interface ControlState {
+  roomId: string | null;
+  roomName: string | null;
+  activeTimerId: string | null;
+  timers: ControlTimerState[];
+  message: string | null;
+  messagePresets: Pick<MessagePreset, 'name' | 'text'>[];
+  blackout: boolean;
+  serverTime: number; // Controller's server time (ms) when this was sent
+}
+
+// Controller page -> bridge
+export type BridgeControllerMessage =
+  | { type: 'state'; state: ControlState }
+  | { type: 'result'; id: string; ok: boolean; error?: string };
+
+// Bridge -> controller page
+export type BridgeServerMessage =
+  | { type: 'command'; id: string; command: ControlCommand }
+  | { type: 'action'; id: string; action: RemoteAction }
+  | { type: 'clients'; count: number }; // Remote clients connected to the bridge
+
+// Companion / Stream Deck protocol on the bridge's /companion WebSocket -
+// the PreviewControls buttons plus preset messages and blackout
+export type CompanionAction =
+  | { action: 'start' | 'pause' | 'toggle' | 'next' | 'previous' }
+  | { action: 'addTime'; seconds: number } // Negative takes time off
+  | { action: 'showPreset'; preset: number } // 1-based
+  | { action: 'hideMessage' }
+  | { action: 'blackout'; on?: boolean };
+
+export type CompanionStatusColor =
+  | 'idle'
+  | 'running'
+  | 'paused'
+  | 'warning'
+  | 'critical'
+  | 'expired';
+
+// Sent as { type: 'feedback', feedbacks } whenever a value changes
+export interface CompanionFeedbacks {
+  controllerConnected: boolean;
+  timerName: string;
+  remaining: string; // As displayed, "-0:12" once a countdown overruns
+  remainingSeconds: number;
+  status: TimerState['status'];
+  statusColor: CompanionStatusColor;
+  color: string; // CSS colour for the status, e.g. "#22c55e"
+  timerIndex: number; // 1-based, 0 when no timer is active
+  timerCount: number;
+  messageLive: boolean;
+  message: string;
+  blackout: boolean;
+  presets: string[]; // Message preset names, for button labels
+}
+
+export type BridgeStatus = 'disabled' | 'connecting' | 'connected' | 'error';
+
+export interface BridgeSettings {
+  enabled: boolean;
+  url: string; // ws://host:port of the bridge
+  token: string; // Shared secret if the bridge was started with one
+  signalDisplays?: boolean; // Connect displays peer-to-peer through the bridge
+}
+
+export const DEFAULT_BRIDGE_SETTINGS: BridgeSettings = {
+  enabled: false,
+  url: 'ws://localhost:8765',
+  token: '',
+  signalDisplays: false,
+};
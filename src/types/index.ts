@@ -6,11 +6,12 @@ export type TimerStatus = 'idle' | 'running' | 'paused' | 'expired';
 export interface TimerState {
   type: TimerType;
   status: TimerStatus;
-  currentTime: number; // in seconds - for display compatibility
+  currentTime: number; // in seconds - derived from the timeline
   initialTime: number; // in seconds - the duration
-  elapsedTime: number; // in seconds - actual elapsed time during play
-  startTime?: number; // timestamp when timer started
-  pausedTime?: number; // accumulated paused time
+  elapsedTime: number; // in seconds - derived from the timeline
+  startedAt: number | null; // server time (ms) when the current run started
+  pausedAt: number | null; // server time (ms) when paused, null while running
+  accumulatedPause: number; // total ms spent paused since startedAt
 }
 
 export interface TimerPreset {
@@ -20,14 +21,39 @@ export interface TimerPreset {
   type: TimerType;
 }
 
+// What the scheduler does when a timer's startTime arrives
+export type ScheduleMode = 'off' | 'start' | 'arm';
+
+// Wrap-up warnings - remaining time in seconds, or as a % of the duration
+export interface TimerThreshold {
+  value: number;
+  unit: 'seconds' | 'percent';
+  color: string; // CSS colour, e.g. "#f59e0b"
+  flash: boolean;
+}
+
+export interface TimerThresholds {
+  warning: TimerThreshold;
+  critical: TimerThreshold;
+}
+
+// What happens when a countdown runs out
+export type LinkMode = 'stop' | 'immediate' | 'gap' | 'confirm';
+
 // Multiple Timer Support
 export interface Timer {
   id: string;
   name: string;
   state: TimerState;
-  autoLinkToPrevious?: boolean;
+  autoLinkToPrevious?: boolean; // Legacy - superseded by linkMode on the previous timer
+  linkMode?: LinkMode; // Defaults to 'stop'
+  linkGap?: number; // Seconds before the next timer starts for 'gap'
+  thresholds?: TimerThresholds; // Falls back to settings.timer.thresholds
   order: number;
-  startTime?: string; // HH:MM AM/PM format - when timer should be manually started
+  startTime?: string; // "HH:MM AM/PM" or 24h "HH:MM" - when the timer is due
+  scheduleMode?: ScheduleMode; // Defaults to 'off' - startTime is informational
+  actualStart?: number; // server time (ms) the timer was first started
+  actualEnd?: number; // server time (ms) the timer last stopped running
 }
 
 export interface TimerCollection {
@@ -55,12 +81,20 @@ export interface MessagePreset {
 }
 
 // Settings Types
+export interface ProgressBarSettings {
+  show: boolean;
+  mode: 'deplete' | 'fill'; // Remaining time shrinks, or elapsed time grows
+  size: 'thin' | 'medium' | 'thick';
+  showMarkers: boolean; // Ticks where the wrap-up thresholds start
+}
+
 export interface DisplaySettings {
   theme: 'light' | 'dark';
   fontSize: 'small' | 'medium' | 'large' | 'xlarge';
   showSeconds: boolean;
   timeFormat: '12h' | '24h';
   showDate: boolean;
+  progressBar?: ProgressBarSettings;
 }
 
 export interface TimerSettings {
@@ -68,6 +102,7 @@ export interface TimerSettings {
   visualAlerts: boolean;
   flashOnExpiry: boolean;
   showMilliseconds: boolean;
+  thresholds?: TimerThresholds; // Defaults for timers without their own
 }
 
 export interface AppSettings {
@@ -76,6 +111,87 @@ export interface AppSettings {
   churchName?: string;
 }
 
+// Show Types - a named set of timers, messages and settings
+export interface Show {
+  id: string;
+  name: string;
+  timers: TimerCollection; // Saved reset, with start times and links intact
+  messagePresets: MessagePreset[];
+  settings: AppSettings;
+  createdAt: number; // timestamp
+  updatedAt: number; // timestamp - the newer copy wins between local and cloud
+  ownerId?: string; // Account that saved it - unset for shows only kept locally
+}
+
+// Event Log Types - what happened to each timer during a service
+export type TimerEventType =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'reset'
+  | 'expire'
+  | 'adjust';
+
+export interface TimerEvent {
+  id: string;
+  timerId: string;
+  timerName: string;
+  type: TimerEventType;
+  at: number; // server time (ms)
+  planned: number; // timer duration (seconds) when it happened
+  elapsed: number; // seconds the timer had run, after the event
+  adjustment?: number; // seconds added (+) or taken off (-) the display, for 'adjust'
+  by?: string; // operator, for changes made by hand
+}
+
+// The log of one service or rehearsal in a room
+export interface EventLog {
+  id: string;
+  roomId: string;
+  name: string;
+  startedAt: number; // timestamp
+  updatedAt: number; // timestamp
+  events: TimerEvent[];
+}
+
+// Outgoing webhooks
+export type WebhookEvent =
+  | 'start'
+  | 'pause'
+  | 'expire'
+  | 'threshold' // A countdown reached its warning or critical stage
+  | 'overrun' // Each whole minute a countdown runs over
+  | 'message'
+  | 'blackout';
+
+export interface WebhookTarget {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  events: WebhookEvent[];
+  template: string; // JSON body with {{placeholders}}
+}
+
+export type WebhookDeliveryStatus =
+  | 'pending'
+  | 'retrying'
+  | 'delivered'
+  | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  targetId: string;
+  targetName: string;
+  event: WebhookEvent;
+  summary: string;
+  at: number; // timestamp of the event
+  attempts: number;
+  status: WebhookDeliveryStatus;
+  statusCode?: number;
+  error?: string;
+}
+
 // View Types
 export type ViewMode = 'display' | 'control';
 
@@ -97,6 +213,7 @@ export type TimerAction =
   | { type: 'PAUSE_TIMER'; payload?: { timerId?: string } }
   | { type: 'RESET_TIMER'; payload?: { timerId?: string } }
   | { type: 'STOP_TIMER'; payload?: { timerId?: string } }
+  | { type: 'ADJUST_TIME'; payload: { seconds: number; timerId?: string } }
   | {
       type: 'SET_TIMER';
       payload: { duration: number; timerType: TimerType; timerId?: string };
@@ -190,6 +307,18 @@ export const DEFAULT_MESSAGE_PRESETS: MessagePreset[] = [
   },
 ];
 
+export const DEFAULT_TIMER_THRESHOLDS: TimerThresholds = {
+  warning: { value: 20, unit: 'percent', color: '#f59e0b', flash: false },
+  critical: { value: 5, unit: 'percent', color: '#ef4444', flash: false },
+};
+
+export const DEFAULT_PROGRESS_BAR: ProgressBarSettings = {
+  show: true,
+  mode: 'deplete',
+  size: 'medium',
+  showMarkers: true,
+};
+
 export const DEFAULT_SETTINGS: AppSettings = {
   display: {
     theme: 'dark',
@@ -197,12 +326,14 @@ export const DEFAULT_SETTINGS: AppSettings = {
     showSeconds: true,
     timeFormat: '12h',
     showDate: true,
+    progressBar: DEFAULT_PROGRESS_BAR,
   },
   timer: {
     defaultType: 'countdown',
     visualAlerts: true,
     flashOnExpiry: true,
     showMilliseconds: false,
+    thresholds: DEFAULT_TIMER_THRESHOLDS,
   },
 };
 
@@ -212,6 +343,9 @@ export const DEFAULT_TIMER_STATE: TimerState = {
   currentTime: 0,
   initialTime: 0,
   elapsedTime: 0,
+  startedAt: null,
+  pausedAt: null,
+  accumulatedPause: 0,
 };
 
 export const DEFAULT_TIMER_COLLECTION: TimerCollection = {
@@ -225,6 +359,9 @@ export const DEFAULT_TIMER_COLLECTION: TimerCollection = {
         currentTime: 600, // 10:00
         initialTime: 600,
         elapsedTime: 0,
+        startedAt: null,
+        pausedAt: null,
+        accumulatedPause: 0,
       },
       order: 1,
     },
@@ -8,7 +8,7 @@ export type ConnectionStatus =
   | 'connected'
   | 'error';
 
-export type SyncMethod = 'webrtc' | 'websocket' | 'local';
+export type SyncMethod = 'webrtc' | 'websocket' | 'local' | 'broadcast';
 
 export interface DeviceInfo {
   id: string;
@@ -68,7 +68,27 @@ export interface MessageSyncData {
 // Settings sync data
 export interface SettingsSyncData {
   settings: any;
-  updates: any;
+  updates?: any; // Only what changed, when the sender knows
+}
+
+// Acknowledges a message. Heartbeat acks carry the sender's server time so
+// displays can use them as clock samples.
+export interface SyncAck {
+  originalId: string;
+  referenceTime?: number;
+  referenceRole?: DeviceRole;
+}
+
+// What each kind of message sent between devices carries
+export interface SyncMessageData {
+  device_info: DeviceInfo;
+  heartbeat: DeviceInfo;
+  ack: SyncAck;
+  timer_state: TimerSyncData;
+  message_update: MessageSyncData;
+  settings_update: SettingsSyncData;
+  blackout_toggle: { enabled: boolean };
+  flash_trigger: { enabled: boolean };
 }
 
 // Connection state
@@ -95,6 +115,16 @@ export interface PeerConnection {
   role: DeviceRole;
 }
 
+// A way for sync messages to reach peers. Every transport carries the same
+// SyncMessage format; acks and heartbeats are handled above them.
+export interface SyncTransport {
+  readonly method: SyncMethod;
+  sendMessage(peerId: string, message: SyncMessage): boolean;
+  getConnectedPeers(): string[];
+  disconnectPeer(peerId: string): void;
+  destroy(): void;
+}
+
 // Local network discovery
 export interface NetworkDevice {
   id: string;
@@ -165,7 +195,7 @@ export function isValidDeviceRole(role: string): role is DeviceRole {
 }
 
 export function isValidSyncMethod(method: string): method is SyncMethod {
-  return ['webrtc', 'websocket', 'local'].includes(method);
+  return ['webrtc', 'websocket', 'local', 'broadcast'].includes(method);
 }
 
 // Message validation
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SETTINGS } from '../types';
+import type { Timer } from '../types';
+import {
+  APP_EXPORT_VERSION,
+  applyAppImport,
+  parseAppExport,
+  serializeAppExport,
+  type AppExportContent,
+} from './appExport';
+import { createTimerState, startTimeline } from './timeline';
+
+function makeTimer(id: string, order: number): Timer {
+  return {
+    id,
+    name: `Timer ${id}`,
+    order,
+    state: createTimerState('countdown', 300),
+  };
+}
+
+const content: AppExportContent = {
+  timers: {
+    timers: [makeTimer('a', 1), makeTimer('b', 2)],
+    activeTimerId: 'a',
+  },
+  timerPresets: [{ id: 'p1', name: '5 min', duration: 300, type: 'countdown' }],
+  messagePresets: [{ id: 'm1', name: 'Wrap', text: 'Please wrap up' }],
+  settings: DEFAULT_SETTINGS,
+};
+
+describe('parseAppExport', () => {
+  it('reads back what it exported', () => {
+    const result = parseAppExport(serializeAppExport(content));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.fromVersion).toBe(APP_EXPORT_VERSION);
+    expect(result.data.timers).toEqual(content.timers);
+    expect(result.data.timerPresets).toEqual(content.timerPresets);
+    expect(result.data.settings).toEqual(content.settings);
+  });
+
+  it('imports running timers idle', () => {
+    const running = {
+      ...content,
+      timers: {
+        timers: [
+          {
+            ...makeTimer('a', 1),
+            state: startTimeline(createTimerState('countdown', 300), 1000),
+          },
+        ],
+        activeTimerId: 'a',
+      },
+    };
+    const result = parseAppExport(serializeAppExport(running));
+
+    expect(result.ok && result.data.timers.timers[0].state.status).toBe('idle');
+  });
+
+  it('migrates files from before versioning', () => {
+    const v1 = JSON.stringify({
+      exportDate: '2024-01-01T00:00:00.000Z',
+      settings: DEFAULT_SETTINGS,
+      timerPresets: [],
+      messagePresets: [],
+    });
+    const result = parseAppExport(v1);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.fromVersion).toBe(1);
+    expect(result.data.timers.timers).toEqual([]);
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('rejects files from a newer version', () => {
+    const result = parseAppExport(
+      JSON.stringify({ version: APP_EXPORT_VERSION + 1 })
+    );
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects text that is not JSON', () => {
+    const result = parseAppExport('not json');
+    expect(!result.ok && result.errors[0].message).toBe(
+      'File is not valid JSON'
+    );
+  });
+
+  it('reports every invalid field with its path', () => {
+    const broken = JSON.parse(serializeAppExport(content));
+    broken.timers.timers[1].name = 42;
+    broken.timerPresets[0].type = 'sundial';
+    broken.settings.display.showSeconds = 'yes';
+
+    const result = parseAppExport(JSON.stringify(broken));
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors.map((e) => e.path)).toEqual([
+      'timers.timers[1].name',
+      'timerPresets[0].type',
+      'settings.display.showSeconds',
+    ]);
+  });
+});
+
+describe('applyAppImport', () => {
+  const incoming: AppExportContent = {
+    ...content,
+    timers: {
+      timers: [{ ...makeTimer('b', 1), name: 'Updated' }, makeTimer('c', 2)],
+      activeTimerId: 'c',
+    },
+    settings: { ...DEFAULT_SETTINGS, churchName: 'Imported' },
+  };
+
+  it('replaces everything in replace mode', () => {
+    expect(applyAppImport(content, incoming, 'replace')).toBe(incoming);
+  });
+
+  it('merges timers by id and keeps the current settings', () => {
+    const merged = applyAppImport(content, incoming, 'merge');
+
+    expect(merged.timers.timers.map((t) => [t.id, t.name, t.order])).toEqual([
+      ['a', 'Timer a', 1],
+      ['b', 'Updated', 2],
+      ['c', 'Timer c', 3],
+    ]);
+    expect(merged.timers.activeTimerId).toBe('a');
+    expect(merged.settings).toBe(content.settings);
+  });
+});
@@ -0,0 +1,593 @@
+import type {
+  AppSettings,
+  MessagePreset,
+  ProgressBarSettings,
+  Timer,
+  TimerCollection,
+  TimerPreset,
+  TimerThreshold,
+  TimerThresholds,
+} from '../types';
+import { createTimerState } from './timeline';
+
+// Bump when the file layout changes, and add a migration from the old version
+export const APP_EXPORT_VERSION = 2;
+
+// Version history:
+//   1 - settings, timerPresets and messagePresets (no version field)
+//   2 - adds timers and a version field
+export interface AppExport {
+  version: typeof APP_EXPORT_VERSION;
+  exportedAt: string; // ISO date
+  timers: TimerCollection;
+  timerPresets: TimerPreset[];
+  messagePresets: MessagePreset[];
+  settings: AppSettings;
+}
+
+export type AppExportContent = Omit<AppExport, 'version' | 'exportedAt'>;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportFieldError {
+  path: string; // e.g. "timers.timers[2].name"
+  message: string;
+}
+
+export type ImportResult =
+  | {
+      ok: true;
+      data: AppExport;
+      fromVersion: number;
+      warnings: string[];
+    }
+  | { ok: false; errors: ImportFieldError[] };
+
+type Raw = Record<string, unknown>;
+
+const TIMER_TYPES = ['countdown', 'countup', 'stopwatch', 'hidden'] as const;
+
+/**
+ * Builds a versioned export of the app state
+ */
+export function createAppExport(
+  content: AppExportContent,
+  now: Date = new Date()
+): AppExport {
+  return {
+    version: APP_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    ...content,
+  };
+}
+
+/**
+ * Serializes the app state for download
+ */
+export function serializeAppExport(content: AppExportContent): string {
+  return JSON.stringify(createAppExport(content), null, 2);
+}
+
+// Migrations, keyed by the version they upgrade from
+const MIGRATIONS: Record<number, (data: Raw, warnings: string[]) => Raw> = {
+  1: (data, warnings) => {
+    warnings.push(
+      'This file is from before timers were exported - it has no timers'
+    );
+    const { exportDate, ...rest } = data;
+    return {
+      ...rest,
+      version: 2,
+      exportedAt: typeof exportDate === 'string' ? exportDate : '',
+      timers: { timers: [], activeTimerId: null },
+    };
+  },
+};
+
+/**
+ * Parses, migrates and validates an exported file. Every invalid field is
+ * reported rather than stopping at the first one.
+ */
+export function parseAppExport(json: string): ImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return {
+      ok: false,
+      errors: [{ path: '', message: 'File is not valid JSON' }],
+    };
+  }
+
+  if (!isObject(parsed)) {
+    return {
+      ok: false,
+      errors: [{ path: '', message: 'Expected an object at the top level' }],
+    };
+  }
+
+  // Files without a version field predate versioning
+  const fromVersion = parsed.version === undefined ? 1 : parsed.version;
+  if (
+    typeof fromVersion !== 'number' ||
+    !Number.isInteger(fromVersion) ||
+    fromVersion < 1
+  ) {
+    return {
+      ok: false,
+      errors: [{ path: 'version', message: 'Expected a whole number' }],
+    };
+  }
+  if (fromVersion > APP_EXPORT_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        {
+          path: 'version',
+          message: `Version ${fromVersion} is newer than this app supports (${APP_EXPORT_VERSION}) - update the app first`,
+        },
+      ],
+    };
+  }
+
+  const warnings: string[] = [];
+  let data: Raw = parsed;
+  for (let version = fromVersion; version < APP_EXPORT_VERSION; version++) {
+    data = MIGRATIONS[version](data, warnings);
+  }
+
+  const errors: ImportFieldError[] = [];
+  const timers = validateTimerCollection(data.timers, 'timers', errors);
+  const timerPresets = validateList(
+    data.timerPresets,
+    'timerPresets',
+    errors,
+    validateTimerPreset
+  );
+  const messagePresets = validateList(
+    data.messagePresets,
+    'messagePresets',
+    errors,
+    validateMessagePreset
+  );
+  const settings = validateSettings(data.settings, 'settings', errors);
+
+  if (
+    errors.length > 0 ||
+    !timers ||
+    !timerPresets ||
+    !messagePresets ||
+    !settings
+  ) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    fromVersion,
+    warnings,
+    data: {
+      version: APP_EXPORT_VERSION,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      timers,
+      timerPresets,
+      messagePresets,
+      settings,
+    },
+  };
+}
+
+/**
+ * Combines imported content with the current state. Replace swaps everything;
+ * merge adds the file's timers and presets (same id = the file's copy wins)
+ * and keeps the current settings.
+ */
+export function applyAppImport(
+  current: AppExportContent,
+  incoming: AppExportContent,
+  mode: ImportMode
+): AppExportContent {
+  if (mode === 'replace') {
+    return incoming;
+  }
+
+  const byOrder = (a: Timer, b: Timer) => a.order - b.order;
+  const timers = mergeById(
+    [...current.timers.timers].sort(byOrder),
+    [...incoming.timers.timers].sort(byOrder)
+  ).map((timer, index) => ({ ...timer, order: index + 1 }));
+
+  return {
+    timers: {
+      timers,
+      activeTimerId:
+        current.timers.activeTimerId ?? incoming.timers.activeTimerId,
+    },
+    timerPresets: mergeById(current.timerPresets, incoming.timerPresets),
+    messagePresets: mergeById(current.messagePresets, incoming.messagePresets),
+    settings: current.settings,
+  };
+}
+
+// Replaces items with the same id in place and appends the rest
+function mergeById<T extends { id: string }>(
+  existing: T[],
+  incoming: T[]
+): T[] {
+  const incomingById = new Map(incoming.map((item) => [item.id, item]));
+  const existingIds = new Set(existing.map((item) => item.id));
+
+  return [
+    ...existing.map((item) => incomingById.get(item.id) ?? item),
+    ...incoming.filter((item) => !existingIds.has(item.id)),
+  ];
+}
+
+// Field validators - each reports problems under its path and returns
+// undefined if anything inside was invalid
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(
+  value: unknown,
+  path: string,
+  errors: ImportFieldError[]
+): Raw | undefined {
+  if (isObject(value)) return value;
+  errors.push({ path, message: 'Expected an object' });
+  return undefined;
+}
+
+function readString(
+  obj: Raw,
+  key: string,
+  path: string,
+  errors: ImportFieldError[],
+  optional = false
+): string | undefined {
+  const value = obj[key];
+  if (value === undefined && optional) return undefined;
+  if (typeof value === 'string') return value;
+  errors.push({ path: `${path}.${key}`, message: 'Expected text' });
+  return undefined;
+}
+
+function readNumber(
+  obj: Raw,
+  key: string,
+  path: string,
+  errors: ImportFieldError[],
+  optional = false
+): number | undefined {
+  const value = obj[key];
+  if (value === undefined && optional) return undefined;
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+    return value;
+  }
+  errors.push({
+    path: `${path}.${key}`,
+    message: 'Expected a number of 0 or more',
+  });
+  return undefined;
+}
+
+function readBoolean(
+  obj: Raw,
+  key: string,
+  path: string,
+  errors: ImportFieldError[],
+  optional = false
+): boolean | undefined {
+  const value = obj[key];
+  if (value === undefined && optional) return undefined;
+  if (typeof value === 'boolean') return value;
+  errors.push({ path: `${path}.${key}`, message: 'Expected true or false' });
+  return undefined;
+}
+
+function readOneOf<T extends string>(
+  obj: Raw,
+  key: string,
+  options: readonly T[],
+  path: string,
+  errors: ImportFieldError[],
+  optional = false
+): T | undefined {
+  const value = obj[key];
+  if (value === undefined && optional) return undefined;
+  if (options.includes(value as T)) return value as T;
+  errors.push({
+    path: `${path}.${key}`,
+    message: `Expected one of: ${options.join(', ')}`,
+  });
+  return undefined;
+}
+
+function validateList<T>(
+  value: unknown,
+  path: string,
+  errors: ImportFieldError[],
+  validateItem: (
+    item: unknown,
+    path: string,
+    errors: ImportFieldError[]
+  ) => T | undefined
+): T[] | undefined {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'Expected a list' });
+    return undefined;
+  }
+
+  const start = errors.length;
+  const items = value.map((item, index) =>
+    validateItem(item, `${path}[${index}]`, errors)
+  );
+  return errors.length === start ? (items as T[]) : undefined;
+}
+
+function validateTimerPreset(
+  value: unknown,
+  path: string,
+  errors: ImportFieldError[]
+): TimerPreset | undefined {
+  const obj = expectObject(value, path, errors);
+  if (!obj) return undefined;
+
+  const start = errors.length;
+  const preset = {
+    id: readString(obj, 'id', path, errors),
+    name: readString(obj, 'name', path, errors),
+    duration: readNumber(obj, 'duration', path, errors),
+    type: readOneOf(obj, 'type', TIMER_TYPES, path, errors),
+  };
+  return errors.length === start ? (preset as TimerPreset) : undefined;
+}
+
+function validateMessagePreset(
+  value: unknown,
+  path: string,
+  errors: ImportFieldError[]
+): MessagePreset | undefined {
+  const obj = expectObject(value, path, errors);
+  if (!obj) return undefined;
+
+  const start = errors.length;
+  const preset = {
+    id: readString(obj, 'id', path, errors),
+    name: readString(obj, 'name', path, errors),
+    text: readString(obj, 'text', path, errors),
+    autoHide: readBoolean(obj, 'autoHide', path, errors, true),
+    hideAfter: readNumber(obj, 'hideAfter', path, errors, true),
+  };
+  return errors.length === start ? (preset as MessagePreset) : undefined;
+}
+
+function validateThreshold(
+  value: unknown,
+  path: string,
+  errors: ImportFieldError[]
+): TimerThreshold | undefined {
+  const obj = expectObject(value, path, errors);
+  if (!obj) return undefined;
+
+  const start = errors.length;
+  const threshold = {
+    value: readNumber(obj, 'value', path, errors),
+    unit: readOneOf(obj, 'unit', ['seconds', 'percent'] as const, path, errors),
+    color: readString(obj, 'color', path, errors),
+    flash: readBoolean(obj, 'flash', path, errors),
+  };
+  return errors.length === start ? (threshold as TimerThreshold) : undefined;
+}
+
+function validateThresholds(
+  value: unknown,
+  path: string,
+  errors: ImportFieldError[]
+): TimerThresholds | undefined {
+  if (value === undefined) return undefined;
+
+  const obj = expectObject(value, path, errors);
+  if (!obj) return undefined;
+
+  const warning = validateThreshold(obj.warning, `${path}.warning`, errors);
+  const critical = validateThreshold(obj.critical, `${path}.critical`, errors);
+  return warning && critical ? { warning, critical } : undefined;
+}
+
+function validateTimer(
+  value: unknown,
+  path: string,
+  errors: ImportFieldError[]
+): Timer | undefined {
+  const obj = expectObject(value, path, errors);
+  if (!obj) return undefined;
+
+  const start = errors.length;
+  const state = expectObject(obj.state, `${path}.state`, errors);
+  const type =
+    state && readOneOf(state, 'type', TIMER_TYPES, `${path}.state`, errors);
+  const initialTime =
+    state && readNumber(state, 'initialTime', `${path}.state`, errors);
+
+  const timer = {
+    id: readString(obj, 'id', path, errors),
+    name: readString(obj, 'name', path, errors),
+    order: readNumber(obj, 'order', path, errors),
+    autoLinkToPrevious: readBoolean(
+      obj,
+      'autoLinkToPrevious',
+      path,
+      errors,
+      true
+    ),
+    linkMode: readOneOf(
+      obj,
+      'linkMode',
+      ['stop', 'immediate', 'gap', 'confirm'] as const,
+      path,
+      errors,
+      true
+    ),
+    linkGap: readNumber(obj, 'linkGap', path, errors, true),
+    thresholds: validateThresholds(
+      obj.thresholds,
+      `${path}.thresholds`,
+      errors
+    ),
+    startTime: readString(obj, 'startTime', path, errors, true),
+    scheduleMode: readOneOf(
+      obj,
+      'scheduleMode',
+      ['off', 'start', 'arm'] as const,
+      path,
+      errors,
+      true
+    ),
+  };
+  if (
+    errors.length > start ||
+    type === undefined ||
+    initialTime === undefined
+  ) {
+    return undefined;
+  }
+
+  // Imported timers always arrive idle - a running timeline from another
+  // day means nothing now
+  return { ...timer, state: createTimerState(type, initialTime) } as Timer;
+}
+
+function validateTimerCollection(
+  value: unknown,
+  path: string,
+  errors: ImportFieldError[]
+): TimerCollection | undefined {
+  const obj = expectObject(value, path, errors);
+  if (!obj) return undefined;
+
+  const timers = validateList(
+    obj.timers,
+    `${path}.timers`,
+    errors,
+    validateTimer
+  );
+  const activeTimerId = obj.activeTimerId;
+  if (activeTimerId !== null && typeof activeTimerId !== 'string') {
+    errors.push({
+      path: `${path}.activeTimerId`,
+      message: 'Expected a timer id or null',
+    });
+    return undefined;
+  }
+  if (!timers) return undefined;
+
+  return {
+    timers,
+    activeTimerId: timers.some((t) => t.id === activeTimerId)
+      ? activeTimerId
+      : (timers[0]?.id ?? null),
+  };
+}
+
+function validateProgressBar(
+  value: unknown,
+  path: string,
+  errors: ImportFieldError[]
+): ProgressBarSettings | undefined {
+  if (value === undefined) return undefined;
+
+  const obj = expectObject(value, path, errors);
+  if (!obj) return undefined;
+
+  const start = errors.length;
+  const progressBar = {
+    show: readBoolean(obj, 'show', path, errors),
+    mode: readOneOf(obj, 'mode', ['deplete', 'fill'] as const, path, errors),
+    size: readOneOf(
+      obj,
+      'size',
+      ['thin', 'medium', 'thick'] as const,
+      path,
+      errors
+    ),
+    showMarkers: readBoolean(obj, 'showMarkers', path, errors),
+  };
+  return errors.length === start
+    ? (progressBar as ProgressBarSettings)
+    : undefined;
+}
+
+function validateSettings(
+  value: unknown,
+  path: string,
+  errors: ImportFieldError[]
+): AppSettings | undefined {
+  const obj = expectObject(value, path, errors);
+  if (!obj) return undefined;
+
+  const start = errors.length;
+  const display = expectObject(obj.display, `${path}.display`, errors);
+  const timer = expectObject(obj.timer, `${path}.timer`, errors);
+  const displayPath = `${path}.display`;
+  const timerPath = `${path}.timer`;
+
+  const settings = {
+    display: display && {
+      theme: readOneOf(
+        display,
+        'theme',
+        ['light', 'dark'] as const,
+        displayPath,
+        errors
+      ),
+      fontSize: readOneOf(
+        display,
+        'fontSize',
+        ['small', 'medium', 'large', 'xlarge'] as const,
+        displayPath,
+        errors
+      ),
+      showSeconds: readBoolean(display, 'showSeconds', displayPath, errors),
+      timeFormat: readOneOf(
+        display,
+        'timeFormat',
+        ['12h', '24h'] as const,
+        displayPath,
+        errors
+      ),
+      showDate: readBoolean(display, 'showDate', displayPath, errors),
+      progressBar: validateProgressBar(
+        display.progressBar,
+        `${displayPath}.progressBar`,
+        errors
+      ),
+    },
+    timer: timer && {
+      defaultType: readOneOf(
+        timer,
+        'defaultType',
+        TIMER_TYPES,
+        timerPath,
+        errors
+      ),
+      visualAlerts: readBoolean(timer, 'visualAlerts', timerPath, errors),
+      flashOnExpiry: readBoolean(timer, 'flashOnExpiry', timerPath, errors),
+      showMilliseconds: readBoolean(
+        timer,
+        'showMilliseconds',
+        timerPath,
+        errors
+      ),
+      thresholds: validateThresholds(
+        timer.thresholds,
+        `${timerPath}.thresholds`,
+        errors
+      ),
+    },
+    churchName: readString(obj, 'churchName', path, errors, true),
+  };
+  return errors.length === start ? (settings as AppSettings) : undefined;
+}
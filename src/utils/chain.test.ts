@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import type { LinkMode, Timer, TimerCollection } from '../types';
+import {
+  describeLink,
+  getExpiresAt,
+  getLinkMode,
+  getPendingConfirm,
+  resolveChain,
+} from './chain';
+import { createTimerState, resolveTimerState, startTimeline } from './timeline';
+
+const T0 = 1_700_000_000_000;
+
+function makeTimer(
+  id: string,
+  order: number,
+  duration: number,
+  link?: { mode: LinkMode; gap?: number }
+): Timer {
+  return {
+    id,
+    name: id,
+    order,
+    state: createTimerState('countdown', duration),
+    linkMode: link?.mode,
+    linkGap: link?.gap,
+  };
+}
+
+// `first` running since T0, followed by `rest`
+function makeShow(first: Timer, ...rest: Timer[]): TimerCollection {
+  return {
+    activeTimerId: first.id,
+    timers: [{ ...first, state: startTimeline(first.state, T0) }, ...rest],
+  };
+}
+
+function stateOf(collection: TimerCollection, id: string, now: number) {
+  const timer = collection.timers.find((t) => t.id === id)!;
+  return resolveTimerState(timer.state, now);
+}
+
+describe('getLinkMode', () => {
+  it('defaults to stopping', () => {
+    expect(getLinkMode(makeTimer('a', 1, 60))).toBe('stop');
+  });
+
+  it('reads the legacy flag on the next timer', () => {
+    const next = { ...makeTimer('b', 2, 60), autoLinkToPrevious: true };
+    expect(getLinkMode(makeTimer('a', 1, 60), next)).toBe('immediate');
+  });
+});
+
+describe('describeLink', () => {
+  it('formats gaps as minutes and seconds', () => {
+    expect(describeLink('gap', 75)).toBe('Next starts after 1:15');
+    expect(describeLink('stop')).toBeNull();
+  });
+});
+
+describe('getExpiresAt', () => {
+  it('is only set for running countdowns', () => {
+    const idle = createTimerState('countdown', 60);
+    expect(getExpiresAt(idle)).toBeNull();
+    expect(getExpiresAt(startTimeline(idle, T0))).toBe(T0 + 60_000);
+  });
+});
+
+describe('resolveChain', () => {
+  it('leaves the show alone before the active timer runs out', () => {
+    const show = makeShow(
+      makeTimer('a', 1, 60, { mode: 'immediate' }),
+      makeTimer('b', 2, 30)
+    );
+    expect(resolveChain(show, T0 + 59_000)).toBe(show);
+  });
+
+  it('starts the next timer the moment the previous one hits zero', () => {
+    const show = makeShow(
+      makeTimer('a', 1, 60, { mode: 'immediate' }),
+      makeTimer('b', 2, 30)
+    );
+    const now = T0 + 70_000;
+    const result = resolveChain(show, now);
+
+    expect(result.activeTimerId).toBe('b');
+    expect(stateOf(result, 'a', now)).toMatchObject({
+      status: 'paused',
+      currentTime: 0,
+    });
+    expect(stateOf(result, 'b', now).currentTime).toBe(20);
+    expect(result.timers.find((t) => t.id === 'b')?.actualStart).toBe(
+      T0 + 60_000
+    );
+  });
+
+  it('holds the next timer at full time during a gap', () => {
+    const show = makeShow(
+      makeTimer('a', 1, 60, { mode: 'gap', gap: 15 }),
+      makeTimer('b', 2, 30)
+    );
+
+    const during = T0 + 70_000;
+    expect(stateOf(resolveChain(show, during), 'b', during).currentTime).toBe(
+      30
+    );
+
+    const after = T0 + 80_000;
+    expect(stateOf(resolveChain(show, after), 'b', after).currentTime).toBe(25);
+  });
+
+  it('follows several links in one pass', () => {
+    const show = makeShow(
+      makeTimer('a', 1, 10, { mode: 'immediate' }),
+      makeTimer('b', 2, 10, { mode: 'immediate' }),
+      makeTimer('c', 3, 10)
+    );
+    const result = resolveChain(show, T0 + 25_000);
+
+    expect(result.activeTimerId).toBe('c');
+    expect(stateOf(result, 'c', T0 + 25_000).currentTime).toBe(5);
+  });
+
+  it('stops at a confirm link and reports the timer waiting', () => {
+    const show = makeShow(
+      makeTimer('a', 1, 60, { mode: 'confirm' }),
+      makeTimer('b', 2, 30)
+    );
+    const now = T0 + 61_000;
+
+    expect(resolveChain(show, now).activeTimerId).toBe('a');
+    expect(getPendingConfirm(show, now)?.id).toBe('b');
+    expect(getPendingConfirm(show, T0 + 30_000)).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import type { LinkMode, Timer, TimerCollection, TimerState } from '../types';
+import { pauseTimeline, resetTimeline, startTimeline } from './timeline';
+
+/**
+ * What happens when a timer runs out. Timers saved before link modes existed
+ * marked the next timer with autoLinkToPrevious instead.
+ */
+export function getLinkMode(timer: Timer, nextTimer?: Timer): LinkMode {
+  if (timer.linkMode) return timer.linkMode;
+  return nextTimer?.autoLinkToPrevious ? 'immediate' : 'stop';
+}
+
+/**
+ * Short label for a link, e.g. "Next after 0:10" - null when the chain stops
+ */
+export function describeLink(mode: LinkMode, gap: number = 0): string | null {
+  switch (mode) {
+    case 'immediate':
+      return 'Next starts immediately';
+    case 'gap': {
+      const minutes = Math.floor(gap / 60);
+      const seconds = (gap % 60).toString().padStart(2, '0');
+      return `Next starts after ${minutes}:${seconds}`;
+    }
+    case 'confirm':
+      return 'Next starts on confirm';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Server time (ms) a running countdown reaches zero, or null if it isn't one
+ */
+export function getExpiresAt(state: TimerState): number | null {
+  if (
+    state.type !== 'countdown' ||
+    state.status !== 'running' ||
+    state.startedAt === null
+  ) {
+    return null;
+  }
+
+  return state.startedAt + state.accumulatedPause + state.initialTime * 1000;
+}
+
+// Active timer and the one after it in show order
+function getActivePair(collection: TimerCollection) {
+  const ordered = [...collection.timers].sort((a, b) => a.order - b.order);
+  const index = ordered.findIndex((t) => t.id === collection.activeTimerId);
+
+  return index === -1
+    ? { active: undefined, next: undefined }
+    : { active: ordered[index], next: ordered[index + 1] };
+}
+
+/**
+ * Follows automatic links from the active timer. The hand-over is worked out
+ * purely from the stored timeline - the next timer starts at the exact moment
+ * the previous one hit zero (plus any gap) - so a display resolves the same
+ * chain on its own even when the controller is asleep.
+ */
+export function resolveChain(
+  collection: TimerCollection,
+  now: number
+): TimerCollection {
+  let result = collection;
+
+  // Each hop moves one timer down the list, so this always terminates
+  for (let hop = 0; hop < collection.timers.length; hop++) {
+    const { active, next } = getActivePair(result);
+    if (!active || !next) break;
+
+    const expiresAt = getExpiresAt(active.state);
+    if (expiresAt === null || expiresAt > now) break;
+
+    const mode = getLinkMode(active, next);
+    if (mode !== 'immediate' && mode !== 'gap') break;
+
+    // During a gap the next timer holds at its full duration until startAt
+    const startAt =
+      expiresAt + (mode === 'gap' ? (active.linkGap ?? 0) * 1000 : 0);
+
+    result = {
+      ...result,
+      activeTimerId: next.id,
+      timers: result.timers.map((t) => {
+        if (t.id === active.id) {
+          return {
+            ...t,
+            state: pauseTimeline(t.state, expiresAt),
+            actualEnd: expiresAt,
+          };
+        }
+        if (t.id === next.id) {
+          return {
+            ...t,
+            state: startTimeline(resetTimeline(t.state), startAt),
+            actualStart: startAt,
+            actualEnd: undefined,
+          };
+        }
+        return t;
+      }),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * The next timer when the active one has run out on a 'confirm' link
+ */
+export function getPendingConfirm(
+  collection: TimerCollection,
+  now: number
+): Timer | null {
+  const { active, next } = getActivePair(collection);
+  if (!active || !next) return null;
+
+  const expiresAt = getExpiresAt(active.state);
+  if (expiresAt === null || expiresAt > now) return null;
+
+  return getLinkMode(active, next) === 'confirm' ? next : null;
+}
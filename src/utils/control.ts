@@ -0,0 +1,38 @@
+import type { ControlCommand, RemoteAction } from '../types/control';
+
+/**
+ * Maps an app action sent through the bridge (OSC input) onto the control
+ * command that runs it. Returns null for actions with no remote meaning.
+ */
+export function toControlCommand(action: RemoteAction): ControlCommand | null {
+  switch (action.type) {
+    case 'START_TIMER':
+      return { action: 'start', timerId: action.payload?.timerId };
+    // The controller has no separate stop - a stopped timer stays put
+    case 'PAUSE_TIMER':
+    case 'STOP_TIMER':
+      return { action: 'pause', timerId: action.payload?.timerId };
+    case 'RESET_TIMER':
+      return { action: 'reset', timerId: action.payload?.timerId };
+    case 'SELECT_TIMER':
+      return { action: 'select', timerId: action.payload.timerId };
+    case 'ADJUST_TIME':
+      return {
+        action: 'adjust',
+        timerId: action.payload.timerId,
+        seconds: action.payload.seconds,
+      };
+    case 'SHOW_MESSAGE':
+      return { action: 'showMessage', text: action.payload.text };
+    // Only one message is shown at a time
+    case 'HIDE_MESSAGE':
+    case 'CLEAR_ALL_MESSAGES':
+      return { action: 'hideMessage' };
+    case 'TOGGLE_BLACKOUT':
+      return { action: 'blackout' };
+    case 'TOGGLE_FLASH':
+      return { action: 'flash' };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { detectDelimiter, parseDelimited, toCsv } from './csv';
+
+describe('detectDelimiter', () => {
+  it('prefers tabs, then semicolons, then commas', () => {
+    expect(detectDelimiter('a\tb,c\n1\t2')).toBe('\t');
+    expect(detectDelimiter('a;b\n1;2')).toBe(';');
+    expect(detectDelimiter('a;b,c')).toBe(',');
+    expect(detectDelimiter('')).toBe(',');
+  });
+});
+
+describe('parseDelimited', () => {
+  it('splits rows and cells', () => {
+    expect(parseDelimited('a,b\r\n1,2\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('keeps delimiters, quotes and line breaks inside quoted cells', () => {
+    expect(parseDelimited('"Hello, world","Say ""hi""","two\nlines"')).toEqual([
+      ['Hello, world', 'Say "hi"', 'two\nlines'],
+    ]);
+  });
+
+  it('drops blank lines', () => {
+    expect(parseDelimited('a\n\n , \nb')).toEqual([['a'], ['b']]);
+  });
+
+  it('reads tab-separated text pasted from a spreadsheet', () => {
+    expect(parseDelimited('Name\tDuration\nWelcome\t5:00')).toEqual([
+      ['Name', 'Duration'],
+      ['Welcome', '5:00'],
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the cells that need it', () => {
+    expect(
+      toCsv([
+        ['Name', 'Note'],
+        ['Talk, part 1', 'He said "go"'],
+        ['Break', 10],
+      ])
+    ).toBe('Name,Note\r\n"Talk, part 1","He said ""go"""\r\nBreak,10');
+  });
+
+  it('round-trips through the parser', () => {
+    const rows = [
+      ['a,b', 'c"d'],
+      ['line\nbreak', 'plain'],
+    ];
+    expect(parseDelimited(toCsv(rows))).toEqual(rows);
+  });
+});
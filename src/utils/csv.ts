@@ -0,0 +1,77 @@
+/**
+ * Guesses the delimiter from the first line - tabs for text pasted from a
+ * spreadsheet, semicolons for some European exports, commas otherwise
+ */
+export function detectDelimiter(text: string): ',' | '\t' | ';' {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  if (firstLine.includes('\t')) return '\t';
+  if (firstLine.includes(';') && !firstLine.includes(',')) return ';';
+  return ',';
+}
+
+/**
+ * Parses CSV/TSV text into rows of cells. Handles quoted cells, escaped
+ * quotes ("") and line breaks inside quotes. Blank lines are dropped.
+ */
+export function parseDelimited(
+  text: string,
+  delimiter: string = detectDelimiter(text)
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Builds CSV text, quoting cells that need it
+ */
+export function toCsv(rows: (string | number)[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const text = String(value);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(',')
+    )
+    .join('\r\n');
+}
@@ -0,0 +1,154 @@
+import type {
+  EventLog,
+  Timer,
+  TimerCollection,
+  TimerEvent,
+  TimerState,
+} from '../types';
+import { getExpiresAt } from './chain';
+import { getElapsedMs } from './timeline';
+
+// An event as the timers report it, before it is stamped and stored
+export type TimerEventDraft = Omit<TimerEvent, 'id' | 'by'>;
+
+function draft(
+  timer: Timer,
+  state: TimerState,
+  type: TimerEvent['type'],
+  at: number
+): TimerEventDraft {
+  return {
+    timerId: timer.id,
+    timerName: timer.name,
+    type,
+    at,
+    planned: state.initialTime,
+    elapsed: Math.floor(getElapsedMs(state, at) / 1000),
+  };
+}
+
+/**
+ * The expiry of a running countdown, for when it crosses zero
+ */
+export function getExpireEvent(timer: Timer): TimerEventDraft | null {
+  const expiresAt = getExpiresAt(timer.state);
+  return expiresAt === null
+    ? null
+    : draft(timer, timer.state, 'expire', expiresAt);
+}
+
+// What happened to one timer between two stored timelines
+function getTimerEvent(
+  prev: Timer,
+  next: Timer,
+  now: number
+): TimerEventDraft[] {
+  const before = prev.state;
+  const after = next.state;
+  const wasRunning = before.status === 'running';
+  const isRunning = after.status === 'running';
+
+  if (!wasRunning && isRunning) {
+    // Resuming keeps the timeline; starting from scratch (by hand or in a
+    // chain hand-over) begins a new one at the moment it started
+    const restarted =
+      after.startedAt !== null && after.startedAt !== before.startedAt;
+    if (before.status === 'paused' && !restarted) {
+      return [draft(next, after, 'resume', now)];
+    }
+    return [
+      draft(
+        next,
+        after,
+        'start',
+        restarted ? (after.startedAt as number) : now
+      ),
+    ];
+  }
+
+  if (before.startedAt !== null && after.startedAt === null) {
+    return [draft(next, after, 'reset', now)];
+  }
+
+  if (wasRunning && !isRunning) {
+    // A chain hand-over stops the timer at the exact moment it hit zero,
+    // possibly before anyone saw it cross
+    const pausedAt = after.pausedAt ?? now;
+    const pause = draft(next, after, 'pause', pausedAt);
+    return pausedAt === getExpiresAt(before)
+      ? [draft(next, after, 'expire', pausedAt), pause]
+      : [pause];
+  }
+
+  // Same status, moved timeline - someone changed the time on the display
+  if (before.startedAt !== after.startedAt) {
+    const change =
+      Math.round(getElapsedMs(after, now) / 1000) -
+      Math.round(getElapsedMs(before, now) / 1000);
+    if (change === 0) return [];
+
+    return [
+      {
+        ...draft(next, after, 'adjust', now),
+        adjustment: after.type === 'countdown' ? -change : change,
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Works out starts, pauses, resumes, resets and time adjustments from two
+ * versions of the stored collection. Added and deleted timers are ignored.
+ */
+export function getTimerEvents(
+  prev: TimerCollection,
+  next: TimerCollection,
+  now: number
+): TimerEventDraft[] {
+  const previous = new Map(prev.timers.map((t) => [t.id, t]));
+
+  return next.timers
+    .flatMap((timer) => {
+      const before = previous.get(timer.id);
+      return before && before.state !== timer.state
+        ? getTimerEvent(before, timer, now)
+        : [];
+    })
+    .sort((a, b) => a.at - b.at);
+}
+
+export function generateEventLogId(): string {
+  return `log-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Starts an empty log for a service in a room
+ */
+export function createEventLog(
+  roomId: string,
+  name: string,
+  now: number = Date.now()
+): EventLog {
+  return {
+    id: generateEventLogId(),
+    roomId,
+    name,
+    startedAt: now,
+    updatedAt: now,
+    events: [],
+  };
+}
+
+/**
+ * Default log name - the date the service happened
+ */
+export function getEventLogName(now: number = Date.now()): string {
+  return new Date(now).toLocaleDateString([], {
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
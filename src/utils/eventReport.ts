@@ -0,0 +1,322 @@
+import type { EventLog, TimerEvent } from '../types';
+import { toCsv } from './csv';
+import { formatClockTime, getDisplayTime } from './time';
+
+type ClockFormat = '12h' | '24h';
+
+export interface EventReportAdjustment {
+  at: number; // ms
+  seconds: number; // added (+) or taken off (-) the display
+  by?: string;
+}
+
+// One segment of the service, replayed from its events
+export interface EventReportRow {
+  timerId: string;
+  name: string;
+  firstStart: number; // ms
+  lastEnd: number | null; // ms, null while still running
+  plannedDuration: number; // seconds
+  actualDuration: number; // seconds it actually ran, not counting pauses
+  overrun: number | null; // seconds over (+) or under (-) plan, null without a plan
+  pauses: number; // times it was paused and picked up again
+  resets: number;
+  expiredAt: number | null; // ms a countdown first hit zero
+  adjustments: EventReportAdjustment[];
+}
+
+export interface EventReport {
+  rows: EventReportRow[];
+  startedAt: number | null; // ms
+  endedAt: number | null; // ms
+  plannedDuration: number; // seconds, segments with a plan
+  actualDuration: number; // seconds, segments with a plan
+  overrun: number | null; // seconds, null when nothing had a plan
+}
+
+interface ReplayState extends EventReportRow {
+  runningSince: number | null;
+  runMs: number;
+}
+
+/**
+ * Replays a log into planned vs. actual timing for each segment that started,
+ * in the order they first started. A segment that was reset and run again
+ * counts all its running time. Segments still running are measured to now.
+ */
+export function buildEventReport(log: EventLog, now: number): EventReport {
+  const segments = new Map<string, ReplayState>();
+  const events = [...log.events].sort((a, b) => a.at - b.at);
+
+  events.forEach((event) => {
+    let segment = segments.get(event.timerId);
+    if (!segment) {
+      if (event.type !== 'start' && event.type !== 'resume') return;
+
+      segment = {
+        timerId: event.timerId,
+        name: event.timerName,
+        firstStart: event.at,
+        lastEnd: null,
+        plannedDuration: event.planned,
+        actualDuration: 0,
+        overrun: null,
+        pauses: 0,
+        resets: 0,
+        expiredAt: null,
+        adjustments: [],
+        runningSince: null,
+        runMs: 0,
+      };
+      segments.set(event.timerId, segment);
+    }
+
+    // The latest name and plan win, so renames show up as they ended
+    segment.name = event.timerName;
+    segment.plannedDuration = event.planned;
+
+    if (event.type === 'resume') segment.pauses += 1;
+    if (event.type === 'reset') segment.resets += 1;
+
+    switch (event.type) {
+      case 'start':
+      case 'resume':
+        segment.runningSince ??= event.at;
+        segment.lastEnd = null;
+        break;
+      case 'pause':
+      case 'reset':
+        if (segment.runningSince !== null) {
+          segment.runMs += Math.max(0, event.at - segment.runningSince);
+          segment.runningSince = null;
+          segment.lastEnd = event.at;
+        }
+        break;
+      case 'expire':
+        segment.expiredAt ??= event.at;
+        break;
+      case 'adjust':
+        segment.adjustments.push({
+          at: event.at,
+          seconds: event.adjustment ?? 0,
+          by: event.by,
+        });
+        break;
+    }
+  });
+
+  const rows = [...segments.values()]
+    .map(({ runningSince, runMs, ...row }): EventReportRow => {
+      const ms = runMs + (runningSince !== null ? now - runningSince : 0);
+      const actualDuration = Math.round(ms / 1000);
+      return {
+        ...row,
+        actualDuration,
+        overrun:
+          row.plannedDuration > 0 ? actualDuration - row.plannedDuration : null,
+      };
+    })
+    .sort((a, b) => a.firstStart - b.firstStart);
+
+  const planned = rows.filter((row) => row.overrun !== null);
+  const plannedDuration = planned.reduce((t, r) => t + r.plannedDuration, 0);
+  const actualDuration = planned.reduce((t, r) => t + r.actualDuration, 0);
+  const stillRunning = rows.some((row) => row.lastEnd === null);
+
+  return {
+    rows,
+    startedAt: rows[0]?.firstStart ?? null,
+    endedAt:
+      rows.length === 0 || stillRunning
+        ? null
+        : Math.max(...rows.map((row) => row.lastEnd as number)),
+    plannedDuration,
+    actualDuration,
+    overrun: planned.length > 0 ? actualDuration - plannedDuration : null,
+  };
+}
+
+const duration = (seconds: number) => getDisplayTime(seconds, true, false);
+
+/**
+ * "+1:30" / "-0:45" - for overruns and adjustments
+ */
+export function formatSignedDuration(seconds: number | null): string {
+  if (seconds === null) return '';
+  return `${seconds > 0 ? '+' : ''}${duration(seconds)}`;
+}
+
+/**
+ * "+2:00 by Sam; -0:30" - every time change on a segment
+ */
+export function describeAdjustments(
+  adjustments: EventReportAdjustment[]
+): string {
+  return adjustments
+    .map(
+      (a) => `${formatSignedDuration(a.seconds)}${a.by ? ` by ${a.by}` : ''}`
+    )
+    .join('; ');
+}
+
+/**
+ * Short description of a logged event, e.g. "Adjusted +1:00"
+ */
+export function describeTimerEvent(event: TimerEvent): string {
+  switch (event.type) {
+    case 'start':
+      return 'Started';
+    case 'pause':
+      return 'Paused';
+    case 'resume':
+      return 'Resumed';
+    case 'reset':
+      return 'Reset';
+    case 'expire':
+      return 'Reached zero';
+    case 'adjust':
+      return `Adjusted ${formatSignedDuration(event.adjustment ?? 0)}`;
+  }
+}
+
+/**
+ * Exports the report as CSV, one row per segment
+ */
+export function eventReportToCsv(report: EventReport): string {
+  const clock = (timestamp: number | null) =>
+    timestamp !== null ? formatClockTime(timestamp, '24h', true) : '';
+
+  return toCsv([
+    [
+      'Segment',
+      'Started',
+      'Ended',
+      'Planned duration',
+      'Actual duration',
+      'Over/under',
+      'Pauses',
+      'Resets',
+      'Reached zero',
+      'Time adjustments',
+    ],
+    ...report.rows.map((row) => [
+      row.name,
+      clock(row.firstStart),
+      clock(row.lastEnd),
+      duration(row.plannedDuration),
+      duration(row.actualDuration),
+      formatSignedDuration(row.overrun),
+      row.pauses,
+      row.resets,
+      clock(row.expiredAt),
+      describeAdjustments(row.adjustments),
+    ]),
+  ]);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+  h1 { font-size: 1.5rem; margin: 0 0 0.25rem; }
+  h2 { font-size: 1.1rem; margin: 2rem 0 0.5rem; }
+  p { color: #555; margin: 0 0 1rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.85rem; }
+  th, td { border-bottom: 1px solid #ddd; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+  th { border-bottom: 2px solid #999; }
+  .num { font-variant-numeric: tabular-nums; white-space: nowrap; }
+  .over { color: #b91c1c; font-weight: 600; }
+  .under { color: #15803d; }
+  tfoot td { border-top: 2px solid #999; font-weight: 600; }
+  @media print { body { margin: 0; } tr { break-inside: avoid; } }
+`;
+
+/**
+ * Exports the report as a standalone HTML page, laid out for printing, with
+ * the full event log after the summary
+ */
+export function eventReportToHtml(
+  log: EventLog,
+  report: EventReport,
+  format: ClockFormat = '12h'
+): string {
+  const clock = (timestamp: number | null) =>
+    timestamp !== null ? formatClockTime(timestamp, format, true) : '—';
+  const overrunCell = (seconds: number | null) =>
+    `<td class="num${seconds !== null && seconds > 0 ? ' over' : seconds !== null && seconds < 0 ? ' under' : ''}">${formatSignedDuration(seconds) || '—'}</td>`;
+
+  const segmentRows = report.rows
+    .map(
+      (row) => `<tr>
+  <td>${escapeHtml(row.name)}</td>
+  <td class="num">${clock(row.firstStart)}</td>
+  <td class="num">${clock(row.lastEnd)}</td>
+  <td class="num">${duration(row.plannedDuration)}</td>
+  <td class="num">${duration(row.actualDuration)}</td>
+  ${overrunCell(row.overrun)}
+  <td class="num">${row.pauses}</td>
+  <td>${escapeHtml(describeAdjustments(row.adjustments)) || '—'}</td>
+</tr>`
+    )
+    .join('\n');
+
+  const eventRows = [...log.events]
+    .sort((a, b) => a.at - b.at)
+    .map(
+      (event) => `<tr>
+  <td class="num">${clock(event.at)}</td>
+  <td>${escapeHtml(event.timerName)}</td>
+  <td>${escapeHtml(describeTimerEvent(event))}</td>
+  <td class="num">${duration(event.elapsed)}</td>
+  <td>${escapeHtml(event.by ?? '')}</td>
+</tr>`
+    )
+    .join('\n');
+
+  const span =
+    report.startedAt !== null
+      ? ` · ${clock(report.startedAt)} to ${report.endedAt !== null ? clock(report.endedAt) : 'now'}`
+      : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(log.name)} - timing report</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(log.name)}</h1>
+<p>Timing report${span}</p>
+
+<table>
+<thead>
+<tr><th>Segment</th><th>Started</th><th>Ended</th><th>Planned</th><th>Actual</th><th>Over/under</th><th>Pauses</th><th>Time adjustments</th></tr>
+</thead>
+<tbody>
+${segmentRows}
+</tbody>
+<tfoot>
+<tr><td>Total</td><td></td><td></td><td class="num">${duration(report.plannedDuration)}</td><td class="num">${duration(report.actualDuration)}</td>${overrunCell(report.overrun)}<td></td><td></td></tr>
+</tfoot>
+</table>
+
+<h2>Event log</h2>
+<table>
+<thead>
+<tr><th>Time</th><th>Segment</th><th>Event</th><th>Elapsed</th><th>By</th></tr>
+</thead>
+<tbody>
+${eventRows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
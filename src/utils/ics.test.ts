@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { isIcs, parseIcsDay } from './ics';
+import { formatClockTime } from './time';
+
+const calendar = (...events: string[][]) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+// Sunday 15 June 2025, in local time
+const SUNDAY = new Date(2025, 5, 15);
+
+describe('isIcs', () => {
+  it('recognises a calendar file', () => {
+    expect(isIcs('\nBEGIN:VCALENDAR\nEND:VCALENDAR')).toBe(true);
+    expect(isIcs('Name,Duration')).toBe(false);
+  });
+});
+
+describe('parseIcsDay', () => {
+  it('turns the events on that day into rows in start order', () => {
+    const { rows, warnings } = parseIcsDay(
+      calendar(
+        [
+          'UID:2',
+          'SUMMARY:Sermon',
+          'DTSTART:20250615T103000',
+          'DURATION:PT35M',
+        ],
+        [
+          'UID:1',
+          'SUMMARY:Welcome\\, all',
+          'DTSTART:20250615T100000',
+          'DTEND:20250615T100500',
+        ],
+        ['UID:3', 'SUMMARY:Other day', 'DTSTART:20250616T100000']
+      ),
+      SUNDAY
+    );
+
+    expect(warnings).toEqual([]);
+    expect(rows).toMatchObject([
+      { line: 1, name: 'Welcome, all', duration: 300, startTime: '10:00' },
+      { line: 2, name: 'Sermon', duration: 2100, startTime: '10:30' },
+    ]);
+  });
+
+  it('unfolds long lines', () => {
+    const { rows } = parseIcsDay(
+      calendar([
+        'UID:1',
+        'SUMMARY:Morning ',
+        ' service',
+        'DTSTART:20250615T100000',
+        'DURATION:PT1H',
+      ]),
+      SUNDAY
+    );
+    expect(rows[0].name).toBe('Morning service');
+  });
+
+  it('converts UTC times to local time', () => {
+    const { rows } = parseIcsDay(
+      calendar([
+        'UID:1',
+        'SUMMARY:Stream',
+        'DTSTART:20250615T120000Z',
+        'DURATION:PT1H',
+      ]),
+      new Date(Date.UTC(2025, 5, 15, 12))
+    );
+    expect(rows[0].startTime).toBe(
+      formatClockTime(Date.UTC(2025, 5, 15, 12), '24h')
+    );
+  });
+
+  it('expands weekly repeats and honours exclusions', () => {
+    const weekly = [
+      'UID:1',
+      'SUMMARY:Service',
+      'DTSTART:20250601T100000',
+      'DURATION:PT1H',
+      'RRULE:FREQ=WEEKLY;BYDAY=SU',
+    ];
+
+    expect(parseIcsDay(calendar(weekly), SUNDAY).rows).toHaveLength(1);
+    expect(
+      parseIcsDay(calendar([...weekly, 'EXDATE:20250615T100000']), SUNDAY).rows
+    ).toEqual([]);
+    expect(
+      parseIcsDay(calendar([...weekly, 'RRULE:FREQ=WEEKLY;COUNT=2']), SUNDAY)
+        .rows
+    ).toEqual([]);
+  });
+
+  it('uses a moved occurrence in place of the one from the series', () => {
+    const { rows } = parseIcsDay(
+      calendar(
+        [
+          'UID:1',
+          'SUMMARY:Service',
+          'DTSTART:20250601T100000',
+          'DURATION:PT1H',
+          'RRULE:FREQ=WEEKLY',
+        ],
+        [
+          'UID:1',
+          'SUMMARY:Service (late start)',
+          'RECURRENCE-ID:20250615T100000',
+          'DTSTART:20250615T110000',
+          'DURATION:PT1H',
+        ]
+      ),
+      SUNDAY
+    );
+
+    expect(rows.map((r) => [r.name, r.startTime])).toEqual([
+      ['Service (late start)', '11:00'],
+    ]);
+  });
+
+  it('reads the nth weekday of the month', () => {
+    const monthly = calendar([
+      'UID:1',
+      'SUMMARY:Communion',
+      'DTSTART:20250511T100000',
+      'DURATION:PT1H',
+      'RRULE:FREQ=MONTHLY;BYDAY=3SU',
+    ]);
+
+    expect(parseIcsDay(monthly, SUNDAY).rows).toHaveLength(1);
+    expect(parseIcsDay(monthly, new Date(2025, 5, 8)).rows).toEqual([]);
+  });
+
+  it('skips cancelled and all-day events with a warning', () => {
+    const { rows, warnings } = parseIcsDay(
+      calendar(
+        ['UID:1', 'SUMMARY:Retreat', 'DTSTART;VALUE=DATE:20250615'],
+        [
+          'UID:2',
+          'SUMMARY:Cancelled',
+          'DTSTART:20250615T100000',
+          'STATUS:CANCELLED',
+        ]
+      ),
+      SUNDAY
+    );
+
+    expect(rows).toEqual([]);
+    expect(warnings).toEqual(['1 all-day event was skipped']);
+  });
+
+  it('flags events without an end or duration', () => {
+    const { rows } = parseIcsDay(
+      calendar(['UID:1', 'SUMMARY:Open', 'DTSTART:20250615T100000']),
+      SUNDAY
+    );
+    expect(rows[0]).toMatchObject({
+      duration: null,
+      errors: ['Event has no end time or duration'],
+    });
+  });
+});
@@ -0,0 +1,602 @@
+import type { RunOfShowRow } from './runOfShow';
+import { formatClockTime } from './time';
+
+// A calendar day with no time zone attached
+interface CivilDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface IcsDateTime extends CivilDate {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  isDate: boolean; // VALUE=DATE - an all-day value with no time
+  timeZone: string | null; // IANA zone, 'UTC', or null for floating (venue) time
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: IcsDateTime;
+  byDay?: { weekday: number; ordinal?: number }[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  weekStart: number; // 0 = Sunday
+}
+
+interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: IcsDateTime;
+  end?: IcsDateTime;
+  duration?: number; // ms, from DURATION when there is no DTEND
+  rule?: RecurrenceRule;
+  exdates: IcsDateTime[];
+  recurrenceId?: IcsDateTime;
+  cancelled: boolean;
+}
+
+export interface IcsImport {
+  rows: RunOfShowRow[];
+  warnings: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * True if the text looks like an iCalendar file
+ */
+export function isIcs(text: string): boolean {
+  return /^\s*BEGIN:VCALENDAR/i.test(text);
+}
+
+/**
+ * Turns the events on one venue-local date into timer rows. Recurring events
+ * are expanded for that date, and times in other zones are converted to the
+ * venue's (this device's) local time.
+ */
+export function parseIcsDay(text: string, date: Date): IcsImport {
+  const warnings = new Set<string>();
+  const events = readEvents(unfoldLines(text), warnings);
+  const target: CivilDate = {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+  };
+
+  // Moved or edited occurrences replace the matching one from the series
+  const overridden = new Set(
+    events
+      .filter((e) => e.recurrenceId)
+      .map((e) => `${e.uid}@${toInstant(e.recurrenceId!, warnings)}`)
+  );
+
+  let allDay = 0;
+  const occurrences: { event: IcsEvent; start: number }[] = [];
+
+  events.forEach((event) => {
+    if (event.cancelled) return;
+    if (event.start.isDate) {
+      if (occursOn(event, target, warnings).length > 0) allDay++;
+      return;
+    }
+
+    occursOn(event, target, warnings)
+      .filter(
+        (start) =>
+          event.recurrenceId || !overridden.has(`${event.uid}@${start}`)
+      )
+      .forEach((start) => occurrences.push({ event, start }));
+  });
+
+  if (allDay > 0) {
+    warnings.add(
+      `${allDay} all-day event${allDay === 1 ? ' was' : 's were'} skipped`
+    );
+  }
+
+  const rows = occurrences
+    .sort((a, b) => a.start - b.start)
+    .map(({ event, start }, index): RunOfShowRow => {
+      const durationMs = event.end
+        ? toInstant(event.end, warnings) - toInstant(event.start, warnings)
+        : event.duration;
+      const duration =
+        durationMs !== undefined && durationMs > 0
+          ? Math.round(durationMs / 1000)
+          : null;
+
+      return {
+        line: index + 1,
+        name: event.summary,
+        duration,
+        type: 'countdown',
+        startTime: formatClockTime(start, '24h'),
+        link: false,
+        errors: [
+          ...(event.summary ? [] : ['Missing name']),
+          ...(duration === null ? ['Event has no end time or duration'] : []),
+        ],
+      };
+    });
+
+  return { rows, warnings: [...warnings] };
+}
+
+// Long lines are folded onto continuation lines that start with a space or tab
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // The first colon outside a quoted parameter value ends the name/params part
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach((part) => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === 'n' ? '\n' : char
+  );
+}
+
+function readEvents(lines: string[], warnings: Set<string>): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let current: Partial<IcsEvent> | null = null;
+  let depth = 0; // Nested components inside a VEVENT, e.g. VALARM
+
+  lines.forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) return;
+    const { name, params, value } = property;
+
+    if (name === 'BEGIN') {
+      if (value.toUpperCase() === 'VEVENT') {
+        current = { exdates: [], cancelled: false, summary: '', uid: '' };
+      } else if (current) {
+        depth++;
+      }
+      return;
+    }
+    if (name === 'END') {
+      if (current && depth > 0) {
+        depth--;
+      } else if (current && value.toUpperCase() === 'VEVENT') {
+        if (current.start) events.push(current as IcsEvent);
+        current = null;
+      }
+      return;
+    }
+    if (!current || depth > 0) return;
+
+    const event: Partial<IcsEvent> = current;
+    switch (name) {
+      case 'UID':
+        event.uid = value;
+        break;
+      case 'SUMMARY':
+        event.summary = unescapeText(value).trim();
+        break;
+      case 'DTSTART':
+        event.start = parseDateTime(value, params) ?? undefined;
+        break;
+      case 'DTEND':
+        event.end = parseDateTime(value, params) ?? undefined;
+        break;
+      case 'DURATION':
+        event.duration = parseDuration(value) ?? undefined;
+        break;
+      case 'RRULE':
+        event.rule = parseRule(value, warnings);
+        break;
+      case 'EXDATE':
+        value.split(',').forEach((part) => {
+          const exdate = parseDateTime(part, params);
+          if (exdate) event.exdates!.push(exdate);
+        });
+        break;
+      case 'RECURRENCE-ID':
+        event.recurrenceId = parseDateTime(value, params) ?? undefined;
+        break;
+      case 'STATUS':
+        event.cancelled = value.toUpperCase() === 'CANCELLED';
+        break;
+    }
+  });
+
+  return events;
+}
+
+function parseDateTime(
+  value: string,
+  params: Record<string, string>
+): IcsDateTime | null {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const isDate = params.VALUE === 'DATE' || match[4] === undefined;
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hours: Number(match[4] ?? 0),
+    minutes: Number(match[5] ?? 0),
+    seconds: Number(match[6] ?? 0),
+    isDate,
+    timeZone: match[7] ? 'UTC' : (params.TZID ?? null),
+  };
+}
+
+// ISO 8601 durations as used by iCalendar, e.g. PT1H30M or P1W
+function parseDuration(value: string): number | null {
+  const match = value
+    .trim()
+    .match(
+      /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+    );
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    Number(weeks ?? 0) * 7 * DAY_MS +
+    Number(days ?? 0) * DAY_MS +
+    Number(hours ?? 0) * 3600000 +
+    Number(minutes ?? 0) * 60000 +
+    Number(seconds ?? 0) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function parseRule(
+  value: string,
+  warnings: Set<string>
+): RecurrenceRule | undefined {
+  const parts = Object.fromEntries(
+    value.split(';').map((part) => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=')];
+    })
+  );
+
+  const freq = parts.FREQ?.toUpperCase();
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    warnings.add(
+      `Repeat rule "${parts.FREQ}" isn't supported - only its first date is used`
+    );
+    return undefined;
+  }
+  if (parts.BYSETPOS || parts.BYWEEKNO || parts.BYYEARDAY) {
+    warnings.add(
+      'Some repeat rules use options that are not supported and may be off'
+    );
+  }
+
+  const numbers = (list?: string) =>
+    list ? list.split(',').map(Number).filter(Number.isFinite) : undefined;
+
+  return {
+    freq: freq as RecurrenceRule['freq'],
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until: parts.UNTIL
+      ? (parseDateTime(parts.UNTIL, {}) ?? undefined)
+      : undefined,
+    byDay: parts.BYDAY ? parseByDay(parts.BYDAY) : undefined,
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+    weekStart: parts.WKST
+      ? Math.max(0, WEEKDAYS.indexOf(parts.WKST.toUpperCase()))
+      : 1,
+  };
+}
+
+// "MO,WE" or "2SU,-1FR" - an ordinal picks the nth weekday of the month
+function parseByDay(value: string): RecurrenceRule['byDay'] {
+  const days: NonNullable<RecurrenceRule['byDay']> = [];
+  value.split(',').forEach((day) => {
+    const match = day
+      .trim()
+      .toUpperCase()
+      .match(/^([+-]?\d+)?([A-Z]{2})$/);
+    const weekday = match ? WEEKDAYS.indexOf(match[2]) : -1;
+    if (match && weekday !== -1) {
+      days.push({
+        weekday,
+        ordinal: match[1] ? Number(match[1]) : undefined,
+      });
+    }
+  });
+  return days;
+}
+
+// Time zones
+
+const checkedZones = new Map<string, string | null>();
+
+// Resolves a TZID to a zone Intl understands. Some calendars prefix the IANA
+// name with a vendor path, e.g. "/mozilla.org/20050126_1/Europe/London".
+function resolveTimeZone(tzid: string): string | null {
+  if (checkedZones.has(tzid)) return checkedZones.get(tzid)!;
+
+  const segments = tzid.split('/').filter(Boolean);
+  let resolved: string | null = null;
+  for (let i = 0; i < segments.length && !resolved; i++) {
+    const candidate = segments.slice(i).join('/');
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: candidate });
+      resolved = candidate;
+    } catch {
+      // Not a zone name - try without the next leading segment
+    }
+  }
+
+  checkedZones.set(tzid, resolved);
+  return resolved;
+}
+
+// Milliseconds a zone is ahead of UTC at a given instant
+function getZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant (ms) a calendar date-time refers to
+function toInstant(value: IcsDateTime, warnings: Set<string>): number {
+  const wallClock = Date.UTC(
+    value.year,
+    value.month - 1,
+    value.day,
+    value.hours,
+    value.minutes,
+    value.seconds
+  );
+
+  if (value.timeZone === 'UTC') return wallClock;
+
+  const zone = value.timeZone ? resolveTimeZone(value.timeZone) : null;
+  if (!zone) {
+    if (value.timeZone) {
+      warnings.add(
+        `Unknown time zone "${value.timeZone}" - its times were read as local time`
+      );
+    }
+    return new Date(
+      value.year,
+      value.month - 1,
+      value.day,
+      value.hours,
+      value.minutes,
+      value.seconds
+    ).getTime();
+  }
+
+  // Correct once more in case the first guess landed across a DST change
+  const firstOffset = getZoneOffset(wallClock, zone);
+  const instant = wallClock - firstOffset;
+  const secondOffset = getZoneOffset(instant, zone);
+  return secondOffset === firstOffset ? instant : wallClock - secondOffset;
+}
+
+// Recurrence
+
+function dayNumber(date: CivilDate): number {
+  return Math.floor(Date.UTC(date.year, date.month - 1, date.day) / DAY_MS);
+}
+
+function fromDayNumber(days: number): CivilDate {
+  const date = new Date(days * DAY_MS);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+function weekdayOf(days: number): number {
+  return new Date(days * DAY_MS).getUTCDay();
+}
+
+function daysInMonth(date: CivilDate): number {
+  return new Date(Date.UTC(date.year, date.month, 0)).getUTCDate();
+}
+
+function matchesInMonth(
+  date: CivilDate,
+  rule: RecurrenceRule,
+  defaultDay: number
+): boolean {
+  const weekday = weekdayOf(dayNumber(date));
+  const monthLength = daysInMonth(date);
+
+  if (rule.byMonthDay) {
+    const dayMatches = rule.byMonthDay.some((monthDay) =>
+      monthDay > 0
+        ? monthDay === date.day
+        : monthLength + monthDay + 1 === date.day
+    );
+    return (
+      dayMatches &&
+      (!rule.byDay || rule.byDay.some((d) => d.weekday === weekday))
+    );
+  }
+
+  if (rule.byDay) {
+    return rule.byDay.some((d) => {
+      if (d.weekday !== weekday) return false;
+      if (d.ordinal === undefined) return true;
+      return d.ordinal > 0
+        ? Math.ceil(date.day / 7) === d.ordinal
+        : Math.ceil((monthLength - date.day + 1) / 7) === -d.ordinal;
+    });
+  }
+
+  return date.day === defaultDay;
+}
+
+// Whether a rule produces an occurrence on a civil date, ignoring COUNT/UNTIL
+function matchesRule(
+  rule: RecurrenceRule,
+  start: CivilDate,
+  date: CivilDate
+): boolean {
+  const startDay = dayNumber(start);
+  const day = dayNumber(date);
+  if (day < startDay) return false;
+  if (day === startDay) return true;
+  if (rule.byMonth && !rule.byMonth.includes(date.month)) return false;
+
+  const weekday = weekdayOf(day);
+  switch (rule.freq) {
+    case 'DAILY':
+      return (
+        (day - startDay) % rule.interval === 0 &&
+        (!rule.byDay || rule.byDay.some((d) => d.weekday === weekday)) &&
+        (!rule.byMonthDay ||
+          matchesInMonth(date, { ...rule, byDay: undefined }, date.day))
+      );
+    case 'WEEKLY': {
+      const weekStartOf = (n: number) =>
+        n - ((weekdayOf(n) - rule.weekStart + 7) % 7);
+      const weeks = (weekStartOf(day) - weekStartOf(startDay)) / 7;
+      const weekdays = rule.byDay?.map((d) => d.weekday) ?? [
+        weekdayOf(startDay),
+      ];
+      return weeks % rule.interval === 0 && weekdays.includes(weekday);
+    }
+    case 'MONTHLY': {
+      const months = (date.year - start.year) * 12 + date.month - start.month;
+      return (
+        months % rule.interval === 0 && matchesInMonth(date, rule, start.day)
+      );
+    }
+    case 'YEARLY': {
+      const years = date.year - start.year;
+      if (years % rule.interval !== 0) return false;
+      if (!rule.byMonth && date.month !== start.month) return false;
+      return matchesInMonth(date, rule, start.day);
+    }
+  }
+}
+
+// Start instants of an event's occurrences that fall on a venue-local date
+function occursOn(
+  event: IcsEvent,
+  target: CivilDate,
+  warnings: Set<string>
+): number[] {
+  const isOnTarget = (instant: number) => {
+    const local = new Date(instant);
+    return (
+      local.getFullYear() === target.year &&
+      local.getMonth() + 1 === target.month &&
+      local.getDate() === target.day
+    );
+  };
+
+  // All-day values are the same calendar date everywhere
+  const onTarget = (value: IcsDateTime) =>
+    value.isDate
+      ? dayNumber(value) === dayNumber(target)
+      : isOnTarget(toInstant(value, warnings));
+
+  const rule = event.rule;
+  if (!rule || event.recurrenceId) {
+    return onTarget(event.start) ? [toInstant(event.start, warnings)] : [];
+  }
+
+  // The event's own zone can be a day either side of the venue's date
+  const targetDay = dayNumber(target);
+  const startDay = dayNumber(event.start);
+  const excluded = new Set(
+    event.exdates.filter((d) => !d.isDate).map((d) => toInstant(d, warnings))
+  );
+  const excludedDays = new Set(
+    event.exdates.filter((d) => d.isDate).map(dayNumber)
+  );
+
+  return [targetDay - 1, targetDay, targetDay + 1]
+    .map(fromDayNumber)
+    .filter((date) => matchesRule(rule, event.start, date))
+    .map((date) => ({ ...event.start, ...date }))
+    .filter((occurrence) => {
+      const instant = toInstant(occurrence, warnings);
+      if (
+        !onTarget(occurrence) ||
+        excluded.has(instant) ||
+        excludedDays.has(dayNumber(occurrence))
+      ) {
+        return false;
+      }
+
+      if (rule.until) {
+        const until = rule.until.isDate
+          ? dayNumber(occurrence) <= dayNumber(rule.until)
+          : instant <= toInstant(rule.until, warnings);
+        if (!until) return false;
+      }
+
+      if (rule.count !== undefined) {
+        // COUNT includes every occurrence from the first one
+        let seen = 0;
+        for (let day = startDay; day < dayNumber(occurrence); day++) {
+          if (matchesRule(rule, event.start, fromDayNumber(day))) seen++;
+          if (seen >= rule.count) return false;
+        }
+      }
+
+      return true;
+    })
+    .map((occurrence) => toInstant(occurrence, warnings));
+}
@@ -0,0 +1,30 @@
+// Up to two letters for an operator's avatar - "Ada Lovelace" is "AL", an
+// email address its first letter
+export function getInitials(name: string): string {
+  const words = name
+    .replace(/@.*$/, '')
+    .split(/[\s._-]+/)
+    .filter(Boolean);
+
+  if (words.length === 0) return '?';
+  if (words.length === 1) return words[0][0].toUpperCase();
+  return (words[0][0] + words[words.length - 1][0]).toUpperCase();
+}
+
+const OPERATOR_COLORS = [
+  'bg-purple-600',
+  'bg-teal-600',
+  'bg-orange-600',
+  'bg-pink-600',
+  'bg-indigo-600',
+  'bg-lime-700',
+];
+
+// The same colour for an operator on every controller
+export function getOperatorColor(uid: string): string {
+  let hash = 0;
+  for (let i = 0; i < uid.length; i++) {
+    hash = (hash * 31 + uid.charCodeAt(i)) | 0;
+  }
+  return OPERATOR_COLORS[Math.abs(hash) % OPERATOR_COLORS.length];
+}
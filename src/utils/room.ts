@@ -0,0 +1,62 @@
+const ROOM_ID_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const ROOM_ID_LENGTH = 6;
+
+/**
+ * Generates a 6-character room code (ambiguous characters like 0/O and 1/I are left out)
+ */
+export function generateRoomId(): string {
+  let result = '';
+  for (let i = 0; i < ROOM_ID_LENGTH; i++) {
+    result += ROOM_ID_CHARS.charAt(
+      Math.floor(Math.random() * ROOM_ID_CHARS.length)
+    );
+  }
+  return result;
+}
+
+/**
+ * Generates an unguessable key for room links (display, controller and Q&A)
+ */
+export function generateRoomKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Normalizes user input ("abc-123", " ABC123 ") to the stored room code format
+ */
+export function normalizeRoomId(input: string): string {
+  return input.replace(/[^a-zA-Z0-9]/g, '').toUpperCase();
+}
+
+/**
+ * Checks whether a string is a well-formed room code
+ */
+export function isValidRoomId(roomId: string): boolean {
+  return /^[A-Z0-9]{6}$/.test(roomId);
+}
+
+/**
+ * Formats a room code as XXX-XXX for better readability
+ */
+export function formatRoomId(roomId: string): string {
+  return roomId.length === ROOM_ID_LENGTH
+    ? `${roomId.slice(0, 3)}-${roomId.slice(3)}`
+    : roomId;
+}
+
+/**
+ * Builds an absolute link to a route inside a room
+ */
+export function buildRoomUrl(
+  roomId: string,
+  path: '/' | '/control' = '/',
+  key?: string
+): string {
+  const url = new URL(path, window.location.origin);
+  url.searchParams.set('room', roomId);
+  if (key) {
+    url.searchParams.set('key', key);
+  }
+  return url.toString();
+}
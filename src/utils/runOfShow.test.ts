@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import type { Timer, TimerCollection } from '../types';
+import { applyRunOfShow, parseDuration, parseRunOfShow } from './runOfShow';
+import { createTimerState } from './timeline';
+
+describe('parseDuration', () => {
+  it('reads clock-style durations and bare minutes', () => {
+    expect(parseDuration('5:00')).toBe(300);
+    expect(parseDuration('1:30:00')).toBe(5400);
+    expect(parseDuration('10')).toBe(600);
+    expect(parseDuration('2.5')).toBe(150);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseDuration('five')).toBeNull();
+    expect(parseDuration('5m')).toBeNull();
+  });
+});
+
+describe('parseRunOfShow', () => {
+  it('reads columns by header name in any order', () => {
+    const rows = parseRunOfShow(
+      'Start Time,Title,Length,Auto\n9:30 AM,Welcome,5:00,\n,Worship,20,yes'
+    );
+
+    expect(rows).toMatchObject([
+      {
+        line: 2,
+        name: 'Welcome',
+        duration: 300,
+        startTime: '9:30 AM',
+        link: false,
+        errors: [],
+      },
+      { line: 3, name: 'Worship', duration: 1200, link: true, errors: [] },
+    ]);
+  });
+
+  it('falls back to the default column order without a header', () => {
+    const [row] = parseRunOfShow('Sermon\t35:00\tcount up\t10:15');
+
+    expect(row).toMatchObject({
+      line: 1,
+      name: 'Sermon',
+      duration: 2100,
+      type: 'countup',
+      startTime: '10:15',
+    });
+  });
+
+  it('reports every problem on a row', () => {
+    const [row] = parseRunOfShow(
+      'Name,Duration,Type,Start,Link\n,abc,egg,25:99,maybe'
+    );
+
+    expect(row.errors).toEqual([
+      'Missing name',
+      'Duration "abc" should look like 5:00 or 1:30:00',
+      'Unknown type "egg"',
+      'Start "25:99" should look like 9:30 AM or 14:30',
+      'Link "maybe" should be yes or no',
+    ]);
+  });
+});
+
+describe('applyRunOfShow', () => {
+  const existing: TimerCollection = {
+    timers: [
+      {
+        id: 'old',
+        name: 'Old',
+        order: 1,
+        state: createTimerState('countdown', 60),
+      } satisfies Timer,
+    ],
+    activeTimerId: 'old',
+  };
+  const rows = parseRunOfShow(
+    'Name,Duration,Link\nWelcome,5:00,\nBroken,,\nPrayer,3:00,yes'
+  );
+
+  it('appends the valid rows after the existing timers', () => {
+    const result = applyRunOfShow(existing, rows, 'append');
+
+    expect(result.timers.map((t) => [t.name, t.order])).toEqual([
+      ['Old', 1],
+      ['Welcome', 2],
+      ['Prayer', 3],
+    ]);
+    expect(result.activeTimerId).toBe('old');
+  });
+
+  it('links the timer before a linked row', () => {
+    const result = applyRunOfShow(existing, rows, 'replace');
+
+    expect(result.timers.map((t) => [t.name, t.linkMode])).toEqual([
+      ['Welcome', 'immediate'],
+      ['Prayer', undefined],
+    ]);
+    expect(result.activeTimerId).toBe(result.timers[0].id);
+  });
+});
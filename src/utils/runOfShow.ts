@@ -0,0 +1,234 @@
+import type { Timer, TimerCollection, TimerType } from '../types';
+import { parseDelimited, toCsv } from './csv';
+import { buildRundown } from './rundown';
+import { createTimerState } from './timeline';
+import {
+  formatClockTime,
+  getDisplayTime,
+  isValidTime,
+  parseClockTime,
+  parseTimeString,
+} from './time';
+
+type RunOfShowColumn = 'name' | 'duration' | 'type' | 'startTime' | 'link';
+
+// One spreadsheet row, parsed into the fields of a timer
+export interface RunOfShowRow {
+  line: number; // 1-based row in the source, including any header row
+  name: string;
+  duration: number | null; // seconds
+  type: TimerType;
+  startTime?: string;
+  link: boolean; // Starts as soon as the row above it ends
+  errors: string[];
+}
+
+export type RunOfShowImportMode = 'append' | 'replace';
+
+// Header names we recognise, lowercased
+const COLUMN_ALIASES: Record<RunOfShowColumn, string[]> = {
+  name: ['name', 'title', 'segment', 'item'],
+  duration: ['duration', 'length', 'time', 'minutes'],
+  type: ['type', 'timer type'],
+  startTime: ['start', 'start time', 'scheduled', 'scheduled start'],
+  link: ['link', 'linked', 'auto', 'auto start', 'chain'],
+};
+
+// Column order when the sheet has no header row
+const DEFAULT_COLUMNS: RunOfShowColumn[] = [
+  'name',
+  'duration',
+  'type',
+  'startTime',
+  'link',
+];
+
+const TIMER_TYPES: TimerType[] = [
+  'countdown',
+  'countup',
+  'stopwatch',
+  'hidden',
+];
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x', 'linked'];
+const FALSE_VALUES = ['', 'no', 'n', 'false', '0'];
+
+// Maps each column to a field if the row is a header, otherwise null
+function readHeader(cells: string[]): (RunOfShowColumn | null)[] | null {
+  const columns = cells.map((cell) => {
+    const label = cell.trim().toLowerCase();
+    const match = Object.entries(COLUMN_ALIASES).find(([, aliases]) =>
+      aliases.includes(label)
+    );
+    return match ? (match[0] as RunOfShowColumn) : null;
+  });
+
+  return columns.includes('name') || columns.includes('duration')
+    ? columns
+    : null;
+}
+
+/**
+ * Parses a duration cell - "5:00", "1:30:00", or a bare number of minutes
+ */
+export function parseDuration(value: string): number | null {
+  const trimmed = value.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 60);
+  }
+  if (/^\d+:\d{1,2}(:\d{1,2})?$/.test(trimmed)) {
+    const seconds = parseTimeString(trimmed);
+    return isValidTime(seconds) ? seconds : null;
+  }
+  return null;
+}
+
+function parseRow(
+  cells: string[],
+  columns: (RunOfShowColumn | null)[],
+  line: number
+): RunOfShowRow {
+  const get = (column: RunOfShowColumn) => {
+    const index = columns.indexOf(column);
+    return index === -1 ? '' : (cells[index] ?? '').trim();
+  };
+  const errors: string[] = [];
+
+  const name = get('name');
+  if (!name) errors.push('Missing name');
+
+  const durationText = get('duration');
+  const duration = durationText ? parseDuration(durationText) : null;
+  if (!durationText) {
+    errors.push('Missing duration');
+  } else if (duration === null) {
+    errors.push(`Duration "${durationText}" should look like 5:00 or 1:30:00`);
+  }
+
+  const typeText = get('type')
+    .toLowerCase()
+    .replace(/[\s_-]/g, '');
+  const type = TIMER_TYPES.find((t) => t === typeText) ?? 'countdown';
+  if (typeText && type !== typeText) {
+    errors.push(`Unknown type "${get('type')}"`);
+  }
+
+  const startTime = get('startTime') || undefined;
+  if (startTime && !parseClockTime(startTime)) {
+    errors.push(`Start "${startTime}" should look like 9:30 AM or 14:30`);
+  }
+
+  const linkText = get('link').toLowerCase();
+  const link = TRUE_VALUES.includes(linkText);
+  if (!link && !FALSE_VALUES.includes(linkText)) {
+    errors.push(`Link "${get('link')}" should be yes or no`);
+  }
+
+  return { line, name, duration, type, startTime, link, errors };
+}
+
+/**
+ * Parses pasted or uploaded CSV/TSV text into rows. A header row is optional;
+ * without one, columns are read as name, duration, type, start, link.
+ */
+export function parseRunOfShow(text: string): RunOfShowRow[] {
+  const rows = parseDelimited(text);
+  if (rows.length === 0) return [];
+
+  const header = readHeader(rows[0]);
+  const columns = header ?? DEFAULT_COLUMNS;
+  const body = header ? rows.slice(1) : rows;
+  const firstLine = header ? 2 : 1;
+
+  return body.map((cells, index) =>
+    parseRow(cells, columns, firstLine + index)
+  );
+}
+
+/**
+ * Adds the valid rows to a timer collection as new idle timers. Link flags
+ * become an 'immediate' link on the timer before the flagged one.
+ */
+export function applyRunOfShow(
+  collection: TimerCollection,
+  rows: RunOfShowRow[],
+  mode: RunOfShowImportMode
+): TimerCollection {
+  const valid = rows.filter(
+    (row) => row.errors.length === 0 && row.duration !== null
+  );
+  const existing =
+    mode === 'replace'
+      ? []
+      : [...collection.timers].sort((a, b) => a.order - b.order);
+  const firstOrder = Math.max(0, ...existing.map((t) => t.order)) + 1;
+
+  const created: Timer[] = valid.map((row, index) => ({
+    id: `timer-${Date.now()}-${index}-${Math.random().toString(36).substr(2, 9)}`,
+    name: row.name,
+    state: createTimerState(row.type, row.duration ?? 0),
+    order: firstOrder + index,
+    startTime: row.startTime,
+  }));
+
+  const timers = [...existing, ...created];
+  valid.forEach((row, index) => {
+    const position = existing.length + index;
+    if (row.link && position > 0) {
+      timers[position - 1] = { ...timers[position - 1], linkMode: 'immediate' };
+    }
+  });
+
+  return {
+    timers,
+    activeTimerId:
+      (mode === 'append' ? collection.activeTimerId : null) ??
+      timers[0]?.id ??
+      null,
+  };
+}
+
+/**
+ * Exports planned vs. actual timing as CSV, in show order
+ */
+export function rundownToCsv(timers: Timer[], now: number): string {
+  const { rows } = buildRundown(timers, now);
+
+  const clock = (timestamp: number | null) =>
+    timestamp !== null ? formatClockTime(timestamp, '24h', true) : '';
+  const duration = (seconds: number) => getDisplayTime(seconds, true, false);
+  const signed = (seconds: number | null) =>
+    seconds === null
+      ? ''
+      : `${seconds > 0 ? '+' : ''}${getDisplayTime(seconds, true, false)}`;
+
+  return toCsv([
+    [
+      'Name',
+      'Type',
+      'Status',
+      'Scheduled start',
+      'Actual start',
+      'Actual end',
+      'Planned duration',
+      'Actual duration',
+      'Over/under',
+      'Start variance',
+    ],
+    ...rows.map((row) => {
+      const started = row.status !== 'upcoming';
+      return [
+        row.timer.name,
+        row.timer.state.type,
+        row.status,
+        clock(row.scheduledStart),
+        clock(row.actualStart),
+        clock(row.actualEnd),
+        duration(row.plannedDuration),
+        started ? duration(row.elapsed) : '',
+        started ? signed(row.overUnder) : '',
+        started ? signed(row.startVariance) : '',
+      ];
+    }),
+  ]);
+}
@@ -0,0 +1,140 @@
+import type { Timer } from '../types';
+import { getElapsedMs } from './timeline';
+import { parseClockTime } from './time';
+
+export type RundownRowStatus = 'upcoming' | 'live' | 'done';
+
+export interface RundownRow {
+  timer: Timer;
+  status: RundownRowStatus;
+  scheduledStart: number | null; // ms, from Timer.startTime
+  projectedStart: number; // ms
+  projectedEnd: number; // ms
+  actualStart: number | null; // ms
+  actualEnd: number | null; // ms
+  plannedDuration: number; // seconds
+  elapsed: number; // seconds run so far
+  startVariance: number | null; // seconds late (+) or early (-) vs. schedule
+  overUnder: number; // seconds this segment runs over (+) or under (-) its plan
+}
+
+export interface Rundown {
+  rows: RundownRow[];
+  scheduledEnd: number | null; // ms
+  projectedEnd: number | null; // ms
+  overUnder: number | null; // seconds the whole show is over (+) or under (-)
+}
+
+/**
+ * Resolves scheduled start times for the whole list, rolling over midnight
+ * when a later segment's clock time is earlier than the one before it
+ */
+function getScheduledStarts(timers: Timer[], now: number): (number | null)[] {
+  const baseDate = new Date(now);
+  let previous: number | null = null;
+  let dayOffset = 0;
+
+  return timers.map((timer) => {
+    if (!timer.startTime) return null;
+
+    const parsed = parseClockTime(timer.startTime, baseDate);
+    if (!parsed) return null;
+
+    let scheduled = parsed.getTime() + dayOffset;
+    if (previous !== null && scheduled < previous) {
+      dayOffset += 24 * 60 * 60 * 1000;
+      scheduled += 24 * 60 * 60 * 1000;
+    }
+
+    previous = scheduled;
+    return scheduled;
+  });
+}
+
+/**
+ * Builds a rundown of planned vs. actual timing for timers in show order.
+ * Segments that haven't started are projected back-to-back after the ones
+ * that have, so a late or long segment pushes everything after it.
+ */
+export function buildRundown(timers: Timer[], now: number): Rundown {
+  const ordered = [...timers].sort((a, b) => a.order - b.order);
+  const scheduledStarts = getScheduledStarts(ordered, now);
+
+  // Index of the furthest segment that has actually started
+  const lastStartedIndex = ordered.reduce(
+    (last, t, i) => (t.actualStart !== undefined ? i : last),
+    -1
+  );
+
+  let cursor: number | null = null;
+
+  const rows = ordered.map((timer, index): RundownRow => {
+    const scheduledStart = scheduledStarts[index];
+    const plannedDuration = timer.state.initialTime;
+    const plannedMs = plannedDuration * 1000;
+    const elapsedMs = getElapsedMs(timer.state, now);
+
+    let status: RundownRowStatus;
+    let projectedStart: number;
+    let projectedEnd: number;
+
+    if (timer.actualStart !== undefined) {
+      projectedStart = timer.actualStart;
+
+      const isCurrent =
+        timer.state.status === 'running' || index === lastStartedIndex;
+      if (isCurrent && timer.state.status !== 'idle') {
+        status = 'live';
+        projectedEnd = now + Math.max(0, plannedMs - elapsedMs);
+      } else {
+        status = 'done';
+        projectedEnd = timer.actualEnd ?? projectedStart + elapsedMs;
+      }
+    } else {
+      status = 'upcoming';
+      projectedStart = Math.max(now, cursor ?? scheduledStart ?? now);
+      projectedEnd = projectedStart + plannedMs;
+    }
+
+    cursor = projectedEnd;
+
+    const runMs =
+      status === 'upcoming' ? plannedMs : Math.max(elapsedMs, plannedMs);
+
+    return {
+      timer,
+      status,
+      scheduledStart,
+      projectedStart,
+      projectedEnd,
+      actualStart: timer.actualStart ?? null,
+      actualEnd: status === 'done' ? (timer.actualEnd ?? null) : null,
+      plannedDuration,
+      elapsed: Math.floor(elapsedMs / 1000),
+      startVariance:
+        scheduledStart !== null
+          ? Math.round((projectedStart - scheduledStart) / 1000)
+          : null,
+      overUnder: Math.round(
+        ((status === 'done' ? elapsedMs : runMs) - plannedMs) / 1000
+      ),
+    };
+  });
+
+  const lastRow = rows[rows.length - 1];
+  const scheduledEnd =
+    lastRow && lastRow.scheduledStart !== null
+      ? lastRow.scheduledStart + lastRow.plannedDuration * 1000
+      : null;
+  const projectedEnd = lastRow ? lastRow.projectedEnd : null;
+
+  return {
+    rows,
+    scheduledEnd,
+    projectedEnd,
+    overUnder:
+      scheduledEnd !== null && projectedEnd !== null
+        ? Math.round((projectedEnd - scheduledEnd) / 1000)
+        : null,
+  };
+}
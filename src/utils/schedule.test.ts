@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { ScheduleMode, Timer } from '../types';
+import { createTimerState } from './timeline';
+import {
+  getScheduleEntries,
+  isOccurrenceStarted,
+  SCHEDULE_GRACE_MS,
+  SCHEDULE_LEAD_MS,
+} from './schedule';
+
+// Local time, like the start times operators type
+const at = (hours: number, minutes: number, day = 15) =>
+  new Date(2025, 5, day, hours, minutes).getTime();
+
+function makeTimer(
+  id: string,
+  startTime: string,
+  scheduleMode: ScheduleMode
+): Timer {
+  return {
+    id,
+    name: id,
+    order: 1,
+    state: createTimerState('countdown', 600),
+    startTime,
+    scheduleMode,
+  };
+}
+
+describe('getScheduleEntries', () => {
+  it('skips timers that are not scheduled', () => {
+    const timers = [makeTimer('a', '10:00 AM', 'off')];
+    expect(getScheduleEntries(timers, at(9, 0))).toEqual([]);
+  });
+
+  it('lists upcoming starts in due order', () => {
+    const timers = [
+      makeTimer('late', '11:00 AM', 'start'),
+      makeTimer('early', '10:00', 'start'),
+    ];
+    const entries = getScheduleEntries(timers, at(9, 0));
+
+    expect(entries.map((e) => e.timerId)).toEqual(['early', 'late']);
+    expect(entries[0].at).toBe(at(10, 0));
+    expect(entries[0].triggerAt).toBe(at(10, 0));
+  });
+
+  it('acts on armed timers ahead of time', () => {
+    const [entry] = getScheduleEntries(
+      [makeTimer('a', '10:00 AM', 'arm')],
+      at(9, 0)
+    );
+    expect(entry.triggerAt).toBe(at(10, 0) - SCHEDULE_LEAD_MS);
+  });
+
+  it('still fires a start missed within the grace period', () => {
+    const [entry] = getScheduleEntries(
+      [makeTimer('a', '10:00 AM', 'start')],
+      at(10, 0) + SCHEDULE_GRACE_MS - 1
+    );
+    expect(entry.at).toBe(at(10, 0));
+  });
+
+  it('rolls a handled start over to tomorrow', () => {
+    const timers = [makeTimer('a', '10:00 AM', 'start')];
+    const handled = { [`a@${at(10, 0)}`]: at(10, 0) };
+    const [entry] = getScheduleEntries(timers, at(10, 0), handled);
+
+    expect(entry.at).toBe(at(10, 0, 16));
+  });
+
+  it('fires a late-night start just after midnight', () => {
+    const [entry] = getScheduleEntries(
+      [makeTimer('a', '11:59 PM', 'start')],
+      at(0, 0, 16)
+    );
+    expect(entry.at).toBe(at(23, 59, 15));
+  });
+});
+
+describe('isOccurrenceStarted', () => {
+  it('counts a manual start inside the lead window', () => {
+    const timer = makeTimer('a', '10:00 AM', 'arm');
+    const [entry] = getScheduleEntries([timer], at(9, 0));
+
+    expect(isOccurrenceStarted(timer, entry)).toBe(false);
+    expect(
+      isOccurrenceStarted({ ...timer, actualStart: at(9, 59, 15) }, entry)
+    ).toBe(true);
+    expect(
+      isOccurrenceStarted({ ...timer, actualStart: at(9, 30, 15) }, entry)
+    ).toBe(false);
+  });
+});
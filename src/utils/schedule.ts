@@ -0,0 +1,78 @@
+import type { ScheduleMode, Timer } from '../types';
+import { parseClockTime } from './time';
+
+// A start that was missed (e.g. during a reload) still fires within this window
+export const SCHEDULE_GRACE_MS = 2 * 60 * 1000;
+
+// Armed timers are loaded onto the display this long before they're due.
+// A manual start inside this window counts as the scheduled start.
+export const SCHEDULE_LEAD_MS = 60 * 1000;
+
+export interface ScheduleEntry {
+  key: string; // Unique per timer and occurrence
+  timerId: string;
+  timerName: string;
+  mode: Exclude<ScheduleMode, 'off'>;
+  at: number; // ms - when the timer is due
+  triggerAt: number; // ms - when the scheduler acts on it
+}
+
+/**
+ * Finds the next pending occurrence of each scheduled timer, in due order.
+ * Yesterday is checked too so an 11:59 PM start still fires just after
+ * midnight, and a start that has been handled rolls over to tomorrow.
+ */
+export function getScheduleEntries(
+  timers: Timer[],
+  now: number,
+  handled: Record<string, number> = {}
+): ScheduleEntry[] {
+  const today = new Date(now);
+
+  return timers
+    .flatMap((timer): ScheduleEntry[] => {
+      const mode = timer.scheduleMode ?? 'off';
+      if (mode === 'off' || !timer.startTime) return [];
+
+      for (const dayOffset of [-1, 0, 1]) {
+        const day = new Date(
+          today.getFullYear(),
+          today.getMonth(),
+          today.getDate() + dayOffset
+        );
+        const parsed = parseClockTime(timer.startTime, day);
+        if (!parsed) return [];
+
+        const at = parsed.getTime();
+        const key = `${timer.id}@${at}`;
+        if (at + SCHEDULE_GRACE_MS < now || handled[key] !== undefined) {
+          continue;
+        }
+
+        return [
+          {
+            key,
+            timerId: timer.id,
+            timerName: timer.name,
+            mode,
+            at,
+            triggerAt: mode === 'arm' ? at - SCHEDULE_LEAD_MS : at,
+          },
+        ];
+      }
+
+      return [];
+    })
+    .sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Whether a timer was already started for this occurrence
+ */
+export function isOccurrenceStarted(timer: Timer, entry: ScheduleEntry) {
+  return (
+    timer.state.status === 'running' ||
+    (timer.actualStart !== undefined &&
+      timer.actualStart >= entry.at - SCHEDULE_LEAD_MS)
+  );
+}
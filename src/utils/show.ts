@@ -0,0 +1,73 @@
+import type {
+  AppSettings,
+  MessagePreset,
+  Show,
+  TimerCollection,
+} from '../types';
+import { resetTimeline } from './timeline';
+
+// The parts of the live room a show captures
+export interface ShowContent {
+  timers: TimerCollection;
+  messagePresets: MessagePreset[];
+  settings: AppSettings;
+}
+
+/**
+ * Generates an id for a new show
+ */
+export function generateShowId(): string {
+  return `show-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Strips live state from a timer collection so a show always loads ready to
+ * run from the top - schedules, links and thresholds are kept, timelines are reset
+ */
+export function toShowTimers(collection: TimerCollection): TimerCollection {
+  return {
+    timers: collection.timers.map((timer) => ({
+      ...timer,
+      state: resetTimeline(timer.state),
+      actualStart: undefined,
+      actualEnd: undefined,
+    })),
+    activeTimerId:
+      [...collection.timers].sort((a, b) => a.order - b.order)[0]?.id ?? null,
+  };
+}
+
+/**
+ * Builds a show from the current room content
+ */
+export function createShow(
+  name: string,
+  content: ShowContent,
+  now: number = Date.now()
+): Show {
+  return {
+    id: generateShowId(),
+    name: name.trim() || 'Untitled Show',
+    timers: toShowTimers(content.timers),
+    messagePresets: content.messagePresets,
+    settings: content.settings,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Merges two show lists by id, keeping whichever copy was updated last.
+ * Sorted most recently updated first.
+ */
+export function mergeShows(a: Show[], b: Show[]): Show[] {
+  const byId = new Map<string, Show>();
+  [...a, ...b].forEach((show) => {
+    const existing = byId.get(show.id);
+    if (!existing || show.updatedAt > existing.updatedAt) {
+      byId.set(show.id, show);
+    }
+  });
+
+  return [...byId.values()].sort((x, y) => y.updatedAt - x.updatedAt);
+}
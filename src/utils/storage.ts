@@ -1,4 +1,11 @@
-import type { AppSettings, TimerPreset, MessagePreset } from "../types";
+import type {
+  AppSettings,
+  EventLog,
+  TimerPreset,
+  MessagePreset,
+  Show,
+  WebhookDelivery,
+} from "../types";
 import { DEFAULT_SETTINGS } from "../types";
 
 const STORAGE_KEYS = {
@@ -6,8 +13,33 @@ const STORAGE_KEYS = {
   TIMER_PRESETS: "church-timer-presets",
   MESSAGE_PRESETS: "church-timer-message-presets",
   LAST_TIMER_STATE: "church-timer-last-state",
+  RECENT_ROOMS: "church-timer-recent-rooms",
+  SCHEDULE: "church-timer-schedule",
+  SHOWS: "church-timer-shows",
+  DELETED_SHOWS: "church-timer-deleted-shows",
+  EVENT_LOGS: "church-timer-event-logs",
+  OPERATOR_NAME: "church-timer-operator-name",
+  WEBHOOK_DELIVERIES: "church-timer-webhook-deliveries",
 } as const;
 
+const MAX_RECENT_ROOMS = 8;
+const MAX_EVENT_LOGS = 20;
+
+export interface RecentRoom {
+  id: string;
+  name: string;
+  lastOpened: number;
+}
+
+// Scheduler state for one room, kept on the controller so a reload doesn't
+// re-fire or forget skipped starts
+export interface ScheduleState {
+  held: boolean;
+  handled: Record<string, number>; // occurrence key -> scheduled time (ms)
+}
+
+const SCHEDULE_HISTORY_MS = 2 * 24 * 60 * 60 * 1000;
+
 /**
  * Generic function to save data to localStorage
  */
@@ -97,6 +129,171 @@ export function loadLastTimerState(): {
   return loadFromStorage(STORAGE_KEYS.LAST_TIMER_STATE, null);
 }
 
+/**
+ * Remember a room so it shows up in the room picker
+ */
+export function saveRecentRoom(room: Omit<RecentRoom, "lastOpened">): void {
+  const others = loadRecentRooms().filter((r) => r.id !== room.id);
+  saveToStorage(
+    STORAGE_KEYS.RECENT_ROOMS,
+    [{ ...room, lastOpened: Date.now() }, ...others].slice(0, MAX_RECENT_ROOMS)
+  );
+}
+
+/**
+ * Load recently opened rooms, most recent first
+ */
+export function loadRecentRooms(): RecentRoom[] {
+  return loadFromStorage<RecentRoom[]>(STORAGE_KEYS.RECENT_ROOMS, []);
+}
+
+/**
+ * Forget a room from the recent list
+ */
+export function removeRecentRoom(roomId: string): void {
+  saveToStorage(
+    STORAGE_KEYS.RECENT_ROOMS,
+    loadRecentRooms().filter((r) => r.id !== roomId)
+  );
+}
+
+/**
+ * Save scheduler state for a room, dropping entries older than two days
+ */
+export function saveScheduleState(roomId: string, state: ScheduleState): void {
+  const cutoff = Date.now() - SCHEDULE_HISTORY_MS;
+  const handled = Object.fromEntries(
+    Object.entries(state.handled).filter(([, at]) => at >= cutoff)
+  );
+  saveToStorage(`${STORAGE_KEYS.SCHEDULE}-${roomId}`, { ...state, handled });
+}
+
+/**
+ * Load scheduler state for a room
+ */
+export function loadScheduleState(roomId: string): ScheduleState {
+  return loadFromStorage<ScheduleState>(`${STORAGE_KEYS.SCHEDULE}-${roomId}`, {
+    held: false,
+    handled: {},
+  });
+}
+
+/**
+ * Save a show, replacing any stored copy with the same id
+ */
+export function saveLocalShow(show: Show): void {
+  const others = loadLocalShows().filter((s) => s.id !== show.id);
+  saveToStorage(STORAGE_KEYS.SHOWS, [show, ...others]);
+}
+
+/**
+ * Load the shows saved on this device
+ */
+export function loadLocalShows(): Show[] {
+  return loadFromStorage<Show[]>(STORAGE_KEYS.SHOWS, []);
+}
+
+/**
+ * Delete a show saved on this device
+ */
+export function deleteLocalShow(showId: string): void {
+  saveToStorage(
+    STORAGE_KEYS.SHOWS,
+    loadLocalShows().filter((s) => s.id !== showId)
+  );
+}
+
+// Each account keeps its own list, since only it can delete its cloud copies
+function deletedShowsKey(uid: string | null): string {
+  return uid
+    ? `${STORAGE_KEYS.DELETED_SHOWS}-${uid}`
+    : STORAGE_KEYS.DELETED_SHOWS;
+}
+
+/**
+ * Shows the account deleted on this device whose cloud copy still has to be
+ * deleted
+ */
+export function loadDeletedShowIds(uid: string | null): string[] {
+  return loadFromStorage<string[]>(deletedShowsKey(uid), []);
+}
+
+/**
+ * Mark a show as deleted until the cloud copy is gone, or clear the mark
+ */
+export function setShowDeleted(
+  uid: string | null,
+  showId: string,
+  deleted: boolean
+): void {
+  const others = loadDeletedShowIds(uid).filter((id) => id !== showId);
+  saveToStorage(deletedShowsKey(uid), deleted ? [...others, showId] : others);
+}
+
+/**
+ * Save an event log, keeping the most recent logs for its room
+ */
+export function saveEventLog(log: EventLog): void {
+  const others = loadEventLogs(log.roomId).filter((l) => l.id !== log.id);
+  saveToStorage(
+    `${STORAGE_KEYS.EVENT_LOGS}-${log.roomId}`,
+    [log, ...others]
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .slice(0, MAX_EVENT_LOGS)
+  );
+}
+
+/**
+ * Load a room's event logs, newest first
+ */
+export function loadEventLogs(roomId: string): EventLog[] {
+  return loadFromStorage<EventLog[]>(
+    `${STORAGE_KEYS.EVENT_LOGS}-${roomId}`,
+    []
+  );
+}
+
+/**
+ * Delete one of a room's event logs
+ */
+export function deleteEventLog(roomId: string, logId: string): void {
+  saveToStorage(
+    `${STORAGE_KEYS.EVENT_LOGS}-${roomId}`,
+    loadEventLogs(roomId).filter((l) => l.id !== logId)
+  );
+}
+
+/**
+ * Save the name this controller's operator is logged under
+ */
+export function saveOperatorName(name: string): void {
+  saveToStorage(STORAGE_KEYS.OPERATOR_NAME, name);
+}
+
+/**
+ * Load the operator name, empty if none was set
+ */
+export function loadOperatorName(): string {
+  return loadFromStorage(STORAGE_KEYS.OPERATOR_NAME, "");
+}
+
+/**
+ * Save the webhook delivery log
+ */
+export function saveWebhookDeliveries(deliveries: WebhookDelivery[]): void {
+  saveToStorage(STORAGE_KEYS.WEBHOOK_DELIVERIES, deliveries);
+}
+
+/**
+ * Load the webhook delivery log, newest first
+ */
+export function loadWebhookDeliveries(): WebhookDelivery[] {
+  return loadFromStorage<WebhookDelivery[]>(
+    STORAGE_KEYS.WEBHOOK_DELIVERIES,
+    []
+  );
+}
+
 /**
  * Clear all stored data (useful for reset functionality)
  */
@@ -123,43 +320,3 @@ export function isStorageAvailable(): boolean {
     return false;
   }
 }
-
-/**
- * Export all settings and presets as JSON for backup
- */
-export function exportData(): string {
-  const data = {
-    settings: loadSettings(),
-    timerPresets: loadTimerPresets(),
-    messagePresets: loadMessagePresets(),
-    exportDate: new Date().toISOString(),
-  };
-
-  return JSON.stringify(data, null, 2);
-}
-
-/**
- * Import settings and presets from JSON backup
- */
-export function importData(jsonData: string): boolean {
-  try {
-    const data = JSON.parse(jsonData);
-
-    if (data.settings) {
-      saveSettings(data.settings);
-    }
-
-    if (data.timerPresets) {
-      saveTimerPresets(data.timerPresets);
-    }
-
-    if (data.messagePresets) {
-      saveMessagePresets(data.messagePresets);
-    }
-
-    return true;
-  } catch (error) {
-    console.error("Failed to import data:", error);
-    return false;
-  }
-}
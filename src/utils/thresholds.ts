@@ -0,0 +1,69 @@
+import type {
+  Timer,
+  TimerSettings,
+  TimerState,
+  TimerThreshold,
+  TimerThresholds,
+} from '../types';
+import { DEFAULT_TIMER_THRESHOLDS } from '../types';
+
+export type ThresholdLevel = 'normal' | 'warning' | 'critical' | 'expired';
+
+/**
+ * A timer's own thresholds, else the defaults from timer settings
+ */
+export function resolveThresholds(
+  timer?: Pick<Timer, 'thresholds'> | null,
+  settings?: Pick<TimerSettings, 'thresholds'>
+): TimerThresholds {
+  return timer?.thresholds ?? settings?.thresholds ?? DEFAULT_TIMER_THRESHOLDS;
+}
+
+/**
+ * Remaining seconds at which a threshold kicks in for a given duration
+ */
+export function getThresholdSeconds(
+  threshold: TimerThreshold,
+  duration: number
+): number {
+  return threshold.unit === 'percent'
+    ? (duration * threshold.value) / 100
+    : threshold.value;
+}
+
+/**
+ * Where a threshold starts, as a percentage of the duration remaining (0-100)
+ */
+export function getThresholdPercentage(
+  threshold: TimerThreshold,
+  duration: number
+): number {
+  if (duration <= 0) return 0;
+
+  const percentage =
+    (getThresholdSeconds(threshold, duration) / duration) * 100;
+  return Math.max(0, Math.min(100, percentage));
+}
+
+/**
+ * Which wrap-up stage a countdown is in. Other timer types have no end, so
+ * they always read as normal.
+ */
+export function getThresholdLevel(
+  state: TimerState,
+  thresholds: TimerThresholds
+): ThresholdLevel {
+  if (state.type !== 'countdown' || state.initialTime <= 0) return 'normal';
+
+  const remaining = state.initialTime - state.elapsedTime;
+  if (remaining < 0) return 'expired';
+  if (
+    remaining <= getThresholdSeconds(thresholds.critical, state.initialTime)
+  ) {
+    return 'critical';
+  }
+  if (remaining <= getThresholdSeconds(thresholds.warning, state.initialTime)) {
+    return 'warning';
+  }
+  return 'normal';
+}
@@ -89,9 +89,10 @@ export function parseTimeString(timeString: string): number {
 /**
  * Gets the current time as a formatted string
  */
-export function getCurrentTime(format: '12h' | '24h' = '12h'): string {
-  const now = new Date();
-
+export function getCurrentTime(
+  format: '12h' | '24h' = '12h',
+  now: Date = new Date()
+): string {
   if (format === '12h') {
     return now.toLocaleTimeString('en-US', {
       hour: 'numeric',
@@ -120,6 +121,18 @@ export function getCurrentDate(): string {
   });
 }
 
+/**
+ * Formats a clock offset in ms, e.g. "+1.25 s" or "-340 ms"
+ */
+export function formatClockOffset(offsetMs: number): string {
+  const sign = offsetMs >= 0 ? '+' : '-';
+  const abs = Math.abs(offsetMs);
+
+  return abs >= 1000
+    ? `${sign}${(abs / 1000).toFixed(2)} s`
+    : `${sign}${Math.round(abs)} ms`;
+}
+
 /**
  * Calculates the elapsed time since a given timestamp
  */
@@ -168,3 +181,72 @@ export function getDisplayTime(
 
   return isNegative ? `-${timeString}` : timeString;
 }
+
+/**
+ * Parses a wall-clock time ("1:30 PM", "01:30:00 pm", "13:30", "13:30:15")
+ * into a Date on the same day as baseDate. Returns null if it can't be parsed.
+ */
+export function parseClockTime(
+  value: string,
+  baseDate: Date = new Date()
+): Date | null {
+  const match = value
+    .trim()
+    .match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?$/);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const seconds = match[3] ? parseInt(match[3], 10) : 0;
+  const period = match[4]?.toUpperCase();
+
+  if (minutes > 59 || seconds > 59) return null;
+
+  if (period) {
+    // 12-hour format
+    if (hours < 1 || hours > 12) return null;
+    if (period === 'AM' && hours === 12) hours = 0;
+    if (period === 'PM' && hours !== 12) hours += 12;
+  } else if (hours > 23) {
+    return null;
+  }
+
+  const date = new Date(baseDate);
+  date.setHours(hours, minutes, seconds, 0);
+  return date;
+}
+
+/**
+ * Formats a timestamp as a wall-clock time in 12h ("1:30 PM") or 24h ("13:30")
+ */
+export function formatClockTime(
+  timestamp: number | Date,
+  format: '12h' | '24h' = '12h',
+  showSeconds: boolean = false
+): string {
+  const date = new Date(timestamp);
+  const hours = date.getHours();
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  const seconds = showSeconds
+    ? `:${date.getSeconds().toString().padStart(2, '0')}`
+    : '';
+
+  if (format === '24h') {
+    return `${hours.toString().padStart(2, '0')}:${minutes}${seconds}`;
+  }
+
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${minutes}${seconds} ${hours >= 12 ? 'PM' : 'AM'}`;
+}
+
+/**
+ * Formats how long ago something happened, e.g. "just now", "5 min ago"
+ */
+export function formatTimeAgo(timestamp: number, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - timestamp) / 1000));
+
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
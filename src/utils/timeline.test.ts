@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTimerState,
+  normalizeTimerState,
+  pauseTimeline,
+  resetTimeline,
+  resolveTimerState,
+  setTimelineElapsed,
+  setTimelineTime,
+  startTimeline,
+} from './timeline';
+
+const T0 = 1_700_000_000_000;
+
+describe('timeline', () => {
+  it('counts down from the moment it started', () => {
+    const running = startTimeline(createTimerState('countdown', 300), T0);
+
+    expect(running.status).toBe('running');
+    expect(resolveTimerState(running, T0 + 5_500).currentTime).toBe(295);
+  });
+
+  it('freezes while paused and resumes from the same point', () => {
+    const running = startTimeline(createTimerState('countdown', 300), T0);
+    const paused = pauseTimeline(running, T0 + 10_000);
+
+    expect(resolveTimerState(paused, T0 + 60_000).currentTime).toBe(290);
+
+    const resumed = startTimeline(paused, T0 + 60_000);
+    expect(resolveTimerState(resumed, T0 + 65_000).currentTime).toBe(285);
+  });
+
+  it('counts up for count-up timers', () => {
+    const running = startTimeline(createTimerState('countup', 0), T0);
+    expect(resolveTimerState(running, T0 + 42_000).currentTime).toBe(42);
+  });
+
+  it('resets to the full duration', () => {
+    const running = startTimeline(createTimerState('countdown', 300), T0);
+    const reset = resetTimeline(resolveTimerState(running, T0 + 30_000));
+
+    expect(reset).toMatchObject({
+      status: 'idle',
+      currentTime: 300,
+      elapsedTime: 0,
+      startedAt: null,
+    });
+  });
+
+  it('gives an idle timer a paused timeline when its elapsed time is set', () => {
+    const state = setTimelineElapsed(
+      createTimerState('countdown', 300),
+      60,
+      T0
+    );
+
+    expect(state.pausedAt).toBe(T0);
+    expect(state.currentTime).toBe(240);
+  });
+
+  it('migrates ticking values from older documents', () => {
+    const state = normalizeTimerState(
+      {
+        type: 'countdown',
+        initialTime: 300,
+        elapsedTime: 100,
+        status: 'running',
+      },
+      T0
+    );
+
+    expect(state.status).toBe('paused');
+    expect(resolveTimerState(state, T0 + 60_000).currentTime).toBe(200);
+  });
+});
+
+describe('setTimelineTime', () => {
+  it('moves a countdown back within its duration', () => {
+    const running = startTimeline(createTimerState('countdown', 300), T0);
+    const state = setTimelineTime(running, 120, T0 + 5_000);
+
+    expect(state.initialTime).toBe(300);
+    expect(resolveTimerState(state, T0 + 5_000).currentTime).toBe(120);
+  });
+
+  it('lengthens an idle countdown when time is added', () => {
+    const state = setTimelineTime(createTimerState('countdown', 300), 360, T0);
+
+    expect(state.status).toBe('idle');
+    expect(state.initialTime).toBe(360);
+    expect(state.currentTime).toBe(360);
+  });
+
+  it('lengthens a running countdown past its duration', () => {
+    const running = startTimeline(createTimerState('countdown', 300), T0);
+    const at = T0 + 5_000;
+    const shown = resolveTimerState(running, at).currentTime;
+    const state = setTimelineTime(running, shown + 60, at);
+
+    expect(state.status).toBe('running');
+    expect(resolveTimerState(state, at).currentTime).toBe(355);
+    expect(resolveTimerState(state, at + 10_000).currentTime).toBe(345);
+  });
+
+  it('never shows less than zero', () => {
+    const state = setTimelineTime(createTimerState('countdown', 300), -30, T0);
+    expect(state.currentTime).toBe(0);
+  });
+
+  it('sets the elapsed time of a count-up timer', () => {
+    const running = startTimeline(createTimerState('countup', 0), T0);
+    const state = setTimelineTime(running, 90, T0 + 1_000);
+
+    expect(resolveTimerState(state, T0 + 11_000).currentTime).toBe(100);
+  });
+});
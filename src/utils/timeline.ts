@@ -0,0 +1,186 @@
+import type { TimerState, TimerStatus } from '../types';
+
+// All timeline timestamps are in milliseconds of (estimated) server time, so
+// every client resolving the same state at the same moment gets the same answer.
+
+/**
+ * Milliseconds the timer has actually been running
+ */
+export function getElapsedMs(state: TimerState, now: number): number {
+  if (state.startedAt === null) return 0;
+
+  const end = state.pausedAt ?? now;
+  return Math.max(0, end - state.startedAt - state.accumulatedPause);
+}
+
+/**
+ * Fills in the derived currentTime/elapsedTime (whole seconds) for a moment in time
+ */
+export function resolveTimerState(state: TimerState, now: number): TimerState {
+  const elapsedTime = Math.floor(getElapsedMs(state, now) / 1000);
+  const currentTime =
+    state.type === 'countdown' ? state.initialTime - elapsedTime : elapsedTime;
+
+  if (state.elapsedTime === elapsedTime && state.currentTime === currentTime) {
+    return state;
+  }
+
+  return { ...state, elapsedTime, currentTime };
+}
+
+/**
+ * Starts a timer, resuming from where it was paused if it has a timeline
+ */
+export function startTimeline(state: TimerState, now: number): TimerState {
+  if (state.status === 'running') return state;
+
+  const canResume = state.startedAt !== null && state.pausedAt !== null;
+
+  return resolveTimerState(
+    {
+      ...state,
+      status: 'running' as TimerStatus,
+      startedAt: canResume ? state.startedAt : now,
+      pausedAt: null,
+      accumulatedPause: canResume
+        ? state.accumulatedPause + (now - (state.pausedAt as number))
+        : 0,
+    },
+    now
+  );
+}
+
+/**
+ * Pauses a running timer, freezing its elapsed time
+ */
+export function pauseTimeline(state: TimerState, now: number): TimerState {
+  if (state.status !== 'running') return state;
+
+  return resolveTimerState(
+    {
+      ...state,
+      status: 'paused' as TimerStatus,
+      pausedAt: now,
+    },
+    now
+  );
+}
+
+/**
+ * Clears the timeline and returns the timer to its idle state
+ */
+export function resetTimeline(state: TimerState): TimerState {
+  return {
+    ...state,
+    status: 'idle' as TimerStatus,
+    currentTime: state.type === 'countdown' ? state.initialTime : 0,
+    elapsedTime: 0,
+    startedAt: null,
+    pausedAt: null,
+    accumulatedPause: 0,
+  };
+}
+
+/**
+ * Moves the timeline so the timer shows a specific elapsed time (in seconds)
+ */
+export function setTimelineElapsed(
+  state: TimerState,
+  elapsedSeconds: number,
+  now: number
+): TimerState {
+  const elapsedMs = Math.max(0, elapsedSeconds) * 1000;
+
+  // An idle timer gets a paused timeline so it can be resumed from this point
+  if (state.startedAt === null) {
+    if (elapsedMs === 0) return state;
+
+    return resolveTimerState(
+      {
+        ...state,
+        startedAt: now - elapsedMs,
+        pausedAt: now,
+        accumulatedPause: 0,
+      },
+      now
+    );
+  }
+
+  const end = state.pausedAt ?? now;
+  return resolveTimerState(
+    {
+      ...state,
+      startedAt: end - elapsedMs - state.accumulatedPause,
+    },
+    now
+  );
+}
+
+/**
+ * Moves the timeline so the timer shows `seconds` - remaining time for a
+ * countdown, elapsed time otherwise. A countdown can't run backwards past its
+ * start, so showing more than its duration lengthens it instead.
+ */
+export function setTimelineTime(
+  state: TimerState,
+  seconds: number,
+  now: number
+): TimerState {
+  const shown = Math.max(0, seconds);
+  if (state.type !== 'countdown') {
+    return setTimelineElapsed(state, shown, now);
+  }
+
+  if (shown <= state.initialTime) {
+    return setTimelineElapsed(state, state.initialTime - shown, now);
+  }
+
+  const elapsedTime = Math.floor(getElapsedMs(state, now) / 1000);
+  return resolveTimerState({ ...state, initialTime: elapsedTime + shown }, now);
+}
+
+/**
+ * Creates an idle timeline for a new timer
+ */
+export function createTimerState(
+  type: TimerState['type'],
+  duration: number
+): TimerState {
+  return {
+    type,
+    status: 'idle',
+    currentTime: type === 'countdown' ? duration : 0,
+    initialTime: duration,
+    elapsedTime: 0,
+    startedAt: null,
+    pausedAt: null,
+    accumulatedPause: 0,
+  };
+}
+
+/**
+ * Older documents stored ticking values instead of a timeline; treat those as
+ * paused at their last known elapsed time.
+ */
+export function normalizeTimerState(
+  state: Partial<TimerState> & Pick<TimerState, 'type' | 'initialTime'>,
+  now: number
+): TimerState {
+  if (
+    state.startedAt !== undefined &&
+    state.pausedAt !== undefined &&
+    state.accumulatedPause !== undefined
+  ) {
+    return state as TimerState;
+  }
+
+  const base = createTimerState(state.type, state.initialTime);
+  const elapsed = state.elapsedTime ?? 0;
+  const migrated = setTimelineElapsed(base, elapsed, now);
+
+  return {
+    ...migrated,
+    status:
+      state.status === 'running' ? 'paused' : (state.status ?? base.status),
+  };
+}
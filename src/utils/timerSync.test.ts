@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import type { Timer, TimerCollection } from '../types';
+import { createTimerState } from './timeline';
+import {
+  applyTimerChanges,
+  diffTimerCollections,
+  isSameValue,
+  mergeRemoteTimers,
+} from './timerSync';
+
+function makeTimer(id: string, order: number, name = id): Timer {
+  return {
+    id,
+    name,
+    order,
+    state: createTimerState('countdown', 300),
+  };
+}
+
+const opening = makeTimer('opening', 1);
+const sermon = makeTimer('sermon', 2);
+const base: TimerCollection = {
+  timers: [opening, sermon],
+  activeTimerId: 'opening',
+};
+
+const rename = (
+  collection: TimerCollection,
+  id: string,
+  name: string
+): TimerCollection => ({
+  ...collection,
+  timers: collection.timers.map((t) => (t.id === id ? { ...t, name } : t)),
+});
+
+describe('isSameValue', () => {
+  it('ignores key order and undefined fields', () => {
+    expect(isSameValue({ a: 1, b: undefined, c: [1] }, { c: [1], a: 1 })).toBe(
+      true
+    );
+    expect(isSameValue({ a: 1 }, { a: 2 })).toBe(false);
+  });
+});
+
+describe('diffTimerCollections', () => {
+  it('lists changed and deleted timers, and a new active timer', () => {
+    const next: TimerCollection = {
+      timers: [{ ...opening, name: 'Welcome' }],
+      activeTimerId: null,
+    };
+
+    expect(diffTimerCollections(base, next)).toEqual({
+      timers: { opening: { ...opening, name: 'Welcome' }, sermon: null },
+      activeTimerId: null,
+    });
+  });
+
+  it('round-trips through applyTimerChanges', () => {
+    const next = rename(base, 'sermon', 'Message');
+    expect(applyTimerChanges(base, diffTimerCollections(base, next))).toEqual(
+      next
+    );
+  });
+});
+
+describe('mergeRemoteTimers', () => {
+  it('takes timers only someone else changed', () => {
+    const local = rename(base, 'opening', 'Welcome');
+    const remote = rename(base, 'sermon', 'Message');
+
+    expect(mergeRemoteTimers(base, local, remote).timers).toEqual([
+      { ...opening, name: 'Welcome' },
+      { ...sermon, name: 'Message' },
+    ]);
+  });
+
+  it('returns local itself when nothing new came in', () => {
+    const local = rename(base, 'opening', 'Welcome');
+    expect(mergeRemoteTimers(base, local, base)).toBe(local);
+  });
+
+  it('keeps a pending edit over an older snapshot once base caught up', () => {
+    // The write effect moves base to local as soon as the edit is queued,
+    // and a snapshot from before the write reaches the server comes in
+    const local = {
+      ...rename(base, 'opening', 'Welcome'),
+      activeTimerId: 'sermon',
+    };
+    const stale = rename(base, 'sermon', 'Message');
+    const pending = (field: string, key?: string) =>
+      field === 'activeTimerId' || key === 'opening';
+
+    const merged = mergeRemoteTimers(local, local, stale, pending);
+
+    expect(merged.timers).toEqual([
+      { ...opening, name: 'Welcome' },
+      { ...sermon, name: 'Message' },
+    ]);
+    expect(merged.activeTimerId).toBe('sermon');
+  });
+
+  it('takes the room again once the write is no longer pending', () => {
+    const local = rename(base, 'opening', 'Welcome');
+    expect(mergeRemoteTimers(local, local, base).timers[0].name).toBe(
+      'opening'
+    );
+  });
+});
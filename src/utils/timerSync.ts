@@ -0,0 +1,146 @@
+import type { Timer, TimerCollection } from '../types';
+
+/**
+ * What changed between two versions of a timer collection, timer by timer, so
+ * operators editing different timers don't overwrite each other
+ */
+export interface TimerChanges {
+  timers: Record<string, Timer | null>; // Added or changed, null if deleted
+  activeTimerId?: string | null; // Missing when unchanged
+}
+
+// Same data once stored - key order and undefined fields don't count, since
+// Firestore drops the one and doesn't keep the other
+export function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === undefined || b === undefined) return a === b;
+  if (a === null || b === null) return false;
+  if (typeof a !== 'object' || typeof b !== 'object') return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => isSameValue(item, b[i]))
+    );
+  }
+
+  const entriesOf = (value: object) =>
+    Object.entries(value).filter(([, v]) => v !== undefined);
+  const aEntries = entriesOf(a);
+  const bRecord = b as Record<string, unknown>;
+  return (
+    aEntries.length === entriesOf(b).length &&
+    aEntries.every(([key, value]) => isSameValue(value, bRecord[key]))
+  );
+}
+
+function byId(collection: TimerCollection | null): Map<string, Timer> {
+  return new Map((collection?.timers ?? []).map((t) => [t.id, t]));
+}
+
+export function hasTimerChanges(changes: TimerChanges): boolean {
+  return (
+    Object.keys(changes.timers).length > 0 ||
+    changes.activeTimerId !== undefined
+  );
+}
+
+/**
+ * Timers added, changed or deleted going from `base` to `next`
+ */
+export function diffTimerCollections(
+  base: TimerCollection | null,
+  next: TimerCollection
+): TimerChanges {
+  const before = byId(base);
+  const changes: TimerChanges = { timers: {} };
+
+  next.timers.forEach((timer) => {
+    const previous = before.get(timer.id);
+    if (previous !== timer && !isSameValue(previous, timer)) {
+      changes.timers[timer.id] = timer;
+    }
+    before.delete(timer.id);
+  });
+  before.forEach((_, id) => {
+    changes.timers[id] = null;
+  });
+
+  if ((base?.activeTimerId ?? null) !== next.activeTimerId) {
+    changes.activeTimerId = next.activeTimerId;
+  }
+  return changes;
+}
+
+/**
+ * `collection` with `changes` applied, timers kept in show order
+ */
+export function applyTimerChanges(
+  collection: TimerCollection,
+  changes: TimerChanges
+): TimerCollection {
+  const timers = byId(collection);
+  Object.entries(changes.timers).forEach(([id, timer]) => {
+    if (timer) {
+      timers.set(id, timer);
+    } else {
+      timers.delete(id);
+    }
+  });
+
+  return {
+    ...collection,
+    timers: Array.from(timers.values()).sort((a, b) => a.order - b.order),
+    activeTimerId:
+      changes.activeTimerId !== undefined
+        ? changes.activeTimerId
+        : collection.activeTimerId,
+  };
+}
+
+/**
+ * Three-way merge of the room's timers into this controller's. `base` is the
+ * collection both last agreed on. Whatever someone else changed since is
+ * taken, unless this controller changed the same timer too - its queued write
+ * settles that. `isPending` tells which timers (by id) and whether the active
+ * timer still have a write on its way; the room can't have seen those yet, so
+ * they are kept even once `base` has caught up with `local`. Returns `local`
+ * itself when nothing came from anyone else.
+ */
+export function mergeRemoteTimers(
+  base: TimerCollection | null,
+  local: TimerCollection,
+  remote: TimerCollection,
+  isPending: (
+    field: 'timers' | 'activeTimerId',
+    key?: string
+  ) => boolean = () => false
+): TimerCollection {
+  const baseTimers = byId(base);
+  const localTimers = byId(local);
+  const remoteChanges = diffTimerCollections(base, remote);
+  const changes: TimerChanges = { timers: {} };
+
+  Object.entries(remoteChanges.timers).forEach(([id, timer]) => {
+    const ours = localTimers.get(id);
+    const changedHere =
+      isPending('timers', id) ||
+      (ours !== baseTimers.get(id) && !isSameValue(ours, baseTimers.get(id)));
+    if (!changedHere && !isSameValue(ours, timer ?? undefined)) {
+      changes.timers[id] = timer;
+    }
+  });
+
+  if (
+    remoteChanges.activeTimerId !== undefined &&
+    !isPending('activeTimerId') &&
+    local.activeTimerId === (base?.activeTimerId ?? null) &&
+    local.activeTimerId !== remoteChanges.activeTimerId
+  ) {
+    changes.activeTimerId = remoteChanges.activeTimerId;
+  }
+
+  return hasTimerChanges(changes) ? applyTimerChanges(local, changes) : local;
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_WEBHOOK_TEMPLATE,
+  formatRemaining,
+  getWebhookSummary,
+  renderWebhookTemplate,
+  validateWebhookTemplate,
+  type WebhookVariables,
+} from './webhooks';
+
+const variables: WebhookVariables = {
+  event: 'overrun',
+  summary: 'Sermon is 2 minutes over',
+  timerId: 't1',
+  timerName: 'Sermon "part 1"',
+  remaining: '-02:05',
+  remainingSeconds: -125,
+  duration: 1800,
+  level: '',
+  overrunMinutes: 2,
+  message: '',
+  blackout: false,
+  roomId: 'room',
+  roomName: 'Main hall',
+  time: '2025-06-15T10:32:05.000Z',
+  timestamp: 1749983525000,
+};
+
+describe('formatRemaining', () => {
+  it('signs overrun time', () => {
+    expect(formatRemaining(299)).toBe('04:59');
+    expect(formatRemaining(-125)).toBe('-02:05');
+  });
+});
+
+describe('getWebhookSummary', () => {
+  it('describes each event in one line', () => {
+    expect(getWebhookSummary({ ...variables, timerName: 'Sermon' })).toBe(
+      'Sermon is 2 minutes over'
+    );
+    expect(
+      getWebhookSummary({ ...variables, event: 'overrun', overrunMinutes: 1 })
+    ).toMatch(/1 minute over$/);
+    expect(
+      getWebhookSummary({
+        ...variables,
+        event: 'threshold',
+        timerName: 'Sermon',
+        level: 'warning',
+        remaining: '5:00',
+      })
+    ).toBe('Sermon reached warning - 5:00 left');
+    expect(
+      getWebhookSummary({ ...variables, event: 'blackout', blackout: true })
+    ).toBe('Displays blacked out');
+  });
+});
+
+describe('validateWebhookTemplate', () => {
+  it('accepts JSON and explains anything else', () => {
+    expect(validateWebhookTemplate(DEFAULT_WEBHOOK_TEMPLATE)).toBeNull();
+    expect(validateWebhookTemplate('{"text": }')).toEqual(expect.any(String));
+  });
+});
+
+describe('renderWebhookTemplate', () => {
+  it('fills placeholders without breaking the JSON', () => {
+    const body = renderWebhookTemplate(DEFAULT_WEBHOOK_TEMPLATE, variables);
+
+    expect(JSON.parse(body)).toEqual({
+      text: 'Sermon is 2 minutes over',
+      event: 'overrun',
+      timer: 'Sermon "part 1"',
+      remaining: '-02:05',
+      room: 'Main hall',
+      at: '2025-06-15T10:32:05.000Z',
+    });
+  });
+
+  it('keeps the type of a lone placeholder', () => {
+    const body = renderWebhookTemplate(
+      '{"seconds": "{{remainingSeconds}}", "over": ["{{ blackout }}"], "label": "{{overrunMinutes}} min"}',
+      variables
+    );
+    expect(JSON.parse(body)).toEqual({
+      seconds: -125,
+      over: [false],
+      label: '2 min',
+    });
+  });
+
+  it('leaves unknown placeholders alone', () => {
+    expect(renderWebhookTemplate('{"x": "{{nope}}"}', variables)).toBe(
+      '{"x":"{{nope}}"}'
+    );
+  });
+
+  it('does not fill placeholders from the object prototype', () => {
+    expect(
+      renderWebhookTemplate(
+        '{"x": "{{constructor}}", "y": "a {{toString}}"}',
+        variables
+      )
+    ).toBe('{"x":"{{constructor}}","y":"a {{toString}}"}');
+  });
+});
@@ -0,0 +1,167 @@
+import type { WebhookEvent, WebhookTarget } from '../types';
+import { formatTime } from './time';
+
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string }[] = [
+  { value: 'start', label: 'Timer started' },
+  { value: 'pause', label: 'Timer paused' },
+  { value: 'expire', label: 'Countdown expired' },
+  { value: 'threshold', label: 'Warning / critical reached' },
+  { value: 'overrun', label: 'Each minute over' },
+  { value: 'message', label: 'Message shown' },
+  { value: 'blackout', label: 'Blackout on/off' },
+];
+
+// Slack and most chat tools show "text"; the other fields are for automations
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "text": "{{summary}}",
+  "event": "{{event}}",
+  "timer": "{{timerName}}",
+  "remaining": "{{remaining}}",
+  "room": "{{roomName}}",
+  "at": "{{time}}"
+}`;
+
+// Values a template can use as {{name}}
+export interface WebhookVariables {
+  event: WebhookEvent;
+  summary: string;
+  timerId: string;
+  timerName: string;
+  remaining: string; // "-02:05" once a countdown is over
+  remainingSeconds: number;
+  duration: number;
+  level: string; // "warning" / "critical" for threshold events
+  overrunMinutes: number;
+  message: string;
+  blackout: boolean;
+  roomId: string;
+  roomName: string;
+  time: string; // ISO 8601
+  timestamp: number;
+}
+
+export const WEBHOOK_VARIABLES: (keyof WebhookVariables)[] = [
+  'summary',
+  'event',
+  'timerName',
+  'remaining',
+  'remainingSeconds',
+  'duration',
+  'level',
+  'overrunMinutes',
+  'message',
+  'blackout',
+  'roomName',
+  'roomId',
+  'timerId',
+  'time',
+  'timestamp',
+];
+
+export function generateWebhookId(): string {
+  return `webhook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function createWebhookTarget(): WebhookTarget {
+  return {
+    id: generateWebhookId(),
+    name: 'New webhook',
+    url: '',
+    enabled: true,
+    events: ['expire', 'overrun'],
+    template: DEFAULT_WEBHOOK_TEMPLATE,
+  };
+}
+
+/**
+ * "04:59" / "-02:05" - remaining time as the displays show it
+ */
+export function formatRemaining(seconds: number): string {
+  const text = formatTime(Math.abs(seconds), { padHours: false });
+  return seconds < 0 ? `-${text}` : text;
+}
+
+/**
+ * One-line description of an event, e.g. "Sermon is 2 minutes over"
+ */
+export function getWebhookSummary(
+  variables: Omit<WebhookVariables, 'summary'>
+): string {
+  const { timerName, remaining, overrunMinutes } = variables;
+
+  switch (variables.event) {
+    case 'start':
+      return `${timerName} started (${remaining})`;
+    case 'pause':
+      return `${timerName} paused at ${remaining}`;
+    case 'expire':
+      return `${timerName} is out of time`;
+    case 'threshold':
+      return `${timerName} reached ${variables.level} - ${remaining} left`;
+    case 'overrun':
+      return `${timerName} is ${overrunMinutes} minute${overrunMinutes === 1 ? '' : 's'} over`;
+    case 'message':
+      return `Message shown: ${variables.message}`;
+    case 'blackout':
+      return variables.blackout ? 'Displays blacked out' : 'Blackout ended';
+  }
+}
+
+/**
+ * Checks a template is valid JSON. Returns an error message or null.
+ */
+export function validateWebhookTemplate(template: string): string | null {
+  try {
+    JSON.parse(template);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid JSON';
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Own keys only, so {{constructor}} isn't filled from the prototype
+// (Object.hasOwn needs a newer lib than the app targets)
+function isVariable(variables: WebhookVariables, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(variables, name);
+}
+
+function renderValue(value: unknown, variables: WebhookVariables): unknown {
+  if (typeof value === 'string') {
+    // A lone placeholder keeps its type, so "{{remainingSeconds}}" is a number
+    const whole = value.match(/^\{\{\s*(\w+)\s*\}\}$/);
+    if (whole && isVariable(variables, whole[1])) {
+      return variables[whole[1] as keyof WebhookVariables];
+    }
+    return value.replace(PLACEHOLDER, (match, name: string) =>
+      isVariable(variables, name)
+        ? String(variables[name as keyof WebhookVariables])
+        : match
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderValue(item, variables));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        renderValue(item, variables),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Fills a JSON template's {{placeholders}} and returns the request body.
+ * Placeholders are filled inside parsed strings, so values never break the
+ * JSON.
+ */
+export function renderWebhookTemplate(
+  template: string,
+  variables: WebhookVariables
+): string {
+  return JSON.stringify(renderValue(JSON.parse(template), variables));
+}
@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+// package.json version, defined in vite.config.ts
+declare const __APP_VERSION__: string;